@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the Figma REST API that serves recorded responses.
+ *
+ * Usage:
+ *   node scripts/figma-rest-standin.js --dir=./recordings [--port=3056]
+ *
+ * Then start the MCP server with:
+ *   --source=rest --file-key=<any> --api-base=http://localhost:3056
+ *
+ * Recordings directory layout:
+ *   file.json          Response of GET /v1/files/:key
+ *   variables.json     Response of GET /v1/files/:key/variables/local
+ *   nodes/<id>.json    Entry of GET /v1/files/:key/nodes for one node (`:` in the ID replaced by `-`)
+ *   images/<id>.<ext>  Rendered image for GET /v1/images/:key (`:` in the ID replaced by `-`)
+ */
+
+import { createServer } from 'http';
+import fs from 'fs';
+import path from 'path';
+
+const args = process.argv.slice(2);
+const getArg = (name, fallback) => {
+  const arg = args.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : fallback;
+};
+
+const recordingsDir = path.resolve(getArg('dir', './recordings'));
+const port = parseInt(getArg('port', '3056'), 10);
+
+const fileNameForId = (nodeId) => nodeId.replace(/:/g, '-');
+
+const mimeTypes = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf'
+};
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readRecording(relativePath) {
+  const filePath = path.join(recordingsDir, relativePath);
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : null;
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  console.log(`[standin] ${req.method} ${url.pathname}${url.search}`);
+
+  // Rendered images are downloaded without a token, like Figma's S3 URLs
+  if (url.pathname.startsWith('/__images/')) {
+    const fileName = path.basename(url.pathname);
+    const filePath = path.join(recordingsDir, 'images', fileName);
+    if (!fs.existsSync(filePath)) {
+      return sendJson(res, 404, { status: 404, err: 'Not found' });
+    }
+    res.writeHead(200, { 'Content-Type': mimeTypes[path.extname(fileName).slice(1)] || 'application/octet-stream' });
+    return res.end(fs.readFileSync(filePath));
+  }
+
+  if (!req.headers['x-figma-token']) {
+    return sendJson(res, 403, { status: 403, err: 'Invalid token' });
+  }
+
+  const nodesMatch = url.pathname.match(/^\/v1\/files\/[^/]+\/nodes$/);
+  if (nodesMatch) {
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+    const nodes = {};
+    for (const id of ids) {
+      nodes[id] = readRecording(path.join('nodes', `${fileNameForId(id)}.json`));
+    }
+    return sendJson(res, 200, { nodes });
+  }
+
+  if (/^\/v1\/files\/[^/]+\/variables\/local$/.test(url.pathname)) {
+    const variables = readRecording('variables.json');
+    return variables ? sendJson(res, 200, variables) : sendJson(res, 404, { status: 404, err: 'Not found' });
+  }
+
+  if (/^\/v1\/files\/[^/]+$/.test(url.pathname)) {
+    const file = readRecording('file.json');
+    return file ? sendJson(res, 200, file) : sendJson(res, 404, { status: 404, err: 'Not found' });
+  }
+
+  if (/^\/v1\/images\/[^/]+$/.test(url.pathname)) {
+    const format = url.searchParams.get('format') || 'png';
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+    const images = {};
+    for (const id of ids) {
+      const fileName = `${fileNameForId(id)}.${format}`;
+      images[id] = fs.existsSync(path.join(recordingsDir, 'images', fileName))
+        ? `http://localhost:${port}/__images/${fileName}`
+        : null;
+    }
+    return sendJson(res, 200, { err: null, images });
+  }
+
+  sendJson(res, 404, { status: 404, err: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(`[standin] Serving recorded Figma REST responses from ${recordingsDir} on http://localhost:${port}`);
+});
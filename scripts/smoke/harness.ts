@@ -0,0 +1,128 @@
+/**
+ * Shared helpers for the offline smoke scripts: check reporting, node builders for the
+ * hand-made documents and an in-memory MCP client connected to the tool server.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createFigmaServer } from '../../src/talk_to_figma_mcp/core/create-server';
+import { FigmaTransport } from '../../src/talk_to_figma_mcp/core/transport';
+
+// Console colors
+export const colors = {
+  reset: '\x1b[0m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  cyan: '\x1b[36m',
+  bold: '\x1b[1m'
+};
+
+let failures = 0;
+
+export function check(description: string, passed: boolean, detail?: unknown) {
+  if (passed) {
+    console.log(`${colors.green}[✓]${colors.reset} ${description}`);
+  } else {
+    failures++;
+    console.log(`${colors.red}[✗]${colors.reset} ${description}`);
+    if (detail !== undefined) console.log(`    ${JSON.stringify(detail)}`);
+  }
+}
+
+export function section(title: string) {
+  console.log(`\n${colors.cyan}${colors.bold}== ${title} ==${colors.reset}`);
+}
+
+// ---------------------------------------------------------------------------
+// Node builders
+// ---------------------------------------------------------------------------
+
+export const rgb = (r: number, g: number, b: number, a = 1) => ({ r, g, b, a });
+export const solid = (color: ReturnType<typeof rgb>, opacity?: number) => ({ type: 'SOLID', color, ...(opacity !== undefined && { opacity }) });
+export const box = (x: number, y: number, width: number, height: number) => ({ absoluteBoundingBox: { x, y, width, height } });
+
+export function text(id: string, characters: string, fontSize: number, fontWeight = 400, x = 0, y = 0) {
+  return {
+    id,
+    name: characters,
+    type: 'TEXT',
+    characters,
+    style: { fontFamily: 'Inter', fontSize, fontWeight, lineHeightPx: fontSize * 1.4 },
+    fills: [solid(rgb(0, 0, 0))],
+    ...box(x, y, 200, fontSize * 1.4)
+  };
+}
+
+export function findNode(node: any, nodeId: string): any {
+  if (node.id === nodeId) return node;
+  for (const child of node.children || []) {
+    const found = findNode(child, nodeId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * `get_node_info` response that serves the nodes of a hand-made document
+ */
+export function nodeInfoFrom(root: any) {
+  return (params: { nodeId: string }) => {
+    const node = findNode(root, params.nodeId);
+    if (!node) throw new Error(`Node not found: ${params.nodeId}`);
+    return structuredClone(node);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+const clients: Client[] = [];
+
+/**
+ * Connects an in-memory MCP client to a tool server that uses the given transport
+ */
+export async function connectTools(transport: FigmaTransport) {
+  const server = createFigmaServer(transport);
+  const client = new Client({ name: 'smoke-tools', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  clients.push(client);
+
+  /**
+   * Calls a tool and returns the text items of its response
+   */
+  async function callToolTexts(name: string, args: Record<string, unknown>): Promise<string[]> {
+    const result = await client.callTool({ name, arguments: args });
+    return (result.content as { type: string; text?: string }[])
+      .filter(item => item.type === 'text')
+      .map(item => item.text || '');
+  }
+
+  /**
+   * Calls a tool and parses its JSON payload (the last text item of the response)
+   */
+  async function callTool(name: string, args: Record<string, unknown>): Promise<any> {
+    const texts = await callToolTexts(name, args);
+    const payload = texts[texts.length - 1];
+    try {
+      return JSON.parse(payload);
+    } catch {
+      throw new Error(`${name} did not return JSON: ${payload.slice(0, 200)}`);
+    }
+  }
+
+  return { callTool, callToolTexts };
+}
+
+/**
+ * Closes the clients, prints the summary and exits with a non-zero code if any check failed
+ */
+export async function finish(): Promise<never> {
+  await Promise.all(clients.map(client => client.close()));
+  console.log(failures === 0
+    ? `\n${colors.green}${colors.bold}All smoke checks passed${colors.reset}`
+    : `\n${colors.red}${colors.bold}${failures} smoke check(s) failed${colors.reset}`);
+  process.exit(failures === 0 ? 0 : 1);
+}
@@ -0,0 +1,95 @@
+#!/usr/bin/env bun
+
+/**
+ * Smoke test for modular-scale detection: extract_design_tokens finds the spacing grid and the
+ * type scale of a small document and reports the off-scale values with their suggestions.
+ *
+ * Usage: bun scripts/smoke/modular-scale.smoke.ts
+ */
+
+import { MockTransport } from '../../src/talk_to_figma_mcp/core/mock-transport';
+import { box, check, connectTools, finish, nodeInfoFrom, rgb, section, solid, text } from './harness';
+
+const page = {
+  id: '0:1',
+  name: 'Page',
+  type: 'CANVAS',
+  children: [
+    {
+      id: '1:1',
+      name: 'Home',
+      type: 'FRAME',
+      layoutMode: 'VERTICAL',
+      itemSpacing: 24,
+      paddingLeft: 16,
+      paddingRight: 16,
+      paddingTop: 16,
+      paddingBottom: 16,
+      fills: [solid(rgb(1, 1, 1))],
+      ...box(0, 0, 800, 600),
+      children: [
+        // Major third from 16px: 12.8, 16, 20, 25, 31.25
+        text('1:2', 'Welcome', 31, 700),
+        text('1:3', 'Section', 25, 700),
+        text('1:4', 'Intro', 16),
+        // Off the type scale on purpose: 15px should be reported with 16px as suggestion
+        text('1:5', 'Note', 15),
+        {
+          id: '1:10',
+          name: 'Card',
+          type: 'FRAME',
+          layoutMode: 'VERTICAL',
+          itemSpacing: 8,
+          paddingLeft: 16,
+          paddingRight: 16,
+          paddingTop: 16,
+          paddingBottom: 16,
+          fills: [solid(rgb(1, 1, 1))],
+          ...box(0, 100, 300, 200),
+          children: [text('1:11', 'Card', 20, 700), text('1:12', 'Description', 16), text('1:13', 'Caption', 12)]
+        },
+        {
+          // Off the 8px grid on purpose: 13px should be reported with 16px as suggestion
+          id: '1:30',
+          name: 'Toolbar',
+          type: 'FRAME',
+          layoutMode: 'HORIZONTAL',
+          itemSpacing: 13,
+          fills: [],
+          ...box(0, 440, 360, 40),
+          children: [text('1:31', 'Filter', 16), text('1:32', 'Sort', 16)]
+        }
+      ]
+    }
+  ]
+};
+
+const transport = new MockTransport({
+  get_node_info: nodeInfoFrom(page),
+  get_styles: { colors: [], texts: [], effects: [], grids: [] },
+  get_variables: { collections: [], variables: [] }
+});
+const { callTool } = await connectTools(transport);
+
+section('Scale detection');
+
+const { scaleAnalysis } = await callTool('extract_design_tokens', { nodeId: '0:1', format: 'css' });
+check('spacing grid is 8px', scaleAnalysis?.spacing?.base === 8, scaleAnalysis?.spacing);
+check(
+  '13px spacing is off-scale with 16px as suggestion',
+  scaleAnalysis?.spacing?.offScale.some((entry: any) =>
+    entry.value === '13px' && entry.suggestion === '16px' && entry.nodeIds.includes('1:30')
+  ),
+  scaleAnalysis?.spacing?.offScale
+);
+check('type scale is a major third from 16px', scaleAnalysis?.typography?.ratioName === 'major-third' &&
+  scaleAnalysis.typography.base === '16px', scaleAnalysis?.typography);
+check(
+  '15px text is off-scale with 16px as suggestion',
+  scaleAnalysis?.typography?.offScale.some((entry: any) =>
+    entry.value === '15px' && entry.suggestion === '16px' && entry.nodeIds.includes('1:5')
+  ),
+  scaleAnalysis?.typography?.offScale
+);
+
+await finish();
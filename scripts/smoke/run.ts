@@ -0,0 +1,29 @@
+#!/usr/bin/env bun
+
+/**
+ * Runs every offline smoke script in this directory (`*.smoke.ts`) one after another and
+ * exits with a non-zero code if any of them fails.
+ *
+ * Usage: bun run test (or bun scripts/smoke/run.ts)
+ */
+
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { colors } from './harness';
+
+const smokeDir = path.dirname(fileURLToPath(import.meta.url));
+const scripts = fs.readdirSync(smokeDir).filter(file => file.endsWith('.smoke.ts')).sort();
+
+const failed: string[] = [];
+for (const script of scripts) {
+  console.log(`\n${colors.bold}▶ ${script}${colors.reset}`);
+  const result = spawnSync(process.execPath, [path.join(smokeDir, script)], { stdio: 'inherit' });
+  if (result.status !== 0) failed.push(script);
+}
+
+console.log(failed.length === 0
+  ? `\n${colors.green}${colors.bold}${scripts.length} smoke script(s) passed${colors.reset}`
+  : `\n${colors.red}${colors.bold}Failed: ${failed.join(', ')}${colors.reset}`);
+process.exit(failed.length === 0 ? 0 : 1);
@@ -0,0 +1,176 @@
+#!/usr/bin/env bun
+
+/**
+ * Smoke test for the token drift check: tokens written by extract_design_tokens in every
+ * format are read back by check_token_drift with no drift, renames are reported as such and
+ * hand-written files with unterminated declarations or Sass lists are still compared.
+ *
+ * Usage: bun scripts/smoke/token-drift.smoke.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockTransport } from '../../src/talk_to_figma_mcp/core/mock-transport';
+import { box, check, connectTools, finish, nodeInfoFrom, rgb, section, solid, text } from './harness';
+
+const page = {
+  id: '0:1',
+  name: 'Page',
+  type: 'CANVAS',
+  children: [
+    {
+      id: '1:1',
+      name: 'Home',
+      type: 'FRAME',
+      layoutMode: 'VERTICAL',
+      itemSpacing: 24,
+      paddingLeft: 16,
+      paddingRight: 16,
+      paddingTop: 16,
+      paddingBottom: 16,
+      cornerRadius: 8,
+      fills: [solid(rgb(1, 1, 1))],
+      ...box(0, 0, 800, 600),
+      children: [text('1:2', 'Welcome', 32, 700), text('1:3', 'Intro', 16)]
+    }
+  ]
+};
+
+const styles = {
+  colors: [
+    { id: 'S:1', key: 'k1', name: 'brand/primary', paints: [solid(rgb(0.1, 0.45, 0.91))] },
+    { id: 'S:2', key: 'k2', name: 'brand/secondary', paints: [solid(rgb(0.9, 0.2, 0.2))] }
+  ],
+  texts: [
+    {
+      id: 'S:3',
+      key: 'k3',
+      name: 'heading/h1',
+      style: {
+        fontFamily: 'Inter',
+        fontStyle: 'Bold',
+        fontWeight: 700,
+        fontSize: 32,
+        lineHeight: { unit: 'PIXELS', value: 40 },
+        letterSpacing: { unit: 'PERCENT', value: -2 }
+      }
+    }
+  ],
+  effects: [
+    {
+      id: 'S:4',
+      key: 'k4',
+      name: 'shadow/sm',
+      effects: [{ type: 'DROP_SHADOW', visible: true, color: rgb(0, 0, 0, 0.1), offset: { x: 0, y: 1 }, radius: 2, spread: 0 }]
+    }
+  ],
+  grids: []
+};
+
+const variables = {
+  collections: [
+    {
+      id: 'VC:1',
+      name: 'Colors',
+      modes: [{ modeId: 'm1', name: 'Light' }, { modeId: 'm2', name: 'Dark' }],
+      defaultModeId: 'm1',
+      variableIds: ['V:1', 'V:2', 'V:3']
+    }
+  ],
+  variables: [
+    { id: 'V:1', name: 'color/bg/default', variableCollectionId: 'VC:1', resolvedType: 'COLOR', valuesByMode: { m1: rgb(1, 1, 1), m2: rgb(0.07, 0.07, 0.07) } },
+    { id: 'V:2', name: 'color/text/default', variableCollectionId: 'VC:1', resolvedType: 'COLOR', valuesByMode: { m1: rgb(0, 0, 0), m2: rgb(1, 1, 1) } },
+    {
+      id: 'V:3',
+      name: 'color/surface',
+      variableCollectionId: 'VC:1',
+      resolvedType: 'COLOR',
+      valuesByMode: { m1: { type: 'VARIABLE_ALIAS', id: 'V:1' }, m2: { type: 'VARIABLE_ALIAS', id: 'V:1' } }
+    }
+  ]
+};
+
+const transport = new MockTransport({
+  get_node_info: nodeInfoFrom(page),
+  get_styles: styles,
+  get_variables: variables
+});
+const { callTool } = await connectTools(transport);
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-smoke-'));
+
+try {
+  section('Token round trip (extract_design_tokens → check_token_drift)');
+
+  const formats: [string, string][] = [
+    ['css', 'css'],
+    ['scss', 'scss'],
+    ['json', 'json'],
+    ['js', 'js'],
+    ['ts', 'ts'],
+    ['dtcg', 'json']
+  ];
+  for (const [format, extension] of formats) {
+    const extracted = await callTool('extract_design_tokens', { nodeId: '0:1', format });
+    const fileName = Object.keys(extracted.code).find(name => name === format || name.endsWith(`.${extension}`));
+    const filePath = path.join(tmpDir, `tokens-${format}.${extension}`);
+    fs.writeFileSync(filePath, fileName ? extracted.code[fileName] : '');
+
+    const drift = await callTool('check_token_drift', { nodeId: '0:1', filePath });
+    const { summary } = drift;
+    check(
+      `${format}: ${summary.inSync}/${summary.designTokens} tokens in sync`,
+      summary.inSync === summary.designTokens &&
+        summary.missingInCode === 0 && summary.unusedInCode === 0 &&
+        summary.valueMismatches === 0 && summary.nearMisses === 0 && summary.renamed === 0 &&
+        drift.skipped === undefined,
+      { summary, skipped: drift.skipped }
+    );
+  }
+
+  const extracted = await callTool('extract_design_tokens', { nodeId: '0:1', format: 'css' });
+  const css: string = extracted.code.css;
+  check('variable aliases are written as var() references', css.includes('--color-surface: var(--color-bg-default);'));
+  check('dark mode values are written in a theme block', /\[data-theme="dark"\][^}]*--color-bg-default: #121212;/.test(css));
+
+  // -------------------------------------------------------------------------
+  section('Hand-written token files');
+
+  // A renamed token in code is reported as a rename, not as missing + unused
+  const renamedPath = path.join(tmpDir, 'tokens-renamed.css');
+  fs.writeFileSync(renamedPath, css.replace('--brand-primary:', '--brand-main:'));
+  const renamed = await callTool('check_token_drift', { nodeId: '0:1', filePath: renamedPath });
+  check(
+    'renamed token is reported as a rename',
+    renamed.renamed.some((entry: any) => entry.designToken === '--brand-primary' && entry.codeToken === '--brand-main') &&
+      renamed.summary.missingInCode === 0,
+    renamed.summary
+  );
+
+  // The last declaration of a block may omit the semicolon before the closing brace
+  const unterminatedPath = path.join(tmpDir, 'tokens-unterminated.css');
+  fs.writeFileSync(unterminatedPath, css.replace(/;(\s*)\}/g, '$1}'));
+  const unterminated = await callTool('check_token_drift', { nodeId: '0:1', filePath: unterminatedPath });
+  check(
+    'declarations without a trailing semicolon are read',
+    unterminated.summary.inSync === unterminated.summary.designTokens && unterminated.summary.missingInCode === 0,
+    unterminated.summary
+  );
+
+  // Sass lists are not tokens: they are skipped and reported instead of aborting the check
+  const scss = (await callTool('extract_design_tokens', { nodeId: '0:1', format: 'scss' })).code.scss;
+  const listPath = path.join(tmpDir, 'tokens-list.scss');
+  fs.writeFileSync(listPath, `${scss}\n$breakpoints: (0, 576px, 768px);\n`);
+  const withList = await callTool('check_token_drift', { nodeId: '0:1', filePath: listPath });
+  check(
+    'a Sass list is skipped and reported without aborting the check',
+    withList.summary?.inSync === withList.summary?.designTokens &&
+      withList.skipped?.length === 1 && withList.skipped[0].name === '--breakpoints',
+    withList.summary ? { summary: withList.summary, skipped: withList.skipped } : withList
+  );
+} finally {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+}
+
+await finish();
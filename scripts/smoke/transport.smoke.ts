@@ -0,0 +1,45 @@
+#!/usr/bin/env bun
+
+/**
+ * Smoke test for the transport abstraction: the tools run against a MockTransport,
+ * send their commands through it and report transport errors as tool errors.
+ *
+ * Usage: bun scripts/smoke/transport.smoke.ts
+ */
+
+import { MockTransport } from '../../src/talk_to_figma_mcp/core/mock-transport';
+import { box, check, connectTools, finish, nodeInfoFrom, rgb, section, solid } from './harness';
+
+const page = {
+  id: '0:1',
+  name: 'Page',
+  type: 'CANVAS',
+  children: [
+    { id: '1:1', name: 'Header', type: 'FRAME', fills: [solid(rgb(1, 1, 1))], ...box(0, 0, 800, 64), children: [] }
+  ]
+};
+
+const transport = new MockTransport({ get_node_info: nodeInfoFrom(page) });
+const { callTool, callToolTexts } = await connectTools(transport);
+
+section('Mock transport');
+
+const node = await callTool('get_node_info', { nodeId: '1:1' });
+check('get_node_info returns the node served by the transport', node.id === '1:1' && node.name === 'Header', node);
+check(
+  'the tool sends get_node_info with the requested node ID',
+  transport.sentCommands.some(sent => sent.command === 'get_node_info' && (sent.params as any).nodeId === '1:1'),
+  transport.sentCommands
+);
+
+const missing = await callToolTexts('get_node_info', { nodeId: '9:9' });
+check('a transport error is returned as the tool response', missing.join('\n').includes('Node not found: 9:9'), missing);
+
+const unregistered = await callToolTexts('get_styles', {});
+check(
+  'a command without a registered response fails the tool instead of the server',
+  unregistered.join('\n').includes('No mock response registered for command: get_styles'),
+  unregistered
+);
+
+await finish();
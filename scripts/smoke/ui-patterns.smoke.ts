@@ -0,0 +1,161 @@
+#!/usr/bin/env bun
+
+/**
+ * Smoke test for the UI pattern detectors: cards, tables and modals are found in a small
+ * document, and look-alikes (a dialog, a screen, dividers between cards) are not confused.
+ *
+ * Usage: bun scripts/smoke/ui-patterns.smoke.ts
+ */
+
+import { MockTransport } from '../../src/talk_to_figma_mcp/core/mock-transport';
+import { box, check, connectTools, finish, nodeInfoFrom, rgb, section, solid, text } from './harness';
+
+function tableRow(id: number, y: number, cells: string[], fontWeight: number) {
+  return {
+    id: `1:${id}`,
+    name: 'Row',
+    type: 'FRAME',
+    layoutMode: 'HORIZONTAL',
+    fills: [],
+    ...box(0, y, 360, 32),
+    children: cells.map((cell, column) => ({
+      id: `1:${id}${column}`,
+      name: 'Cell',
+      type: 'FRAME',
+      fills: [],
+      ...box(column * 120, y, 120, 32),
+      children: [text(`1:${id}${column}t`, cell, 12, fontWeight, column * 120 + 8, y + 6)]
+    }))
+  };
+}
+
+function card(id: string, y: number) {
+  return {
+    id,
+    name: 'Card',
+    type: 'FRAME',
+    layoutMode: 'VERTICAL',
+    itemSpacing: 8,
+    paddingLeft: 16,
+    paddingRight: 16,
+    paddingTop: 16,
+    paddingBottom: 16,
+    cornerRadius: 8,
+    fills: [solid(rgb(1, 1, 1))],
+    ...box(0, y, 300, 200),
+    children: [
+      { id: `${id}i`, name: 'Image', type: 'RECTANGLE', fills: [{ type: 'IMAGE' }], ...box(0, y, 300, 100) },
+      text(`${id}a`, 'Card', 20, 700, 16, y + 110),
+      text(`${id}b`, 'Description', 16, 400, 16, y + 150)
+    ]
+  };
+}
+
+// Thin translucent line between list items: it must not be taken for a scrim over the cards
+function divider(id: string, y: number) {
+  return { id, name: 'Divider', type: 'RECTANGLE', fills: [solid(rgb(0, 0, 0, 0.12))], ...box(0, y, 300, 1) };
+}
+
+const page = {
+  id: '0:1',
+  name: 'Page',
+  type: 'CANVAS',
+  children: [
+    {
+      id: '1:1',
+      name: 'Home',
+      type: 'FRAME',
+      layoutMode: 'VERTICAL',
+      itemSpacing: 24,
+      fills: [solid(rgb(1, 1, 1))],
+      ...box(0, 0, 800, 600),
+      children: [
+        text('1:2', 'Welcome', 31, 700),
+        card('1:10', 100),
+        {
+          id: '1:20',
+          name: 'Table',
+          type: 'FRAME',
+          layoutMode: 'VERTICAL',
+          itemSpacing: 0,
+          fills: [],
+          ...box(0, 320, 360, 96),
+          children: [
+            tableRow(21, 320, ['Name', 'Role', 'Status'], 700),
+            tableRow(22, 352, ['Ana', 'Admin', 'Active'], 400),
+            tableRow(23, 384, ['Luis', 'Editor', 'Invited'], 400)
+          ]
+        }
+      ]
+    },
+    {
+      id: '2:1',
+      name: 'Modal',
+      type: 'FRAME',
+      fills: [solid(rgb(1, 1, 1))],
+      ...box(1000, 0, 800, 600),
+      children: [
+        { id: '2:2', name: 'Overlay', type: 'RECTANGLE', fills: [solid(rgb(0, 0, 0), 0.5)], ...box(1000, 0, 800, 600) },
+        {
+          id: '2:3',
+          name: 'Dialog',
+          type: 'FRAME',
+          cornerRadius: 12,
+          fills: [solid(rgb(1, 1, 1))],
+          effects: [{ type: 'DROP_SHADOW', visible: true, radius: 8, offset: { x: 0, y: 2 }, color: rgb(0, 0, 0, 0.2) }],
+          ...box(1200, 150, 400, 300),
+          children: [
+            text('2:4', 'Delete item?', 25, 700, 1220, 170),
+            text('2:5', 'This cannot be undone', 16, 400, 1220, 210),
+            {
+              id: '2:6',
+              name: 'Button',
+              type: 'FRAME',
+              cornerRadius: 8,
+              fills: [solid(rgb(0.2, 0.3, 0.9))],
+              ...box(1440, 390, 140, 40),
+              children: [text('2:7', 'Delete', 16, 600, 1450, 400)]
+            }
+          ]
+        }
+      ]
+    },
+    {
+      id: '3:1',
+      name: 'List',
+      type: 'FRAME',
+      layoutMode: 'VERTICAL',
+      fills: [],
+      ...box(2000, 0, 300, 660),
+      children: [card('3:10', 0), divider('3:20', 209), card('3:11', 220), divider('3:21', 429), card('3:12', 440)]
+    }
+  ]
+};
+
+const transport = new MockTransport({ get_node_info: nodeInfoFrom(page) });
+const { callTool } = await connectTools(transport);
+
+section('UI pattern detectors');
+
+const { patterns } = await callTool('detect_ui_patterns', { nodeId: '0:1', patternTypes: ['cards', 'tables', 'modals'] });
+const found = (type: string): any[] => patterns.find((group: any) => group.type === type)?.patterns || [];
+const ids = (type: string) => found(type).map(pattern => pattern.id);
+
+check('card is detected', ids('cards').includes('1:10'), ids('cards'));
+check('screen containing a card is not detected as a card', !ids('cards').includes('1:1'), ids('cards'));
+check('modal dialog is not detected as a card', !ids('cards').includes('2:3'), ids('cards'));
+check(
+  'cards separated by dividers are detected as cards',
+  ['3:10', '3:11', '3:12'].every(id => ids('cards').includes(id)),
+  ids('cards')
+);
+check('a list with dividers is not detected as a modal', !ids('modals').includes('3:1'), ids('modals'));
+check('table is detected with 3 rows and 3 columns', found('tables').some(table =>
+  table.id === '1:20' && table.rows === 3 && table.columns === 3
+), found('tables'));
+check('screen with mixed children is not detected as a table', !ids('tables').includes('1:1'), ids('tables'));
+check('modal is detected with its scrim and surface', found('modals').some(modal =>
+  modal.id === '2:1' && modal.scrimId === '2:2' && modal.surfaceId === '2:3'
+), found('modals'));
+
+await finish();
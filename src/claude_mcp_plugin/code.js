@@ -128,7 +128,7 @@ async function handleCommand(command, params) {
   switch (command) {
     // Funciones de análisis y lectura (mantenidas)
     case "get_document_info":
-      return await getDocumentInfo();
+      return await getDocumentInfo(params);
     case "get_selection":
       return await getSelection();
     case "get_node_info":
@@ -143,6 +143,8 @@ async function handleCommand(command, params) {
       return await getNodesInfo(params.nodeIds);
     case "get_styles":
       return await getStyles();
+    case "get_variables":
+      return await getVariables();
     case "get_local_components":
       return await getLocalComponents();
     case "get_remote_components":
@@ -162,30 +164,191 @@ async function handleCommand(command, params) {
 
 // Command implementations
 
-async function getDocumentInfo() {
+async function getDocumentInfo(params) {
+  const { pageIds, allPages = false, commandId = generateCommandId() } = params || {};
+
   await figma.currentPage.loadAsync();
   const page = figma.currentPage;
-  return {
-    name: page.name,
-    id: page.id,
-    type: page.type,
-    children: page.children.map((node) => ({
-      id: node.id,
-      name: node.name,
-      type: node.type,
-    })),
-    currentPage: {
-      id: page.id,
+  const allDocumentPages = figma.root.children;
+
+  // Sin páginas solicitadas se mantiene la respuesta de la página actual
+  if (!allPages && !(Array.isArray(pageIds) && pageIds.length > 0)) {
+    return {
       name: page.name,
-      childCount: page.children.length,
-    },
-    pages: [
-      {
+      id: page.id,
+      type: page.type,
+      children: page.children.map((node) => ({
+        id: node.id,
+        name: node.name,
+        type: node.type,
+      })),
+      currentPage: {
         id: page.id,
         name: page.name,
         childCount: page.children.length,
       },
-    ],
+      // Con acceso dinámico solo la página actual tiene sus hijos cargados
+      pages: allDocumentPages.map((p) => ({
+        id: p.id,
+        name: p.name,
+        childCount: p === page ? p.children.length : null,
+      })),
+    };
+  }
+
+  return await walkDocumentPages(params, commandId);
+}
+
+// Recorre las páginas solicitadas por lotes, enviando un resumen de cada página como progreso
+async function walkDocumentPages(params, commandId) {
+  const { pageIds, offset = 0, limit, depth } = params || {};
+  const allDocumentPages = figma.root.children;
+
+  let selectedPages = allDocumentPages;
+  if (Array.isArray(pageIds) && pageIds.length > 0) {
+    selectedPages = pageIds.map((pageId) => {
+      const selected = allDocumentPages.find((p) => p.id === pageId);
+      if (!selected) {
+        throw new Error(`Page not found with ID: ${pageId}`);
+      }
+      return selected;
+    });
+  }
+
+  const end = limit ? Math.min(offset + limit, selectedPages.length) : selectedPages.length;
+  const batch = selectedPages.slice(offset, end);
+
+  sendProgressUpdate(
+    commandId,
+    'get_document_info',
+    'started',
+    0,
+    batch.length,
+    0,
+    `Starting walk of ${batch.length} of ${selectedPages.length} pages`,
+    null
+  );
+
+  const pages = [];
+  for (let i = 0; i < batch.length; i++) {
+    const documentPage = batch[i];
+    try {
+      await documentPage.loadAsync();
+
+      const children = [];
+      for (const child of documentPage.children) {
+        const response = await child.exportAsync({ format: "JSON_REST_V1" });
+        children.push(limitNodeDepth(response.document, depth));
+      }
+
+      const pageNode = {
+        id: documentPage.id,
+        name: documentPage.name,
+        type: documentPage.type,
+        children,
+      };
+      pages.push(pageNode);
+
+      sendProgressUpdate(
+        commandId,
+        'get_document_info',
+        'in_progress',
+        Math.round(((i + 1) / batch.length) * 100),
+        batch.length,
+        i + 1,
+        `Processed page "${documentPage.name}"`,
+        { page: summarizePage(pageNode) }
+      );
+    } catch (error) {
+      sendProgressUpdate(
+        commandId,
+        'get_document_info',
+        'error',
+        0,
+        batch.length,
+        i,
+        `Error walking page "${documentPage.name}": ${error.message}`,
+        { error: error.message }
+      );
+      throw new Error(`Error walking page "${documentPage.name}": ${error.message}`);
+    }
+  }
+
+  sendProgressUpdate(
+    commandId,
+    'get_document_info',
+    'completed',
+    100,
+    batch.length,
+    batch.length,
+    `Walk complete. Processed ${batch.length} pages.`,
+    null
+  );
+
+  return {
+    name: figma.root.name,
+    id: figma.root.id,
+    type: figma.root.type,
+    children: pages,
+    currentPage: {
+      id: figma.currentPage.id,
+      name: figma.currentPage.name,
+      childCount: figma.currentPage.children.length,
+    },
+    pages: allDocumentPages.map((p) => ({
+      id: p.id,
+      name: p.name,
+      childCount: p === figma.currentPage || pages.some((walked) => walked.id === p.id)
+        ? p.children.length
+        : null,
+    })),
+    pagination: {
+      offset,
+      limit: limit || null,
+      totalPages: selectedPages.length,
+      nextOffset: end < selectedPages.length ? end : null,
+    },
+  };
+}
+
+// Recorta un árbol JSON_REST_V1 a la profundidad indicada (sin límite si no se indica)
+function limitNodeDepth(node, depth) {
+  if (depth === undefined || depth === null || !node) {
+    return node;
+  }
+  if (!Array.isArray(node.children)) {
+    return node;
+  }
+  if (depth <= 0) {
+    const trimmed = Object.assign({}, node, { childCount: node.children.length });
+    delete trimmed.children;
+    return trimmed;
+  }
+  return Object.assign({}, node, {
+    children: node.children.map((child) => limitNodeDepth(child, depth - 1)),
+  });
+}
+
+// Resume el contenido de una página recorrida: número de nodos y nodos por tipo
+function summarizePage(pageNode) {
+  const nodeTypes = {};
+  let nodeCount = 0;
+
+  const countNodes = (node) => {
+    nodeCount++;
+    nodeTypes[node.type] = (nodeTypes[node.type] || 0) + 1;
+    if (Array.isArray(node.children)) {
+      node.children.forEach(countNodes);
+    }
+  };
+  pageNode.children.forEach(countNodes);
+
+  return {
+    id: pageNode.id,
+    name: pageNode.name,
+    childCount: pageNode.children.length,
+    nodeCount,
+    nodeTypes,
   };
 }
 
@@ -252,33 +415,138 @@ async function getStyles() {
     grids: await figma.getLocalGridStylesAsync(),
   };
 
+  // Contrato compartido con el servidor (FigmaStyles en types/figma-types.ts)
   return {
     colors: styles.colors.map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
-      paint: style.paints[0],
+      description: style.description,
+      paints: style.paints,
     })),
     texts: styles.texts.map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
-      fontSize: style.fontSize,
-      fontName: style.fontName,
+      description: style.description,
+      style: {
+        fontFamily: style.fontName.family,
+        fontStyle: style.fontName.style,
+        fontWeight: fontWeightFromStyleName(style.fontName.style),
+        fontSize: style.fontSize,
+        lineHeight: style.lineHeight,
+        letterSpacing: style.letterSpacing,
+        paragraphSpacing: style.paragraphSpacing,
+        paragraphIndent: style.paragraphIndent,
+        textCase: style.textCase,
+        textDecoration: style.textDecoration,
+      },
     })),
     effects: styles.effects.map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
+      description: style.description,
+      effects: style.effects,
     })),
     grids: styles.grids.map((style) => ({
       id: style.id,
       name: style.name,
       key: style.key,
+      description: style.description,
+      layoutGrids: style.layoutGrids,
     })),
   };
 }
 
+// Deduce el peso numérico de la fuente a partir del nombre de su estilo ("Semi Bold Italic" -> 600)
+function fontWeightFromStyleName(styleName) {
+  const normalized = (styleName || "").toLowerCase().replace(/[\s_-]/g, "").replace("italic", "");
+  const weights = [
+    ["thin", 100], ["hairline", 100],
+    ["extralight", 200], ["ultralight", 200],
+    ["light", 300],
+    ["medium", 500],
+    ["semibold", 600], ["demibold", 600],
+    ["extrabold", 800], ["ultrabold", 800],
+    ["bold", 700],
+    ["black", 900], ["heavy", 900],
+  ];
+  for (const [name, weight] of weights) {
+    if (normalized.includes(name)) {
+      return weight;
+    }
+  }
+  return 400;
+}
+
+async function getVariables() {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const variables = await figma.variables.getLocalVariablesAsync();
+
+  const serializeCollection = (collection) => ({
+    id: collection.id,
+    name: collection.name,
+    key: collection.key,
+    modes: collection.modes.map((mode) => ({ modeId: mode.modeId, name: mode.name })),
+    defaultModeId: collection.defaultModeId,
+    variableIds: collection.variableIds,
+    remote: collection.remote,
+  });
+
+  const serializeVariable = (variable) => ({
+    id: variable.id,
+    name: variable.name,
+    key: variable.key,
+    description: variable.description,
+    variableCollectionId: variable.variableCollectionId,
+    resolvedType: variable.resolvedType,
+    valuesByMode: variable.valuesByMode,
+    scopes: variable.scopes,
+    codeSyntax: variable.codeSyntax,
+    hiddenFromPublishing: variable.hiddenFromPublishing,
+    remote: variable.remote,
+  });
+
+  const result = {
+    collections: collections.map(serializeCollection),
+    variables: variables.map(serializeVariable),
+  };
+
+  // Seguir los alias hacia variables de librerías para poder resolver las cadenas completas
+  const knownVariables = new Set(result.variables.map((variable) => variable.id));
+  const knownCollections = new Set(result.collections.map((collection) => collection.id));
+  const pending = result.variables.slice();
+
+  while (pending.length > 0) {
+    const variable = pending.pop();
+    for (const value of Object.values(variable.valuesByMode)) {
+      if (!value || value.type !== "VARIABLE_ALIAS" || knownVariables.has(value.id)) {
+        continue;
+      }
+      knownVariables.add(value.id);
+
+      const target = await figma.variables.getVariableByIdAsync(value.id);
+      if (!target) {
+        continue;
+      }
+      const serialized = serializeVariable(target);
+      result.variables.push(serialized);
+      pending.push(serialized);
+
+      if (!knownCollections.has(target.variableCollectionId)) {
+        knownCollections.add(target.variableCollectionId);
+        const collection = await figma.variables.getVariableCollectionByIdAsync(target.variableCollectionId);
+        if (collection) {
+          result.collections.push(serializeCollection(collection));
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
 async function getLocalComponents() {
   await figma.loadAllPagesAsync();
 
@@ -2,6 +2,11 @@
  * Configuración del servidor MCP para Figma
  */
 
+/**
+ * Origen de los datos de Figma
+ */
+export type FigmaSource = 'plugin' | 'fixture' | 'rest';
+
 /**
  * Interfaz para la configuración del servidor
  */
@@ -10,6 +15,20 @@ export interface ServerConfig {
   defaultPort: number;
   reconnectInterval: number;
   wsUrl: string;
+  source: FigmaSource;
+  fixtureDir: string | null;
+  fileKey: string | null;
+  tokenEnv: string;
+  apiBaseUrl: string;
+}
+
+/**
+ * Obtiene el valor de un argumento `--nombre=valor`, respetando los `=` dentro del valor
+ */
+function getArgValue(args: string[], name: string): string | null {
+  const prefix = `--${name}=`;
+  const arg = args.find(arg => arg.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
 }
 
 /**
@@ -23,13 +42,26 @@ export function initConfig(args: string[]): ServerConfig {
   const serverUrl = serverArg ? serverArg.split('=')[1] : 'localhost';
   const defaultPort = portArg ? parseInt(portArg.split('=')[1], 10) : 3055;
   const reconnectInterval = reconnectArg ? parseInt(reconnectArg.split('=')[1], 10) : 2000;
+  const fixtureDir = getArgValue(args, 'fixture');
 
   const wsUrl = serverUrl === 'localhost' ? `ws://${serverUrl}` : `wss://${serverUrl}`;
 
+  // Sin --source explícito, la presencia de --fixture activa el modo fixture
+  const sourceArg = getArgValue(args, 'source');
+  const source = (sourceArg || (fixtureDir ? 'fixture' : 'plugin')) as FigmaSource;
+  if (!['plugin', 'fixture', 'rest'].includes(source)) {
+    throw new Error(`Invalid --source value "${source}". Expected one of: plugin, fixture, rest`);
+  }
+
   return {
     serverUrl,
     defaultPort,
     reconnectInterval,
-    wsUrl
+    wsUrl,
+    source,
+    fixtureDir,
+    fileKey: getArgValue(args, 'file-key'),
+    tokenEnv: getArgValue(args, 'token-env') || 'FIGMA_TOKEN',
+    apiBaseUrl: (getArgValue(args, 'api-base') || 'https://api.figma.com').replace(/\/+$/, '')
   };
-}
\ No newline at end of file
+}
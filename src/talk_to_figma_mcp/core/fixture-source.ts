@@ -0,0 +1,223 @@
+/**
+ * Fuente de datos offline basada en exportaciones JSON de Figma guardadas en disco
+ *
+ * Estructura esperada del directorio de fixtures:
+ *   document.json    Exportación JSON_REST_V1 del documento completo (obligatorio)
+ *   nodes/*.json     Exportaciones JSON_REST_V1 de nodos concretos (opcional)
+ *   styles.json      Respuesta de `get_styles` del plugin (opcional)
+ *   variables.json   Respuesta de `get_variables` del plugin (opcional)
+ *   components.json  Respuesta de `get_local_components` del plugin (opcional)
+ *   selection.json   Array con los IDs de los nodos seleccionados (opcional)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+import { FigmaCommand } from '../types/figma-types';
+import {
+  buildDocumentInfo,
+  buildStyledTextSegments,
+  collectTextNodes,
+  isDocumentWalk,
+  walkDocumentPages
+} from '../utils/figma-utils';
+
+/**
+ * Datos de un fixture cargados en memoria
+ */
+export interface FigmaFixture {
+  dir: string;
+  document: any;
+  nodes: Map<string, any>;
+  styles: any | null;
+  variables: any | null;
+  components: any | null;
+  selection: string[];
+}
+
+/**
+ * Lee un fichero JSON del directorio del fixture, devolviendo null si no existe
+ */
+function readJsonFile(filePath: string): any | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid JSON in fixture file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Extrae el nodo raíz de una exportación JSON_REST_V1 (`{ document: ... }`) o de un nodo suelto
+ */
+function unwrapExport(data: any): any {
+  return data && typeof data === 'object' && data.document ? data.document : data;
+}
+
+/**
+ * Indexa por ID todos los nodos de un árbol
+ */
+function indexNodes(node: any, index: Map<string, any>): void {
+  if (!node || typeof node !== 'object' || !node.id) return;
+
+  index.set(node.id, node);
+
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child: any) => indexNodes(child, index));
+  }
+}
+
+/**
+ * Carga un directorio de fixtures en memoria
+ */
+export function loadFixture(dir: string): FigmaFixture {
+  const fixtureDir = path.resolve(dir);
+
+  const documentData = readJsonFile(path.join(fixtureDir, 'document.json'));
+  if (!documentData) {
+    throw new Error(`Fixture directory ${fixtureDir} does not contain a document.json file`);
+  }
+
+  const document = unwrapExport(documentData);
+  const nodes = new Map<string, any>();
+  indexNodes(document, nodes);
+
+  // Las exportaciones individuales suelen ser más completas que el árbol del documento
+  const nodesDir = path.join(fixtureDir, 'nodes');
+  if (fs.existsSync(nodesDir)) {
+    for (const fileName of fs.readdirSync(nodesDir).filter(name => name.endsWith('.json')).sort()) {
+      indexNodes(unwrapExport(readJsonFile(path.join(nodesDir, fileName))), nodes);
+    }
+  }
+
+  const selection = readJsonFile(path.join(fixtureDir, 'selection.json'));
+
+  logger.info(`Loaded Figma fixture from ${fixtureDir} (${nodes.size} nodes)`);
+
+  return {
+    dir: fixtureDir,
+    document,
+    nodes,
+    styles: readJsonFile(path.join(fixtureDir, 'styles.json')),
+    variables: readJsonFile(path.join(fixtureDir, 'variables.json')),
+    components: readJsonFile(path.join(fixtureDir, 'components.json')),
+    selection: Array.isArray(selection) ? selection : []
+  };
+}
+
+/**
+ * Responde a un comando de Figma usando los datos del fixture, con las mismas formas que devuelve el plugin
+ */
+export async function handleFixtureCommand(
+  fixture: FigmaFixture,
+  command: FigmaCommand,
+  params: any = {}
+): Promise<unknown> {
+  logger.info(`Answering command from fixture: ${command}`);
+
+  switch (command) {
+    case "join":
+      return { channel: params.channel };
+    case "get_document_info":
+      if (isDocumentWalk(params)) {
+        return walkDocumentPages(fixture.document, params, undefined, (summary, processed, total) => {
+          logger.info(`Processed page "${summary.name}" (${processed}/${total}, ${summary.nodeCount} nodes)`);
+        });
+      }
+      return buildDocumentInfo(fixture.document);
+    case "get_selection":
+      return getSelection(fixture);
+    case "get_node_info":
+      if (!params.nodeId) {
+        throw new Error("Missing nodeId parameter");
+      }
+      return getNode(fixture, params.nodeId);
+    case "get_nodes_info":
+      if (!Array.isArray(params.nodeIds)) {
+        throw new Error("Missing or invalid nodeIds parameter");
+      }
+      return params.nodeIds
+        .filter((nodeId: string) => fixture.nodes.has(nodeId))
+        .map((nodeId: string) => ({ nodeId, document: fixture.nodes.get(nodeId) }));
+    case "get_styles":
+      return fixture.styles || { colors: [], texts: [], effects: [], grids: [] };
+    case "get_variables":
+      return fixture.variables || { collections: [], variables: [] };
+    case "get_local_components":
+      return getLocalComponents(fixture);
+    case "get_remote_components":
+      return {
+        error: true,
+        message: "Team library components are not available in fixture mode",
+        apiAvailable: false
+      };
+    case "scan_text_nodes":
+      return {
+        success: true,
+        ...collectTextNodes(getNode(fixture, params.nodeId)),
+        commandId: params.commandId
+      };
+    case "get_styled_text_segments":
+      if (!params.nodeId || !params.property) {
+        throw new Error("Missing nodeId or property");
+      }
+      return buildStyledTextSegments(getNode(fixture, params.nodeId), params.property);
+    case "export_node_as_image":
+      throw new Error("Image export is not available in fixture mode");
+    default:
+      throw new Error(`Command "${command}" is not supported in fixture mode`);
+  }
+}
+
+/**
+ * Obtiene un nodo del fixture o lanza un error como lo haría el plugin
+ */
+function getNode(fixture: FigmaFixture, nodeId: string): any {
+  const node = fixture.nodes.get(nodeId);
+  if (!node) {
+    throw new Error(`Node not found with ID: ${nodeId}`);
+  }
+  return node;
+}
+
+/**
+ * Devuelve la selección guardada en el fixture
+ */
+function getSelection(fixture: FigmaFixture): any {
+  const selection = fixture.selection
+    .filter(nodeId => fixture.nodes.has(nodeId))
+    .map(nodeId => fixture.nodes.get(nodeId));
+
+  return {
+    selectionCount: selection.length,
+    selection: selection.map((node: any) => ({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      visible: node.visible !== false,
+    })),
+  };
+}
+
+/**
+ * Devuelve los componentes locales del fixture, derivándolos del árbol si no hay components.json
+ */
+function getLocalComponents(fixture: FigmaFixture): any {
+  if (fixture.components) {
+    return fixture.components;
+  }
+
+  const components = Array.from(fixture.nodes.values()).filter((node: any) => node.type === 'COMPONENT');
+
+  return {
+    count: components.length,
+    components: components.map((component: any) => ({
+      id: component.id,
+      name: component.name,
+      key: component.key || null,
+    })),
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Transporte que responde a los comandos desde un fixture guardado en disco
+ */
+
+import { logger } from './logger';
+import { FigmaTransport } from './transport';
+import { FigmaFixture, handleFixtureCommand, loadFixture } from './fixture-source';
+import { FigmaCommand } from '../types/figma-types';
+
+/**
+ * Transporte offline basado en exportaciones JSON de Figma
+ */
+export class FixtureTransport implements FigmaTransport {
+  private currentChannel: string | null = null;
+
+  constructor(private readonly fixture: FigmaFixture) {}
+
+  /**
+   * Carga el fixture de un directorio y crea el transporte
+   */
+  static fromDirectory(dir: string): FixtureTransport {
+    return new FixtureTransport(loadFixture(dir));
+  }
+
+  connect(): void {
+    logger.info(`Using Figma fixture from ${this.fixture.dir}`);
+  }
+
+  sendCommand(command: FigmaCommand, params: unknown = {}): Promise<unknown> {
+    return handleFixtureCommand(this.fixture, command, params);
+  }
+
+  async joinChannel(channelName: string): Promise<void> {
+    this.currentChannel = channelName;
+    logger.info(`Joined channel in fixture mode: ${channelName}`);
+  }
+
+  getCurrentChannel(): string | null {
+    return this.currentChannel;
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Transporte en memoria para ejecutar las herramientas sin plugin ni socket (tests)
+ */
+
+import { FigmaTransport } from './transport';
+import { FigmaCommand } from '../types/figma-types';
+
+/**
+ * Respuesta simulada de un comando: un valor fijo o una función que recibe los parámetros
+ */
+export type MockCommandResponse = unknown | ((params: any) => unknown | Promise<unknown>);
+
+/**
+ * Comando registrado por el transporte simulado
+ */
+export interface SentCommand {
+  command: FigmaCommand;
+  params: unknown;
+}
+
+/**
+ * Transporte simulado que devuelve respuestas registradas por comando
+ */
+export class MockTransport implements FigmaTransport {
+  private readonly responses = new Map<FigmaCommand, MockCommandResponse>();
+  private currentChannel: string | null = null;
+
+  /**
+   * Historial de comandos enviados, en orden
+   */
+  readonly sentCommands: SentCommand[] = [];
+
+  constructor(responses: Partial<Record<FigmaCommand, MockCommandResponse>> = {}) {
+    for (const [command, response] of Object.entries(responses)) {
+      this.responses.set(command as FigmaCommand, response);
+    }
+  }
+
+  /**
+   * Registra la respuesta para un comando
+   */
+  respondTo(command: FigmaCommand, response: MockCommandResponse): this {
+    this.responses.set(command, response);
+    return this;
+  }
+
+  connect(): void {}
+
+  async sendCommand(command: FigmaCommand, params: unknown = {}): Promise<unknown> {
+    this.sentCommands.push({ command, params });
+
+    if (!this.responses.has(command)) {
+      throw new Error(`No mock response registered for command: ${command}`);
+    }
+
+    const response = this.responses.get(command);
+    return typeof response === 'function' ? await response(params) : response;
+  }
+
+  async joinChannel(channelName: string): Promise<void> {
+    this.currentChannel = channelName;
+  }
+
+  getCurrentChannel(): string | null {
+    return this.currentChannel;
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Transporte que responde a los comandos usando la API REST de Figma en lugar del plugin
+ */
+
+import { logger } from './logger';
+import { FigmaTransport } from './transport';
+import { FigmaCommand, FigmaStyles, FigmaVariables } from '../types/figma-types';
+import {
+  buildDocumentInfo,
+  buildStyledTextSegments,
+  collectTextNodes,
+  isDocumentWalk,
+  textStyleFromTypeStyle,
+  walkDocumentPages
+} from '../utils/figma-utils';
+
+/**
+ * Opciones del transporte REST
+ */
+export interface RestTransportOptions {
+  fileKey: string;
+  token: string;
+  apiBaseUrl: string;
+}
+
+/**
+ * Tipos MIME según el formato de exportación
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  PNG: "image/png",
+  JPG: "image/jpeg",
+  SVG: "image/svg+xml",
+  PDF: "application/pdf"
+};
+
+/**
+ * Cliente de la API REST de Figma que sirve el mismo conjunto de comandos que el plugin
+ */
+export class RestTransport implements FigmaTransport {
+  private currentChannel: string | null = null;
+
+  // El fichero se pide una sola vez: estilos, componentes y páginas salen de la misma respuesta
+  private filePromise: Promise<any> | null = null;
+
+  constructor(private readonly options: RestTransportOptions) {}
+
+  connect(): void {
+    logger.info(`Using Figma REST API at ${this.options.apiBaseUrl} for file ${this.options.fileKey}`);
+  }
+
+  async joinChannel(channelName: string): Promise<void> {
+    this.currentChannel = channelName;
+    logger.info(`Joined channel in REST mode: ${channelName}`);
+  }
+
+  getCurrentChannel(): string | null {
+    return this.currentChannel;
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async sendCommand(command: FigmaCommand, params: any = {}): Promise<unknown> {
+    logger.info(`Sending command to Figma REST API: ${command}`);
+
+    switch (command) {
+      case "join":
+        return { channel: params.channel };
+      case "get_document_info":
+        if (isDocumentWalk(params)) {
+          // El fichero solo trae dos niveles: cada página se pide completa a medida que se recorre
+          return walkDocumentPages(
+            (await this.getFile()).document,
+            params,
+            page => this.getNode(page.id),
+            (summary, processed, total) => {
+              logger.info(`Processed page "${summary.name}" (${processed}/${total}, ${summary.nodeCount} nodes)`);
+            }
+          );
+        }
+        return buildDocumentInfo((await this.getFile()).document);
+      case "get_selection":
+        // La API REST no conoce la selección del usuario
+        return { selectionCount: 0, selection: [] };
+      case "get_node_info":
+        if (!params.nodeId) {
+          throw new Error("Missing nodeId parameter");
+        }
+        return this.getNode(params.nodeId);
+      case "get_nodes_info": {
+        if (!Array.isArray(params.nodeIds)) {
+          throw new Error("Missing or invalid nodeIds parameter");
+        }
+        const nodes = await this.getNodes(params.nodeIds);
+        return params.nodeIds
+          .filter((nodeId: string) => nodes[nodeId])
+          .map((nodeId: string) => ({ nodeId, document: nodes[nodeId] }));
+      }
+      case "get_styles":
+        return this.getStyles();
+      case "get_variables":
+        return this.getVariables();
+      case "get_local_components":
+        return this.getLocalComponents();
+      case "get_remote_components":
+        return {
+          error: true,
+          message: "Team library components are not available through the REST backend",
+          apiAvailable: false
+        };
+      case "export_node_as_image":
+        return this.exportNodeAsImage(params);
+      case "scan_text_nodes":
+        return {
+          success: true,
+          ...collectTextNodes(await this.getNode(params.nodeId)),
+          commandId: params.commandId
+        };
+      case "get_styled_text_segments":
+        if (!params.nodeId || !params.property) {
+          throw new Error("Missing nodeId or property");
+        }
+        return buildStyledTextSegments(await this.getNode(params.nodeId), params.property);
+      default:
+        throw new Error(`Command "${command}" is not supported by the REST backend`);
+    }
+  }
+
+  /**
+   * Realiza una petición autenticada a la API REST de Figma
+   */
+  private async request(pathAndQuery: string): Promise<any> {
+    const url = `${this.options.apiBaseUrl}${pathAndQuery}`;
+    logger.debug(`GET ${url}`);
+
+    const response = await fetch(url, {
+      headers: { "X-Figma-Token": this.options.token }
+    });
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const body: unknown = await response.json();
+        if (typeof body === 'object' && body !== null) {
+          const message = ('err' in body && body.err) || ('message' in body && body.message);
+          if (typeof message === 'string') detail = message;
+        }
+      } catch {
+        // Cuerpo no JSON: nos quedamos con el statusText
+      }
+      throw new Error(`Figma REST API request failed (${response.status}): ${detail}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Obtiene el fichero con las páginas y sus hijos de primer nivel
+   */
+  private getFile(): Promise<any> {
+    if (!this.filePromise) {
+      this.filePromise = this.request(`/v1/files/${this.options.fileKey}?depth=2`).catch(error => {
+        this.filePromise = null;
+        throw error;
+      });
+    }
+    return this.filePromise;
+  }
+
+  /**
+   * Obtiene varios nodos del fichero, indexados por ID
+   */
+  private async getNodes(nodeIds: string[]): Promise<Record<string, any>> {
+    if (nodeIds.length === 0) {
+      return {};
+    }
+
+    const ids = encodeURIComponent(nodeIds.join(','));
+    const result = await this.request(`/v1/files/${this.options.fileKey}/nodes?ids=${ids}`);
+
+    const nodes: Record<string, any> = {};
+    for (const [nodeId, entry] of Object.entries<any>(result.nodes || {})) {
+      if (entry && entry.document) {
+        nodes[nodeId] = entry.document;
+      }
+    }
+    return nodes;
+  }
+
+  /**
+   * Obtiene un nodo o lanza un error como lo haría el plugin
+   */
+  private async getNode(nodeId: string): Promise<any> {
+    const nodes = await this.getNodes([nodeId]);
+    if (!nodes[nodeId]) {
+      throw new Error(`Node not found with ID: ${nodeId}`);
+    }
+    return nodes[nodeId];
+  }
+
+  /**
+   * Construye la respuesta de `get_styles` a partir del mapa de estilos del fichero y de sus nodos
+   */
+  private async getStyles(): Promise<FigmaStyles> {
+    const file = await this.getFile();
+    // Los estilos remotos (de librerías) no son nodos del fichero y no se pueden leer aquí
+    const styleEntries = Object.entries<any>(file.styles || {}).filter(([, meta]) => !meta.remote);
+
+    // Los IDs de estilo locales son IDs de nodo: sus valores se leen del propio nodo
+    const styleNodes = await this.getNodes(styleEntries.map(([styleId]) => styleId));
+
+    const styles: FigmaStyles = { colors: [], texts: [], effects: [], grids: [] };
+
+    for (const [styleId, meta] of styleEntries) {
+      const node = styleNodes[styleId] || {};
+      const base = { id: styleId, name: meta.name, key: meta.key, description: meta.description || "" };
+
+      switch (meta.styleType) {
+        case 'FILL':
+          styles.colors.push({ ...base, paints: node.fills || [] });
+          break;
+        case 'TEXT':
+          if (node.style) {
+            styles.texts.push({ ...base, style: textStyleFromTypeStyle(node.style) });
+          }
+          break;
+        case 'EFFECT':
+          styles.effects.push({ ...base, effects: node.effects || [] });
+          break;
+        case 'GRID':
+          styles.grids.push({ ...base, layoutGrids: node.layoutGrids || [] });
+          break;
+      }
+    }
+
+    return styles;
+  }
+
+  /**
+   * Construye la respuesta de `get_variables` a partir de `/variables/local`
+   */
+  private async getVariables(): Promise<FigmaVariables> {
+    const result = await this.request(`/v1/files/${this.options.fileKey}/variables/local`);
+    const meta = result.meta || {};
+
+    return {
+      collections: Object.values<any>(meta.variableCollections || {}).map(collection => ({
+        id: collection.id,
+        name: collection.name,
+        key: collection.key,
+        modes: collection.modes || [],
+        defaultModeId: collection.defaultModeId,
+        variableIds: collection.variableIds || [],
+        remote: collection.remote
+      })),
+      variables: Object.values<any>(meta.variables || {}).map(variable => ({
+        id: variable.id,
+        name: variable.name,
+        key: variable.key,
+        description: variable.description,
+        variableCollectionId: variable.variableCollectionId,
+        resolvedType: variable.resolvedType,
+        valuesByMode: variable.valuesByMode || {},
+        scopes: variable.scopes,
+        codeSyntax: variable.codeSyntax,
+        hiddenFromPublishing: variable.hiddenFromPublishing,
+        remote: variable.remote
+      }))
+    };
+  }
+
+  /**
+   * Construye la respuesta de `get_local_components` a partir del mapa de componentes del fichero
+   */
+  private async getLocalComponents(): Promise<any> {
+    const file = await this.getFile();
+    // El mapa de componentes incluye también los de librerías usados en el fichero
+    const components = Object.entries<any>(file.components || {})
+      .filter(([, meta]) => !meta.remote)
+      .map(([nodeId, meta]) => ({
+        id: nodeId,
+        name: meta.name,
+        key: meta.key || null,
+      }));
+
+    return {
+      count: components.length,
+      components
+    };
+  }
+
+  /**
+   * Renderiza un nodo con `/v1/images` y descarga la imagen resultante en base64
+   */
+  private async exportNodeAsImage(params: any): Promise<any> {
+    const { nodeId, format = "PNG", scale = 1 } = params;
+    if (!nodeId) {
+      throw new Error("Missing nodeId parameter");
+    }
+
+    const result = await this.request(
+      `/v1/images/${this.options.fileKey}?ids=${encodeURIComponent(nodeId)}&format=${String(format).toLowerCase()}&scale=${scale}`
+    );
+
+    if (result.err) {
+      throw new Error(`Error exporting node as image: ${result.err}`);
+    }
+
+    const imageUrl = result.images?.[nodeId];
+    if (!imageUrl) {
+      throw new Error(`Node does not support exporting: ${nodeId}`);
+    }
+
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+      throw new Error(`Error downloading rendered image (${imageResponse.status})`);
+    }
+
+    const bytes = Buffer.from(await imageResponse.arrayBuffer());
+
+    return {
+      nodeId,
+      format,
+      scale,
+      mimeType: IMAGE_MIME_TYPES[format] || "application/octet-stream",
+      imageData: bytes.toString('base64'),
+    };
+  }
+}
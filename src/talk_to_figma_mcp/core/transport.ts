@@ -0,0 +1,114 @@
+/**
+ * Abstracción del canal de comunicación con Figma
+ */
+
+import { FigmaCommand } from '../types/figma-types';
+import { ServerConfig } from '../config/server-config';
+import { DocumentWalkOptions } from '../utils/figma-utils';
+import { WebSocketTransport } from './websocket-transport';
+import { FixtureTransport } from './fixture-transport';
+import { RestTransport } from './rest-transport';
+
+/**
+ * Interfaz común para todos los transportes capaces de responder a comandos de Figma
+ */
+export interface FigmaTransport {
+  /**
+   * Inicia la conexión con el origen de datos (no-op en transportes locales)
+   */
+  connect(): void;
+
+  /**
+   * Envía un comando a Figma y devuelve su resultado
+   */
+  sendCommand(command: FigmaCommand, params?: unknown, timeoutMs?: number): Promise<unknown>;
+
+  /**
+   * Une al cliente a un canal específico
+   */
+  joinChannel(channelName: string): Promise<void>;
+
+  /**
+   * Obtiene el canal actual
+   */
+  getCurrentChannel(): string | null;
+
+  /**
+   * Verifica si el transporte está listo para recibir comandos
+   */
+  isConnected(): boolean;
+}
+
+/**
+ * Crea el transporte adecuado según la configuración del servidor
+ */
+export function createTransport(config: ServerConfig): FigmaTransport {
+  if (config.source === 'fixture') {
+    if (!config.fixtureDir) {
+      throw new Error("Fixture mode requires --fixture=<dir>");
+    }
+    return FixtureTransport.fromDirectory(config.fixtureDir);
+  }
+
+  if (config.source === 'rest') {
+    if (!config.fileKey) {
+      throw new Error("REST mode requires --file-key=<key>");
+    }
+    const token = process.env[config.tokenEnv];
+    if (!token) {
+      throw new Error(`REST mode requires a Figma access token in the ${config.tokenEnv} environment variable`);
+    }
+    return new RestTransport({
+      fileKey: config.fileKey,
+      token,
+      apiBaseUrl: config.apiBaseUrl
+    });
+  }
+
+  return new WebSocketTransport({
+    serverUrl: config.serverUrl,
+    port: config.defaultPort,
+    reconnectInterval: config.reconnectInterval,
+    wsUrl: config.wsUrl
+  });
+}
+
+/**
+ * Obtiene el documento con todas las páginas solicitadas recorridas, pidiéndolas por lotes
+ * para que ninguna respuesta individual del plugin sea demasiado grande
+ */
+export async function fetchDocumentPages(
+  transport: FigmaTransport,
+  options: Pick<DocumentWalkOptions, 'pageIds' | 'depth'> = {},
+  pagesPerRequest: number = 5
+): Promise<any> {
+  const walkParams = options.pageIds && options.pageIds.length > 0
+    ? { pageIds: options.pageIds, depth: options.depth }
+    : { allPages: true, depth: options.depth };
+
+  let documentInfo: any = null;
+  let offset: number | null = 0;
+
+  while (offset !== null) {
+    const batch: any = await transport.sendCommand(
+      "get_document_info",
+      { ...walkParams, offset, limit: pagesPerRequest },
+      120000
+    );
+
+    if (!documentInfo) {
+      documentInfo = { ...batch, children: [] };
+    }
+    documentInfo.children.push(...(batch.children || []));
+    offset = batch.pagination ? batch.pagination.nextOffset : null;
+  }
+
+  documentInfo.pagination = {
+    offset: 0,
+    limit: null,
+    totalPages: documentInfo.children.length,
+    nextOffset: null
+  };
+
+  return documentInfo;
+}
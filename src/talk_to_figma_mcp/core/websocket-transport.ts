@@ -0,0 +1,299 @@
+/**
+ * Transporte WebSocket a través del servidor de relay hacia el plugin de Figma
+ */
+
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from './logger';
+import { FigmaTransport } from './transport';
+import {
+  FigmaCommand,
+  FigmaResponse,
+  PendingRequest,
+  CommandProgressUpdate
+} from '../types/figma-types';
+
+/**
+ * Opciones de conexión del transporte WebSocket
+ */
+export interface WebSocketTransportOptions {
+  serverUrl: string;
+  port: number;
+  reconnectInterval: number;
+  wsUrl: string;
+}
+
+/**
+ * Conexión WebSocket con el plugin de Figma y tracking de sus requests
+ */
+export class WebSocketTransport implements FigmaTransport {
+  private ws: WebSocket | null = null;
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+
+  // Estado del canal actual
+  private currentChannel: string | null = null;
+
+  constructor(private readonly options: WebSocketTransportOptions) {}
+
+  /**
+   * Establece conexión con el servidor WebSocket de Figma
+   */
+  connect(port: number = this.options.port): void {
+    // If already connected, do nothing
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      logger.info('Already connected to Figma');
+      return;
+    }
+
+    // If connection is in progress (CONNECTING state), wait
+    if (this.ws && this.ws.readyState === WebSocket.CONNECTING) {
+      logger.info('Connection to Figma is already in progress');
+      return;
+    }
+
+    // If there's an existing socket in a closing state, clean it up
+    if (this.ws && (this.ws.readyState === WebSocket.CLOSING || this.ws.readyState === WebSocket.CLOSED)) {
+      this.ws.removeAllListeners();
+      this.ws = null;
+    }
+
+    const { serverUrl, wsUrl, reconnectInterval } = this.options;
+    const wsConnUrl = serverUrl === 'localhost' ? `${wsUrl}:${port}` : wsUrl;
+    logger.info(`Connecting to Figma socket server at ${wsConnUrl}...`);
+
+    try {
+      const ws = new WebSocket(wsConnUrl);
+      this.ws = ws;
+
+      // Add connection timeout
+      const connectionTimeout = setTimeout(() => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          logger.error('Connection to Figma timed out');
+          ws.terminate();
+        }
+      }, 10000); // 10 second connection timeout
+
+      ws.on('open', () => {
+        clearTimeout(connectionTimeout);
+        logger.info('Connected to Figma socket server');
+        // Reset channel on new connection
+        this.currentChannel = null;
+      });
+
+      ws.on("message", (data: any) => this.handleMessage(data));
+
+      ws.on('error', (error) => {
+        logger.error(`Socket error: ${error}`);
+        // Don't attempt to reconnect here, let the close handler do it
+      });
+
+      ws.on('close', (code, reason) => {
+        clearTimeout(connectionTimeout);
+        logger.info(`Disconnected from Figma socket server with code ${code} and reason: ${reason || 'No reason provided'}`);
+        this.ws = null;
+
+        // Reject all pending requests
+        for (const [id, request] of this.pendingRequests.entries()) {
+          clearTimeout(request.timeout);
+          request.reject(new Error(`Connection closed with code ${code}: ${reason || 'No reason provided'}`));
+          this.pendingRequests.delete(id);
+        }
+
+        // Attempt to reconnect with exponential backoff
+        const backoff = Math.min(30000, reconnectInterval * Math.pow(1.5, Math.floor(Math.random() * 5))); // Max 30s
+        logger.info(`Attempting to reconnect in ${backoff/1000} seconds...`);
+        setTimeout(() => this.connect(port), backoff);
+      });
+
+    } catch (error) {
+      logger.error(`Failed to create WebSocket connection: ${error instanceof Error ? error.message : String(error)}`);
+      // Attempt to reconnect after a delay
+      setTimeout(() => this.connect(port), reconnectInterval);
+    }
+  }
+
+  /**
+   * Procesa un mensaje recibido desde el servidor WebSocket
+   */
+  private handleMessage(data: any): void {
+    try {
+      // Define a more specific type with an index signature to allow any property access
+      interface ProgressMessage {
+        message: FigmaResponse | any;
+        type?: string;
+        id?: string;
+        [key: string]: any; // Allow any other properties
+      }
+
+      const json = JSON.parse(data) as ProgressMessage;
+
+      // Handle progress updates
+      if (json.type === 'progress_update') {
+        const progressData = json.message.data as CommandProgressUpdate;
+        const requestId = json.id || '';
+
+        if (requestId && this.pendingRequests.has(requestId)) {
+          const request = this.pendingRequests.get(requestId)!;
+
+          // Update last activity timestamp
+          request.lastActivity = Date.now();
+
+          // Reset the timeout to prevent timeouts during long-running operations
+          clearTimeout(request.timeout);
+
+          // Create a new timeout
+          request.timeout = setTimeout(() => {
+            if (this.pendingRequests.has(requestId)) {
+              logger.error(`Request ${requestId} timed out after extended period of inactivity`);
+              this.pendingRequests.delete(requestId);
+              request.reject(new Error('Request to Figma timed out'));
+            }
+          }, 60000); // 60 second timeout for inactivity
+
+          // Log progress
+          logger.info(`Progress update for ${progressData.commandType}: ${progressData.progress}% - ${progressData.message}`);
+
+          // For completed updates, we could resolve the request early if desired
+          if (progressData.status === 'completed' && progressData.progress === 100) {
+            // Optionally resolve early with partial data
+            // request.resolve(progressData.payload);
+            // this.pendingRequests.delete(requestId);
+
+            // Instead, just log the completion, wait for final result from Figma
+            logger.info(`Operation ${progressData.commandType} completed, waiting for final result`);
+          }
+        }
+        return;
+      }
+
+      // Handle regular responses
+      const myResponse = json.message;
+      logger.debug(`Received message: ${JSON.stringify(myResponse)}`);
+
+      // Handle response to a request
+      if (
+        myResponse.id &&
+        this.pendingRequests.has(myResponse.id) &&
+        myResponse.result
+      ) {
+        const request = this.pendingRequests.get(myResponse.id)!;
+        clearTimeout(request.timeout);
+
+        if (myResponse.error) {
+          logger.error(`Error from Figma: ${myResponse.error}`);
+          request.reject(new Error(myResponse.error));
+        } else {
+          if (myResponse.result) {
+            request.resolve(myResponse.result);
+          }
+        }
+
+        this.pendingRequests.delete(myResponse.id);
+      } else {
+        // Handle broadcast messages or events
+        logger.info(`Received broadcast message: ${JSON.stringify(myResponse)}`);
+      }
+    } catch (error) {
+      logger.error(`Error parsing message: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Une al cliente a un canal específico
+   */
+  async joinChannel(channelName: string): Promise<void> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error("Not connected to Figma");
+    }
+
+    try {
+      await this.sendCommand("join", { channel: channelName });
+      this.currentChannel = channelName;
+      logger.info(`Joined channel: ${channelName}`);
+    } catch (error) {
+      logger.error(`Failed to join channel: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Envía un comando a Figma
+   */
+  sendCommand(
+    command: FigmaCommand,
+    params: unknown = {},
+    timeoutMs: number = 30000
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const ws = this.ws;
+
+      // If not connected, try to connect first
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        this.connect();
+        reject(new Error("Not connected to Figma. Attempting to connect..."));
+        return;
+      }
+
+      // Check if we need a channel for this command
+      const requiresChannel = command !== "join";
+      if (requiresChannel && !this.currentChannel) {
+        reject(new Error("Must join a channel before sending commands"));
+        return;
+      }
+
+      const id = uuidv4();
+      const commandParams: object = typeof params === "object" && params !== null ? params : {};
+      const request = {
+        id,
+        type: command === "join" ? "join" : "message",
+        ...(command === "join"
+          ? { channel: "channel" in commandParams ? commandParams.channel : undefined }
+          : { channel: this.currentChannel }),
+        message: {
+          id,
+          command,
+          params: {
+            ...commandParams,
+            commandId: id, // Include the command ID in params
+          },
+        },
+      };
+
+      // Set timeout for request
+      const timeout = setTimeout(() => {
+        if (this.pendingRequests.has(id)) {
+          this.pendingRequests.delete(id);
+          logger.error(`Request ${id} to Figma timed out after ${timeoutMs / 1000} seconds`);
+          reject(new Error('Request to Figma timed out'));
+        }
+      }, timeoutMs);
+
+      // Store the promise callbacks to resolve/reject later
+      this.pendingRequests.set(id, {
+        resolve,
+        reject,
+        timeout,
+        lastActivity: Date.now()
+      });
+
+      // Send the request
+      logger.info(`Sending command to Figma: ${command}`);
+      logger.debug(`Request details: ${JSON.stringify(request)}`);
+      ws.send(JSON.stringify(request));
+    });
+  }
+
+  /**
+   * Obtiene el canal actual
+   */
+  getCurrentChannel(): string | null {
+    return this.currentChannel;
+  }
+
+  /**
+   * Verifica si está conectado a Figma
+   */
+  isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+}
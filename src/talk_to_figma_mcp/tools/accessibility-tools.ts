@@ -0,0 +1,497 @@
+/**
+ * Herramientas para auditar la accesibilidad de los diseños de Figma
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FigmaTransport } from "../core/transport";
+import { FigmaColor } from "../types/figma-types";
+import {
+  apcaContrast,
+  apcaMinimumContrast,
+  colorToHex,
+  compositeColor,
+  contrastRatio,
+  isLargeText
+} from "../utils/color-utils";
+import { detectUIPatterns, isButton, isNavigationItem } from "./ui-patterns-tool";
+import { variantInteractionStates } from "./component-states-tool";
+
+/**
+ * Fondo efectivo bajo un nodo: los colores posibles (varios si hay degradados), el nodo
+ * que los aporta y si el fondo se ha supuesto o no se puede determinar (imágenes)
+ */
+interface Backdrop {
+  colors: FigmaColor[];
+  source?: { nodeId: string; nodeName: string };
+  assumed: boolean;
+  uncertain?: string;
+}
+
+/**
+ * Ratios mínimos de WCAG 2.x para texto normal y grande
+ */
+const WCAG_MINIMUMS = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 }
+};
+
+const WHITE: FigmaColor = { r: 1, g: 1, b: 1 };
+
+/**
+ * Elimina los colores repetidos (mismo HEX) de una lista
+ */
+function uniqueColors(colors: FigmaColor[]): FigmaColor[] {
+  const seen = new Map<string, FigmaColor>();
+  colors.forEach(color => {
+    const hex = colorToHex(color);
+    if (!seen.has(hex)) seen.set(hex, color);
+  });
+  return Array.from(seen.values());
+}
+
+/**
+ * Colores con su opacidad efectiva de un relleno sólido o de cada parada de un degradado
+ */
+function paintLayers(paint: any, opacity: number): { color: FigmaColor; alpha: number }[] {
+  const paintOpacity = (paint.opacity !== undefined ? paint.opacity : 1) * opacity;
+  if (paint.type === 'SOLID' && paint.color) {
+    return [{ color: paint.color, alpha: (paint.color.a !== undefined ? paint.color.a : 1) * paintOpacity }];
+  }
+  if (paint.type.startsWith('GRADIENT_') && Array.isArray(paint.gradientStops)) {
+    return paint.gradientStops.map((stop: any) => ({
+      color: stop.color,
+      alpha: (stop.color.a !== undefined ? stop.color.a : 1) * paintOpacity
+    }));
+  }
+  return [];
+}
+
+/**
+ * Compone los rellenos visibles de un nodo (de abajo arriba) sobre el fondo que tiene detrás
+ */
+function applyFills(node: any, backdrop: Backdrop, opacity: number): Backdrop {
+  const fills = Array.isArray(node.fills) ? node.fills.filter((paint: any) => paint.visible !== false) : [];
+  let result = backdrop;
+
+  for (const paint of fills) {
+    if (paint.type === 'IMAGE' || paint.type === 'VIDEO') {
+      result = { ...result, source: { nodeId: node.id, nodeName: node.name }, uncertain: 'image' };
+      continue;
+    }
+
+    const layers = paintLayers(paint, opacity);
+    if (layers.length === 0) continue;
+
+    const opaque = layers.every(layer => layer.alpha >= 1);
+    const colors = uniqueColors(
+      (opaque ? [WHITE] : result.colors).flatMap(base => layers.map(layer => compositeColor(layer.color, layer.alpha, base)))
+    );
+    result = {
+      colors,
+      source: { nodeId: node.id, nodeName: node.name },
+      assumed: opaque ? false : result.assumed,
+      uncertain: opaque ? undefined : result.uncertain
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Audita el contraste de un nodo de texto sobre su fondo efectivo
+ */
+function auditTextContrast(node: any, backdrop: Backdrop, opacity: number, includeApca: boolean): any {
+  const fills = Array.isArray(node.fills) ? node.fills.filter((paint: any) => paint.visible !== false) : [];
+  const layers = fills.flatMap((paint: any) => paintLayers(paint, opacity));
+  if (layers.length === 0) return null;
+
+  const fontSize = node.style?.fontSize || 0;
+  const fontWeight = node.style?.fontWeight || 400;
+  const largeText = isLargeText(fontSize, fontWeight);
+
+  // Peor combinación entre los colores posibles del texto y del fondo
+  let worst: { ratio: number; text: FigmaColor; background: FigmaColor } | undefined;
+  let worstApca: number | undefined;
+  for (const background of backdrop.colors) {
+    for (const layer of layers) {
+      const text = compositeColor(layer.color, layer.alpha, background);
+      const ratio = contrastRatio(text, background);
+      if (!worst || ratio < worst.ratio) {
+        worst = { ratio, text, background };
+      }
+      const lc = apcaContrast(text, background);
+      if (worstApca === undefined || Math.abs(lc) < Math.abs(worstApca)) {
+        worstApca = lc;
+      }
+    }
+  }
+  if (!worst) return null;
+
+  const ratio = Math.round(worst.ratio * 100) / 100;
+  const size = largeText ? 'large' : 'normal';
+  const apcaMinimum = apcaMinimumContrast(fontSize, fontWeight);
+
+  return {
+    nodeId: node.id,
+    name: node.name,
+    characters: (node.characters || '').slice(0, 60),
+    fontSize,
+    fontWeight,
+    largeText,
+    foreground: colorToHex(worst.text),
+    background: colorToHex(worst.background),
+    ...(backdrop.source && { backgroundSource: backdrop.source }),
+    ...(backdrop.assumed && { backgroundAssumed: true }),
+    ...(backdrop.uncertain && { backgroundUncertain: backdrop.uncertain }),
+    contrastRatio: ratio,
+    wcag: {
+      aa: { required: WCAG_MINIMUMS.AA[size], pass: ratio >= WCAG_MINIMUMS.AA[size] },
+      aaa: { required: WCAG_MINIMUMS.AAA[size], pass: ratio >= WCAG_MINIMUMS.AAA[size] }
+    },
+    ...(includeApca && worstApca !== undefined && {
+      apca: {
+        lc: Math.round(worstApca * 10) / 10,
+        minimum: apcaMinimum,
+        pass: Math.abs(worstApca) >= apcaMinimum
+      }
+    })
+  };
+}
+
+/**
+ * Recorre el árbol de un nodo auditando cada texto visible sobre el fondo que componen sus ancestros
+ */
+function auditContrast(root: any, includeApca: boolean): { results: any[]; skipped: any[] } {
+  const results: any[] = [];
+  const skipped: any[] = [];
+
+  // El fondo de partida es el de la página si se audita una; si no, se supone blanco
+  const initialBackdrop: Backdrop = root.type === 'CANVAS' && root.backgroundColor
+    ? { colors: [root.backgroundColor], source: { nodeId: root.id, nodeName: root.name }, assumed: false }
+    : { colors: [WHITE], assumed: true };
+
+  const walk = (node: any, backdrop: Backdrop, parentOpacity: number) => {
+    if (node.visible === false) return;
+    const opacity = parentOpacity * (node.opacity !== undefined ? node.opacity : 1);
+
+    if (node.type === 'TEXT') {
+      const result = auditTextContrast(node, backdrop, opacity, includeApca);
+      if (result) {
+        results.push(result);
+      } else {
+        skipped.push({ nodeId: node.id, name: node.name, reason: 'Sin relleno sólido ni degradado visible' });
+      }
+      return;
+    }
+
+    const childBackdrop = node.type === 'CANVAS' ? backdrop : applyFills(node, backdrop, opacity);
+    if (Array.isArray(node.children)) {
+      node.children.forEach((child: any) => walk(child, childBackdrop, opacity));
+    }
+  };
+
+  walk(root, initialBackdrop, 1);
+  return { results, skipped };
+}
+
+/**
+ * Gravedad de un problema de accesibilidad
+ */
+type Severity = 'high' | 'medium' | 'low';
+
+/**
+ * Problema de accesibilidad encontrado en un nodo
+ */
+interface AccessibilityIssue {
+  severity: Severity;
+  rule: string;
+  criterion: string;
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  details?: Record<string, any>;
+}
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Tamaño mínimo de un objetivo táctil (WCAG 2.5.8, AA) y tamaño recomendado (WCAG 2.5.5, AAA)
+ */
+const TARGET_MINIMUM = 24;
+const TARGET_RECOMMENDED = 44;
+
+/**
+ * Tamaño de fuente mínimo recomendado para texto legible
+ */
+const MIN_FONT_SIZE = 12;
+
+/**
+ * Nombres de componentes interactivos que no siempre parecen botones
+ */
+const INTERACTIVE_COMPONENT_PATTERN = /input|field|link|checkbox|radio|switch|toggle|tab|select|dropdown/i;
+
+/**
+ * Nombres de los contenedores de navegación en los que se revisan los objetivos táctiles
+ */
+const NAVIGATION_CONTAINER_PATTERN = /nav|menu|header|breadcrumb|sidebar|tab ?bar|pagination/i;
+
+/**
+ * Indica si un nodo contiene algún texto visible que sirva de etiqueta
+ */
+function hasTextLabel(node: any): boolean {
+  if (node.visible === false) return false;
+  if (node.type === 'TEXT') return Boolean(node.characters && node.characters.trim());
+  return Array.isArray(node.children) && node.children.some(hasTextLabel);
+}
+
+/**
+ * Comprueba el tamaño de un objetivo interactivo
+ */
+function checkTargetSize(node: any, kind: string): AccessibilityIssue | null {
+  const box = node.absoluteBoundingBox;
+  if (!box) return null;
+  
+  const size = { width: Math.round(box.width), height: Math.round(box.height) };
+  const smallest = Math.min(size.width, size.height);
+  if (smallest >= TARGET_RECOMMENDED) return null;
+  
+  const belowMinimum = smallest < TARGET_MINIMUM;
+  return {
+    severity: belowMinimum ? 'high' : 'medium',
+    rule: 'touch-target-size',
+    criterion: belowMinimum ? 'WCAG 2.5.8 (AA)' : 'WCAG 2.5.5 (AAA)',
+    nodeId: node.id,
+    nodeName: node.name,
+    message: `El ${kind} mide ${size.width}×${size.height}px, por debajo de ${belowMinimum ? TARGET_MINIMUM : TARGET_RECOMMENDED}px`,
+    details: { ...size, minimum: TARGET_MINIMUM, recommended: TARGET_RECOMMENDED }
+  };
+}
+
+/**
+ * Comprueba que un componente interactivo tenga una variante de foco
+ */
+function checkFocusState(component: any): AccessibilityIssue | null {
+  const variants = component.type === 'COMPONENT_SET' && Array.isArray(component.children)
+    ? component.children.filter((child: any) => child.type === 'COMPONENT')
+    : [];
+  // Solo cuenta la propiedad de estado: `Size=Small` es una variante, no un estado
+  const states = variantInteractionStates(variants).map(state => state.name);
+  if (states.some(state => state.toLowerCase().includes('focus'))) return null;
+  
+  return {
+    severity: variants.length > 0 ? 'high' : 'medium',
+    rule: 'focus-state',
+    criterion: 'WCAG 2.4.7 (AA)',
+    nodeId: component.id,
+    nodeName: component.name,
+    message: variants.length > 0
+      ? 'El componente interactivo no tiene una variante de foco (Focus)'
+      : 'El componente interactivo no tiene variantes: falta definir su estado de foco (Focus)',
+    details: { variantStates: states }
+  };
+}
+
+/**
+ * Audita la accesibilidad de un nodo: tamaño de los objetivos táctiles (botones e ítems de navegación),
+ * estados de foco de los componentes interactivos, texto pequeño o de altura fija y botones sin etiqueta
+ */
+function auditAccessibility(root: any, checks: string[]): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  // Solo cuentan las navegaciones de tipo conocido cuyo nombre lo confirma: el detector considera
+  // navegación lateral cualquier frame vertical con textos (una pantalla, una tabla...)
+  const navigationIds = new Set<string>(
+    detectUIPatterns(root, ['navigation'], 5).flatMap(group => group.patterns
+      .filter((pattern: any) => pattern.type !== 'unknown' && NAVIGATION_CONTAINER_PATTERN.test(pattern.name))
+      .map((pattern: any) => pattern.id))
+  );
+  
+  const walk = (node: any, parent: any, insideInteractive: boolean) => {
+    if (!node || node.visible === false) return;
+    
+    // Texto ilegible o que no puede crecer al escalar el tamaño de fuente
+    if (node.type === 'TEXT') {
+      const fontSize = node.style?.fontSize;
+      if (checks.includes('textSize') && typeof fontSize === 'number' && fontSize < MIN_FONT_SIZE) {
+        issues.push({
+          severity: 'medium',
+          rule: 'text-size',
+          criterion: 'WCAG 1.4.4 (AA)',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: `Texto de ${fontSize}px, por debajo del mínimo de ${MIN_FONT_SIZE}px`,
+          details: { fontSize, minimum: MIN_FONT_SIZE }
+        });
+      }
+      const autoResize = node.style?.textAutoResize;
+      if (checks.includes('textSize') && (autoResize === 'NONE' || autoResize === 'TRUNCATE')) {
+        issues.push({
+          severity: 'low',
+          rule: 'text-scaling',
+          criterion: 'WCAG 1.4.4 (AA)',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: 'El texto tiene altura fija y se recortará al aumentar el tamaño de fuente',
+          details: { textAutoResize: autoResize }
+        });
+      }
+    }
+    
+    // Estados de foco de los componentes interactivos (conjuntos de variantes o componentes sueltos)
+    const isComponent = node.type === 'COMPONENT_SET' || (node.type === 'COMPONENT' && parent?.type !== 'COMPONENT_SET');
+    if (checks.includes('focusStates') && isComponent &&
+        (isButton(node) || INTERACTIVE_COMPONENT_PATTERN.test(node.name))) {
+      const issue = checkFocusState(node);
+      if (issue) issues.push(issue);
+    }
+    
+    // Objetivos interactivos: botones y los ítems de los patrones de navegación detectados
+    const button = !insideInteractive && node.type !== 'TEXT' && node.type !== 'COMPONENT_SET' && isButton(node);
+    // Los textos sueltos no son objetivos: lo es el ítem (botón, instancia o frame con texto) que los contiene
+    const navigationItem = !insideInteractive && !button && parent && navigationIds.has(parent.id) &&
+      !navigationIds.has(node.id) && node.type !== 'TEXT' && isNavigationItem(node);
+    if (button || navigationItem) {
+      if (checks.includes('touchTargets')) {
+        const issue = checkTargetSize(node, button ? 'botón' : 'ítem de navegación');
+        if (issue) issues.push(issue);
+      }
+      if (checks.includes('iconButtons') && button && !hasTextLabel(node)) {
+        issues.push({
+          severity: 'high',
+          rule: 'icon-button-label',
+          criterion: 'WCAG 4.1.2 (A)',
+          nodeId: node.id,
+          nodeName: node.name,
+          message: 'Botón solo con icono y sin texto: necesita una etiqueta accesible (aria-label)',
+          details: { suggestedLabel: node.name }
+        });
+      }
+    }
+    
+    // En un conjunto de variantes solo se recorre la primera (la predeterminada)
+    // para no repetir los mismos problemas en cada estado
+    const children = Array.isArray(node.children)
+      ? (node.type === 'COMPONENT_SET' ? node.children.slice(0, 1) : node.children)
+      : [];
+    children.forEach((child: any) => walk(child, node, insideInteractive || button || navigationItem));
+  };
+  
+  walk(root, null, false);
+  
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Registra las herramientas de accesibilidad en el servidor MCP
+ */
+export function registerAccessibilityTools(server: McpServer, transport: FigmaTransport): void {
+  // Contrast Audit Tool
+  server.tool(
+    "audit_contrast",
+    "Auditar el contraste de cada texto con su fondo efectivo (rellenos sólidos, degradados y opacidad de sus ancestros) según WCAG 2.x y, opcionalmente, APCA",
+    {
+      nodeId: z.string().describe("ID del nodo cuyos textos se auditan (página, frame o componente)"),
+      includeApca: z.boolean().default(false).describe("Calcular también el contraste APCA (Lc) y su mínimo según tamaño y peso"),
+      level: z.enum(["AA", "AAA"]).default("AA").describe("Nivel WCAG con el que se cuentan los fallos del resumen"),
+      onlyFailures: z.boolean().default(false).describe("Incluir en el resultado solo los textos que no cumplen el nivel indicado")
+    },
+    async ({ nodeId, includeApca, level, onlyFailures }) => {
+      try {
+        const nodeInfo = await transport.sendCommand("get_node_info", { nodeId });
+        const { results, skipped } = auditContrast(nodeInfo, includeApca);
+
+        const levelKey = level === 'AA' ? 'aa' : 'aaa';
+        const failures = results.filter(result => !result.wcag[levelKey].pass);
+        const summary = {
+          textNodes: results.length + skipped.length,
+          audited: results.length,
+          aaFailures: results.filter(result => !result.wcag.aa.pass).length,
+          aaaFailures: results.filter(result => !result.wcag.aaa.pass).length,
+          ...(includeApca && { apcaFailures: results.filter(result => !result.apca.pass).length }),
+          assumedBackgrounds: results.filter(result => result.backgroundAssumed).length,
+          uncertainBackgrounds: results.filter(result => result.backgroundUncertain).length
+        };
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: failures.length === 0
+                ? `Todos los textos auditados (${results.length}) cumplen el contraste WCAG ${level}.`
+                : `${failures.length} de ${results.length} textos no cumplen el contraste WCAG ${level}.`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                summary,
+                results: onlyFailures ? failures : results,
+                ...(skipped.length > 0 && { skipped })
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al auditar el contraste: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  // Accessibility Audit Tool
+  server.tool(
+    "audit_accessibility",
+    "Auditar la accesibilidad de un nodo: objetivos táctiles menores de 24/44px, componentes interactivos sin estado de foco, texto menor de 12px o de altura fija y botones solo con icono, ordenados por gravedad",
+    {
+      nodeId: z.string().describe("ID del nodo a auditar (página, frame o componente)"),
+      checks: z.array(
+        z.enum(["touchTargets", "focusStates", "textSize", "iconButtons"])
+      ).default(["touchTargets", "focusStates", "textSize", "iconButtons"]).describe("Comprobaciones a realizar")
+    },
+    async ({ nodeId, checks }) => {
+      try {
+        const nodeInfo: any = await transport.sendCommand("get_node_info", { nodeId });
+        const issues = auditAccessibility(nodeInfo, checks);
+        
+        const bySeverity = { high: 0, medium: 0, low: 0 };
+        const byRule: Record<string, number> = {};
+        issues.forEach(issue => {
+          bySeverity[issue.severity]++;
+          byRule[issue.rule] = (byRule[issue.rule] || 0) + 1;
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: issues.length === 0
+                ? `No se han encontrado problemas de accesibilidad en "${nodeInfo.name}".`
+                : `Se han encontrado ${issues.length} problemas de accesibilidad en "${nodeInfo.name}" (${bySeverity.high} altos, ${bySeverity.medium} medios, ${bySeverity.low} bajos).`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                summary: { issues: issues.length, bySeverity, byRule },
+                issues
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al auditar la accesibilidad: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
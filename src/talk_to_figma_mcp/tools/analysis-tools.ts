@@ -2,15 +2,65 @@
  * Herramientas avanzadas para análisis de diseño en Figma
  */
 
+import fs from "fs";
+import path from "path";
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma } from "../core/figma-connection.js";
-import { hexToRgb } from "../utils/figma-utils.js";
+import { FigmaTransport, fetchDocumentPages } from "../core/transport.js";
+import { FixtureTransport } from "../core/fixture-transport.js";
+import { camelCase, hexToRgb, kebabCase, summarizePage } from "../utils/figma-utils.js";
+import {
+  indexVariables,
+  isVariableAlias,
+  isVariableColor,
+  ResolvedVariableValue,
+  resolveVariableValue,
+  VariableIndex
+} from "../utils/variable-utils.js";
+import {
+  EffectStyle,
+  FigmaLetterSpacing,
+  FigmaLineHeight,
+  FigmaStyles,
+  FigmaVariable,
+  FigmaVariables,
+  GridStyle,
+  PaintStyle,
+  TextStyle
+} from "../types/figma-types.js";
+import { parseFigmaStyles } from "../types/figma-style-schemas.js";
+import { parseFigmaVariables } from "../types/figma-variable-schemas.js";
+import {
+  checkTokenDrift,
+  detectTokenFileFormat,
+  diffTokenSets,
+  formatTokenDiffMarkdown,
+  formatBoxShadow,
+  parseTokenFile,
+  tokenCssDeclarations,
+  tokenCssVariable,
+  TokenSet
+} from "../utils/token-utils.js";
+import {
+  assignRampNames,
+  assignSemanticNames,
+  classifyColorUsage,
+  clusterColors,
+  ColorMetric,
+  ColorSample,
+  ColorUsageContext,
+  colorRampPosition,
+  colorToHex,
+  hexToColor,
+  nodeColorContext,
+  SemanticColor
+} from "../utils/color-utils.js";
+import { detectSpacingScale, detectTypeScale, inferTextStyles, ScaleValue, TypeScale } from "../utils/scale-utils.js";
 
 /**
  * Registra las herramientas de análisis en el servidor MCP
  */
-export function registerAnalysisTools(server: McpServer): void {
+export function registerAnalysisTools(server: McpServer, transport: FigmaTransport): void {
   // Analyze Design System Tool (mejorado para ser más flexible)
   server.tool(
     "analyze_design_system",
@@ -20,8 +70,9 @@ export function registerAnalysisTools(server: McpServer): void {
       detailLevel: z.enum(["basic", "detailed", "comprehensive"]).default("detailed").describe("Nivel de detalle del análisis"),
       includeComponents: z.boolean().default(true).describe("Booleano para incluir análisis de componentes"),
       inferStyles: z.boolean().default(true).describe("Intentar inferir estilos no formalmente definidos"),
+      pageIds: z.array(z.string()).optional().describe("IDs de las páginas a analizar (si se omite, se analizan todas las páginas)"),
     },
-    async ({ documentId, detailLevel, includeComponents, inferStyles }) => {
+    async ({ documentId, detailLevel, includeComponents, inferStyles, pageIds }) => {
       try {
         // Mensaje inicial para indicar que el proceso ha comenzado
         const initialStatus = {
@@ -29,13 +80,13 @@ export function registerAnalysisTools(server: McpServer): void {
           text: `Iniciando análisis del sistema de diseño con nivel de detalle '${detailLevel}'. Esto puede tomar unos momentos para documentos grandes...`,
         };
 
-        // Obtener información del documento
+        // Obtener información del documento, recorriendo todas sus páginas
         const documentInfo = documentId 
-          ? await sendCommandToFigma("get_node_info", { nodeId: documentId })
-          : await sendCommandToFigma("get_document_info");
+          ? await transport.sendCommand("get_node_info", { nodeId: documentId })
+          : await fetchDocumentPages(transport, { pageIds });
 
         // Obtener todos los estilos del documento
-        let stylesResult = await sendCommandToFigma("get_styles");
+        let stylesResult: FigmaStyles = parseFigmaStyles(await transport.sendCommand("get_styles"));
         
         // Si no hay estilos formales y se ha solicitado inferencia, inferirlos
         if (inferStyles && 
@@ -47,7 +98,7 @@ export function registerAnalysisTools(server: McpServer): void {
           // Combinar estilos formales con inferidos
           stylesResult = {
             colors: [...(stylesResult.colors || []), ...(inferredStyles.colors || [])],
-            texts: [...(stylesResult.texts || [])],
+            texts: [...(stylesResult.texts || []), ...(inferredStyles.texts || [])],
             effects: [...(stylesResult.effects || []), ...(inferredStyles.effects || [])],
             grids: [...(stylesResult.grids || []), ...(inferredStyles.grids || [])]
           };
@@ -56,11 +107,14 @@ export function registerAnalysisTools(server: McpServer): void {
         // Obtener componentes locales si se solicita
         let componentsResult = null;
         if (includeComponents) {
-          componentsResult = await sendCommandToFigma("get_local_components");
+          componentsResult = await transport.sendCommand("get_local_components");
         }
 
+        // Obtener variables del documento
+        const variablesResult = await getVariablesIfAvailable(transport);
+
         // Analizar los datos recopilados para identificar el sistema de diseño
-        const designSystem = analyzeDesignSystem(documentInfo, stylesResult, componentsResult, detailLevel);
+        const designSystem = analyzeDesignSystem(documentInfo, stylesResult, componentsResult, detailLevel, variablesResult.variables);
         
         // Añadir recomendaciones específicas si el sistema de diseño es limitado
         const isLimitedDesignSystem = designSystem.designSystem.consistency.score < 50;
@@ -104,14 +158,18 @@ export function registerAnalysisTools(server: McpServer): void {
     {
       nodeId: z.string().describe("ID del nodo a analizar (documento, página o componente)"),
       tokenTypes: z.array(
-        z.enum(["colors", "typography", "spacing", "shadows", "radii"])
-      ).default(["colors", "typography", "spacing", "shadows", "radii"])
+        z.enum(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
+      ).default(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
       .describe("Array de tipos de tokens a extraer"),
-      format: z.enum(["css", "scss", "json", "js", "ts"]).default("json")
-      .describe("Formato de salida"),
-      inferTokens: z.boolean().default(true).describe("Inferir tokens aunque no estén explícitamente definidos")
+      format: z.enum(["css", "scss", "json", "js", "ts", "dtcg", "style-dictionary", "tailwind", "css-in-js", "android", "ios", "flutter"]).default("json")
+      .describe("Formato de salida ('dtcg': JSON del formato W3C Design Tokens, con `$value`/`$type` y alias `{grupo.token}`; 'style-dictionary': ficheros fuente y `config.json`; 'tailwind': bloque `theme.extend`; 'css-in-js': tema tipado para styled-components/emotion; 'android', 'ios', 'flutter': recursos XML, Swift y Dart con unidades de plataforma)"),
+      inferTokens: z.boolean().default(true).describe("Inferir tokens aunque no estén explícitamente definidos"),
+      colorThreshold: z.number().min(0).default(3)
+      .describe("Diferencia perceptual máxima (ΔE) para agrupar colores inferidos casi idénticos en un solo token"),
+      colorMetric: z.enum(["ciede2000", "oklab"]).default("ciede2000")
+      .describe("Métrica de diferencia de color para el agrupamiento ('oklab': distancia euclídea en OKLab ×100)")
     },
-    async ({ nodeId, tokenTypes, format, inferTokens }) => {
+    async ({ nodeId, tokenTypes, format, inferTokens, colorThreshold, colorMetric }) => {
       try {
         // Mensaje inicial para indicar que el proceso ha comenzado
         const initialStatus = {
@@ -119,38 +177,13 @@ export function registerAnalysisTools(server: McpServer): void {
           text: `Iniciando extracción de tokens de diseño (${tokenTypes.join(", ")}) con formato de salida '${format}'. Esto puede tomar unos momentos...`,
         };
 
-        // Obtener información del nodo especificado
-        const nodeInfo = await sendCommandToFigma("get_node_info", { nodeId });
-        
-        // Obtener estilos del documento para análisis
-        let stylesResult = await sendCommandToFigma("get_styles");
-        
-        // Si no hay suficientes estilos definidos y se solicita inferencia, inferir tokens
-        const hasLimitedStyles = (!stylesResult.colors || stylesResult.colors.length === 0 || 
-                                !stylesResult.texts || stylesResult.texts.length === 0);
-        
-        let inferredTokensInfo = null;
-        
-        if (inferTokens && hasLimitedStyles) {
-          // Inferir tokens analizando el nodo
-          inferredTokensInfo = await inferTokensFromNode(nodeInfo);
-          
-          // Combinar estilos formales con inferidos
-          stylesResult = {
-            colors: [...(stylesResult.colors || []), ...(inferredTokensInfo.colors || [])],
-            texts: [...(stylesResult.texts || [])],
-            effects: [...(stylesResult.effects || []), ...(inferredTokensInfo.effects || [])],
-            grids: [...(stylesResult.grids || []), ...(inferredTokensInfo.grids || [])]
-          };
-        }
-        
-        // Extraer los tokens solicitados
-        const tokens = extractTokens(nodeInfo, stylesResult, tokenTypes);
+        const { tokens, inferred: hasInferredTokens, colorClusters, scaleAnalysis, variablesError } =
+          await collectDesignTokens(transport, nodeId, tokenTypes, inferTokens, { colorThreshold, colorMetric });
         
         // Añadir información de análisis de color para tokens inferidos
-        if (inferTokens && hasLimitedStyles && tokens.colors && tokens.colors.length > 0) {
-          tokens.colorAnalysis = analyzeColors(tokens.colors);
-        }
+        const colorAnalysis = hasInferredTokens && tokens.colors && tokens.colors.length > 0
+          ? analyzeColors(tokens.colors, colorClusters)
+          : undefined;
         
         // Generar el código en el formato solicitado
         const codeOutput = generateTokenCode(tokens, format);
@@ -162,7 +195,10 @@ export function registerAnalysisTools(server: McpServer): void {
         const response = {
           tokens,
           code: codeOutput,
-          statistics
+          statistics,
+          ...(colorAnalysis && { colorAnalysis }),
+          ...(scaleAnalysis && { scaleAnalysis }),
+          ...(variablesError && { variablesUnavailable: variablesError })
         };
 
         return {
@@ -170,7 +206,7 @@ export function registerAnalysisTools(server: McpServer): void {
             initialStatus,
             {
               type: "text" as const,
-              text: inferTokens && hasLimitedStyles ? 
+              text: hasInferredTokens ? 
                 "Se han inferido tokens adicionales ya que no se encontraron suficientes estilos definidos formalmente." :
                 "Tokens extraídos correctamente."
             },
@@ -192,6 +228,171 @@ export function registerAnalysisTools(server: McpServer): void {
       }
     }
   );
+
+  // Diff Design Tokens Tool
+  const tokenSourceSchema = z.object({
+    nodeId: z.string().optional().describe("ID del nodo del que extraer los tokens"),
+    fixture: z.string().optional().describe("Directorio de un fixture de Figma del que leer el nodo en lugar del documento conectado"),
+    baseline: z.string().optional().describe("Fichero JSON con tokens guardados (respuesta de extract_design_tokens o fichero escrito con `saveBaseline`)")
+  });
+
+  server.tool(
+    "diff_design_tokens",
+    "Comparar dos conjuntos de tokens de diseño (de dos nodos, dos fixtures o una línea base guardada) y listar los tokens añadidos, eliminados, renombrados y modificados",
+    {
+      base: tokenSourceSchema.describe("Origen de los tokens de la versión anterior"),
+      head: tokenSourceSchema.describe("Origen de los tokens de la versión nueva"),
+      tokenTypes: z.array(
+        z.enum(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
+      ).default(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
+      .describe("Array de tipos de tokens a comparar"),
+      inferTokens: z.boolean().default(true).describe("Inferir tokens aunque no estén explícitamente definidos"),
+      saveBaseline: z.string().optional().describe("Ruta donde guardar los tokens de `head` como línea base para comparaciones futuras")
+    },
+    async ({ base, head, tokenTypes, inferTokens, saveBaseline }) => {
+      try {
+        const baseSet = await loadTokenSource(transport, base, tokenTypes, inferTokens);
+        const headSet = await loadTokenSource(transport, head, tokenTypes, inferTokens);
+        
+        const diff = diffTokenSets(baseSet.tokens, headSet.tokens);
+        
+        if (saveBaseline) {
+          fs.mkdirSync(path.dirname(path.resolve(saveBaseline)), { recursive: true });
+          fs.writeFileSync(
+            saveBaseline,
+            JSON.stringify({ source: headSet.label, savedAt: new Date().toISOString(), tokens: headSet.tokens }, null, 2)
+          );
+        }
+        
+        const response = {
+          base: { source: baseSet.label, statistics: calculateTokenStatistics(baseSet.tokens) },
+          head: { source: headSet.label, statistics: calculateTokenStatistics(headSet.tokens) },
+          changelog: diff,
+          ...(saveBaseline && { savedBaseline: path.resolve(saveBaseline) })
+        };
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: formatTokenDiffMarkdown(diff, baseSet.label, headSet.label)
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(response, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error al comparar tokens de diseño: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  // Token Drift Tool
+  server.tool(
+    "check_token_drift",
+    "Comparar los tokens de diseño de Figma con un fichero de tokens del código (css, scss, json, js o ts) y detectar valores ausentes, tokens sin uso y valores casi iguales",
+    {
+      nodeId: z.string().describe("ID del nodo del que extraer los tokens de diseño"),
+      filePath: z.string().describe("Ruta local del fichero de tokens del código (p. ej. src/styles/tokens.css)"),
+      fileFormat: z.enum(["css", "scss", "json", "js", "ts"]).optional()
+      .describe("Formato del fichero (si se omite, se deduce de la extensión)"),
+      tokenTypes: z.array(
+        z.enum(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
+      ).default(["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"])
+      .describe("Array de tipos de tokens a comparar"),
+      inferTokens: z.boolean().default(true).describe("Inferir tokens aunque no estén explícitamente definidos"),
+      colorTolerance: z.number().min(0).default(4)
+      .describe("Diferencia máxima por canal RGB (0-255) para considerar dos colores casi iguales"),
+      dimensionTolerance: z.number().min(0).default(1)
+      .describe("Diferencia máxima en píxeles para considerar dos dimensiones casi iguales")
+    },
+    async ({ nodeId, filePath, fileFormat, tokenTypes, inferTokens, colorTolerance, dimensionTolerance }) => {
+      try {
+        if (!fs.existsSync(filePath)) {
+          throw new Error(`Token file ${filePath} does not exist`);
+        }
+        const format = fileFormat || detectTokenFileFormat(filePath);
+        const { tokens: codeTokens, skipped } = parseTokenFile(fs.readFileSync(filePath, 'utf8'), format);
+        
+        // Los tokens del diseño se comparan con los mismos nombres y valores (alias resueltos) que escribe la salida CSS
+        const { tokens } = await collectDesignTokens(transport, nodeId, tokenTypes, inferTokens);
+        const designTokens = parseTokenFile(generateCssTokens(tokens), 'css').tokens;
+        
+        const report = checkTokenDrift(designTokens, codeTokens, { colorTolerance, dimensionTolerance });
+        
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Comparados ${report.summary.designTokens} valores de diseño con ${report.summary.codeTokens} tokens de ${filePath}: ` +
+                `${report.summary.missingInCode} ausentes en el código, ${report.summary.unusedInCode} sin uso en el diseño, ` +
+                `${report.summary.nearMisses} casi iguales, ${report.summary.valueMismatches} con otro valor y ${report.summary.renamed} con otro nombre.` +
+                (skipped.length > 0 ? ` ${skipped.length} entradas del fichero no se han podido leer como tokens y se han omitido.` : '')
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({ filePath: path.resolve(filePath), format, ...report, ...(skipped.length > 0 && { skipped }) }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error al comprobar la deriva de tokens: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Carga un conjunto de tokens desde un nodo del documento conectado, un nodo de un fixture
+ * o un fichero de línea base, quedándose solo con los tipos de token solicitados
+ */
+async function loadTokenSource(
+  transport: FigmaTransport,
+  source: { nodeId?: string; fixture?: string; baseline?: string },
+  tokenTypes: string[],
+  inferTokens: boolean
+): Promise<{ label: string; tokens: TokenSet }> {
+  let label: string;
+  let tokens: Record<string, any>;
+  
+  if (source.baseline) {
+    if (!fs.existsSync(source.baseline)) {
+      throw new Error(`Baseline file ${source.baseline} does not exist`);
+    }
+    const data = JSON.parse(fs.readFileSync(source.baseline, 'utf8'));
+    label = source.baseline;
+    tokens = data && typeof data.tokens === 'object' ? data.tokens : data;
+  } else if (source.nodeId) {
+    const sourceTransport = source.fixture ? FixtureTransport.fromDirectory(source.fixture) : transport;
+    label = source.fixture ? `${source.fixture} (${source.nodeId})` : source.nodeId;
+    tokens = (await collectDesignTokens(sourceTransport, source.nodeId, tokenTypes, inferTokens)).tokens;
+  } else {
+    throw new Error("Each token source needs a `nodeId` (optionally with `fixture`) or a `baseline` file");
+  }
+  
+  const tokenSet: TokenSet = {};
+  for (const tokenType of tokenTypes) {
+    if (tokens && Array.isArray(tokens[tokenType])) {
+      tokenSet[tokenType] = tokens[tokenType];
+    }
+  }
+  return { label, tokens: tokenSet };
 }
 
 /**
@@ -253,7 +454,12 @@ function generateRecommendationsForLimitedSystem(designSystem: any): any {
 /**
  * Extrae tokens de diseño según los tipos especificados
  */
-function extractTokens(nodeInfo: any, stylesData: any, tokenTypes: string[]): any {
+function extractTokens(
+  nodeInfo: any,
+  stylesData: FigmaStyles,
+  tokenTypes: string[],
+  variablesData: FigmaVariables | null = null
+): any {
   const tokens: Record<string, any[]> = {};
   
   // Extraer cada tipo de token solicitado
@@ -274,6 +480,19 @@ function extractTokens(nodeInfo: any, stylesData: any, tokenTypes: string[]): an
       case 'radii':
         tokens.radii = extractRadiiTokens(stylesData, nodeInfo);
         break;
+      case 'grids':
+        tokens.grids = extractGridTokens(stylesData);
+        break;
+    }
+  }
+  
+  // Añadir los tokens definidos como variables a su grupo correspondiente
+  if (variablesData) {
+    const variableTokens = extractVariableTokens(variablesData);
+    for (const tokenType of tokenTypes) {
+      if (variableTokens[tokenType] && variableTokens[tokenType].length > 0) {
+        tokens[tokenType] = [...(tokens[tokenType] || []), ...variableTokens[tokenType]];
+      }
     }
   }
   
@@ -281,104 +500,359 @@ function extractTokens(nodeInfo: any, stylesData: any, tokenTypes: string[]): an
 }
 
 /**
- * Extrae tokens de color de los estilos
+ * Obtiene los tokens de un nodo a partir de sus estilos y variables, infiriendo
+ * tokens del propio nodo cuando el documento apenas tiene estilos definidos
  */
-function extractColorTokens(stylesData: any): any[] {
-  // Inicializar array de tokens
-  const colorTokens = [];
+export async function collectDesignTokens(
+  transport: FigmaTransport,
+  nodeId: string,
+  tokenTypes: string[],
+  inferTokens: boolean,
+  inferenceOptions: { colorThreshold?: number; colorMetric?: ColorMetric } = {}
+): Promise<{
+  tokens: Record<string, any>;
+  inferred: boolean;
+  colorClusters: any[];
+  scaleAnalysis?: any;
+  variablesError?: string;
+}> {
+  // Obtener información del nodo especificado
+  const nodeInfo = await transport.sendCommand("get_node_info", { nodeId });
+  
+  // Obtener estilos del documento para análisis
+  let stylesResult: FigmaStyles = parseFigmaStyles(await transport.sendCommand("get_styles"));
+  
+  // Obtener variables del documento, que son una fuente de tokens al mismo nivel que los estilos
+  const variablesResult = await getVariablesIfAvailable(transport);
+  const hasColorVariables = variablesResult.variables !== null &&
+    variablesResult.variables.variables.some(variable => variable.resolvedType === 'COLOR');
+  
+  // Si no hay suficientes estilos definidos y se solicita inferencia, inferir tokens
+  const hasLimitedStyles = ((stylesResult.colors.length === 0 && !hasColorVariables) || 
+                          stylesResult.texts.length === 0);
+  const inferred = inferTokens && hasLimitedStyles;
+  let colorClusters: any[] = [];
+  let semanticColors: SemanticColor[] = [];
+  
+  if (inferred) {
+    // Inferir tokens analizando el nodo
+    const inferredTokensInfo = inferStylesFromDocument(nodeInfo, inferenceOptions);
+    colorClusters = inferredTokensInfo.colorClusters;
+    semanticColors = inferredTokensInfo.semanticColors;
+    
+    // Combinar estilos formales con inferidos
+    stylesResult = {
+      colors: [...(stylesResult.colors || []), ...(inferredTokensInfo.colors || [])],
+      texts: [...(stylesResult.texts || []), ...(inferredTokensInfo.texts || [])],
+      effects: [...(stylesResult.effects || []), ...(inferredTokensInfo.effects || [])],
+      grids: [...(stylesResult.grids || []), ...(inferredTokensInfo.grids || [])]
+    };
+  }
+  
+  // Extraer los tokens solicitados; los colores inferidos llevan además su capa semántica
+  const tokens = extractTokens(nodeInfo, stylesResult, tokenTypes, variablesResult.variables);
+  if (tokens.colors && semanticColors.length > 0) {
+    tokens.colors.push(...semanticColorTokens(semanticColors, tokens.colors));
+  }
+  
+  // Las escalas se detectan sobre el propio nodo cuando se piden espaciados o tipografía
+  const scaleAnalysis = tokenTypes.includes('spacing') || tokenTypes.includes('typography')
+    ? analyzeScales(nodeInfo)
+    : undefined;
+  
+  return {
+    tokens,
+    inferred,
+    colorClusters,
+    scaleAnalysis,
+    variablesError: variablesResult.error
+  };
+}
+
+/**
+ * Crea los tokens de la capa semántica como alias de los tokens primitivos inferidos
+ */
+function semanticColorTokens(semanticColors: SemanticColor[], colorTokens: any[]): any[] {
+  const semanticTokens: any[] = [];
   
-  // Verificar si hay estilos definidos
-  if (stylesData && 'colors' in stylesData && Array.isArray(stylesData.colors)) {
-    // Filtrar estilos de color
-    const colorStyles = stylesData.colors;
+  semanticColors.forEach(semantic => {
+    const primitivePath = tokenPath(semantic.primitive);
+    const primitive = colorTokens.find(token =>
+      token.figmaStyleId?.startsWith('inferred-') && token.path?.join('/') === primitivePath.join('/')
+    );
+    if (!primitive) return;
     
-    // Transformar estilos en tokens
-    colorStyles.forEach((style: any) => {
-      // Obtener el color del estilo
-      let colorValue = '#000000';
-      let opacity = 1;
+    const [role, level] = semantic.name.split('/');
+    semanticTokens.push({
+      name: level,
+      category: role,
+      path: tokenPath(semantic.name),
+      value: primitive.value,
+      opacity: primitive.opacity,
+      type: 'color',
+      description: `Color semántico inferido para ${role} (${semantic.usageCount} usos) → ${semantic.primitive}`,
+      aliasOf: semantic.primitive,
+      aliasPath: primitivePath
+    });
+  });
+  
+  return semanticTokens;
+}
+
+/**
+ * Obtiene las variables del documento; si el origen no las soporta (plugin antiguo,
+ * plan sin acceso a la API de variables...) devuelve el motivo en lugar de fallar
+ */
+async function getVariablesIfAvailable(transport: FigmaTransport): Promise<{ variables: FigmaVariables | null; error?: string }> {
+  try {
+    return { variables: parseFigmaVariables(await transport.sendCommand("get_variables")) };
+  } catch (error) {
+    return { variables: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Divide un nombre de Figma separado por `/` en los segmentos normalizados de la ruta del token
+ */
+function tokenPath(name: string): string[] {
+  return name.split('/').map(part => kebabCase(part.trim())).filter(Boolean);
+}
+
+/**
+ * Ruta de token de una variable: el nombre de su colección seguido de los segmentos de su nombre.
+ * Si el nombre ya empieza por el grupo de la colección (`colors` → `color/bg/default`) no se repite
+ */
+function variableTokenPath(index: VariableIndex, variableId: string): string[] | undefined {
+  const variable = index.variables.get(variableId);
+  const collection = variable && index.collections.get(variable.variableCollectionId);
+  if (!variable || !collection) return undefined;
+  
+  const group = kebabCase(collection.name);
+  const namePath = tokenPath(variable.name);
+  const singular = (segment: string) => segment.replace(/s$/, '');
+  return namePath.length > 1 && singular(namePath[0]) === singular(group) ? namePath : [group, ...namePath];
+}
+
+/**
+ * Determina el grupo de tokens al que pertenece una variable según su tipo, ámbitos y nombre
+ */
+function variableTokenGroup(variable: FigmaVariable): string {
+  if (variable.resolvedType === 'COLOR') return 'colors';
+  if (variable.resolvedType !== 'FLOAT') return 'variables';
+  
+  const scopes = variable.scopes || [];
+  if (scopes.includes('CORNER_RADIUS') || /radius|radii|corner/i.test(variable.name)) return 'radii';
+  if (scopes.includes('GAP') || /spacing|space|gap/i.test(variable.name)) return 'spacing';
+  return 'variables';
+}
+
+/**
+ * Convierte el valor resuelto de una variable en el valor de token de su grupo
+ */
+function variableTokenValue(value: ResolvedVariableValue['value'], group: string): { value: any; opacity?: number } {
+  if (isVariableColor(value)) {
+    const r = Math.round(value.r * 255);
+    const g = Math.round(value.g * 255);
+    const b = Math.round(value.b * 255);
+    return {
+      value: `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`,
+      opacity: value.a !== undefined && value.a < 1 ? value.a : undefined
+    };
+  }
+  if (group === 'spacing' || group === 'radii') {
+    return { value: `${value}px` };
+  }
+  return { value };
+}
+
+/**
+ * Extrae tokens de las variables, resolviendo sus alias en el modo por defecto de cada colección.
+ * Las variables de colecciones con varios modos guardan además su valor en cada modo (`modes`)
+ */
+function extractVariableTokens(variablesData: FigmaVariables): Record<string, any[]> {
+  const index = indexVariables(variablesData);
+  const groups: Record<string, any[]> = {};
+  
+  variablesData.variables
+    .filter(variable => !variable.remote)
+    .forEach(variable => {
+      const collection = index.collections.get(variable.variableCollectionId);
+      if (!collection) return;
       
-      if (style.paints && style.paints.length > 0) {
-        const paint = style.paints[0];
-        if (paint.type === 'SOLID' && paint.color) {
-          // Convertir color RGB (0-1) a HEX
-          const r = Math.round(paint.color.r * 255);
-          const g = Math.round(paint.color.g * 255);
-          const b = Math.round(paint.color.b * 255);
-          colorValue = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-          opacity = paint.opacity !== undefined ? paint.opacity : 1;
-        }
+      const group = variableTokenGroup(variable);
+      const rawValue = variable.valuesByMode[collection.defaultModeId];
+      const resolved = resolveVariableValue(index, variable.id, collection.defaultModeId);
+      if (!resolved.resolved) return;
+      
+      let type = variable.resolvedType.toLowerCase();
+      if (group === 'spacing' || group === 'radii') {
+        type = group === 'spacing' ? 'spacing' : 'radius';
+      } else if (variable.resolvedType === 'FLOAT') {
+        type = 'number';
       }
       
-      // Generar nombre semántico para el token
-      const nameParts = style.name ? style.name.split('/') : ["color"];
-      const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
-      const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
+      // Valor en cada modo, con el nombre del modo normalizado como nombre de tema
+      let modes: Record<string, { value: any; opacity?: number; aliasOf?: string; aliasPath?: string[] }> | undefined;
+      let defaultMode: string | undefined;
+      if (collection.modes.length > 1) {
+        modes = {};
+        for (const mode of collection.modes) {
+          const modeValue = resolveVariableValue(index, variable.id, mode.modeId);
+          if (modeValue.resolved) {
+            const modeRawValue = variable.valuesByMode[mode.modeId];
+            modes[kebabCase(mode.name)] = {
+              ...variableTokenValue(modeValue.value, group),
+              ...(isVariableAlias(modeRawValue) && {
+                aliasOf: index.variables.get(modeRawValue.id)?.name || modeRawValue.id,
+                aliasPath: variableTokenPath(index, modeRawValue.id)
+              })
+            };
+          }
+        }
+        defaultMode = kebabCase(collection.modes.find(mode => mode.modeId === collection.defaultModeId)?.name || '');
+      }
       
-      colorTokens.push({
-        name,
+      if (!groups[group]) {
+        groups[group] = [];
+      }
+      const [category, ...namePath] = variableTokenPath(index, variable.id)!;
+      groups[group].push({
+        name: namePath.join('-'),
         category,
-        value: colorValue,
-        opacity: opacity !== 1 ? opacity : undefined,
-        type: 'color',
-        description: `Color: ${style.name || colorValue}`,
-        figmaStyleId: style.id
+        path: [category, ...namePath],
+        ...variableTokenValue(resolved.value, group),
+        type,
+        description: variable.description || `Variable: ${variable.name}`,
+        figmaVariableId: variable.id,
+        ...(isVariableAlias(rawValue) && {
+          aliasOf: index.variables.get(rawValue.id)?.name || rawValue.id,
+          aliasPath: variableTokenPath(index, rawValue.id)
+        }),
+        ...(modes && { modes, defaultMode })
       });
     });
-  }
+  
+  return groups;
+}
+
+/**
+ * Extrae tokens de color de los estilos
+ */
+function extractColorTokens(stylesData: FigmaStyles): any[] {
+  // Inicializar array de tokens
+  const colorTokens = [];
+  
+  // Transformar estilos en tokens
+  stylesData.colors.forEach((style: PaintStyle) => {
+    // Obtener el color del estilo: el primer relleno sólido visible
+    let colorValue = '#000000';
+    let opacity = 1;
+    
+    const paint = style.paints.find(p => p.type === 'SOLID' && p.visible !== false && p.color);
+    if (paint && paint.color) {
+      // Convertir color RGB (0-1) a HEX
+      const r = Math.round(paint.color.r * 255);
+      const g = Math.round(paint.color.g * 255);
+      const b = Math.round(paint.color.b * 255);
+      colorValue = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+      opacity = paint.opacity !== undefined ? paint.opacity : 1;
+    }
+    
+    // Generar nombre semántico para el token
+    const nameParts = style.name ? style.name.split('/') : ["color"];
+    const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
+    const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
+    
+    colorTokens.push({
+      name,
+      category,
+      path: tokenPath(style.name),
+      value: colorValue,
+      opacity: opacity !== 1 ? opacity : undefined,
+      type: 'color',
+      description: style.description || `Color: ${style.name || colorValue}`,
+      figmaStyleId: style.id
+    });
+  });
   
   return colorTokens;
 }
 
+/**
+ * Convierte el interlineado de Figma a un valor CSS
+ */
+function formatLineHeight(lineHeight?: FigmaLineHeight): string | undefined {
+  if (!lineHeight) return undefined;
+  if (lineHeight.unit === 'AUTO' || lineHeight.value === undefined) return 'normal';
+  return lineHeight.unit === 'PERCENT'
+    ? `${Math.round(lineHeight.value * 100) / 100}%`
+    : `${Math.round(lineHeight.value * 100) / 100}px`;
+}
+
+/**
+ * Convierte el espaciado entre letras de Figma a un valor CSS (los porcentajes pasan a `em`)
+ */
+function formatLetterSpacing(letterSpacing?: FigmaLetterSpacing): string | undefined {
+  if (!letterSpacing || letterSpacing.value === 0) return undefined;
+  return letterSpacing.unit === 'PERCENT'
+    ? `${Math.round(letterSpacing.value * 100) / 10000}em`
+    : `${Math.round(letterSpacing.value * 100) / 100}px`;
+}
+
 /**
  * Extrae tokens de tipografía de los estilos
  */
-function extractTypographyTokens(stylesData: any): any[] {
+function extractTypographyTokens(stylesData: FigmaStyles): any[] {
   // Inicializar array de tokens
   const typographyTokens = [];
   
-  // Verificar si hay estilos definidos
-  if (stylesData && 'texts' in stylesData && Array.isArray(stylesData.texts)) {
-    // Filtrar estilos de texto
-    const textStyles = stylesData.texts;
+  // Transformar estilos en tokens
+  stylesData.texts.forEach((style: TextStyle) => {
+    const styleData = style.style;
     
-    // Transformar estilos en tokens
-    textStyles.forEach((style: any) => {
-      const styleData = style.style || {};
-      
-      // Generar nombre semántico para el token
-      const nameParts = style.name ? style.name.split('/') : ["typography"];
-      const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
-      const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
-      
-      typographyTokens.push({
-        name,
-        category,
-        type: 'typography',
-        description: `Estilo de texto: ${style.name || "Estilo tipográfico"}`,
-        value: {
-          fontFamily: styleData.fontFamily || 'default',
-          fontSize: styleData.fontSize ? `${styleData.fontSize}px` : undefined,
-          fontWeight: styleData.fontWeight,
-          lineHeight: styleData.lineHeight ? `${styleData.lineHeight}px` : undefined,
-          letterSpacing: styleData.letterSpacing ? `${styleData.letterSpacing}px` : undefined,
-          textCase: styleData.textCase,
-          textDecoration: styleData.textDecoration
-        },
-        figmaStyleId: style.id
-      });
+    // Generar nombre semántico para el token
+    const nameParts = style.name ? style.name.split('/') : ["typography"];
+    const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
+    const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
+    
+    typographyTokens.push({
+      name,
+      category,
+      path: tokenPath(style.name),
+      type: 'typography',
+      description: style.description || `Estilo de texto: ${style.name || "Estilo tipográfico"}`,
+      value: {
+        fontFamily: styleData.fontFamily || 'default',
+        fontStyle: styleData.fontStyle && /italic/i.test(styleData.fontStyle) ? 'italic' : undefined,
+        fontSize: styleData.fontSize ? `${styleData.fontSize}px` : undefined,
+        fontWeight: styleData.fontWeight,
+        lineHeight: formatLineHeight(styleData.lineHeight),
+        letterSpacing: formatLetterSpacing(styleData.letterSpacing),
+        paragraphSpacing: styleData.paragraphSpacing ? `${styleData.paragraphSpacing}px` : undefined,
+        textCase: styleData.textCase !== 'ORIGINAL' ? styleData.textCase : undefined,
+        textDecoration: styleData.textDecoration !== 'NONE' ? styleData.textDecoration : undefined
+      },
+      figmaStyleId: style.id
     });
-  }
+  });
   
   return typographyTokens;
 }
 
 /**
- * Extrae tokens de espaciado analizando el documento
+ * Recoge los valores de espaciado (gaps y paddings de autolayout) y los nodos que usan cada uno
  */
-function extractSpacingTokens(documentInfo: any, detailLevel: string): any[] {
-  const spacingTokens = [];
-  const spacings = new Set<number>();
+function collectSpacingValues(documentInfo: any, detailLevel: string): ScaleValue[] {
+  const spacings = new Map<number, Set<string>>();
+  
+  const addSpacing = (value: number | undefined, nodeId: string) => {
+    if (value === undefined) return;
+    const rounded = Math.round(value);
+    if (!spacings.has(rounded)) {
+      spacings.set(rounded, new Set());
+    }
+    spacings.get(rounded)!.add(nodeId);
+  };
   
   // Función recursiva para encontrar espaciados entre elementos
   const findSpacings = (node: any) => {
@@ -387,17 +861,13 @@ function extractSpacingTokens(documentInfo: any, detailLevel: string): any[] {
     // Si estamos en modo básico, limitamos la profundidad
     if (detailLevel === 'basic' && spacings.size >= 5) return;
     
-    // Analizar autolayout para identificar gaps
-    if (node.layoutMode && node.itemSpacing !== undefined) {
-      spacings.add(Math.round(node.itemSpacing));
-    }
-    
-    // Analizar paddingos si existe autolayout
+    // Analizar autolayout para identificar gaps y paddings
     if (node.layoutMode) {
-      if (node.paddingLeft !== undefined) spacings.add(Math.round(node.paddingLeft));
-      if (node.paddingRight !== undefined) spacings.add(Math.round(node.paddingRight));
-      if (node.paddingTop !== undefined) spacings.add(Math.round(node.paddingTop));
-      if (node.paddingBottom !== undefined) spacings.add(Math.round(node.paddingBottom));
+      addSpacing(node.itemSpacing, node.id);
+      addSpacing(node.paddingLeft, node.id);
+      addSpacing(node.paddingRight, node.id);
+      addSpacing(node.paddingTop, node.id);
+      addSpacing(node.paddingBottom, node.id);
     }
     
     // Explorar hijos recursivamente
@@ -409,98 +879,203 @@ function extractSpacingTokens(documentInfo: any, detailLevel: string): any[] {
   // Iniciar búsqueda recursiva
   findSpacings(documentInfo);
   
-  // Convertir a array y ordenar
-  const spacingValues = Array.from(spacings).sort((a, b) => a - b);
+  return Array.from(spacings, ([value, nodeIds]) => ({ value, nodeIds: Array.from(nodeIds) }));
+}
+
+/**
+ * Recoge los tamaños de fuente de los nodos de texto y los nodos que usan cada uno
+ */
+function collectFontSizes(documentInfo: any): ScaleValue[] {
+  const sizes = new Map<number, string[]>();
   
-  // Crear tokens basados en los valores únicos encontrados
-  spacingValues.forEach((value, index) => {
-    // Determinar categoría por tamaño
-    let category = 'base';
-    if (value <= 4) category = 'xs';
-    else if (value <= 8) category = 'sm';
-    else if (value <= 16) category = 'md';
-    else if (value <= 32) category = 'lg';
-    else category = 'xl';
+  const findFontSizes = (node: any) => {
+    if (!node) return;
     
-    spacingTokens.push({
-      name: `spacing-${index + 1}`,
-      category,
-      value: `${value}px`,
-      type: 'spacing',
-      description: `Espaciado de ${value}px`
-    });
-  });
+    const fontSize = node.type === 'TEXT' && node.style ? node.style.fontSize : undefined;
+    if (typeof fontSize === 'number') {
+      const rounded = Math.round(fontSize * 100) / 100;
+      if (!sizes.has(rounded)) {
+        sizes.set(rounded, []);
+      }
+      sizes.get(rounded)!.push(node.id);
+    }
+    
+    if (node.children && node.children.length > 0) {
+      node.children.forEach(findFontSizes);
+    }
+  };
+  
+  findFontSizes(documentInfo);
+  
+  return Array.from(sizes, ([value, nodeIds]) => ({ value, nodeIds }));
+}
+
+/**
+ * Extrae tokens de espaciado nombrados por su paso en la retícula detectada (`spacing-2` = 2 × base).
+ * Los valores fuera de la retícula no generan token: se informan en el análisis de escalas
+ */
+function extractSpacingTokens(documentInfo: any, detailLevel: string): any[] {
+  const scale = detectSpacingScale(collectSpacingValues(documentInfo, detailLevel));
+  if (!scale) return [];
+  
+  return scale.steps.map(step => ({
+    name: step.name,
+    category: 'spacing',
+    path: ['spacing', step.name],
+    value: `${step.value}px`,
+    type: 'spacing',
+    description: `Espaciado de ${step.value}px (paso ${step.step} de la retícula de ${scale.base}px)`
+  }));
+}
+
+/**
+ * Analiza las escalas de espaciado y tipografía del nodo: retícula base, razón tipográfica
+ * y cada valor fuera de escala con la sugerencia más cercana y los nodos que lo usan
+ */
+function analyzeScales(documentInfo: any): any {
+  const spacing = detectSpacingScale(collectSpacingValues(documentInfo, 'detailed'));
+  const typography = detectTypeScale(collectFontSizes(documentInfo));
   
-  return spacingTokens;
+  return {
+    spacing: spacing && {
+      base: spacing.base,
+      grid: `${spacing.base}pt`,
+      coverage: spacing.coverage,
+      steps: spacing.steps.map(step => ({ name: step.name, value: `${step.value}px`, usageCount: step.nodeIds.length })),
+      offScale: spacing.offScale.map(entry => ({
+        value: `${entry.value}px`,
+        suggestion: `${entry.suggestion}px`,
+        suggestedToken: `--spacing-${entry.suggestedStep}`,
+        nodeIds: entry.nodeIds
+      }))
+    },
+    typography: typography && {
+      base: `${typography.base}px`,
+      ratio: typography.ratio,
+      ratioName: typography.ratioName,
+      coverage: typography.coverage,
+      steps: typography.steps.map(step => ({ name: step.name, value: `${step.value}px`, usageCount: step.nodeIds.length })),
+      offScale: typography.offScale.map(entry => ({
+        value: `${entry.value}px`,
+        suggestion: `${entry.suggestion}px`,
+        suggestedStep: entry.suggestedStep,
+        nodeIds: entry.nodeIds
+      }))
+    }
+  };
 }
 
 /**
- * Extrae tokens de sombra de los estilos
+ * Tipos de efecto que se convierten en capas de un token de sombra
+ */
+const SHADOW_EFFECT_TYPES = ['DROP_SHADOW', 'INNER_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR'];
+
+/**
+ * Extrae tokens de sombra de los estilos de efecto, conservando todas sus capas
  */
-function extractShadowTokens(stylesData: any): any[] {
+function extractShadowTokens(stylesData: FigmaStyles): any[] {
   // Inicializar array de tokens
   const shadowTokens = [];
   
-  // Verificar si hay estilos definidos
-  if (stylesData && 'effects' in stylesData && Array.isArray(stylesData.effects)) {
-    // Filtrar estilos de efecto (sombras)
-    const effectStyles = stylesData.effects;
-    
-    // Transformar estilos en tokens
-    effectStyles.forEach((style: any) => {
-      let shadowValue = {};
-      
-      if (style.effects && style.effects.length > 0) {
-        // Tomamos el primer efecto
-        const effect = style.effects[0];
-        if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
-          // Convertir color RGB a HEX si existe
-          let colorHex = '#000000';
-          let alpha = 1;
-          if (effect.color) {
-            const r = Math.round(effect.color.r * 255);
-            const g = Math.round(effect.color.g * 255);
-            const b = Math.round(effect.color.b * 255);
-            alpha = effect.color.a || 1;
-            colorHex = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-          }
-          
-          shadowValue = {
-            type: effect.type === 'DROP_SHADOW' ? 'dropShadow' : 'innerShadow',
-            color: colorHex,
-            alpha: alpha,
-            x: effect.offset ? `${effect.offset.x}px` : '0px',
-            y: effect.offset ? `${effect.offset.y}px` : '0px',
-            blur: `${effect.radius || 0}px`,
-            spread: effect.spread ? `${effect.spread}px` : '0px'
+  // Transformar estilos en tokens; los efectos sin equivalente CSS (ruido, textura, vidrio) se omiten
+  stylesData.effects.forEach((style: EffectStyle) => {
+    const layers = style.effects
+      .filter(effect => effect.visible !== false && SHADOW_EFFECT_TYPES.includes(effect.type))
+      .map(effect => {
+        if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') {
+          return {
+            type: effect.type === 'LAYER_BLUR' ? 'layerBlur' : 'backgroundBlur',
+            blur: `${effect.radius || 0}px`
           };
         }
-      }
-      
-      // Generar nombre semántico para el token
-      const nameParts = style.name ? style.name.split('/') : ["shadow"];
-      const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
-      const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
-      
-      shadowTokens.push({
-        name,
-        category,
-        value: shadowValue,
-        type: 'shadow',
-        description: `Sombra: ${style.name || "Efecto de sombra"}`,
-        figmaStyleId: style.id
+        
+        // Convertir color RGB a HEX si existe
+        let colorHex = '#000000';
+        let alpha = 1;
+        if (effect.color) {
+          const r = Math.round(effect.color.r * 255);
+          const g = Math.round(effect.color.g * 255);
+          const b = Math.round(effect.color.b * 255);
+          alpha = effect.color.a !== undefined ? effect.color.a : 1;
+          colorHex = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+        }
+        
+        return {
+          type: effect.type === 'DROP_SHADOW' ? 'dropShadow' : 'innerShadow',
+          color: colorHex,
+          alpha: alpha,
+          x: effect.offset ? `${effect.offset.x}px` : '0px',
+          y: effect.offset ? `${effect.offset.y}px` : '0px',
+          blur: `${effect.radius || 0}px`,
+          spread: effect.spread ? `${effect.spread}px` : '0px'
+        };
       });
+    
+    if (layers.length === 0) return;
+    
+    // Generar nombre semántico para el token
+    const nameParts = style.name ? style.name.split('/') : ["shadow"];
+    const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
+    const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
+    
+    shadowTokens.push({
+      name,
+      category,
+      path: tokenPath(style.name),
+      value: { layers },
+      type: 'shadow',
+      description: style.description || `Sombra: ${style.name || "Efecto de sombra"}`,
+      figmaStyleId: style.id
     });
-  }
+  });
   
   return shadowTokens;
 }
 
 /**
- * Extrae tokens de radio de borde
+ * Extrae tokens de retícula de los estilos de grid
  */
-function extractRadiiTokens(stylesData: any, documentInfo: any): any[] {
-  const radiiTokens = [];
+function extractGridTokens(stylesData: FigmaStyles): any[] {
+  const gridTokens: any[] = [];
+  
+  stylesData.grids.forEach((style: GridStyle) => {
+    const grids = style.layoutGrids
+      .filter(grid => grid.visible !== false)
+      .map(grid => ({
+        pattern: grid.pattern.toLowerCase(),
+        count: grid.pattern !== 'GRID' && grid.count !== undefined && grid.count > 0 ? grid.count : undefined,
+        size: grid.sectionSize !== undefined && (grid.pattern === 'GRID' || grid.alignment !== 'STRETCH')
+          ? `${grid.sectionSize}px`
+          : undefined,
+        gutter: grid.pattern !== 'GRID' && grid.gutterSize !== undefined ? `${grid.gutterSize}px` : undefined,
+        margin: grid.pattern !== 'GRID' && grid.offset !== undefined ? `${grid.offset}px` : undefined,
+        alignment: grid.alignment ? grid.alignment.toLowerCase() : undefined
+      }));
+    
+    // Generar nombre semántico para el token
+    const nameParts = style.name ? style.name.split('/') : ["grid"];
+    const name = nameParts[nameParts.length - 1].toLowerCase().replace(/\s+/g, '-');
+    const category = nameParts.length > 1 ? nameParts[0].toLowerCase() : 'base';
+    
+    gridTokens.push({
+      name,
+      category,
+      path: tokenPath(style.name),
+      value: { grids },
+      type: 'grid',
+      description: style.description || `Retícula: ${style.name}`,
+      figmaStyleId: style.id
+    });
+  });
+  
+  return gridTokens;
+}
+
+/**
+ * Extrae tokens de radio de borde
+ */
+function extractRadiiTokens(stylesData: any, documentInfo: any): any[] {
+  const radiiTokens = [];
   const borderRadii = new Set<number>();
   
   // Función recursiva para encontrar radios en el documento
@@ -568,193 +1143,1082 @@ function generateTokenCode(tokens: Record<string, any[]>, format: string): Recor
     case 'ts':
       codeOutput.ts = generateTsTokens(tokens);
       break;
+    case 'dtcg':
+      codeOutput.dtcg = generateDtcgTokens(tokens);
+      break;
+    case 'style-dictionary':
+      Object.assign(codeOutput, generateStyleDictionarySource(tokens));
+      break;
+    case 'tailwind':
+      codeOutput.tailwind = generateTailwindConfig(tokens);
+      break;
+    case 'css-in-js':
+      Object.assign(codeOutput, generateCssInJsTheme(tokens));
+      break;
+    case 'android':
+      Object.assign(codeOutput, generateAndroidResources(tokens));
+      break;
+    case 'ios':
+      codeOutput['ios/DesignTokens.swift'] = generateSwiftTokens(tokens);
+      break;
+    case 'flutter':
+      codeOutput['flutter/design_tokens.dart'] = generateFlutterTokens(tokens);
+      break;
   }
   
   return codeOutput;
 }
 
+/**
+ * Mapeo de `textCase` de Figma a `text-transform` de CSS
+ */
+const TEXT_TRANSFORMS: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize'
+};
+
+/**
+ * Obtiene los nombres de tema (modos de variables normalizados) presentes en los tokens
+ */
+function collectThemeNames(tokens: Record<string, any[]>): string[] {
+  const themes = new Set<string>();
+  for (const tokenType in tokens) {
+    tokens[tokenType].forEach(token => {
+      if (token.defaultMode) themes.add(token.defaultMode);
+      Object.keys(token.modes || {}).forEach(mode => themes.add(mode));
+    });
+  }
+  return Array.from(themes);
+}
+
+/**
+ * Devuelve una copia de los tokens con los valores que toman en un tema.
+ * Los tokens sin ese modo conservan su valor por defecto
+ */
+function applyTheme(tokens: Record<string, any[]>, theme: string): Record<string, any[]> {
+  const themed: Record<string, any[]> = {};
+  for (const tokenType in tokens) {
+    themed[tokenType] = tokens[tokenType].map(token => {
+      const { modes, defaultMode, ...rest } = token;
+      return modes && modes[theme]
+        ? {
+            ...rest,
+            value: modes[theme].value,
+            opacity: modes[theme].opacity,
+            aliasOf: modes[theme].aliasOf,
+            aliasPath: modes[theme].aliasPath
+          }
+        : rest;
+    });
+  }
+  return themed;
+}
+
+/**
+ * Formatea un valor simple de token (color, dimensión, número...) como valor CSS
+ */
+function formatCssValue(type: string, value: any, opacity?: number): string {
+  if (type === 'color' && opacity !== undefined) {
+    return `rgba(${hexToRgb(value)}, ${opacity})`;
+  }
+  return String(value);
+}
+
 /**
  * Genera tokens en formato CSS Variables
  */
-function generateCssTokens(tokens: Record<string, any[]>): string {
-  let cssCode = `:root {\n`;
-  
-  // Procesar cada tipo de token
+function generateCssTokens(tokens: Record<string, any[]>): string {
+  let cssCode = `:root {\n`;
+  
+  // Variables CSS por ruta de token, para escribir los alias (semánticos o de variables) como var()
+  const cssVariables = new Map<string, string>();
+  for (const tokenType in tokens) {
+    tokens[tokenType].forEach(token => {
+      if (token.path) cssVariables.set(token.path.join('/'), tokenCssVariable(token));
+    });
+  }
+  const aliasReference = (tokenName: string, aliasPath?: string[]): string | undefined => {
+    const target = aliasPath && cssVariables.get(aliasPath.join('/'));
+    return target && target !== tokenName ? `var(${target})` : undefined;
+  };
+  
+  // Procesar cada tipo de token
+  for (const tokenType in tokens) {
+    cssCode += `  /* ${tokenType.toUpperCase()} */\n`;
+    
+    tokens[tokenType].forEach(token => {
+      const tokenName = tokenCssVariable(token);
+      const reference = aliasReference(tokenName, token.aliasPath);
+      if (reference) {
+        cssCode += `  ${tokenName}: ${reference};\n`;
+        return;
+      }
+      // La tipografía, las sombras con desenfoque y las retículas ocupan varias variables
+      tokenCssDeclarations(token.type, token.value, token.opacity).forEach(([suffix, value]) => {
+        cssCode += `  ${tokenName}${suffix}: ${value};\n`;
+      });
+    });
+    
+    cssCode += `\n`;
+  }
+  
+  cssCode += `}\n`;
+  
+  // Un bloque por cada modo distinto del modo por defecto, con los tokens que cambian en él
+  for (const theme of collectThemeNames(tokens)) {
+    let themeCode = '';
+    for (const tokenType in tokens) {
+      tokens[tokenType]
+        .filter(token => token.modes && token.modes[theme] && token.defaultMode !== theme)
+        .forEach(token => {
+          const tokenName = tokenCssVariable(token);
+          const modeValue = token.modes[theme];
+          themeCode += `  ${tokenName}: ${aliasReference(tokenName, modeValue.aliasPath) || formatCssValue(token.type, modeValue.value, modeValue.opacity)};\n`;
+        });
+    }
+    if (themeCode) {
+      cssCode += `\n[data-theme="${theme}"] {\n${themeCode}}\n`;
+    }
+  }
+  
+  return cssCode;
+}
+
+/**
+ * Genera tokens en formato SCSS Variables y Maps
+ */
+function generateScssTokens(tokens: Record<string, any[]>): string {
+  let scssCode = `// Design Tokens generados desde Figma\n\n`;
+  
+  // Procesar cada tipo de token
+  for (const tokenType in tokens) {
+    scssCode += `// ${tokenType.toUpperCase()}\n`;
+    
+    // Crear un mapa para este tipo de token
+    scssCode += `$${tokenType}: (\n`;
+    
+    const tokensByCategory: Record<string, any[]> = {};
+    
+    // Agrupar tokens por categoría
+    tokens[tokenType].forEach(token => {
+      const category = token.category || 'base';
+      if (!tokensByCategory[category]) {
+        tokensByCategory[category] = [];
+      }
+      tokensByCategory[category].push(token);
+    });
+    
+    // Generar código SCSS para cada categoría
+    const categories = Object.keys(tokensByCategory);
+    categories.forEach((category, categoryIndex) => {
+      scssCode += `  '${category}': (\n`;
+      
+      tokensByCategory[category].forEach((token, tokenIndex) => {
+        const isLast = tokenIndex === tokensByCategory[category].length - 1;
+        const tokenName = token.name;
+        let tokenValue = '';
+        
+        switch (token.type) {
+          case 'color':
+            tokenValue = token.opacity !== undefined ? 
+              `rgba(${hexToRgb(token.value)}, ${token.opacity})` : 
+              token.value;
+            break;
+          case 'typography':
+            // Para tipografía crear un mapa anidado
+            tokenValue = `(\n`;
+            tokenValue += `      'font-family': ${JSON.stringify(token.value.fontFamily || 'inherit')},\n`;
+            tokenValue += `      'font-size': ${JSON.stringify(token.value.fontSize || 'inherit')},\n`;
+            tokenValue += `      'font-weight': ${token.value.fontWeight || 'normal'},\n`;
+            tokenValue += `      'line-height': ${JSON.stringify(token.value.lineHeight || 'normal')},\n`;
+            tokenValue += `      'letter-spacing': ${JSON.stringify(token.value.letterSpacing || 'normal')}`;
+            // Como en la salida CSS, el espacio entre párrafos solo se escribe si el estilo lo define
+            if (token.value.paragraphSpacing) {
+              tokenValue += `,\n      'paragraph-spacing': ${JSON.stringify(token.value.paragraphSpacing)}`;
+            }
+            tokenValue += `\n    )`;
+            break;
+          case 'shadow':
+            tokenValue = `'${formatBoxShadow(token.value.layers || []) || 'none'}'`;
+            break;
+          case 'grid':
+            // Mapa anidado por patrón de retícula
+            tokenValue = `(\n`;
+            tokenValue += (token.value.grids || []).map((grid: any) => {
+              const entries = ['count', 'size', 'gutter', 'margin']
+                .filter(property => grid[property] !== undefined)
+                .map(property => `'${property}': ${grid[property]}`);
+              return `      '${grid.pattern}': (${entries.join(', ')})`;
+            }).join(',\n');
+            tokenValue += `\n    )`;
+            break;
+          default:
+            tokenValue = JSON.stringify(token.value);
+        }
+        
+        scssCode += `    '${tokenName}': ${tokenValue}${isLast ? '' : ','}\n`;
+      });
+      
+      const isLastCategory = categoryIndex === categories.length - 1;
+      scssCode += `  )${isLastCategory ? '' : ','}\n`;
+    });
+    
+    scssCode += `);\n\n`;
+    
+    // Crear funciones helper para acceder a los tokens
+    if (tokenType === 'colors') {
+      scssCode += `// Función helper para colores\n`;
+      scssCode += `@function color($category, $name) {\n`;
+      scssCode += `  @return map-get(map-get($colors, $category), $name);\n`;
+      scssCode += `}\n\n`;
+    } else if (tokenType === 'spacing') {
+      scssCode += `// Función helper para espaciado\n`;
+      scssCode += `@function spacing($category, $name) {\n`;
+      scssCode += `  @return map-get(map-get($spacing, $category), $name);\n`;
+      scssCode += `}\n\n`;
+    }
+  }
+  
+  // Mapa de temas: para cada modo, los tokens que dependen del modo con su valor en él
+  const themes = collectThemeNames(tokens);
+  if (themes.length > 0) {
+    scssCode += `// THEMES\n`;
+    scssCode += `$themes: (\n`;
+    
+    themes.forEach((theme, themeIndex) => {
+      const themedTokens = applyTheme(tokens, theme);
+      const typeEntries: string[] = [];
+      
+      for (const tokenType in tokens) {
+        // Agrupar por categoría los tokens con modos
+        const tokensByCategory: Record<string, string[]> = {};
+        tokens[tokenType].forEach((token, tokenIndex) => {
+          if (!token.modes) return;
+          const themedToken = themedTokens[tokenType][tokenIndex];
+          const value = themedToken.type === 'color'
+            ? formatCssValue(themedToken.type, themedToken.value, themedToken.opacity)
+            : JSON.stringify(themedToken.value);
+          const category = token.category || 'base';
+          if (!tokensByCategory[category]) {
+            tokensByCategory[category] = [];
+          }
+          tokensByCategory[category].push(`        '${token.name}': ${value}`);
+        });
+        
+        const categories = Object.keys(tokensByCategory);
+        if (categories.length > 0) {
+          typeEntries.push(
+            `    '${tokenType}': (\n` +
+            categories.map(category => `      '${category}': (\n${tokensByCategory[category].join(',\n')}\n      )`).join(',\n') +
+            `\n    )`
+          );
+        }
+      }
+      
+      scssCode += `  '${theme}': (\n${typeEntries.join(',\n')}\n  )${themeIndex === themes.length - 1 ? '' : ','}\n`;
+    });
+    
+    scssCode += `);\n\n`;
+    scssCode += `// Función helper para temas\n`;
+    scssCode += `@function theme-token($theme, $type, $category, $name) {\n`;
+    scssCode += `  @return map-get(map-get(map-get(map-get($themes, $theme), $type), $category), $name);\n`;
+    scssCode += `}\n\n`;
+  }
+  
+  return scssCode;
+}
+
+/**
+ * Genera tokens en formato JSON
+ */
+function generateJsonTokens(tokens: Record<string, any[]>): string {
+  const jsonStructure: Record<string, any> = {};
+  
+  // Construir estructura para JSON
+  for (const tokenType in tokens) {
+    jsonStructure[tokenType] = {};
+    
+    // Agrupar por categoría
+    tokens[tokenType].forEach(token => {
+      const category = token.category || 'base';
+      
+      // Crear categoría si no existe
+      if (!jsonStructure[tokenType][category]) {
+        jsonStructure[tokenType][category] = {};
+      }
+      
+      // Añadir token a su categoría
+      jsonStructure[tokenType][category][token.name] = {
+        value: token.value,
+        ...(token.opacity !== undefined && { opacity: token.opacity }),
+        type: token.type,
+        description: token.description,
+        ...(token.figmaStyleId && { figmaStyleId: token.figmaStyleId }),
+        ...(token.figmaVariableId && { figmaVariableId: token.figmaVariableId }),
+        ...(token.aliasOf && { aliasOf: token.aliasOf }),
+        ...(token.modes && { modes: token.modes })
+      };
+    });
+  }
+  
+  // Convertir a string con formato
+  return JSON.stringify(jsonStructure, null, 2);
+}
+
+/**
+ * Medidas numéricas (en píxeles) de un token de tipografía: tamaño, interlineado
+ * absoluto y relativo, y espaciado entre letras con los `em` convertidos a píxeles
+ */
+function typographyMetrics(value: any): {
+  fontSize: number;
+  lineHeight?: number;
+  lineHeightRatio?: number;
+  letterSpacing: number;
+} {
+  const fontSize = parseFloat(value.fontSize) || 16;
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  let lineHeight: number | undefined;
+  if (value.lineHeight && value.lineHeight !== 'normal') {
+    lineHeight = value.lineHeight.endsWith('%')
+      ? parseFloat(value.lineHeight) / 100 * fontSize
+      : parseFloat(value.lineHeight);
+  }
+
+  let letterSpacing = value.letterSpacing ? parseFloat(value.letterSpacing) : 0;
+  if (value.letterSpacing && value.letterSpacing.endsWith('em')) {
+    letterSpacing *= fontSize;
+  }
+
+  return {
+    fontSize,
+    lineHeight: lineHeight !== undefined ? round(lineHeight) : undefined,
+    lineHeightRatio: lineHeight !== undefined ? round(lineHeight / fontSize) : undefined,
+    letterSpacing: round(letterSpacing)
+  };
+}
+
+/**
+ * `$type` DTCG de cada tipo de token. Las retículas, cadenas y booleanos no tienen
+ * equivalente en el formato y no se exportan
+ */
+const DTCG_TYPES: Record<string, string> = {
+  color: 'color',
+  spacing: 'dimension',
+  radius: 'dimension',
+  typography: 'typography',
+  shadow: 'shadow',
+  number: 'number'
+};
+
+/**
+ * Normaliza un segmento de ruta como nombre de grupo o token DTCG,
+ * que no puede empezar por `$` ni contener `.`, `{` o `}`
+ */
+function dtcgName(segment: string): string {
+  return segment.replace(/^\$+/, '').replace(/[.{}]/g, '-') || 'token';
+}
+
+/**
+ * Ruta DTCG de un token: la de su nombre en Figma si tiene grupos, categoría/nombre si no los tiene
+ * (como su variable CSS) o, para los tokens inferidos, tipo/categoría/nombre
+ */
+function dtcgPath(tokenType: string, token: any): string[] {
+  const path: string[] = token.path && token.path.length > 1
+    ? token.path
+    : token.path ? [token.category || 'base', token.name] : [tokenType, token.category || 'base', token.name];
+  return path.map(dtcgName);
+}
+
+/**
+ * Color DTCG en HEX, con la opacidad como canal alfa (#rrggbbaa)
+ */
+function dtcgColor(hex: string, opacity?: number): string {
+  return opacity !== undefined && opacity < 1
+    ? `${hex}${Math.round(opacity * 255).toString(16).padStart(2, '0')}`
+    : hex;
+}
+
+/**
+ * Convierte el valor de un token al `$value` DTCG de su tipo. Devuelve `undefined` si no es exportable
+ */
+function dtcgTokenValue(type: string, value: any, opacity?: number): any {
+  switch (type) {
+    case 'color':
+      return dtcgColor(value, opacity);
+    case 'typography': {
+      const metrics = typographyMetrics(value);
+      // El interlineado DTCG es un multiplicador del tamaño de fuente; el automático de Figma ronda 1.2
+      return {
+        fontFamily: value.fontFamily,
+        fontSize: `${metrics.fontSize}px`,
+        fontWeight: value.fontWeight !== undefined ? value.fontWeight : 400,
+        letterSpacing: `${metrics.letterSpacing}px`,
+        lineHeight: metrics.lineHeightRatio !== undefined ? metrics.lineHeightRatio : 1.2
+      };
+    }
+    case 'shadow': {
+      const shadows = (value.layers || [])
+        .filter((layer: any) => layer.type === 'dropShadow' || layer.type === 'innerShadow')
+        .map((layer: any) => ({
+          color: dtcgColor(layer.color, layer.alpha),
+          offsetX: layer.x,
+          offsetY: layer.y,
+          blur: layer.blur,
+          spread: layer.spread,
+          ...(layer.type === 'innerShadow' && { inset: true })
+        }));
+      if (shadows.length === 0) return undefined;
+      return shadows.length === 1 ? shadows[0] : shadows;
+    }
+    default:
+      return DTCG_TYPES[type] ? value : undefined;
+  }
+}
+
+/**
+ * Genera tokens en el formato del W3C Design Tokens Community Group (DTCG).
+ * Los grupos salen de los segmentos del nombre en Figma, los alias se expresan como
+ * referencias `{grupo.token}` y los valores por modo van en `$extensions`
+ */
+function generateDtcgTokens(tokens: Record<string, any[]>): string {
+  const entries: { path: string[]; token: any; $type: string; $value: any }[] = [];
+
+  for (const tokenType in tokens) {
+    tokens[tokenType].forEach(token => {
+      const $type = DTCG_TYPES[token.type];
+      const $value = $type ? dtcgTokenValue(token.type, token.value, token.opacity) : undefined;
+      if ($value !== undefined) {
+        entries.push({ path: dtcgPath(tokenType, token), token, $type, $value });
+      }
+    });
+  }
+
+  // Dos tokens con la misma ruta (o un token bajo otro token, que DTCG no permite) no se pisan:
+  // el segmento que choca lleva un sufijo numérico, como los estilos de texto inferidos
+  const root: Record<string, any> = {};
+  const placed: { path: string[]; node: Record<string, any>; entry: typeof entries[number] }[] = [];
+  const finalPaths = new Map<string, string>();
+  entries.forEach(entry => {
+    const path = [...entry.path];
+    let group = root;
+    for (let i = 0; i < path.length - 1; i++) {
+      let segment = path[i];
+      for (let index = 2; group[segment] !== undefined && '$value' in group[segment]; index++) {
+        segment = `${path[i]}-${index}`;
+      }
+      path[i] = segment;
+      if (group[segment] === undefined) group[segment] = {};
+      group = group[segment];
+    }
+
+    const baseName = path[path.length - 1];
+    let name = baseName;
+    for (let index = 2; group[name] !== undefined; index++) {
+      name = `${baseName}-${index}`;
+    }
+    path[path.length - 1] = name;
+
+    group[name] = { $type: entry.$type, $value: entry.$value };
+    placed.push({ path, node: group[name], entry });
+    // Los alias apuntan al primer token con esa ruta, que conserva su nombre
+    const originalPath = entry.path.join('.');
+    if (!finalPaths.has(originalPath)) finalPaths.set(originalPath, path.join('.'));
+  });
+
+  // Solo se expresan como alias las referencias a tokens que también se exportan
+  const reference = (aliasPath?: string[]): string | undefined => {
+    const target = aliasPath ? finalPaths.get(aliasPath.map(dtcgName).join('.')) : undefined;
+    return target ? `{${target}}` : undefined;
+  };
+
+  placed.forEach(({ node, entry: { token, $value } }) => {
+    const figmaData: Record<string, any> = {
+      ...(token.figmaStyleId && { styleId: token.figmaStyleId }),
+      ...(token.figmaVariableId && { variableId: token.figmaVariableId })
+    };
+    if (token.modes) {
+      figmaData.modes = {};
+      for (const [mode, modeValue] of Object.entries<any>(token.modes)) {
+        figmaData.modes[mode] = reference(modeValue.aliasPath) ||
+          dtcgTokenValue(token.type, modeValue.value, modeValue.opacity);
+      }
+    }
+
+    node.$value = reference(token.aliasPath) || $value;
+    if (token.description) node.$description = token.description;
+    if (Object.keys(figmaData).length > 0) node.$extensions = { 'com.figma': figmaData };
+  });
+
+  return JSON.stringify(root, null, 2);
+}
+
+/**
+ * Clave plana de un token para temas de Tailwind y CSS-in-JS: su ruta en Figma unida con guiones
+ */
+export function flatTokenKey(token: any): string {
+  return token.path && token.path.length > 0 ? token.path.join('-') : token.name;
+}
+
+/**
+ * Raíz de la ruta de Style Dictionary (Category/Type/Item) de cada tipo de token
+ */
+const STYLE_DICTIONARY_ROOTS: Record<string, string[]> = {
+  color: ['color'],
+  spacing: ['size', 'spacing'],
+  radius: ['size', 'radius'],
+  typography: ['typography'],
+  shadow: ['shadow'],
+  number: ['number']
+};
+
+/**
+ * Genera el árbol de fuentes de Style Dictionary: un fichero por categoría raíz más `config.json`.
+ * Los alias entre variables se expresan como referencias `{ruta.value}`
+ */
+function generateStyleDictionarySource(tokens: Record<string, any[]>): Record<string, string> {
+  const entries: { path: string[]; token: any }[] = [];
+  for (const tokenType in tokens) {
+    tokens[tokenType].forEach(token => {
+      const root = STYLE_DICTIONARY_ROOTS[token.type];
+      if (!root) return;
+      const itemPath = token.path && token.path.length > 0 ? token.path : [token.category || 'base', token.name];
+      // Un grupo que repite el último nivel de la raíz (`color/bg`, `spacing/md`) no se duplica
+      const repeatsRoot = itemPath.length > 1 && itemPath[0].replace(/s$/, '') === root[root.length - 1];
+      entries.push({ path: [...root, ...(repeatsRoot ? itemPath.slice(1) : itemPath)], token });
+    });
+  }
+
+  // Rutas de Style Dictionary de las variables, para resolver sus alias
+  const variablePaths = new Map<string, string[]>();
+  entries.forEach(({ path, token }) => {
+    if (token.figmaVariableId && token.path) {
+      variablePaths.set(token.path.join('/'), path);
+    }
+  });
+
+  const files: Record<string, Record<string, any>> = {};
+  entries.forEach(({ path, token }) => {
+    let value: any;
+    const aliasTarget = token.aliasPath && variablePaths.get(token.aliasPath.join('/'));
+    if (aliasTarget) {
+      value = { value: `{${aliasTarget.join('.')}.value}` };
+    } else if (token.type === 'typography') {
+      // Las propiedades tipográficas son tokens hijos para que cada una pase por sus transformaciones
+      value = {};
+      for (const [property, propertyValue] of Object.entries<any>(token.value)) {
+        if (propertyValue !== undefined) {
+          value[property] = { value: propertyValue };
+        }
+      }
+    } else if (token.type === 'shadow') {
+      const boxShadow = formatBoxShadow(token.value.layers || []);
+      if (!boxShadow) return;
+      value = { value: boxShadow };
+    } else {
+      value = { value: formatCssValue(token.type, token.value, token.opacity) };
+    }
+    if (token.description) {
+      value.comment = token.description;
+    }
+
+    const fileName = `tokens/${path[0]}.json`;
+    if (!files[fileName]) {
+      files[fileName] = {};
+    }
+    let group = files[fileName];
+    for (const segment of path.slice(0, -1)) {
+      if (group[segment] === undefined) {
+        group[segment] = {};
+      } else if ('value' in group[segment]) {
+        return;
+      }
+      group = group[segment];
+    }
+    const name = path[path.length - 1];
+    if (group[name] === undefined) {
+      group[name] = value;
+    }
+  });
+
+  const config = {
+    source: ['tokens/**/*.json'],
+    platforms: {
+      css: {
+        transformGroup: 'css',
+        buildPath: 'build/css/',
+        files: [{ destination: 'variables.css', format: 'css/variables' }]
+      },
+      scss: {
+        transformGroup: 'scss',
+        buildPath: 'build/scss/',
+        files: [{ destination: '_variables.scss', format: 'scss/variables' }]
+      },
+      js: {
+        transformGroup: 'js',
+        buildPath: 'build/js/',
+        files: [{ destination: 'tokens.js', format: 'javascript/es6' }]
+      }
+    }
+  };
+
+  const output: Record<string, string> = {
+    'style-dictionary/config.json': JSON.stringify(config, null, 2)
+  };
+  for (const fileName in files) {
+    output[`style-dictionary/${fileName}`] = JSON.stringify(files[fileName], null, 2);
+  }
+  return output;
+}
+
+/**
+ * Genera el bloque `theme.extend` de `tailwind.config.js`. Los tokens con varios modos
+ * apuntan a su variable CSS para que cambien con el `[data-theme]` de la salida CSS
+ */
+function generateTailwindConfig(tokens: Record<string, any[]>): string {
+  const extend: Record<string, Record<string, any>> = {
+    colors: {},
+    spacing: {},
+    borderRadius: {},
+    boxShadow: {},
+    fontFamily: {},
+    fontSize: {}
+  };
+
+  for (const tokenType in tokens) {
+    tokens[tokenType].forEach(token => {
+      const key = flatTokenKey(token);
+      const value = token.type === 'color' || token.type === 'spacing' || token.type === 'radius'
+        ? formatCssValue(token.type, token.value, token.opacity)
+        : token.value;
+      const themedValue = token.modes
+        ? `var(${tokenCssVariable(token)}, ${value})`
+        : value;
+
+      switch (token.type) {
+        case 'color':
+          extend.colors[key] = themedValue;
+          break;
+        case 'spacing':
+          extend.spacing[key] = themedValue;
+          break;
+        case 'radius':
+          extend.borderRadius[key] = themedValue;
+          break;
+        case 'shadow': {
+          const boxShadow = formatBoxShadow(token.value.layers || []);
+          if (boxShadow) extend.boxShadow[key] = boxShadow;
+          break;
+        }
+        case 'typography': {
+          extend.fontFamily[key] = [token.value.fontFamily];
+          if (token.value.fontSize) {
+            const options: Record<string, string> = {};
+            if (token.value.lineHeight) options.lineHeight = token.value.lineHeight;
+            if (token.value.letterSpacing) options.letterSpacing = token.value.letterSpacing;
+            if (token.value.fontWeight !== undefined) options.fontWeight = String(token.value.fontWeight);
+            extend.fontSize[key] = [token.value.fontSize, options];
+          }
+          break;
+        }
+      }
+    });
+  }
+
+  for (const section in extend) {
+    if (Object.keys(extend[section]).length === 0) {
+      delete extend[section];
+    }
+  }
+
+  let config = `// Configuración de Tailwind generada desde Figma\n\n`;
+  config += `/** @type {import('tailwindcss').Config} */\n`;
+  config += `module.exports = {\n`;
+  config += `  theme: {\n`;
+  config += `    extend: ${JSON.stringify(extend, null, 2).replace(/\n/g, '\n    ')}\n`;
+  config += `  }\n`;
+  config += `};\n`;
+  return config;
+}
+
+/**
+ * Construye el objeto de tema CSS-in-JS (colors, space, radii, shadows, typography) de unos tokens
+ */
+function buildCssInJsTheme(tokens: Record<string, any[]>): Record<string, Record<string, any>> {
+  const theme: Record<string, Record<string, any>> = {
+    colors: {},
+    space: {},
+    radii: {},
+    shadows: {},
+    typography: {}
+  };
+
   for (const tokenType in tokens) {
-    cssCode += `  /* ${tokenType.toUpperCase()} */\n`;
-    
     tokens[tokenType].forEach(token => {
-      const tokenName = `--${token.category ? `${token.category}-` : ''}${token.name}`;
-      let tokenValue = '';
-      let skipMainAssignment = false;  // Flag para controlar si saltamos la asignación general
-      
+      const key = camelCase(flatTokenKey(token).replace(/-/g, ' '));
       switch (token.type) {
         case 'color':
-          tokenValue = token.opacity !== undefined ? 
-            `rgba(${hexToRgb(token.value)}, ${token.opacity})` : 
-            token.value;
+          theme.colors[key] = formatCssValue(token.type, token.value, token.opacity);
           break;
-        case 'typography':
-          // Para tipografía en CSS creamos variables separadas
-          if (token.value.fontFamily) {
-            cssCode += `  ${tokenName}-font-family: ${token.value.fontFamily};\n`;
-          }
-          if (token.value.fontSize) {
-            cssCode += `  ${tokenName}-font-size: ${token.value.fontSize};\n`;
-          }
-          if (token.value.fontWeight) {
-            cssCode += `  ${tokenName}-font-weight: ${token.value.fontWeight};\n`;
-          }
-          if (token.value.lineHeight) {
-            cssCode += `  ${tokenName}-line-height: ${token.value.lineHeight};\n`;
-          }
-          if (token.value.letterSpacing) {
-            cssCode += `  ${tokenName}-letter-spacing: ${token.value.letterSpacing};\n`;
-          }
-          skipMainAssignment = true;  // Marcamos para saltar la asignación general
+        case 'spacing':
+          theme.space[key] = token.value;
+          break;
+        case 'radius':
+          theme.radii[key] = token.value;
           break;
-        case 'shadow':
-          if (token.value.type === 'dropShadow') {
-            tokenValue = `${token.value.x} ${token.value.y} ${token.value.blur} ${token.value.spread} ${token.value.color}`;
-          } else {
-            tokenValue = `inset ${token.value.x} ${token.value.y} ${token.value.blur} ${token.value.spread} ${token.value.color}`;
+        case 'shadow': {
+          const boxShadow = formatBoxShadow(token.value.layers || []);
+          if (boxShadow) theme.shadows[key] = boxShadow;
+          break;
+        }
+        case 'typography': {
+          const typography: Record<string, any> = {};
+          for (const [property, value] of Object.entries<any>(token.value)) {
+            if (value === undefined || property === 'paragraphSpacing') continue;
+            if (property === 'textCase') {
+              if (TEXT_TRANSFORMS[value]) typography.textTransform = TEXT_TRANSFORMS[value];
+            } else if (property === 'textDecoration') {
+              typography.textDecoration = String(value).toLowerCase().replace('strikethrough', 'line-through');
+            } else {
+              typography[property] = value;
+            }
           }
+          theme.typography[key] = typography;
           break;
-        default:
-          tokenValue = token.value;
-      }
-      
-      // Si no debemos saltar la asignación general, añadir la variable
-      if (!skipMainAssignment) {
-        cssCode += `  ${tokenName}: ${tokenValue};\n`;
+        }
       }
     });
-    
-    cssCode += `\n`;
   }
-  
-  cssCode += `}\n`;
-  return cssCode;
+
+  return theme;
 }
 
 /**
- * Genera tokens en formato SCSS Variables y Maps
+ * Genera un tema tipado para styled-components y emotion, con las declaraciones
+ * que tipan el tema de cada librería y un tema completo por modo de variables
  */
-function generateScssTokens(tokens: Record<string, any[]>): string {
-  let scssCode = `// Design Tokens generados desde Figma\n\n`;
-  
-  // Procesar cada tipo de token
-  for (const tokenType in tokens) {
-    scssCode += `// ${tokenType.toUpperCase()}\n`;
-    
-    // Crear un mapa para este tipo de token
-    scssCode += `$${tokenType}: (\n`;
-    
-    const tokensByCategory: Record<string, any[]> = {};
-    
-    // Agrupar tokens por categoría
-    tokens[tokenType].forEach(token => {
-      const category = token.category || 'base';
-      if (!tokensByCategory[category]) {
-        tokensByCategory[category] = [];
-      }
-      tokensByCategory[category].push(token);
-    });
-    
-    // Generar código SCSS para cada categoría
-    const categories = Object.keys(tokensByCategory);
-    categories.forEach((category, categoryIndex) => {
-      scssCode += `  '${category}': (\n`;
-      
-      tokensByCategory[category].forEach((token, tokenIndex) => {
-        const isLast = tokenIndex === tokensByCategory[category].length - 1;
-        const tokenName = token.name;
-        let tokenValue = '';
-        
-        switch (token.type) {
-          case 'color':
-            tokenValue = token.opacity !== undefined ? 
-              `rgba(${hexToRgb(token.value)}, ${token.opacity})` : 
-              token.value;
-            break;
-          case 'typography':
-            // Para tipografía crear un mapa anidado
-            tokenValue = `(\n`;
-            tokenValue += `      'font-family': ${JSON.stringify(token.value.fontFamily || 'inherit')},\n`;
-            tokenValue += `      'font-size': ${JSON.stringify(token.value.fontSize || 'inherit')},\n`;
-            tokenValue += `      'font-weight': ${token.value.fontWeight || 'normal'},\n`;
-            tokenValue += `      'line-height': ${JSON.stringify(token.value.lineHeight || 'normal')},\n`;
-            tokenValue += `      'letter-spacing': ${JSON.stringify(token.value.letterSpacing || 'normal')}\n`;
-            tokenValue += `    )`;
-            break;
-          case 'shadow':
-            if (token.value.type === 'dropShadow') {
-              tokenValue = `'${token.value.x} ${token.value.y} ${token.value.blur} ${token.value.spread} ${token.value.color}'`;
-            } else {
-              tokenValue = `'inset ${token.value.x} ${token.value.y} ${token.value.blur} ${token.value.spread} ${token.value.color}'`;
-            }
-            break;
-          default:
-            tokenValue = JSON.stringify(token.value);
-        }
-        
-        scssCode += `    '${tokenName}': ${tokenValue}${isLast ? '' : ','}\n`;
-      });
-      
-      const isLastCategory = categoryIndex === categories.length - 1;
-      scssCode += `  )${isLastCategory ? '' : ','}\n`;
+function generateCssInJsTheme(tokens: Record<string, any[]>): Record<string, string> {
+  let themeCode = `// Tema generado desde Figma para styled-components / emotion\n\n`;
+  themeCode += `export const theme = ${JSON.stringify(buildCssInJsTheme(tokens), null, 2)};\n\n`;
+  themeCode += `export type Theme = typeof theme;\n`;
+
+  const themes = collectThemeNames(tokens);
+  if (themes.length > 0) {
+    themeCode += `\nexport type ThemeName = ${themes.map(theme => JSON.stringify(theme)).join(' | ')};\n\n`;
+    themeCode += `export const themes: Record<ThemeName, Theme> = {\n`;
+    themeCode += themes
+      .map(theme => {
+        const themeJson = JSON.stringify(buildCssInJsTheme(applyTheme(tokens, theme)), null, 2);
+        return `  ${JSON.stringify(theme)}: ${themeJson.replace(/\n/g, '\n  ')}`;
+      })
+      .join(',\n');
+    themeCode += `\n};\n`;
+  }
+
+  themeCode += `\nexport default theme;\n`;
+
+  const styledDeclaration =
+    `import 'styled-components';\n` +
+    `import { Theme } from './theme';\n\n` +
+    `declare module 'styled-components' {\n` +
+    `  export interface DefaultTheme extends Theme {}\n` +
+    `}\n`;
+
+  const emotionDeclaration =
+    `import '@emotion/react';\n` +
+    `import { Theme as DesignTheme } from './theme';\n\n` +
+    `declare module '@emotion/react' {\n` +
+    `  export interface Theme extends DesignTheme {}\n` +
+    `}\n`;
+
+  return {
+    'css-in-js/theme.ts': themeCode,
+    'css-in-js/styled.d.ts': styledDeclaration,
+    'css-in-js/emotion.d.ts': emotionDeclaration
+  };
+}
+
+/**
+ * Redondea un número para escribirlo como literal en código de plataforma
+ */
+function formatNumber(value: number, decimals = 2): string {
+  const factor = Math.pow(10, decimals);
+  return String(Math.round(value * factor) / factor);
+}
+
+/**
+ * Componentes RGBA (0-1) de un color de token en HEX con opacidad opcional
+ */
+function colorComponents(hex: string, opacity?: number): { r: number; g: number; b: number; a: number } {
+  const [r, g, b] = hexToRgb(hex).split(',').map(channel => parseInt(channel, 10) / 255);
+  return { r, g, b, a: opacity !== undefined ? opacity : 1 };
+}
+
+/**
+ * Color en formato ARGB de 32 bits (AARRGGBB), el que usan Android y Flutter
+ */
+function argbColor(hex: string, opacity?: number): string {
+  const alpha = Math.round((opacity !== undefined ? opacity : 1) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${hex.replace('#', '')}`.toUpperCase();
+}
+
+/**
+ * Nombre de un token como identificador de plataforma (snake_case en Android, camelCase en Swift y Dart)
+ */
+function nativeIdentifier(key: string, style: 'snake' | 'camel'): string {
+  const words = key.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = style === 'snake' ? words.join('_').toLowerCase() : camelCase(words.join(' '));
+  // Los identificadores no pueden empezar por un dígito
+  return /^[0-9]/.test(name) ? `token${style === 'snake' ? '_' : ''}${name}` : name;
+}
+
+/**
+ * Tema (modo de variables) que corresponde al modo oscuro de las plataformas nativas
+ */
+function darkThemeName(tokens: Record<string, any[]>): string | undefined {
+  return collectThemeNames(tokens).find(theme => /dark|night/.test(theme));
+}
+
+/**
+ * Genera los recursos de Android: `colors.xml` (ARGB), `dimens.xml` (dp, y sp para texto)
+ * y `values-night/colors.xml` con los colores del modo oscuro si existe
+ */
+function generateAndroidResources(tokens: Record<string, any[]>): Record<string, string> {
+  const allTokens = Object.values(tokens).flat();
+  const colorTokens = allTokens.filter(token => token.type === 'color');
+  const colorNames = new Set(colorTokens.map(token => nativeIdentifier(flatTokenKey(token), 'snake')));
+
+  const colorResources = (themedTokens: any[]): string => {
+    let xml = `<?xml version="1.0" encoding="utf-8"?>\n`;
+    xml += `<!-- Colores generados desde Figma -->\n`;
+    xml += `<resources>\n`;
+    themedTokens.forEach(token => {
+      const name = nativeIdentifier(flatTokenKey(token), 'snake');
+      const target = token.aliasPath && nativeIdentifier(token.aliasPath.join('-'), 'snake');
+      const value = target && colorNames.has(target) ? `@color/${target}` : `#${argbColor(token.value, token.opacity)}`;
+      xml += `    <color name="${name}">${value}</color>\n`;
     });
-    
-    scssCode += `);\n\n`;
-    
-    // Crear funciones helper para acceder a los tokens
-    if (tokenType === 'colors') {
-      scssCode += `// Función helper para colores\n`;
-      scssCode += `@function color($category, $name) {\n`;
-      scssCode += `  @return map-get(map-get($colors, $category), $name);\n`;
-      scssCode += `}\n\n`;
-    } else if (tokenType === 'spacing') {
-      scssCode += `// Función helper para espaciado\n`;
-      scssCode += `@function spacing($category, $name) {\n`;
-      scssCode += `  @return map-get(map-get($spacing, $category), $name);\n`;
-      scssCode += `}\n\n`;
+    xml += `</resources>\n`;
+    return xml;
+  };
+
+  let dimens = `<?xml version="1.0" encoding="utf-8"?>\n`;
+  dimens += `<!-- Dimensiones generadas desde Figma: 1px de Figma = 1dp -->\n`;
+  dimens += `<resources>\n`;
+  allTokens.forEach(token => {
+    const name = nativeIdentifier(flatTokenKey(token), 'snake');
+    if (token.type === 'spacing' || token.type === 'radius') {
+      dimens += `    <dimen name="${name}">${formatNumber(parseFloat(token.value))}dp</dimen>\n`;
+    } else if (token.type === 'typography') {
+      const metrics = typographyMetrics(token.value);
+      dimens += `    <dimen name="${name}_text_size">${formatNumber(metrics.fontSize)}sp</dimen>\n`;
+      if (metrics.lineHeight !== undefined) {
+        dimens += `    <dimen name="${name}_line_height">${formatNumber(metrics.lineHeight)}sp</dimen>\n`;
+      }
+      // `android:letterSpacing` se expresa en em
+      if (metrics.letterSpacing !== 0) {
+        dimens += `    <item name="${name}_letter_spacing" format="float" type="dimen">${formatNumber(metrics.letterSpacing / metrics.fontSize, 3)}</item>\n`;
+      }
     }
+  });
+  dimens += `</resources>\n`;
+
+  const output: Record<string, string> = {
+    'android/values/colors.xml': colorResources(colorTokens),
+    'android/values/dimens.xml': dimens
+  };
+
+  const darkTheme = darkThemeName(tokens);
+  if (darkTheme) {
+    const nightTokens = Object.values(applyTheme(tokens, darkTheme))
+      .flat()
+      .filter((token, i) => token.type === 'color' && allTokens[i].modes && allTokens[i].modes[darkTheme]);
+    output['android/values-night/colors.xml'] = colorResources(nightTokens);
   }
-  
-  return scssCode;
+
+  return output;
 }
 
 /**
- * Genera tokens en formato JSON
+ * Peso de fuente de SwiftUI (`Font.Weight`) para un peso numérico
  */
-function generateJsonTokens(tokens: Record<string, any[]>): string {
-  const jsonStructure: Record<string, any> = {};
-  
-  // Construir estructura para JSON
-  for (const tokenType in tokens) {
-    jsonStructure[tokenType] = {};
-    
-    // Agrupar por categoría
-    tokens[tokenType].forEach(token => {
-      const category = token.category || 'base';
-      
-      // Crear categoría si no existe
-      if (!jsonStructure[tokenType][category]) {
-        jsonStructure[tokenType][category] = {};
-      }
-      
-      // Añadir token a su categoría
-      jsonStructure[tokenType][category][token.name] = {
-        value: token.value,
-        type: token.type,
-        description: token.description,
-        ...(token.figmaStyleId && { figmaStyleId: token.figmaStyleId })
-      };
+function swiftFontWeight(weight?: number): string {
+  const weights = ['ultraLight', 'thin', 'light', 'regular', 'medium', 'semibold', 'bold', 'heavy', 'black'];
+  const index = Math.min(8, Math.max(0, Math.round((weight || 400) / 100) - 1));
+  return `.${weights[index]}`;
+}
+
+/**
+ * Genera un fichero Swift con una `extension Color` y `enum` de espaciados, radios
+ * y estilos de texto (1px de Figma = 1pt). Los colores con modo oscuro son dinámicos
+ */
+function generateSwiftTokens(tokens: Record<string, any[]>): string {
+  const allTokens = Object.values(tokens).flat();
+  const darkTheme = darkThemeName(tokens);
+  const colorNames = new Set(
+    allTokens.filter(token => token.type === 'color').map(token => nativeIdentifier(flatTokenKey(token), 'camel'))
+  );
+
+  const swiftColor = (value: string, opacity: number | undefined, type: 'Color' | 'UIColor'): string => {
+    const { r, g, b, a } = colorComponents(value, opacity);
+    const alphaLabel = type === 'Color' ? 'opacity' : 'alpha';
+    return `${type}(red: ${formatNumber(r, 3)}, green: ${formatNumber(g, 3)}, blue: ${formatNumber(b, 3)}, ${alphaLabel}: ${formatNumber(a, 3)})`;
+  };
+
+  let swiftCode = `// Design Tokens generados desde Figma\n\n`;
+  swiftCode += `import SwiftUI\nimport UIKit\n\n`;
+
+  swiftCode += `extension Color {\n`;
+  allTokens.filter(token => token.type === 'color').forEach(token => {
+    const name = nativeIdentifier(flatTokenKey(token), 'camel');
+    const darkValue = darkTheme && token.modes && token.modes[darkTheme];
+    const target = token.aliasPath && nativeIdentifier(token.aliasPath.join('-'), 'camel');
+
+    if (darkValue) {
+      swiftCode += `    static let ${name} = Color(UIColor { traits in\n`;
+      swiftCode += `        traits.userInterfaceStyle == .dark\n`;
+      swiftCode += `            ? ${swiftColor(darkValue.value, darkValue.opacity, 'UIColor')}\n`;
+      swiftCode += `            : ${swiftColor(token.value, token.opacity, 'UIColor')}\n`;
+      swiftCode += `    })\n`;
+    } else if (target && colorNames.has(target)) {
+      swiftCode += `    static let ${name} = Color.${target}\n`;
+    } else {
+      swiftCode += `    static let ${name} = ${swiftColor(token.value, token.opacity, 'Color')}\n`;
+    }
+  });
+  swiftCode += `}\n\n`;
+
+  const dimensionEnum = (enumName: string, type: string): string => {
+    let code = `enum ${enumName} {\n`;
+    allTokens.filter(token => token.type === type).forEach(token => {
+      code += `    static let ${nativeIdentifier(flatTokenKey(token), 'camel')}: CGFloat = ${formatNumber(parseFloat(token.value))}\n`;
     });
-  }
-  
-  // Convertir a string con formato
-  return JSON.stringify(jsonStructure, null, 2);
+    return code + `}\n\n`;
+  };
+  swiftCode += dimensionEnum('Spacing', 'spacing');
+  swiftCode += dimensionEnum('Radius', 'radius');
+
+  swiftCode += `struct DesignTextStyle {\n`;
+  swiftCode += `    let fontFamily: String\n`;
+  swiftCode += `    let size: CGFloat\n`;
+  swiftCode += `    let weight: Font.Weight\n`;
+  swiftCode += `    let lineHeight: CGFloat?\n`;
+  swiftCode += `    let tracking: CGFloat\n\n`;
+  swiftCode += `    var font: Font { .custom(fontFamily, size: size).weight(weight) }\n`;
+  swiftCode += `}\n\n`;
+
+  swiftCode += `enum Typography {\n`;
+  allTokens.filter(token => token.type === 'typography').forEach(token => {
+    const metrics = typographyMetrics(token.value);
+    const lineHeight = metrics.lineHeight !== undefined ? formatNumber(metrics.lineHeight) : 'nil';
+    swiftCode += `    static let ${nativeIdentifier(flatTokenKey(token), 'camel')} = DesignTextStyle(` +
+      `fontFamily: ${JSON.stringify(token.value.fontFamily)}, size: ${formatNumber(metrics.fontSize)}, ` +
+      `weight: ${swiftFontWeight(token.value.fontWeight)}, lineHeight: ${lineHeight}, ` +
+      `tracking: ${formatNumber(metrics.letterSpacing)})\n`;
+  });
+  swiftCode += `}\n`;
+
+  return swiftCode;
+}
+
+/**
+ * Roles de `ColorScheme` de Flutter y el final de nombre de token que los identifica
+ */
+const COLOR_SCHEME_ROLES: [string, string][] = [
+  ['onPrimary', 'on-primary'],
+  ['onSecondary', 'on-secondary'],
+  ['onError', 'on-error'],
+  ['onSurface', 'on-surface'],
+  ['primary', 'primary'],
+  ['secondary', 'secondary'],
+  ['tertiary', 'tertiary'],
+  ['error', 'error'],
+  ['surface', 'surface']
+];
+
+/**
+ * Genera un fichero Dart con clases de colores, espaciados, radios y estilos de texto
+ * (1px de Figma = 1 píxel lógico) y un `ThemeData` con su `ColorScheme` por tema
+ */
+function generateFlutterTokens(tokens: Record<string, any[]>): string {
+  const allTokens = Object.values(tokens).flat();
+  const colorTokens = allTokens.filter(token => token.type === 'color');
+  const colorNames = new Set(colorTokens.map(token => nativeIdentifier(flatTokenKey(token), 'camel')));
+
+  const constClass = (className: string, lines: string[]): string =>
+    `class ${className} {\n  ${className}._();\n\n${lines.map(line => `  ${line}\n`).join('')}}\n\n`;
+
+  let dartCode = `// Design Tokens generados desde Figma\n\n`;
+  dartCode += `import 'package:flutter/material.dart';\n\n`;
+
+  dartCode += constClass('AppColors', colorTokens.map(token => {
+    const name = nativeIdentifier(flatTokenKey(token), 'camel');
+    const target = token.aliasPath && nativeIdentifier(token.aliasPath.join('-'), 'camel');
+    return target && colorNames.has(target)
+      ? `static const Color ${name} = ${target};`
+      : `static const Color ${name} = Color(0x${argbColor(token.value, token.opacity)});`;
+  }));
+
+  const dimensionLines = (type: string): string[] => allTokens
+    .filter(token => token.type === type)
+    .map(token => `static const double ${nativeIdentifier(flatTokenKey(token), 'camel')} = ${formatNumber(parseFloat(token.value))};`);
+  dartCode += constClass('AppSpacing', dimensionLines('spacing'));
+  dartCode += constClass('AppRadii', dimensionLines('radius'));
+
+  dartCode += constClass('AppTypography', allTokens.filter(token => token.type === 'typography').map(token => {
+    const metrics = typographyMetrics(token.value);
+    const weight = Math.min(900, Math.max(100, Math.round((token.value.fontWeight || 400) / 100) * 100));
+    const properties = [
+      `fontFamily: ${JSON.stringify(token.value.fontFamily)}`,
+      `fontSize: ${formatNumber(metrics.fontSize)}`,
+      `fontWeight: FontWeight.w${weight}`,
+      ...(token.value.fontStyle === 'italic' ? ['fontStyle: FontStyle.italic'] : []),
+      // `height` es un multiplicador del tamaño de fuente
+      ...(metrics.lineHeightRatio !== undefined ? [`height: ${formatNumber(metrics.lineHeightRatio)}`] : []),
+      ...(metrics.letterSpacing !== 0 ? [`letterSpacing: ${formatNumber(metrics.letterSpacing)}`] : [])
+    ];
+    return `static const TextStyle ${nativeIdentifier(flatTokenKey(token), 'camel')} = TextStyle(${properties.join(', ')});`;
+  }));
+
+  // Un ThemeData por tema; los roles del ColorScheme se asignan por el nombre de los tokens
+  const themes = collectThemeNames(tokens);
+  const themeLines = (themes.length > 0 ? themes : ['light']).map(theme => {
+    const themedColors = Object.values(themes.length > 0 ? applyTheme(tokens, theme) : tokens)
+      .flat()
+      .filter(token => token.type === 'color');
+    const brightness = /dark|night/.test(theme) ? 'Brightness.dark' : 'Brightness.light';
+    const name = nativeIdentifier(theme, 'camel');
+
+    if (themedColors.length === 0) {
+      return `static final ThemeData ${name} = ThemeData(brightness: ${brightness});`;
+    }
+
+    const roles: string[] = [];
+    let seed = themedColors[0];
+    for (const [role, suffix] of COLOR_SCHEME_ROLES) {
+      const match = themedColors.find(token => {
+        const key = flatTokenKey(token);
+        const isOnColor = !suffix.startsWith('on-') && (key === `on-${suffix}` || key.endsWith(`-on-${suffix}`));
+        return (key === suffix || key.endsWith(`-${suffix}`)) && !isOnColor;
+      });
+      if (match) {
+        roles.push(`${role}: Color(0x${argbColor(match.value, match.opacity)})`);
+        if (role === 'primary') seed = match;
+      }
+    }
+
+    const schemeArgs = [
+      `seedColor: Color(0x${argbColor(seed.value, seed.opacity)})`,
+      `brightness: ${brightness}`,
+      ...roles
+    ];
+    return `static final ThemeData ${name} = ThemeData(\n` +
+      `    colorScheme: ColorScheme.fromSeed(\n${schemeArgs.map(arg => `      ${arg},`).join('\n')}\n    ),\n  );`;
+  });
+  dartCode += constClass('AppTheme', themeLines).trimEnd() + '\n';
+
+  return dartCode;
 }
 
 /**
@@ -795,14 +2259,26 @@ function generateTsTokens(tokens: Record<string, any[]>): string {
     tsCode += `interface ${pascalType}Token {\n`;
     tsCode += `  value: ${tokenType === 'typography' ? '{\n' +
       '    fontFamily?: string;\n' +
+      '    fontStyle?: string;\n' +
       '    fontSize?: string;\n' +
       '    fontWeight?: number;\n' +
       '    lineHeight?: string;\n' +
       '    letterSpacing?: string;\n' +
-      '  }' : tokenType === 'colors' ? 'string' : tokenType === 'shadows' ? 'string' : 'string'};\n`;
+      '    paragraphSpacing?: string;\n' +
+      '    textCase?: string;\n' +
+      '    textDecoration?: string;\n' +
+      '  }' : tokenType === 'shadows' ? '{\n' +
+      '    layers: Array<{ type: string; color?: string; alpha?: number; x?: string; y?: string; blur: string; spread?: string }>;\n' +
+      '  }' : tokenType === 'grids' ? '{\n' +
+      '    grids: Array<{ pattern: string; count?: number; size?: string; gutter?: string; margin?: string; alignment?: string }>;\n' +
+      '  }' : tokenType === 'variables' ? 'string | number | boolean' : 'string'};\n`;
+    tsCode += `  opacity?: number;\n`;
     tsCode += `  type: string;\n`;
     tsCode += `  description?: string;\n`;
     tsCode += `  figmaStyleId?: string;\n`;
+    tsCode += `  figmaVariableId?: string;\n`;
+    tsCode += `  aliasOf?: string;\n`;
+    tsCode += `  modes?: Record<string, { value: string | number | boolean; opacity?: number; aliasOf?: string }>;\n`;
     tsCode += `}\n\n`;
     
     // Crear tipo para categorías
@@ -834,6 +2310,20 @@ function generateTsTokens(tokens: Record<string, any[]>): string {
     tsCode += `export const ${tokenType}: ${pascalType}Group = designTokens.${tokenType};\n`;
   }
   
+  // Un conjunto completo de tokens por tema para poder cambiarlo en tiempo de ejecución
+  const themes = collectThemeNames(tokens);
+  if (themes.length > 0) {
+    tsCode += `\nexport type ThemeName = ${themes.map(theme => JSON.stringify(theme)).join(' | ')};\n\n`;
+    tsCode += `export const themes: Record<ThemeName, DesignTokens> = {\n`;
+    tsCode += themes
+      .map(theme => {
+        const themeJson = JSON.stringify(JSON.parse(generateJsonTokens(applyTheme(tokens, theme))), null, 2);
+        return `  ${JSON.stringify(theme)}: ${themeJson.replace(/\n/g, '\n  ')}`;
+      })
+      .join(',\n');
+    tsCode += `\n};\n`;
+  }
+  
   tsCode += `\nexport default designTokens;\n`;
   
   return tsCode;
@@ -915,7 +2405,13 @@ function calculateTokenStatistics(tokens: Record<string, any[]>): any {
  * Analiza la información del documento, estilos y componentes para identificar el sistema de diseño
  * Esta es la función auxiliar que faltaba y causaba el error
  */
-function analyzeDesignSystem(documentInfo: any, stylesData: any, componentsData: any, detailLevel: string): any {
+function analyzeDesignSystem(
+  documentInfo: any,
+  stylesData: any,
+  componentsData: any,
+  detailLevel: string,
+  variablesData: FigmaVariables | null = null
+): any {
   try {
     // Inicializar estructura de respuesta
     const designSystemAnalysis = {
@@ -923,7 +2419,10 @@ function analyzeDesignSystem(documentInfo: any, stylesData: any, componentsData:
         id: documentInfo.id,
         name: documentInfo.name,
         type: documentInfo.type,
-        pageCount: documentInfo.pages ? documentInfo.pages.length : 1
+        pageCount: documentInfo.pages ? documentInfo.pages.length : 1,
+        analyzedPages: documentInfo.type === 'DOCUMENT' && Array.isArray(documentInfo.children)
+          ? documentInfo.children.map((page: any) => summarizePage(page))
+          : []
       },
       designSystem: {
         tokens: {},
@@ -950,8 +2449,8 @@ function analyzeDesignSystem(documentInfo: any, stylesData: any, componentsData:
     };
 
     // Analizar y extraer tokens de diseño de los estilos
-    const tokenTypes = ["colors", "typography", "spacing", "shadows", "radii"];
-    designSystemAnalysis.designSystem.tokens = extractTokens(documentInfo, stylesData, tokenTypes);
+    const tokenTypes = ["colors", "typography", "spacing", "shadows", "radii", "grids", "variables"];
+    designSystemAnalysis.designSystem.tokens = extractTokens(documentInfo, stylesData, tokenTypes, variablesData);
     
     // Contar tokens
     let tokenCount = 0;
@@ -1271,72 +2770,63 @@ function calculateCompleteness(tokens: any, componentCount: number, detailLevel:
 }
 
 /**
- * Infiere estilos analizando el documento
+ * Infiere estilos analizando el documento: colores agrupados por similitud perceptual y nombrados
+ * por su rampa, su capa semántica, estilos de texto con la escala tipográfica detectada y sombras
  */
-function inferStylesFromDocument(documentInfo: any): any {
+export function inferStylesFromDocument(
+  documentInfo: any,
+  options: { colorThreshold?: number; colorMetric?: ColorMetric } = {}
+): any {
   // Inicializar resultados
-  const inferredStyles = {
+  const inferredStyles: {
+    colors: any[];
+    texts: any[];
+    effects: any[];
+    grids: any[];
+    colorClusters: any[];
+    semanticColors: any[];
+    typeScale?: TypeScale;
+  } = {
     colors: [],
+    texts: [],
     effects: [],
-    grids: []
+    grids: [],
+    colorClusters: [],
+    semanticColors: []
   };
   
-  // Conjunto para almacenar colores únicos
-  const uniqueColors = new Set<string>();
+  // Colores sólidos encontrados, con los nodos y propiedades que los usan
+  const colorSamples = new Map<string, ColorSample>();
   
-  // Función recursiva para extraer colores y efectos
-  const extractVisualProperties = (node: any) => {
+  // Función recursiva para extraer colores y efectos; el contexto indica si el nodo está
+  // dentro de un botón o es un frame de primer nivel, para clasificar el uso de sus colores
+  const extractVisualProperties = (node: any, context: ColorUsageContext = { topLevel: false }) => {
     if (!node) return;
+    const nodeContext = nodeColorContext(node, context);
     
-    // Extraer colores de rellenos
-    if (node.fills && Array.isArray(node.fills)) {
-      node.fills.forEach((fill: any) => {
-        if (fill.type === 'SOLID' && fill.color) {
-          // Convertir a HEX para identificación única
-          const r = Math.round(fill.color.r * 255);
-          const g = Math.round(fill.color.g * 255);
-          const b = Math.round(fill.color.b * 255);
-          const hexColor = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-          
-          // Añadir si es único
-          if (!uniqueColors.has(hexColor)) {
-            uniqueColors.add(hexColor);
-            
-            // Inferir nombre semántico basado en el color
-            let inferredName = '';
-            
-            // Detectar blancos y negros
-            if (r > 240 && g > 240 && b > 240) inferredName = 'white';
-            else if (r < 15 && g < 15 && b < 15) inferredName = 'black';
-            // Detectar grises
-            else if (Math.abs(r - g) < 20 && Math.abs(r - b) < 20 && Math.abs(g - b) < 20) {
-              inferredName = r < 128 ? 'darkGrey' : 'lightGrey';
-            }
-            // Detectar colores primarios
-            else if (r > 200 && g < 100 && b < 100) inferredName = 'red';
-            else if (r < 100 && g > 200 && b < 100) inferredName = 'green';
-            else if (r < 100 && g < 100 && b > 200) inferredName = 'blue';
-            // Otros colores comunes
-            else if (r > 200 && g > 150 && b < 100) inferredName = 'yellow';
-            else if (r > 150 && g < 100 && b > 150) inferredName = 'purple';
-            else if (r < 100 && g > 150 && b > 150) inferredName = 'cyan';
-            else inferredName = `color${inferredStyles.colors.length + 1}`;
-            
-            inferredStyles.colors.push({
-              id: `inferred-${hexColor.replace('#', '')}`,
-              name: inferredName,
-              paints: [{
-                type: 'SOLID',
-                color: {
-                  r: fill.color.r,
-                  g: fill.color.g,
-                  b: fill.color.b
-                },
-                opacity: fill.opacity || 1
-              }]
-            });
-          }
+    // Extraer colores de rellenos y trazos
+    for (const property of ['fills', 'strokes']) {
+      if (!Array.isArray(node[property])) continue;
+      node[property].forEach((paint: any) => {
+        if (paint.type !== 'SOLID' || !paint.color || paint.visible === false) return;
+        
+        const hexColor = colorToHex(paint.color);
+        if (!colorSamples.has(hexColor)) {
+          colorSamples.set(hexColor, {
+            hex: hexColor,
+            color: { r: paint.color.r, g: paint.color.g, b: paint.color.b },
+            opacity: paint.opacity !== undefined ? paint.opacity : 1,
+            usages: []
+          });
         }
+        const role = classifyColorUsage(node, property, nodeContext);
+        colorSamples.get(hexColor)!.usages.push({
+          nodeId: node.id,
+          nodeName: node.name,
+          nodeType: node.type,
+          property,
+          ...(role && { role })
+        });
       });
     }
     
@@ -1355,12 +2845,122 @@ function inferStylesFromDocument(documentInfo: any): any {
     
     // Explorar hijos recursivamente
     if (node.children && node.children.length > 0) {
-      node.children.forEach(extractVisualProperties);
+      const childContext = { button: nodeContext.button, topLevel: node.type === 'CANVAS' };
+      node.children.forEach((child: any) => extractVisualProperties(child, childContext));
     }
   };
   
   // Iniciar extracción recursiva
   extractVisualProperties(documentInfo);
   
+  // Estilos de texto nombrados por su paso en la escala tipográfica
+  const { texts, typeScale } = inferTextStyles(documentInfo);
+  inferredStyles.texts = texts;
+  if (typeScale) inferredStyles.typeScale = typeScale;
+  
+  // Agrupar los colores casi idénticos y nombrar cada grupo por su posición en la rampa de su tono
+  const clusters = clusterColors(Array.from(colorSamples.values()), {
+    threshold: options.colorThreshold !== undefined ? options.colorThreshold : 3,
+    metric: options.colorMetric
+  });
+  const names = assignRampNames(clusters.map(cluster => cluster.representative.color));
+  
+  clusters.forEach((cluster, index) => {
+    const representative = cluster.representative;
+    inferredStyles.colors.push({
+      id: `inferred-${representative.hex.replace('#', '')}`,
+      name: names[index],
+      paints: [{
+        type: 'SOLID',
+        color: representative.color,
+        opacity: representative.opacity
+      }]
+    });
+    inferredStyles.colorClusters.push({ name: names[index], ...cluster });
+  });
+  
+  // Capa semántica: cada rol apunta al color primitivo (representante del grupo) que usa
+  inferredStyles.semanticColors = assignSemanticNames(clusters.map((cluster, index) => ({
+    primitive: names[index],
+    usages: cluster.members.flatMap(member => member.sample.usages)
+  })));
+  
   return inferredStyles;
+}
+
+/**
+ * Analiza la paleta de los colores inferidos por `inferStylesFromDocument`: rampas, grupos
+ * de colores casi idénticos y cada uso fuera de la paleta
+ */
+export function analyzeInferredColors(inferredStyles: { colors: any[]; colorClusters: any[] }): any {
+  const colorTokens = extractColorTokens({ colors: inferredStyles.colors, texts: [], effects: [], grids: [] });
+  return analyzeColors(colorTokens, inferredStyles.colorClusters);
+}
+
+/**
+ * Analiza la paleta de colores: rampas por familia de tono ordenadas por luminosidad y,
+ * para los colores inferidos, los grupos de colores casi idénticos y cada uso fuera de la paleta
+ */
+function analyzeColors(colorTokens: any[], colorClusters: any[] = []): any {
+  // Rampas: tokens agrupados por familia de tono, del más claro al más oscuro
+  const ramps: Record<string, { token: string; value: string; lightness: number }[]> = {};
+  const primitiveTokens = colorTokens.filter(token => !token.aliasOf);
+  primitiveTokens.forEach(token => {
+    if (typeof token.value !== 'string' || !token.value.startsWith('#')) return;
+    const { family, lightness } = colorRampPosition(hexToColor(token.value));
+    if (!ramps[family]) {
+      ramps[family] = [];
+    }
+    ramps[family].push({ token: tokenCssVariable(token), value: token.value, lightness });
+  });
+  for (const family in ramps) {
+    ramps[family].sort((a, b) => b.lightness - a.lightness);
+  }
+  
+  // Cada nodo que usa un color del grupo distinto de su representante está fuera de la paleta
+  const offPalette: any[] = [];
+  const clusters = colorClusters.map(cluster => {
+    const styleId = `inferred-${cluster.representative.hex.replace('#', '')}`;
+    const clusterToken = colorTokens.find(token => token.figmaStyleId === styleId);
+    const tokenName = clusterToken ? tokenCssVariable(clusterToken) : cluster.name;
+    
+    cluster.members.forEach((member: any) => {
+      if (member.sample.hex === cluster.representative.hex) return;
+      member.sample.usages.forEach((usage: any) => {
+        offPalette.push({
+          ...usage,
+          value: member.sample.hex,
+          suggestedToken: tokenName,
+          suggestedValue: cluster.representative.hex,
+          deltaE: member.deltaE
+        });
+      });
+    });
+    
+    return {
+      token: tokenName,
+      value: cluster.representative.hex,
+      usageCount: cluster.members.reduce((total: number, member: any) => total + member.sample.usages.length, 0),
+      members: cluster.members.map((member: any) => ({
+        value: member.sample.hex,
+        usageCount: member.sample.usages.length,
+        deltaE: member.deltaE
+      }))
+    };
+  });
+  
+  const uniqueColors = clusters.reduce((total, cluster) => total + cluster.members.length, 0);
+  
+  return {
+    ramps,
+    ...(clusters.length > 0 && { clusters, offPalette }),
+    statistics: {
+      paletteSize: primitiveTokens.length,
+      ...(clusters.length > 0 && {
+        uniqueColors,
+        mergedColors: uniqueColors - clusters.length,
+        offPaletteUsages: offPalette.length
+      })
+    }
+  };
 }
\ No newline at end of file
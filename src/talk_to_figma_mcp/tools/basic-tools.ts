@@ -4,21 +4,34 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma, joinChannel } from "../core/figma-connection";
-import { filterFigmaNode } from "../utils/figma-utils";
+import { FigmaTransport, fetchDocumentPages } from "../core/transport";
+import { filterFigmaNode, isDocumentWalk } from "../utils/figma-utils";
+import { parseFigmaStyles } from "../types/figma-style-schemas";
+import { parseFigmaVariables } from "../types/figma-variable-schemas";
+import { collectVariableUsage, describeVariables } from "../utils/variable-utils";
+import { analyzeInferredColors, inferStylesFromDocument } from "./analysis-tools";
 
 /**
  * Registra las herramientas básicas en el servidor MCP
  */
-export function registerBasicTools(server: McpServer): void {
+export function registerBasicTools(server: McpServer, transport: FigmaTransport): void {
   // Document Info Tool
   server.tool(
     "get_document_info",
-    "Get detailed information about the current Figma document",
-    {},
-    async () => {
+    "Get detailed information about the current Figma document. Pass pageIds or allPages to walk the full node tree of several pages, in batches of `limit` pages starting at `offset`",
+    {
+      pageIds: z.array(z.string()).optional().describe("IDs of the pages to walk (defaults to the current page summary)"),
+      allPages: z.boolean().optional().describe("Walk every page of the document"),
+      offset: z.number().int().min(0).optional().describe("Index of the first page of the batch to walk"),
+      limit: z.number().int().positive().optional().describe("Maximum number of pages to walk in this request"),
+      depth: z.number().int().min(0).optional().describe("Maximum depth of the walked node trees below each top-level node"),
+    },
+    async ({ pageIds, allPages, offset, limit, depth }) => {
       try {
-        const result = await sendCommandToFigma("get_document_info");
+        const walkParams = { pageIds, allPages, offset, limit, depth };
+        const result = isDocumentWalk(walkParams)
+          ? await transport.sendCommand("get_document_info", walkParams, 120000)
+          : await transport.sendCommand("get_document_info");
         return {
           content: [
             {
@@ -47,7 +60,7 @@ export function registerBasicTools(server: McpServer): void {
     {},
     async () => {
       try {
-        const result = await sendCommandToFigma("get_selection");
+        const result = await transport.sendCommand("get_selection");
         return {
           content: [
             {
@@ -72,13 +85,13 @@ export function registerBasicTools(server: McpServer): void {
   // Node Info Tool
   server.tool(
     "get_node_info",
-    "Get detailed information about a specific node in Figma",
+    "Get detailed information about a specific node in Figma. Style properties are summarized; use get_node_styles for the complete computed styles",
     {
       nodeId: z.string().describe("The ID of the node to get information about"),
     },
     async ({ nodeId }) => {
       try {
-        const result = await sendCommandToFigma("get_node_info", { nodeId });
+        const result = await transport.sendCommand("get_node_info", { nodeId });
         return {
           content: [
             {
@@ -111,7 +124,7 @@ export function registerBasicTools(server: McpServer): void {
       try {
         const results = await Promise.all(
           nodeIds.map(async (nodeId) => {
-            const result = await sendCommandToFigma('get_node_info', { nodeId });
+            const result = await transport.sendCommand('get_node_info', { nodeId });
             return { nodeId, info: result };
           })
         );
@@ -163,7 +176,7 @@ export function registerBasicTools(server: McpServer): void {
         console.log(`[DIAGNÓSTICO] Enviando comando al plugin de Figma:`, JSON.stringify(exportParams));
         
         // Enviar el comando al plugin de Figma
-        const result = await sendCommandToFigma("export_node_as_image", exportParams);
+        const result = await transport.sendCommand("export_node_as_image", exportParams);
         
         console.log(`[DIAGNÓSTICO] Respuesta recibida del plugin de Figma:`, typeof result);
         if (!result) {
@@ -251,7 +264,7 @@ export function registerBasicTools(server: McpServer): void {
           };
         }
 
-        await joinChannel(channel);
+        await transport.joinChannel(channel);
         return {
           content: [
             {
@@ -278,12 +291,16 @@ export function registerBasicTools(server: McpServer): void {
     "get_styles",
     "Get all styles from the current Figma document",
     {
-      inferStyles: z.boolean().default(true).describe("Intentar inferir estilos aunque no estén formalmente definidos")
+      inferStyles: z.boolean().default(true).describe("Intentar inferir estilos aunque no estén formalmente definidos"),
+      colorThreshold: z.number().min(0).default(3)
+      .describe("Maximum perceptual difference (ΔE) to merge near-identical inferred colors into one style"),
+      colorMetric: z.enum(["ciede2000", "oklab"]).default("ciede2000")
+      .describe("Color difference metric for the clustering ('oklab': Euclidean distance in OKLab ×100)")
     },
-    async ({ inferStyles }) => {
+    async ({ inferStyles, colorThreshold, colorMetric }) => {
       try {
         // Obtener estilos formalmente definidos
-        const formalStyles = await sendCommandToFigma("get_styles");
+        const formalStyles = parseFigmaStyles(await transport.sendCommand("get_styles"));
         
         // Si ya hay estilos definidos o no se solicita inferencia, retornar resultado
         if ((formalStyles.colors && formalStyles.colors.length > 0) || 
@@ -299,18 +316,21 @@ export function registerBasicTools(server: McpServer): void {
           };
         }
         
-        // Si no hay estilos formales, intentar inferirlos del documento actual
-        const documentInfo = await sendCommandToFigma("get_document_info");
+        // Si no hay estilos formales, intentar inferirlos de todas las páginas del documento
+        const documentInfo = await fetchDocumentPages(transport);
         
-        // Inferir estilos analizando el documento
-        const inferredStyles = await inferStylesFromDocument(documentInfo);
+        // Inferir estilos analizando el documento, agrupando los colores casi idénticos
+        const inferredStyles = inferStylesFromDocument(documentInfo, { colorThreshold, colorMetric });
         
         // Combinar estilos formales con inferidos
         const combinedStyles = {
           colors: [...(formalStyles.colors || []), ...(inferredStyles.colors || [])],
           texts: [...(formalStyles.texts || []), ...(inferredStyles.texts || [])],
           effects: [...(formalStyles.effects || []), ...(inferredStyles.effects || [])],
-          grids: [...(formalStyles.grids || []), ...(inferredStyles.grids || [])]
+          grids: [...(formalStyles.grids || []), ...(inferredStyles.grids || [])],
+          semanticColors: inferredStyles.semanticColors,
+          colorAnalysis: analyzeInferredColors(inferredStyles),
+          ...(inferredStyles.typeScale && { typeScale: inferredStyles.typeScale })
         };
         
         return {
@@ -338,112 +358,47 @@ export function registerBasicTools(server: McpServer): void {
     }
   );
 
-  /**
-   * Infiere estilos analizando el documento
-   */
-  async function inferStylesFromDocument(documentInfo: any): Promise<any> {
-    // Estructuras para almacenar estilos inferidos
-    const colors = new Map();
-    const texts = new Map();
-    const effects = new Map();
-    
-    // Función recursiva para extraer estilos
-    const extractStyles = (node: any) => {
-      // Extraer colores de rellenos
-      if (node.fills && Array.isArray(node.fills)) {
-        node.fills.forEach((fill: any) => {
-          if (fill.type === 'SOLID' && fill.color) {
-            // Generar clave única para este color
-            const r = Math.round(fill.color.r * 255);
-            const g = Math.round(fill.color.g * 255);
-            const b = Math.round(fill.color.b * 255);
-            const colorKey = `${r}-${g}-${b}`;
-            
-            if (!colors.has(colorKey)) {
-              // Crear nombre basado en valores RGB para facilitar reconocimiento
-              const colorName = `color-${r}-${g}-${b}`;
-              colors.set(colorKey, {
-                id: `inferred-${colorKey}`,
-                key: colorName,
-                name: colorName,
-                type: 'FILL',
-                paints: [fill],
-                description: 'Color inferido del documento'
-              });
-            }
-          }
-        });
-      }
-      
-      // Extraer estilos de texto
-      if (node.type === 'TEXT' && node.style) {
-        const { fontFamily, fontWeight, fontSize, lineHeight, letterSpacing } = node.style || {};
-        // Crear clave única para este estilo de texto
-        const textKey = `${fontFamily}-${fontWeight}-${fontSize}`;
-        
-        if (!texts.has(textKey) && fontFamily && fontSize) {
-          // Determinar categoría de texto por tamaño
-          let category = 'text';
-          if (fontSize >= 24) category = 'h1';
-          else if (fontSize >= 20) category = 'h2';
-          else if (fontSize >= 16) category = 'h3';
-          else if (fontSize >= 14) category = 'h4';
-          
-          texts.set(textKey, {
-            id: `inferred-${textKey}`,
-            key: `${category}-${fontWeight || 'regular'}`,
-            name: `${category}/${fontWeight || 'regular'}`,
-            type: 'TEXT',
-            style: {
-              fontFamily,
-              fontWeight,
-              fontSize,
-              lineHeight,
-              letterSpacing
-            },
-            description: `Estilo de texto inferido (${category})`
-          });
+  // Variables Tool
+  server.tool(
+    "get_variables",
+    "Get the local Figma variables: collections, modes, values per mode with their resolved alias chains and, optionally, the nodes that use each variable",
+    {
+      collectionId: z.string().optional().describe("Only return the variables of this collection"),
+      includeUsage: z.boolean().default(false).describe("Scan the document for boundVariables to report where each variable is used"),
+      nodeId: z.string().optional().describe("Limit the usage scan to this node (defaults to every page)"),
+    },
+    async ({ collectionId, includeUsage, nodeId }) => {
+      try {
+        const variables = parseFigmaVariables(await transport.sendCommand("get_variables"));
+
+        let usage;
+        if (includeUsage) {
+          const root = nodeId
+            ? await transport.sendCommand("get_node_info", { nodeId })
+            : await fetchDocumentPages(transport);
+          usage = collectVariableUsage(root);
         }
-      }
-      
-      // Extraer efectos (sombras)
-      if (node.effects && Array.isArray(node.effects) && node.effects.length > 0) {
-        node.effects.forEach((effect: any, index: number) => {
-          if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
-            const effectKey = `${effect.type}-${effect.offset?.x || 0}-${effect.offset?.y || 0}-${effect.radius || 0}`;
-            
-            if (!effects.has(effectKey)) {
-              const effectName = `${effect.type === 'DROP_SHADOW' ? 'shadow' : 'inner-shadow'}-${index}`;
-              effects.set(effectKey, {
-                id: `inferred-${effectKey}`,
-                key: effectName,
-                name: effectName,
-                type: 'EFFECT',
-                effects: [effect],
-                description: 'Efecto inferido del documento'
-              });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(describeVariables(variables, { collectionId, usage }), null, 2)
             }
-          }
-        });
-      }
-      
-      // Procesar hijos recursivamente
-      if (node.children && Array.isArray(node.children)) {
-        node.children.forEach(extractStyles);
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting variables: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
       }
-    };
-    
-    // Iniciar extracción desde la raíz
-    extractStyles(documentInfo);
-    
-    // Convertir Maps a arrays para el resultado final
-    return {
-      colors: Array.from(colors.values()),
-      texts: Array.from(texts.values()),
-      effects: Array.from(effects.values()),
-      grids: []
-    };
-  }
+    }
+  );
 
   // Get Local Components Tool
   server.tool(
@@ -452,7 +407,7 @@ export function registerBasicTools(server: McpServer): void {
     {},
     async () => {
       try {
-        const result = await sendCommandToFigma("get_local_components");
+        const result = await transport.sendCommand("get_local_components");
         return {
           content: [
             {
@@ -482,7 +437,7 @@ export function registerBasicTools(server: McpServer): void {
     async () => {
       try {
         // Implementación mejorada con manejo de error específico para API no disponible
-        const result = await sendCommandToFigma("get_remote_components");
+        const result = await transport.sendCommand("get_remote_components");
         
         // Si el resultado contiene un error de API no disponible, formatearlo adecuadamente
         if (result && typeof result === 'object' && 'error' in result) {
@@ -547,7 +502,7 @@ export function registerBasicTools(server: McpServer): void {
     },
     async ({ nodeId, property }) => {
       try {
-        const result = await sendCommandToFigma("get_styled_text_segments", {
+        const result = await transport.sendCommand("get_styled_text_segments", {
           nodeId,
           property
         });
@@ -589,7 +544,7 @@ export function registerBasicTools(server: McpServer): void {
         };
 
         // Use the plugin's scan_text_nodes function with chunking flag
-        const result = await sendCommandToFigma("scan_text_nodes", {
+        const result = await transport.sendCommand("scan_text_nodes", {
           nodeId,
           useChunking: true,  // Enable chunking on the plugin side
           chunkSize: 10       // Process 10 nodes at a time
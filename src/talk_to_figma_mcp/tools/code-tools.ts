@@ -0,0 +1,1011 @@
+/**
+ * Herramientas para traducir los nodos de Figma a código de estilos
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FigmaTransport } from "../core/transport";
+import { CssDeclarations, cssClassName, cssColor, formatCssRule, px } from "../utils/css-utils";
+import { nodeCss } from "../utils/layout-utils";
+import { formatBoxShadow, tokenCssVariable } from "../utils/token-utils";
+import { collectDesignTokens, flatTokenKey } from "./analysis-tools";
+
+/**
+ * CSS de un nodo con el selector de su regla
+ */
+export interface NodeCss {
+  nodeId: string;
+  nodeName: string;
+  type: string;
+  selector: string;
+  css: CssDeclarations;
+}
+
+/**
+ * Destinos de exportación de estilos de `get_node_styles`
+ */
+export type StyleTarget = 'css' | 'tailwind' | 'react-native';
+
+/**
+ * Tokens del documento indexados por estilo o variable de Figma y por valor CSS
+ */
+interface TokenIndex {
+  byFigmaId: Map<string, any>;
+  colors: Map<string, any>;
+  spacing: Map<string, any>;
+  radii: Map<string, any>;
+  shadows: Map<string, any>;
+  typography: any[];
+  // Ruta del token en la salida `js` de extract_design_tokens (tipo, categoría y nombre)
+  paths: Map<any, string[]>;
+}
+
+/**
+ * Tokens que corresponden a las propiedades de un nodo
+ */
+interface NodeTokens {
+  colors: Record<string, any>;
+  shadow?: any;
+  typography?: any;
+  spacing: (value: string) => any;
+  radius: (value: string) => any;
+}
+
+/**
+ * Nodo visible y su padre, en el orden del recorrido
+ */
+interface VisitedNode {
+  node: any;
+  parent: any;
+}
+
+/**
+ * Descendientes visibles de un nodo (incluido él mismo) hasta la profundidad indicada
+ */
+function visibleDescendants(root: any, maxDepth: number): VisitedNode[] {
+  const visited: VisitedNode[] = [];
+  const walk = (node: any, parent: any, depth: number): void => {
+    visited.push({ node, parent });
+    if (depth < maxDepth && node.children) {
+      node.children
+        .filter((child: any) => child.visible !== false)
+        .forEach((child: any) => walk(child, node, depth + 1));
+    }
+  };
+  walk(root, null, 0);
+  return visited;
+}
+
+/**
+ * Devuelve un nombre único registrándolo en `used` (con sufijo numérico si ya existe)
+ */
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  let index = 2;
+  while (used.has(name)) {
+    name = `${base}-${index++}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Calcula el CSS de un nodo y de sus descendientes visibles hasta la profundidad indicada.
+ * Cada nodo recibe un selector de clase único derivado de su nombre
+ */
+export function collectNodeCss(root: any, maxDepth: number): NodeCss[] {
+  const usedSelectors = new Set<string>();
+  return visibleDescendants(root, maxDepth).map(({ node, parent }) => ({
+    nodeId: node.id,
+    nodeName: node.name,
+    type: node.type,
+    selector: `.${uniqueName(cssClassName(node.name) || 'node', usedSelectors)}`,
+    css: nodeCss(node, parent)
+  }));
+}
+
+/**
+ * Color CSS del valor de un token de color (HEX de 6 u 8 dígitos y opacidad opcional)
+ */
+function tokenColorCss(token: any): string | undefined {
+  if (typeof token.value !== 'string' || !/^#([0-9a-f]{6}|[0-9a-f]{8})$/i.test(token.value)) return undefined;
+  const digits = token.value.slice(1);
+  const channel = (offset: number) => parseInt(digits.slice(offset, offset + 2), 16) / 255;
+  const color = { r: channel(0), g: channel(2), b: channel(4), a: digits.length === 8 ? channel(6) : 1 };
+  return cssColor(color, token.opacity !== undefined ? token.opacity : 1);
+}
+
+/**
+ * Indexa los tokens. Si varios tokens tienen el mismo valor se usa el primero
+ * (estilos antes que variables, como los ordena `collectDesignTokens`)
+ */
+function buildTokenIndex(tokens: Record<string, any[]>): TokenIndex {
+  const index: TokenIndex = {
+    byFigmaId: new Map(),
+    colors: new Map(),
+    spacing: new Map(),
+    radii: new Map(),
+    shadows: new Map(),
+    typography: [],
+    paths: new Map()
+  };
+  const addOnce = (map: Map<string, any>, key: string | undefined, token: any) => {
+    if (key && !map.has(key)) map.set(key, token);
+  };
+
+  for (const tokenType in tokens) {
+    (tokens[tokenType] || []).forEach(token => {
+      index.paths.set(token, [tokenType, token.category || 'base', token.name]);
+      addOnce(index.byFigmaId, token.figmaStyleId, token);
+      addOnce(index.byFigmaId, token.figmaVariableId, token);
+
+      switch (token.type) {
+        case 'color':
+          addOnce(index.colors, tokenColorCss(token), token);
+          break;
+        case 'spacing':
+          addOnce(index.spacing, String(token.value), token);
+          break;
+        case 'radius':
+          addOnce(index.radii, String(token.value), token);
+          break;
+        case 'shadow':
+          addOnce(index.shadows, formatBoxShadow(token.value.layers || []), token);
+          break;
+        case 'typography':
+          index.typography.push(token);
+          break;
+      }
+    });
+  }
+
+  return index;
+}
+
+/**
+ * Color de una declaración de borde o contorno (`1px solid #hex`)
+ */
+function borderColor(value: string): string {
+  return value.split(' ').slice(2).join(' ');
+}
+
+/**
+ * Busca los tokens de las propiedades de un nodo: primero los estilos y variables enlazados
+ * en Figma y, si no hay, los tokens con el mismo valor
+ */
+function resolveNodeTokens(node: any, css: CssDeclarations, index: TokenIndex): NodeTokens {
+  const ofType = (token: any, type: string) => token && token.type === type ? token : undefined;
+  const styled = (key: string) => node.styles && node.styles[key] ? index.byFigmaId.get(node.styles[key]) : undefined;
+  const bound = (key: string) => {
+    const binding = node.boundVariables && node.boundVariables[key];
+    const alias = Array.isArray(binding) ? binding[0] : binding;
+    return alias && alias.id ? index.byFigmaId.get(alias.id) : undefined;
+  };
+  // Las variables de color también pueden enlazarse en la propia pintura
+  const boundPaint = (key: 'fills' | 'strokes') => {
+    const paint = (node[key] || []).find((candidate: any) => candidate.visible !== false && candidate.type === 'SOLID');
+    const alias = paint && paint.boundVariables && paint.boundVariables.color;
+    return bound(key) || (alias && alias.id ? index.byFigmaId.get(alias.id) : undefined);
+  };
+
+  const colors: Record<string, any> = {};
+  const fillToken = ofType(styled('fill') || boundPaint('fills'), 'color');
+  if (css['background-color']) {
+    colors['background-color'] = fillToken || index.colors.get(css['background-color']);
+  }
+  if (css.color && css.color !== 'transparent') {
+    colors.color = fillToken || index.colors.get(css.color);
+  }
+  const border = ['border', 'outline', 'border-top', 'border-right', 'border-bottom', 'border-left']
+    .map(property => css[property])
+    .find(Boolean);
+  if (border) {
+    colors['border-color'] = ofType(styled('stroke') || boundPaint('strokes'), 'color') || index.colors.get(borderColor(border));
+  }
+
+  // Variables enlazadas a espaciados y radios, por el valor que producen
+  const boundByValue = (keys: string[], type: string): Map<string, any> => {
+    const values = new Map<string, any>();
+    keys.forEach(key => {
+      const token = ofType(bound(key), type);
+      if (token && typeof node[key] === 'number') values.set(px(node[key]), token);
+    });
+    return values;
+  };
+  const boundSpacing = boundByValue(
+    ['itemSpacing', 'counterAxisSpacing', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'],
+    'spacing'
+  );
+  const boundRadii = boundByValue(
+    ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'],
+    'radius'
+  );
+  if (typeof node.cornerRadius === 'number') {
+    const token = ofType(bound('topLeftRadius'), 'radius');
+    if (token) boundRadii.set(px(node.cornerRadius), token);
+  }
+
+  let typography: any;
+  if (node.type === 'TEXT') {
+    const style = node.style || {};
+    typography = ofType(styled('text'), 'typography') || index.typography.find(token =>
+      token.value.fontFamily === style.fontFamily &&
+      parseFloat(token.value.fontSize) === style.fontSize &&
+      Number(token.value.fontWeight) === style.fontWeight
+    );
+  }
+
+  return {
+    colors,
+    shadow: css['box-shadow'] ? ofType(styled('effect'), 'shadow') || index.shadows.get(css['box-shadow']) : undefined,
+    typography,
+    spacing: value => boundSpacing.get(value) || index.spacing.get(value),
+    radius: value => boundRadii.get(value) || index.radii.get(value)
+  };
+}
+
+/**
+ * Propiedades tipográficas de CSS y clave del valor de un token de tipografía que las cubre
+ */
+const TYPOGRAPHY_PROPERTIES: Record<string, string> = {
+  'font-family': 'fontFamily',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'line-height': 'lineHeight',
+  'letter-spacing': 'letterSpacing'
+};
+
+/**
+ * Sustituye en las declaraciones los valores que corresponden a un token por su variable CSS.
+ * Devuelve también qué token usa cada propiedad
+ */
+function applyCssTokens(css: CssDeclarations, refs: NodeTokens): { css: CssDeclarations; tokens: Record<string, string> } {
+  const result: CssDeclarations = { ...css };
+  const tokens: Record<string, string> = {};
+  const reference = (property: string, token: any, suffix: string = '') => {
+    const variable = `${tokenCssVariable(token)}${suffix}`;
+    tokens[property] = variable;
+    return `var(${variable})`;
+  };
+
+  ['background-color', 'color'].forEach(property => {
+    if (result[property] && refs.colors[property]) {
+      result[property] = reference(property, refs.colors[property]);
+    }
+  });
+  if (refs.colors['border-color']) {
+    ['border', 'outline', 'border-top', 'border-right', 'border-bottom', 'border-left'].forEach(property => {
+      if (!result[property]) return;
+      const [width, style] = result[property].split(' ');
+      result[property] = `${width} ${style} ${reference(property, refs.colors['border-color'])}`;
+    });
+  }
+  if (refs.shadow) {
+    result['box-shadow'] = reference('box-shadow', refs.shadow);
+  }
+
+  // Valores compuestos: cada componente se sustituye por separado
+  const replaceParts = (property: string, lookup: (value: string) => any) => {
+    if (!result[property]) return;
+    const parts = result[property].split(' ');
+    const tokenParts = parts.map(part => lookup(part));
+    if (!tokenParts.some(Boolean)) return;
+    result[property] = parts
+      .map((part, position) => tokenParts[position] ? `var(${tokenCssVariable(tokenParts[position])})` : part)
+      .join(' ');
+    tokens[property] = Array.from(new Set(tokenParts.filter(Boolean).map(token => tokenCssVariable(token)))).join(' ');
+  };
+  ['gap', 'row-gap', 'column-gap', 'padding'].forEach(property => replaceParts(property, refs.spacing));
+  replaceParts('border-radius', refs.radius);
+
+  if (refs.typography) {
+    for (const property in TYPOGRAPHY_PROPERTIES) {
+      if (result[property] && refs.typography.value[TYPOGRAPHY_PROPERTIES[property]] !== undefined) {
+        result[property] = reference(property, refs.typography, `-${property}`);
+      }
+    }
+  }
+
+  return { css: result, tokens };
+}
+
+/**
+ * Escala de espaciado por defecto de Tailwind (unidades de 4px)
+ */
+const TAILWIND_SPACING = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96];
+
+/**
+ * Radios de borde por defecto de Tailwind
+ */
+const TAILWIND_RADII: Record<string, string> = {
+  '2px': 'rounded-sm',
+  '4px': 'rounded',
+  '6px': 'rounded-md',
+  '8px': 'rounded-lg',
+  '12px': 'rounded-xl',
+  '16px': 'rounded-2xl',
+  '24px': 'rounded-3xl'
+};
+
+/**
+ * Pesos tipográficos con nombre en Tailwind
+ */
+const TAILWIND_FONT_WEIGHTS: Record<string, string> = {
+  '100': 'font-thin',
+  '200': 'font-extralight',
+  '300': 'font-light',
+  '400': 'font-normal',
+  '500': 'font-medium',
+  '600': 'font-semibold',
+  '700': 'font-bold',
+  '800': 'font-extrabold',
+  '900': 'font-black'
+};
+
+/**
+ * Clases de Tailwind sin valor para las propiedades de layout con valores fijos
+ */
+const TAILWIND_KEYWORDS: Record<string, Record<string, string>> = {
+  display: { flex: 'flex', grid: 'grid' },
+  'flex-direction': { row: 'flex-row', column: 'flex-col' },
+  'flex-wrap': { wrap: 'flex-wrap' },
+  'justify-content': { 'flex-start': 'justify-start', center: 'justify-center', 'flex-end': 'justify-end', 'space-between': 'justify-between' },
+  'align-items': { 'flex-start': 'items-start', center: 'items-center', 'flex-end': 'items-end', baseline: 'items-baseline', stretch: 'items-stretch' },
+  'align-content': { 'space-between': 'content-between' },
+  'align-self': { start: 'self-start', 'flex-start': 'self-start', center: 'self-center', end: 'self-end', 'flex-end': 'self-end', stretch: 'self-stretch' },
+  'justify-self': { start: 'justify-self-start', center: 'justify-self-center', end: 'justify-self-end', stretch: 'justify-self-stretch' },
+  flex: { '1': 'flex-1' },
+  'flex-shrink': { '0': 'shrink-0' },
+  position: { absolute: 'absolute', relative: 'relative' },
+  overflow: { hidden: 'overflow-hidden' },
+  'box-sizing': { 'border-box': 'box-border' },
+  'font-style': { italic: 'italic' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize' },
+  'text-decoration': { underline: 'underline', 'line-through': 'line-through' },
+  'text-align': { center: 'text-center', right: 'text-right', justify: 'text-justify' },
+  'white-space': { nowrap: 'whitespace-nowrap' },
+  'text-overflow': { ellipsis: 'text-ellipsis' },
+  'background-clip': { text: 'bg-clip-text' }
+};
+
+/**
+ * Propiedades que no generan clase propia (las cubre otra clase de Tailwind)
+ */
+const TAILWIND_IMPLIED = new Set(['-webkit-background-clip', '-webkit-box-orient']);
+
+/**
+ * Valor arbitrario de Tailwind (`[...]`), con los espacios como guiones bajos
+ */
+function tailwindArbitrary(value: string): string {
+  return `[${value.replace(/,\s+/g, ',').replace(/\s+/g, '_')}]`;
+}
+
+/**
+ * Sufijo de Tailwind para una medida: paso de la escala por defecto o valor arbitrario
+ */
+function tailwindSize(value: string): string {
+  if (value === '0' || value === '0px') return '0';
+  if (value === '1px') return 'px';
+  if (value === '100%') return 'full';
+  if (value === 'fit-content') return 'fit';
+  const match = value.match(/^(\d+(?:\.\d+)?)px$/);
+  if (match && TAILWIND_SPACING.includes(parseFloat(match[1]) / 4)) {
+    return String(parseFloat(match[1]) / 4);
+  }
+  return tailwindArbitrary(value);
+}
+
+/**
+ * Clase de Tailwind con prefijo para una medida; las medidas negativas de la escala usan el prefijo `-`
+ */
+function tailwindSizeClass(prefix: string, value: string, token?: any): string {
+  if (token) return `${prefix}-${flatTokenKey(token)}`;
+  const negative = value.match(/^-(\d+(?:\.\d+)?px)$/);
+  if (negative && !tailwindSize(negative[1]).startsWith('[')) {
+    return `-${prefix}-${tailwindSize(negative[1])}`;
+  }
+  return `${prefix}-${tailwindSize(value)}`;
+}
+
+/**
+ * Expande un valor de `padding` a sus cuatro lados (arriba, derecha, abajo, izquierda)
+ */
+function expandBoxValue(value: string): string[] {
+  const parts = value.split(' ');
+  if (parts.length === 1) return [parts[0], parts[0], parts[0], parts[0]];
+  if (parts.length === 2) return [parts[0], parts[1], parts[0], parts[1]];
+  if (parts.length === 3) return [parts[0], parts[1], parts[2], parts[1]];
+  return parts;
+}
+
+/**
+ * Traduce las declaraciones CSS de un nodo a clases de Tailwind. Los valores con token usan la
+ * clave del token en el tema generado por `extract_design_tokens` (formato `tailwind`) y el resto,
+ * la escala por defecto o valores arbitrarios
+ */
+function tailwindClasses(css: CssDeclarations, refs: NodeTokens): string[] {
+  const classes: string[] = [];
+  const typographyKeys = refs.typography ? refs.typography.value : null;
+  if (refs.typography) {
+    classes.push(`font-${flatTokenKey(refs.typography)}`, `text-${flatTokenKey(refs.typography)}`);
+  }
+
+  const colorClass = (prefix: string, value: string, token: any) => {
+    if (token) return `${prefix}-${flatTokenKey(token)}`;
+    return value === 'transparent' ? `${prefix}-transparent` : `${prefix}-${tailwindArbitrary(value)}`;
+  };
+
+  for (const [property, value] of Object.entries(css)) {
+    if (TAILWIND_IMPLIED.has(property)) continue;
+    // Las propiedades que cubre el token de tipografía ya están en sus clases
+    if (typographyKeys && TYPOGRAPHY_PROPERTIES[property] && typographyKeys[TYPOGRAPHY_PROPERTIES[property]] !== undefined) continue;
+
+    const keyword = TAILWIND_KEYWORDS[property] && TAILWIND_KEYWORDS[property][value];
+    if (keyword) {
+      classes.push(keyword);
+      continue;
+    }
+
+    switch (property) {
+      case 'display':
+        // `-webkit-box` forma parte de `line-clamp-*`
+        if (value !== '-webkit-box') classes.push(`[display:${value}]`);
+        break;
+      case 'gap': {
+        const [row, column] = value.split(' ');
+        if (column === undefined) {
+          classes.push(tailwindSizeClass('gap', row, refs.spacing(row)));
+        } else {
+          classes.push(tailwindSizeClass('gap-y', row, refs.spacing(row)), tailwindSizeClass('gap-x', column, refs.spacing(column)));
+        }
+        break;
+      }
+      case 'row-gap':
+        classes.push(tailwindSizeClass('gap-y', value, refs.spacing(value)));
+        break;
+      case 'column-gap':
+        classes.push(tailwindSizeClass('gap-x', value, refs.spacing(value)));
+        break;
+      case 'padding': {
+        const [top, right, bottom, left] = expandBoxValue(value);
+        if (top === right && top === bottom && top === left) {
+          classes.push(tailwindSizeClass('p', top, refs.spacing(top)));
+        } else if (top === bottom && right === left) {
+          classes.push(tailwindSizeClass('py', top, refs.spacing(top)), tailwindSizeClass('px', right, refs.spacing(right)));
+        } else {
+          classes.push(
+            tailwindSizeClass('pt', top, refs.spacing(top)),
+            tailwindSizeClass('pr', right, refs.spacing(right)),
+            tailwindSizeClass('pb', bottom, refs.spacing(bottom)),
+            tailwindSizeClass('pl', left, refs.spacing(left))
+          );
+        }
+        break;
+      }
+      case 'width':
+      case 'height':
+      case 'min-width':
+      case 'max-width':
+      case 'min-height':
+      case 'max-height': {
+        const prefix = property
+          .replace('width', 'w')
+          .replace('height', 'h');
+        classes.push(tailwindSizeClass(prefix, value));
+        break;
+      }
+      case 'top':
+      case 'right':
+      case 'bottom':
+      case 'left':
+        classes.push(tailwindSizeClass(property, value));
+        break;
+      case 'transform':
+        value.split(' ').forEach(transform => {
+          const translate = transform.match(/^translate([XY])\(-50%\)$/);
+          classes.push(translate ? `-translate-${translate[1].toLowerCase()}-1/2` : `[transform:${tailwindArbitrary(transform).slice(1, -1)}]`);
+        });
+        break;
+      case 'grid-template-columns':
+        classes.push(`grid-cols-${tailwindArbitrary(value)}`);
+        break;
+      case 'grid-template-rows':
+        classes.push(`grid-rows-${tailwindArbitrary(value)}`);
+        break;
+      case 'grid-column':
+        classes.push(`col-${tailwindArbitrary(value)}`);
+        break;
+      case 'grid-row':
+        classes.push(`row-${tailwindArbitrary(value)}`);
+        break;
+      case 'background-color':
+        classes.push(colorClass('bg', value, refs.colors['background-color']));
+        break;
+      case 'background-image':
+        classes.push(`bg-${tailwindArbitrary(value)}`);
+        break;
+      case 'background-blend-mode':
+        classes.push(value.includes(',') ? `[background-blend-mode:${tailwindArbitrary(value).slice(1, -1)}]` : `bg-blend-${value}`);
+        break;
+      case 'border':
+      case 'outline':
+      case 'border-top':
+      case 'border-right':
+      case 'border-bottom':
+      case 'border-left': {
+        const prefix = property === 'outline' ? 'outline' : property.replace(/^border-(\w)\w+$/, 'border-$1');
+        const [width, style] = value.split(' ');
+        classes.push(width === '1px' && property !== 'outline' ? prefix : `${prefix}-${tailwindArbitrary(width)}`);
+        if (style === 'dashed') classes.push(property === 'outline' ? 'outline-dashed' : 'border-dashed');
+        else if (property === 'outline') classes.push('outline');
+        classes.push(colorClass(prefix, borderColor(value), refs.colors['border-color']));
+        break;
+      }
+      case 'outline-offset':
+        classes.push(`outline-offset-${tailwindArbitrary(value)}`);
+        break;
+      case 'border-radius': {
+        const corners = value.split(' ');
+        if (corners.length === 1) {
+          const token = refs.radius(value);
+          classes.push(token ? `rounded-${flatTokenKey(token)}` : TAILWIND_RADII[value] || (value === '50%' ? 'rounded-full' : `rounded-${tailwindArbitrary(value)}`));
+        } else {
+          ['tl', 'tr', 'br', 'bl'].forEach((corner, position) => {
+            const token = refs.radius(corners[position]);
+            const named = TAILWIND_RADII[corners[position]];
+            if (token) classes.push(`rounded-${corner}-${flatTokenKey(token)}`);
+            else if (named) classes.push(named.replace('rounded', `rounded-${corner}`));
+            else if (corners[position] === '0px') classes.push(`rounded-${corner}-none`);
+            else classes.push(`rounded-${corner}-${tailwindArbitrary(corners[position])}`);
+          });
+        }
+        break;
+      }
+      case 'box-shadow':
+        classes.push(refs.shadow ? `shadow-${flatTokenKey(refs.shadow)}` : `shadow-${tailwindArbitrary(value)}`);
+        break;
+      case 'opacity': {
+        const percent = Math.round(parseFloat(value) * 100);
+        classes.push(percent % 5 === 0 ? `opacity-${percent}` : `opacity-${tailwindArbitrary(value)}`);
+        break;
+      }
+      case 'mix-blend-mode':
+        classes.push(`mix-blend-${value}`);
+        break;
+      case 'filter': {
+        const blur = value.match(/^blur\((.+)\)$/);
+        classes.push(blur ? `blur-${tailwindArbitrary(blur[1])}` : `[filter:${tailwindArbitrary(value).slice(1, -1)}]`);
+        break;
+      }
+      case 'backdrop-filter': {
+        const blur = value.match(/^blur\((.+)\)$/);
+        classes.push(blur ? `backdrop-blur-${tailwindArbitrary(blur[1])}` : `[backdrop-filter:${tailwindArbitrary(value).slice(1, -1)}]`);
+        break;
+      }
+      case 'color':
+        classes.push(colorClass('text', value, refs.colors.color));
+        break;
+      case 'font-family':
+        classes.push(`font-${tailwindArbitrary(value)}`);
+        break;
+      case 'font-size':
+        classes.push(`text-${tailwindArbitrary(value)}`);
+        break;
+      case 'font-weight':
+        classes.push(TAILWIND_FONT_WEIGHTS[value] || `font-${tailwindArbitrary(value)}`);
+        break;
+      case 'line-height':
+        classes.push(`leading-${tailwindArbitrary(value)}`);
+        break;
+      case 'letter-spacing':
+        classes.push(`tracking-${tailwindArbitrary(value)}`);
+        break;
+      case '-webkit-line-clamp':
+        classes.push(`line-clamp-${value}`);
+        break;
+      default:
+        classes.push(`[${property}:${tailwindArbitrary(value).slice(1, -1)}]`);
+    }
+  }
+
+  return Array.from(new Set(classes));
+}
+
+/**
+ * Estilo de React Native de un nodo. Los valores que son expresiones (referencias a tokens)
+ * se guardan aparte para escribirlos sin comillas en el código
+ */
+interface ReactNativeStyle {
+  style: Record<string, any>;
+  expressions: Record<string, string>;
+  textProps?: Record<string, any>;
+  unsupported: string[];
+}
+
+/**
+ * Propiedades de flexbox que React Native acepta con el mismo valor (en camelCase)
+ */
+const REACT_NATIVE_FLEX_PROPERTIES = new Set(['flex-direction', 'flex-wrap', 'justify-content', 'align-items', 'align-content', 'align-self', 'position', 'overflow']);
+
+/**
+ * Convierte una propiedad CSS a camelCase (`flex-direction` → `flexDirection`)
+ */
+function camelProperty(property: string): string {
+  return property.replace(/-(\w)/g, (_match, letter) => letter.toUpperCase());
+}
+
+/**
+ * Traduce las declaraciones CSS de un nodo a un estilo de React Native: medidas en números,
+ * sombras como `shadow*`/`elevation` y textos truncados como `numberOfLines`. Las propiedades
+ * sin equivalente (degradados, grid, filtros, modos de fusión...) se listan en `unsupported`
+ */
+function reactNativeStyle(node: any, css: CssDeclarations, refs: NodeTokens, index: TokenIndex): ReactNativeStyle {
+  const style: Record<string, any> = {};
+  const expressions: Record<string, string> = {};
+  const unsupported: string[] = [];
+  let textProps: Record<string, any> | undefined;
+
+  const number = (value: string): number | string | undefined => {
+    if (value === '0') return 0;
+    const match = value.match(/^(-?\d+(?:\.\d+)?)px$/);
+    if (match) return parseFloat(match[1]);
+    return /^-?\d+(\.\d+)?%$/.test(value) ? value : undefined;
+  };
+  const setDimension = (key: string, property: string, value: string) => {
+    const converted = number(value);
+    if (converted === undefined) unsupported.push(`${property}: ${value}`);
+    else style[key] = converted;
+  };
+  // Los colores con token se referencian al objeto que exporta la salida `js` de extract_design_tokens
+  const setColor = (key: string, value: string, token: any) => {
+    style[key] = value;
+    if (token && token.opacity === undefined && index.paths.has(token)) {
+      expressions[key] = `tokens${index.paths.get(token)!
+        .map(part => /^[A-Za-z_$][\w$]*$/.test(part) ? `.${part}` : `[${JSON.stringify(part)}]`)
+        .join('')}.value`;
+    }
+  };
+
+  for (const [property, value] of Object.entries(css)) {
+    if (REACT_NATIVE_FLEX_PROPERTIES.has(property)) {
+      style[camelProperty(property)] = value === 'start' ? 'flex-start' : value === 'end' ? 'flex-end' : value;
+      continue;
+    }
+
+    switch (property) {
+      case 'display':
+        // flex es el único layout de React Native
+        if (value !== 'flex' && value !== '-webkit-box') unsupported.push(`${property}: ${value}`);
+        break;
+      case 'box-sizing':
+      case 'white-space':
+      case 'text-overflow':
+      case '-webkit-box-orient':
+      case '-webkit-line-clamp':
+        // Cubiertos por el modelo de caja de React Native o por `numberOfLines`
+        break;
+      case 'gap': {
+        const [row, column] = value.split(' ');
+        if (column === undefined) {
+          setDimension('gap', property, row);
+        } else {
+          setDimension('rowGap', property, row);
+          setDimension('columnGap', property, column);
+        }
+        break;
+      }
+      case 'padding': {
+        const [top, right, bottom, left] = expandBoxValue(value);
+        if (top === right && top === bottom && top === left) {
+          setDimension('padding', property, top);
+        } else if (top === bottom && right === left) {
+          setDimension('paddingVertical', property, top);
+          setDimension('paddingHorizontal', property, right);
+        } else {
+          setDimension('paddingTop', property, top);
+          setDimension('paddingRight', property, right);
+          setDimension('paddingBottom', property, bottom);
+          setDimension('paddingLeft', property, left);
+        }
+        break;
+      }
+      case 'flex':
+      case 'flex-shrink':
+        style[camelProperty(property)] = parseFloat(value);
+        break;
+      case 'width':
+      case 'height':
+        // El ajuste al contenido es el comportamiento por defecto de React Native
+        if (value !== 'fit-content') setDimension(property, property, value);
+        break;
+      case 'row-gap':
+      case 'column-gap':
+      case 'min-width':
+      case 'max-width':
+      case 'min-height':
+      case 'max-height':
+      case 'top':
+      case 'right':
+      case 'bottom':
+      case 'left':
+        setDimension(camelProperty(property), property, value);
+        break;
+      case 'background-color':
+        setColor('backgroundColor', value, refs.colors['background-color']);
+        break;
+      case 'border':
+      case 'border-top':
+      case 'border-right':
+      case 'border-bottom':
+      case 'border-left': {
+        const side = property === 'border' ? '' : camelProperty(property.slice('border'.length));
+        const [width, lineStyle] = value.split(' ');
+        setDimension(`border${side}Width`, property, width);
+        setColor(`border${side}Color`, borderColor(value), refs.colors['border-color']);
+        if (lineStyle === 'dashed') style.borderStyle = 'dashed';
+        break;
+      }
+      case 'border-radius': {
+        const corners = value.split(' ');
+        const box = node.absoluteBoundingBox;
+        if (value === '50%' && box) {
+          // React Native no admite radios en porcentaje: la elipse usa la mitad del lado menor
+          style.borderRadius = Math.min(box.width, box.height) / 2;
+        } else if (corners.length === 1) {
+          setDimension('borderRadius', property, value);
+        } else {
+          ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius']
+            .forEach((key, position) => setDimension(key, property, corners[position]));
+        }
+        break;
+      }
+      case 'box-shadow':
+      case 'text-shadow': {
+        // Solo se admite una sombra exterior: se toma la primera de los efectos del nodo
+        const shadows = (node.effects || []).filter((effect: any) => effect.visible !== false && effect.type === 'DROP_SHADOW');
+        const shadow = shadows[0];
+        if (!shadow) {
+          unsupported.push(`${property}: ${value}`);
+          break;
+        }
+        const offset = shadow.offset || { x: 0, y: 0 };
+        if (property === 'text-shadow') {
+          style.textShadowColor = cssColor(shadow.color);
+          style.textShadowOffset = { width: offset.x, height: offset.y };
+          style.textShadowRadius = shadow.radius || 0;
+        } else {
+          style.shadowColor = cssColor(shadow.color);
+          style.shadowOffset = { width: offset.x, height: offset.y };
+          style.shadowOpacity = 1;
+          style.shadowRadius = (shadow.radius || 0) / 2;
+          // Android solo admite elevación: se aproxima con el desplazamiento vertical
+          style.elevation = Math.max(Math.round(offset.y), 1);
+        }
+        if (shadows.length > 1 || value.includes('inset')) {
+          unsupported.push(`${property}: ${value}`);
+        }
+        break;
+      }
+      case 'opacity':
+        style.opacity = parseFloat(value);
+        break;
+      case 'color':
+        if (value === 'transparent') unsupported.push(`${property}: ${value}`);
+        else setColor('color', value, refs.colors.color);
+        break;
+      case 'font-family':
+        style.fontFamily = node.style && node.style.fontFamily ? node.style.fontFamily : value;
+        break;
+      case 'font-size':
+      case 'letter-spacing':
+        setDimension(camelProperty(property), property, value);
+        break;
+      case 'font-weight':
+        style.fontWeight = value;
+        break;
+      case 'font-style':
+        style.fontStyle = value;
+        break;
+      case 'line-height': {
+        // React Native solo admite interlineado en puntos
+        const fontSize = node.style && node.style.fontSize;
+        if (/^\d+(\.\d+)?$/.test(value) && fontSize) style.lineHeight = Math.round(parseFloat(value) * fontSize * 100) / 100;
+        else setDimension('lineHeight', property, value);
+        break;
+      }
+      case 'text-align':
+      case 'text-transform':
+        style[camelProperty(property)] = value;
+        break;
+      case 'text-decoration':
+        style.textDecorationLine = value;
+        break;
+      default:
+        unsupported.push(`${property}: ${value}`);
+    }
+  }
+
+  if (css['text-overflow'] === 'ellipsis') {
+    textProps = { numberOfLines: css['-webkit-line-clamp'] ? parseInt(css['-webkit-line-clamp'], 10) : 1, ellipsizeMode: 'tail' };
+  }
+
+  return { style, expressions, ...(textProps && { textProps }), unsupported };
+}
+
+/**
+ * Escribe un valor de estilo de React Native como código
+ */
+function formatReactNativeValue(value: any): string {
+  if (value !== null && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([key, entry]) => `${key}: ${formatReactNativeValue(entry)}`).join(', ')} }`;
+  }
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+}
+
+/**
+ * Exporta los estilos calculados de un nodo y sus descendientes al destino indicado,
+ * referenciando los tokens cuando un valor coincide con uno de ellos
+ */
+export function exportNodeStyles(
+  root: any,
+  target: StyleTarget,
+  maxDepth: number,
+  tokens: Record<string, any[]> = {}
+): { nodes: any[]; code: string } {
+  const index = buildTokenIndex(tokens);
+  const usedNames = new Set<string>();
+  const nodes: any[] = [];
+  const rules: string[] = [];
+  let usesTokenObject = false;
+
+  visibleDescendants(root, maxDepth).forEach(({ node, parent }) => {
+    const computed = nodeCss(node, parent);
+    const refs = resolveNodeTokens(node, computed, index);
+    const { css, tokens: tokenReferences } = applyCssTokens(computed, refs);
+    const className = uniqueName(cssClassName(node.name) || 'node', usedNames);
+    const entry: any = { nodeId: node.id, nodeName: node.name, type: node.type };
+
+    switch (target) {
+      case 'tailwind': {
+        const classes = tailwindClasses(computed, refs);
+        Object.assign(entry, { className, classes: classes.join(' ') });
+        rules.push(`  ${JSON.stringify(className)}: ${JSON.stringify(classes.join(' '))},`);
+        break;
+      }
+      case 'react-native': {
+        const styleName = className.replace(/-(\w)/g, (_match, letter) => letter.toUpperCase());
+        const converted = reactNativeStyle(node, computed, refs, index);
+        const styleEntries = Object.entries(converted.style).map(([key, value]) =>
+          `    ${key}: ${converted.expressions[key] || formatReactNativeValue(value)},`
+        );
+        usesTokenObject = usesTokenObject || Object.keys(converted.expressions).length > 0;
+        Object.assign(entry, {
+          styleName,
+          style: converted.style,
+          ...(converted.textProps && { textProps: converted.textProps }),
+          ...(converted.unsupported.length > 0 && { unsupported: converted.unsupported })
+        });
+        rules.push(`  ${/^[A-Za-z_$][\w$]*$/.test(styleName) ? styleName : JSON.stringify(styleName)}: {\n${styleEntries.join('\n')}\n  },`);
+        break;
+      }
+      default:
+        Object.assign(entry, { selector: `.${className}`, declarations: css });
+        if (Object.keys(css).length > 0) {
+          rules.push(formatCssRule(`.${className}`, css));
+        }
+    }
+
+    if (Object.keys(tokenReferences).length > 0) {
+      entry.tokens = tokenReferences;
+    }
+    nodes.push(entry);
+  });
+
+  switch (target) {
+    case 'tailwind':
+      return {
+        nodes,
+        code: `// Clases de Tailwind generadas desde Figma\n\nexport const classes = {\n${rules.join('\n')}\n};\n`
+      };
+    case 'react-native':
+      return {
+        nodes,
+        code: `import { StyleSheet } from 'react-native';\n` +
+          (usesTokenObject ? `import tokens from './tokens'; // salida 'js' de extract_design_tokens\n` : '') +
+          `\nexport const styles = StyleSheet.create({\n${rules.join('\n')}\n});\n`
+      };
+    default:
+      return { nodes, code: rules.join('\n') };
+  }
+}
+
+/**
+ * Registra las herramientas de traducción a código en el servidor MCP
+ */
+export function registerCodeTools(server: McpServer, transport: FigmaTransport): void {
+  // Node CSS Tool
+  server.tool(
+    "get_node_css",
+    "Obtener el CSS exacto de un nodo y sus hijos: autolayout como flexbox o grid (dirección, alineación, gap, padding), tamaño fijo/ajustado/de relleno, posicionamiento absoluto según restricciones, límites mínimo/máximo, fondo, bordes, sombras y tipografía",
+    {
+      nodeId: z.string().describe("ID del nodo a traducir"),
+      depth: z.number().int().min(0).max(10).default(3).describe("Profundidad de descendientes incluidos (0 = solo el nodo)")
+    },
+    async ({ nodeId, depth }) => {
+      try {
+        const nodeInfo: any = await transport.sendCommand("get_node_info", { nodeId });
+        const nodes = collectNodeCss(nodeInfo, depth);
+        const stylesheet = nodes
+          .filter(node => Object.keys(node.css).length > 0)
+          .map(node => formatCssRule(node.selector, node.css))
+          .join('\n');
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `CSS de ${nodes.length} nodos de "${nodeInfo.name}". El nodo raíz no incluye las reglas que dependen de su padre (relleno, posición absoluta).`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({ nodes, stylesheet }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al obtener el CSS del nodo: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  // Node Styles Export Tool
+  server.tool(
+    "get_node_styles",
+    "Exportar los estilos calculados de un nodo y todos sus descendientes como CSS, clases de Tailwind o StyleSheet de React Native: rellenos y degradados, trazos según su alineación, radios por esquina, sombras y desenfoques, opacidad, modos de fusión, tipografía y layout. Los valores que coinciden con un token del documento lo referencian. A diferencia de get_node_info, no omite propiedades de estilo",
+    {
+      nodeId: z.string().describe("ID del nodo a exportar"),
+      target: z.enum(["css", "tailwind", "react-native"]).default("css").describe("Destino de los estilos"),
+      depth: z.number().int().min(0).max(50).default(50).describe("Profundidad máxima de descendientes (0 = solo el nodo)"),
+      useTokens: z.boolean().default(true).describe("Referenciar los tokens de estilos y variables del documento cuando un valor coincide")
+    },
+    async ({ nodeId, target, depth, useTokens }) => {
+      try {
+        const nodeInfo: any = await transport.sendCommand("get_node_info", { nodeId });
+        const tokens = useTokens
+          ? (await collectDesignTokens(transport, nodeId, ["colors", "typography", "spacing", "shadows", "radii", "variables"], false)).tokens
+          : {};
+        const { nodes, code } = exportNodeStyles(nodeInfo, target, depth, tokens);
+        const referencing = nodes.filter(node => node.tokens).length;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Estilos (${target}) de ${nodes.length} nodos de "${nodeInfo.name}"; ${referencing} referencian tokens del documento.`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify({ target, nodes, code }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al exportar los estilos del nodo: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
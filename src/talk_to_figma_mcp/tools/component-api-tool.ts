@@ -0,0 +1,461 @@
+/**
+ * Herramienta para inferir la API de props de un componente a partir de sus propiedades de Figma
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FigmaTransport } from "../core/transport";
+import { logger } from "../core/logger";
+import { camelCase, componentNameFromFigma, kebabCase, parseVariantName } from "../utils/figma-utils";
+
+/**
+ * Tipos de propiedad de componente de Figma
+ */
+type ComponentPropertyType = 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+
+/**
+ * Capa del componente controlada por una propiedad (`componentPropertyReferences`)
+ */
+interface PropertyReference {
+  nodeId: string;
+  nodeName: string;
+  // Propiedad de la capa: `visible`, `characters` o `mainComponent`
+  field: string;
+}
+
+/**
+ * Prop inferida de una propiedad de componente
+ */
+export interface InferredProp {
+  name: string;
+  figmaName: string;
+  figmaType: ComponentPropertyType;
+  tsType: string;
+  defaultValue: string | boolean | null;
+  // Variantes: valor de Figma → literal en código
+  values?: Record<string, string | boolean>;
+  // Variantes de estados de interacción (hover, pressed...), que suelen resolverse con CSS
+  interactionState?: boolean;
+  preferredComponents?: string[];
+  controls: PropertyReference[];
+}
+
+/**
+ * API inferida de un componente con su código para cada framework
+ */
+export interface ComponentApi {
+  component: { id: string; name: string; type: string; componentName: string };
+  props: InferredProp[];
+  code: { typescript: string; vue: string; angular: string };
+}
+
+/**
+ * Valores de variante que representan un booleano
+ */
+const BOOLEAN_VARIANT_VALUES: Record<string, boolean> = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  on: true,
+  off: false
+};
+
+/**
+ * Valores de variante que corresponden a estados de interacción del usuario
+ */
+const INTERACTION_STATES = new Set(['hover', 'hovered', 'pressed', 'active', 'focus', 'focused', 'focus-visible']);
+
+/**
+ * Nombre de la propiedad sin el sufijo de ID que Figma añade a las propiedades no variantes (`Label#12:0`)
+ */
+function propertyDisplayName(key: string): string {
+  return key.replace(/#[^#]*$/, '');
+}
+
+/**
+ * Identificador camelCase de una prop a partir del nombre de la propiedad en Figma
+ */
+function propIdentifier(figmaName: string): string {
+  // Las palabras en mayúsculas (`SIZE`, `CTA`) se tratan como palabras normales
+  const words = figmaName.replace(/[^\w\s]/g, ' ').trim().replace(/\b([A-Z])([A-Z]+)\b/g, (_match, first, rest) => first + rest.toLowerCase());
+  const identifier = camelCase(words) || 'prop';
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Obtiene las definiciones de propiedades. Los conjuntos exportados sin `componentPropertyDefinitions`
+ * se reconstruyen a partir de los nombres de sus variantes (`Size=Large, State=Hover`)
+ */
+function propertyDefinitions(componentNode: any): Record<string, any> {
+  if (componentNode.componentPropertyDefinitions && Object.keys(componentNode.componentPropertyDefinitions).length > 0) {
+    return componentNode.componentPropertyDefinitions;
+  }
+
+  const definitions: Record<string, any> = {};
+  if (componentNode.type !== 'COMPONENT_SET') return definitions;
+
+  (componentNode.children || [])
+    .filter((child: any) => child.type === 'COMPONENT')
+    .forEach((variant: any) => {
+      (parseVariantName(variant.name) || []).forEach(({ property: key, value }) => {
+        if (!definitions[key]) {
+          // La primera variante del conjunto es la variante por defecto
+          definitions[key] = { type: 'VARIANT', defaultValue: value, variantOptions: [] };
+        }
+        if (!definitions[key].variantOptions.includes(value)) {
+          definitions[key].variantOptions.push(value);
+        }
+      });
+    });
+
+  return definitions;
+}
+
+/**
+ * Variante por defecto de un conjunto (la que tiene los valores por defecto de todas las propiedades)
+ */
+function defaultVariant(componentNode: any, definitions: Record<string, any>): any {
+  if (componentNode.type !== 'COMPONENT_SET') return componentNode;
+
+  const variants = (componentNode.children || []).filter((child: any) => child.type === 'COMPONENT');
+  const expected = Object.entries(definitions)
+    .filter(([, definition]) => definition.type === 'VARIANT')
+    .map(([key, definition]) => `${key}=${definition.defaultValue}`);
+
+  return variants.find((variant: any) => {
+    const pairs = (parseVariantName(variant.name) || []).map(({ property, value }) => `${property}=${value}`);
+    return expected.every(pair => pairs.includes(pair));
+  }) || variants[0] || componentNode;
+}
+
+/**
+ * Recoge las capas que referencian cada propiedad del componente
+ */
+function collectPropertyReferences(node: any, references: Map<string, PropertyReference[]>): void {
+  for (const [field, key] of Object.entries<any>(node.componentPropertyReferences || {})) {
+    if (!references.has(key)) references.set(key, []);
+    references.get(key)!.push({ nodeId: node.id, nodeName: node.name, field });
+  }
+  (node.children || []).forEach((child: any) => collectPropertyReferences(child, references));
+}
+
+/**
+ * Infiere las props de un componente a partir de sus propiedades de Figma: uniones de literales
+ * para las variantes, booleanos, textos como `string` e instancias intercambiables como slots
+ */
+export function inferComponentApi(componentNode: any, componentNames: Map<string, string> = new Map()): ComponentApi {
+  const definitions = propertyDefinitions(componentNode);
+  const componentName = componentNameFromFigma(componentNode.name) || 'Component';
+
+  const references = new Map<string, PropertyReference[]>();
+  collectPropertyReferences(defaultVariant(componentNode, definitions), references);
+
+  // Las variantes primero y las instancias al final, como las ordena el panel de Figma
+  const order: Record<string, number> = { VARIANT: 0, BOOLEAN: 1, TEXT: 2, INSTANCE_SWAP: 3 };
+  const entries = Object.entries<any>(definitions)
+    .filter(([, definition]) => order[definition.type] !== undefined)
+    .sort(([, a], [, b]) => order[a.type] - order[b.type]);
+
+  // Un booleano con el mismo nombre que otra prop (p. ej. el interruptor del icono) pasa a `showX`
+  const otherNames = new Set(entries
+    .filter(([, definition]) => definition.type !== 'BOOLEAN')
+    .map(([key]) => propIdentifier(propertyDisplayName(key))));
+  const usedNames = new Set<string>();
+  const props: InferredProp[] = entries.map(([key, definition]) => {
+    const figmaName = propertyDisplayName(key);
+    let name = propIdentifier(figmaName);
+    if (definition.type === 'BOOLEAN' && otherNames.has(name)) {
+      name = `show${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+    }
+    let candidate = name;
+    let index = 2;
+    while (usedNames.has(candidate)) {
+      candidate = `${name}${index++}`;
+    }
+    usedNames.add(candidate);
+
+    const prop: InferredProp = {
+      name: candidate,
+      figmaName,
+      figmaType: definition.type,
+      tsType: 'string',
+      defaultValue: definition.defaultValue !== undefined ? definition.defaultValue : null,
+      controls: references.get(key) || []
+    };
+
+    switch (definition.type) {
+      case 'VARIANT': {
+        const options: string[] = definition.variantOptions || [];
+        const isBoolean = options.length > 0 && options.every(option => BOOLEAN_VARIANT_VALUES[option.toLowerCase()] !== undefined);
+        const values: Record<string, string | boolean> = {};
+        options.forEach(option => {
+          values[option] = isBoolean ? BOOLEAN_VARIANT_VALUES[option.toLowerCase()] : kebabCase(option.trim()) || option;
+        });
+        prop.values = values;
+        prop.tsType = isBoolean
+          ? 'boolean'
+          : Array.from(new Set(Object.values(values))).map(value => `'${value}'`).join(' | ') || 'string';
+        prop.defaultValue = definition.defaultValue !== undefined && values[definition.defaultValue] !== undefined
+          ? values[definition.defaultValue]
+          : null;
+        if (!isBoolean && options.some(option => INTERACTION_STATES.has(kebabCase(option.trim())))) {
+          prop.interactionState = true;
+        }
+        break;
+      }
+      case 'BOOLEAN':
+        prop.tsType = 'boolean';
+        prop.defaultValue = definition.defaultValue === true || definition.defaultValue === 'true';
+        break;
+      case 'TEXT':
+        prop.tsType = 'string';
+        break;
+      case 'INSTANCE_SWAP':
+        prop.tsType = 'ReactNode';
+        prop.defaultValue = definition.defaultValue
+          ? componentNames.get(definition.defaultValue) || definition.defaultValue
+          : null;
+        if (Array.isArray(definition.preferredValues) && definition.preferredValues.length > 0) {
+          prop.preferredComponents = definition.preferredValues.map((preferred: any) =>
+            componentNames.get(preferred.key) || preferred.key
+          );
+        }
+        break;
+    }
+
+    return prop;
+  });
+
+  return {
+    component: {
+      id: componentNode.id,
+      name: componentNode.name,
+      type: componentNode.type,
+      componentName
+    },
+    props,
+    code: {
+      typescript: generateTypeScriptApi(componentName, props),
+      vue: generateVueApi(componentName, props),
+      angular: generateAngularApi(componentName, props)
+    }
+  };
+}
+
+/**
+ * Nombre del tipo de unión de una variante (`Button` + `size` → `ButtonSize`)
+ */
+function variantTypeName(componentName: string, prop: InferredProp): string {
+  return `${componentName}${prop.name.replace(/^_/, '').charAt(0).toUpperCase()}${prop.name.replace(/^_/, '').slice(1)}`;
+}
+
+/**
+ * Indica si la prop se declara con un tipo de unión propio
+ */
+function hasUnionType(prop: InferredProp): boolean {
+  return prop.figmaType === 'VARIANT' && prop.tsType !== 'boolean' && prop.tsType !== 'string';
+}
+
+/**
+ * Declaraciones `export type` de las uniones de las variantes
+ */
+function generateUnionTypes(componentName: string, props: InferredProp[]): string {
+  return props
+    .filter(hasUnionType)
+    .map(prop => `/** Valores de la variante «${prop.figmaName}» */\nexport type ${variantTypeName(componentName, prop)} = ${prop.tsType};\n`)
+    .join('\n');
+}
+
+/**
+ * Comentario de documentación de una prop
+ */
+function propComment(prop: InferredProp, indent: string): string {
+  let description: string;
+  switch (prop.figmaType) {
+    case 'VARIANT':
+      description = prop.interactionState
+        ? `Variante «${prop.figmaName}». Estado de interacción: normalmente se resuelve con :hover/:active/:focus`
+        : `Variante «${prop.figmaName}»`;
+      break;
+    case 'BOOLEAN':
+      description = prop.controls.some(reference => reference.field === 'visible')
+        ? `Muestra u oculta ${prop.controls.filter(reference => reference.field === 'visible').map(reference => `«${reference.nodeName}»`).join(', ')}`
+        : `Propiedad booleana «${prop.figmaName}»`;
+      break;
+    case 'TEXT':
+      description = `Texto de «${prop.figmaName}»`;
+      break;
+    default:
+      description = `Contenido de «${prop.figmaName}» (instancia intercambiable${prop.defaultValue ? `, por defecto ${prop.defaultValue}` : ''})`;
+  }
+  return `${indent}/** ${description} */\n`;
+}
+
+/**
+ * Valor por defecto de una prop como literal de código (las instancias no tienen valor por defecto)
+ */
+function defaultLiteral(prop: InferredProp): string | null {
+  if (prop.figmaType === 'INSTANCE_SWAP' || prop.defaultValue === null) return null;
+  return typeof prop.defaultValue === 'string' ? `'${prop.defaultValue.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(prop.defaultValue);
+}
+
+/**
+ * Tipo de una prop en TypeScript, usando el alias de su unión si lo tiene
+ */
+function propType(componentName: string, prop: InferredProp): string {
+  return hasUnionType(prop) ? variantTypeName(componentName, prop) : prop.tsType;
+}
+
+/**
+ * Genera la interfaz de props para React con sus valores por defecto
+ */
+function generateTypeScriptApi(componentName: string, props: InferredProp[]): string {
+  const hasSlots = props.some(prop => prop.figmaType === 'INSTANCE_SWAP');
+  const members = props.map(prop => `${propComment(prop, '  ')}  ${prop.name}?: ${propType(componentName, prop)};`);
+  const defaults = props
+    .filter(prop => defaultLiteral(prop) !== null)
+    .map(prop => `  ${prop.name}: ${defaultLiteral(prop)},`);
+  const unions = generateUnionTypes(componentName, props);
+
+  return `// Props de ${componentName} generadas desde Figma\n\n` +
+    (hasSlots ? `import type { ReactNode } from 'react';\n\n` : '') +
+    (unions ? `${unions}\n` : '') +
+    `/**\n * Propiedades de ${componentName}\n */\n` +
+    `export interface ${componentName}Props {\n${members.join('\n')}\n}\n\n` +
+    `/**\n * Valores por defecto de ${componentName} (los de la variante por defecto en Figma)\n */\n` +
+    `export const default${componentName}Props: Partial<${componentName}Props> = {\n${defaults.join('\n')}\n};\n`;
+}
+
+/**
+ * Genera el bloque `<script setup>` de Vue con `defineProps` y las instancias como slots
+ */
+function generateVueApi(componentName: string, props: InferredProp[]): string {
+  const valueProps = props.filter(prop => prop.figmaType !== 'INSTANCE_SWAP');
+  const slots = props.filter(prop => prop.figmaType === 'INSTANCE_SWAP');
+  const members = valueProps.map(prop => `${propComment(prop, '  ')}  ${prop.name}?: ${propType(componentName, prop)};`);
+  const defaults = valueProps
+    .filter(prop => defaultLiteral(prop) !== null)
+    .map(prop => `  ${prop.name}: ${defaultLiteral(prop)}`);
+  // `<script setup>` no admite exportaciones: los tipos se declaran locales
+  const unions = generateUnionTypes(componentName, props).replace(/^export /gm, '');
+
+  return `<script setup lang="ts">\n` +
+    (unions ? `${unions}\n` : '') +
+    `interface ${componentName}Props {\n${members.join('\n')}\n}\n\n` +
+    `withDefaults(defineProps<${componentName}Props>(), {\n${defaults.join(',\n')}\n});\n` +
+    (slots.length > 0
+      ? `\ndefineSlots<{\n${slots.map(prop => `${propComment(prop, '  ')}  ${prop.name}?: () => any;`).join('\n')}\n}>();\n`
+      : '') +
+    `</script>\n`;
+}
+
+/**
+ * Genera la clase de Angular con un `@Input` por propiedad; las instancias se reciben como plantillas
+ */
+function generateAngularApi(componentName: string, props: InferredProp[]): string {
+  const fileName = kebabCase(componentName);
+  const hasSlots = props.some(prop => prop.figmaType === 'INSTANCE_SWAP');
+  const inputs = props.map(prop => {
+    const comment = propComment(prop, '  ');
+    if (prop.figmaType === 'INSTANCE_SWAP') {
+      return `${comment}  @Input() ${prop.name}?: TemplateRef<unknown>;`;
+    }
+    const literal = defaultLiteral(prop);
+    return literal !== null
+      ? `${comment}  @Input() ${prop.name}: ${propType(componentName, prop)} = ${literal};`
+      : `${comment}  @Input() ${prop.name}?: ${propType(componentName, prop)};`;
+  });
+  const unions = generateUnionTypes(componentName, props);
+
+  return `import { Component, Input${hasSlots ? ', TemplateRef' : ''} } from '@angular/core';\n\n` +
+    (unions ? `${unions}\n` : '') +
+    `@Component({\n` +
+    `  selector: 'app-${fileName}',\n` +
+    `  templateUrl: './${fileName}.component.html',\n` +
+    `  styleUrls: ['./${fileName}.component.scss']\n` +
+    `})\n` +
+    `export class ${componentName}Component {\n${inputs.join('\n')}\n}\n`;
+}
+
+/**
+ * Nombres de los componentes locales por ID y por clave. Si el origen no puede listarlos,
+ * lo registra y devuelve un mapa vacío: los nombres solo enriquecen el resultado
+ */
+export async function getLocalComponentNames(transport: FigmaTransport): Promise<Map<string, string>> {
+  const componentNames = new Map<string, string>();
+  try {
+    const localComponents: any = await transport.sendCommand("get_local_components");
+    (localComponents.components || []).forEach((component: any) => {
+      componentNames.set(component.id, component.name);
+      if (component.key) componentNames.set(component.key, component.name);
+    });
+  } catch (error) {
+    logger.warn(`No se pudieron obtener los componentes locales: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return componentNames;
+}
+
+/**
+ * Registra la herramienta de inferencia de la API de componentes
+ */
+export function registerComponentApiTool(server: McpServer, transport: FigmaTransport): void {
+  // Component API Inference Tool
+  server.tool(
+    "infer_component_api",
+    "Inferir la API de props de un componente a partir de sus propiedades de Figma (variantes, booleanos, textos e instancias intercambiables) y generarla como interfaz de TypeScript, defineProps de Vue e @Input de Angular",
+    {
+      componentId: z.string().describe("ID del conjunto de componentes o del componente a analizar")
+    },
+    async ({ componentId }) => {
+      try {
+        let componentNode: any = await transport.sendCommand("get_node_info", { nodeId: componentId });
+
+        if (componentNode.type !== 'COMPONENT_SET' && componentNode.type !== 'COMPONENT') {
+          throw new Error(`Node ${componentId} is a ${componentNode.type}, not a component or component set`);
+        }
+
+        // Las variantes no tienen definiciones propias: se usan las de su conjunto
+        if (componentNode.type === 'COMPONENT' && !componentNode.componentPropertyDefinitions) {
+          if (componentNode.parent && componentNode.parent.type === 'COMPONENT_SET' && componentNode.parent.id) {
+            componentNode = await transport.sendCommand("get_node_info", { nodeId: componentNode.parent.id });
+          } else if (String(componentNode.name).includes('=')) {
+            throw new Error(`Component ${componentId} is a variant; pass the ID of its component set instead`);
+          }
+        }
+
+        // Nombres de los componentes para las instancias por defecto y preferidas (por ID y por clave)
+        const componentNames = await getLocalComponentNames(transport);
+
+        const api = inferComponentApi(componentNode, componentNames);
+        const counts = api.props.reduce((acc: Record<string, number>, prop) => {
+          acc[prop.figmaType] = (acc[prop.figmaType] || 0) + 1;
+          return acc;
+        }, {});
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `API de ${api.component.componentName}: ${api.props.length} props ` +
+                `(${counts.VARIANT || 0} variantes, ${counts.BOOLEAN || 0} booleanas, ${counts.TEXT || 0} de texto, ${counts.INSTANCE_SWAP || 0} slots).`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(api, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al inferir la API del componente: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
@@ -4,16 +4,19 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma } from "../core/figma-connection";
+import { FigmaTransport } from "../core/transport";
+import { CssDeclarations, cssClassName, formatCssRule } from "../utils/css-utils";
+import { nodeCss } from "../utils/layout-utils";
+import { escapeHtml } from "../utils/figma-utils";
 
 /**
  * Registra la herramienta de análisis de jerarquía de componentes
  */
-export function registerComponentHierarchyTool(server: McpServer): void {
+export function registerComponentHierarchyTool(server: McpServer, transport: FigmaTransport): void {
   // Analyzer Component Hierarchy Tool
   server.tool(
     "analyze_component_hierarchy",
-    "Analizar la estructura jerárquica de componentes para recomendar implementación en código",
+    "Analizar la estructura jerárquica de componentes para recomendar implementación en código y generar los archivos del componente (componentStructure.fileStructure.files[].content)",
     {
       nodeId: z.string().describe("ID del componente o frame a analizar"),
       depth: z.number().int().min(1).max(10).default(5).describe("Profundidad del análisis"),
@@ -28,7 +31,7 @@ export function registerComponentHierarchyTool(server: McpServer): void {
         };
 
         // Obtener información del nodo
-        const nodeInfo = await sendCommandToFigma("get_node_info", { nodeId });
+        const nodeInfo = await transport.sendCommand("get_node_info", { nodeId });
         
         // Analizar la jerarquía del componente
         const hierarchyAnalysis = analyzeComponentHierarchy(nodeInfo, depth, framework);
@@ -80,8 +83,8 @@ export function analyzeComponentHierarchy(nodeInfo: any, maxDepth: number, frame
     framework
   );
   
-  // Sugerir estructura de componentes
-  const componentStructure = suggestComponentStructure(hierarchyTree, framework);
+  // Sugerir estructura de componentes y generar el código de sus archivos
+  const componentStructure = suggestComponentStructure(hierarchyTree, framework, nodeInfo, semanticStructure, maxDepth);
   
   // Estructura del resultado
   return {
@@ -122,13 +125,14 @@ function buildHierarchyTree(node: any, currentDepth: number, maxDepth: number):
   if (node.type === 'TEXT') {
     treeNode.textProperties = {
       characters: node.characters,
-      fontSize: node.fontSize,
-      fontName: node.fontName,
-      fontWeight: node.fontWeight,
-      textAlignHorizontal: node.textAlignHorizontal,
-      textAlignVertical: node.textAlignVertical,
-      textCase: node.textCase,
-      textDecoration: node.textDecoration
+      // Los nodos JSON_REST_V1 guardan la tipografía en `style`
+      fontSize: node.fontSize || node.style?.fontSize,
+      fontName: node.fontName || (node.style?.fontFamily ? { family: node.style.fontFamily, style: node.style.fontStyle } : undefined),
+      fontWeight: node.fontWeight || node.style?.fontWeight,
+      textAlignHorizontal: node.textAlignHorizontal || node.style?.textAlignHorizontal,
+      textAlignVertical: node.textAlignVertical || node.style?.textAlignVertical,
+      textCase: node.textCase || node.style?.textCase,
+      textDecoration: node.textDecoration || node.style?.textDecoration
     };
   } else if (node.layoutMode) {
     treeNode.layoutProperties = {
@@ -414,13 +418,20 @@ function generateImplementationSuggestions(
 
 /**
  * Sugiere una estructura de componentes para implementación en un framework
+ * y genera el contenido de sus archivos a partir del nodo original
  */
-function suggestComponentStructure(hierarchyTree: any, framework: string): any {
+function suggestComponentStructure(
+  hierarchyTree: any,
+  framework: string,
+  nodeInfo: any,
+  semanticStructure: any,
+  maxDepth: number
+): any {
   // Determinar si usar un enfoque de componentes anidados o planos
   const shouldUseNestedComponents = hierarchyTree.children && hierarchyTree.children.length > 3;
   
   // Identificar componentes potenciales basados en la complejidad
-  const potentialComponents = [];
+  const potentialComponents: any[] = [];
   const processNode = (node: any, depth: number) => {
     // Si es un nodo complejo, considerarlo un componente potencial
     if (
@@ -449,20 +460,51 @@ function suggestComponentStructure(hierarchyTree: any, framework: string): any {
   // Organizar componentes por complejidad
   potentialComponents.sort((a, b) => b.complexity - a.complexity);
   
+  // Solo React extrae subcomponentes a archivos propios (los 3 más complejos)
+  const mainComponentName = formatComponentName(hierarchyTree.name);
+  const usedNames = new Set<string>([mainComponentName]);
+  const extracted: Record<string, string> = {};
+  if (framework === 'react') {
+    potentialComponents.slice(0, 3).forEach(comp => {
+      if (comp.complexity > 10) {
+        comp.name = uniqueName(comp.name, usedNames, '');
+        extracted[comp.id] = comp.name;
+      }
+    });
+  }
+
+  // Esqueletos de código del componente principal y de los subcomponentes extraídos
+  const elementTags = new Map<string, string>(
+    semanticStructure.elements.map((element: any) => [element.nodeId, element.inferredElement])
+  );
+  const scaffold = buildComponentScaffold(nodeInfo, mainComponentName, elementTags, maxDepth, extracted);
+  const subScaffolds = potentialComponents
+    .filter(comp => extracted[comp.id])
+    .map(comp => buildComponentScaffold(
+      findNodeById(nodeInfo, comp.id),
+      comp.name,
+      elementTags,
+      maxDepth - comp.depth,
+      extracted
+    ));
+
   // Generar estructura de archivos basada en el framework
   const fileStructure = generateFileStructure(
-    formatComponentName(hierarchyTree.name), 
+    mainComponentName, 
     potentialComponents,
-    framework
+    framework,
+    scaffold,
+    subScaffolds
   );
   
   return {
-    componentName: formatComponentName(hierarchyTree.name),
+    componentName: mainComponentName,
     nestedComponents: shouldUseNestedComponents,
     potentialComponents: potentialComponents.map(c => ({
       name: c.name,
       complexity: c.complexity
     })),
+    props: scaffold.props,
     fileStructure
   };
 }
@@ -559,131 +601,569 @@ function calculateNodeComplexity(node: any): number {
 }
 
 /**
- * Genera una estructura de archivos sugerida basada en el framework
+ * Genera la estructura de archivos del framework con el contenido de cada archivo
  */
-function generateFileStructure(mainComponentName: string, subComponents: any[], framework: string): any {
+function generateFileStructure(
+  mainComponentName: string,
+  subComponents: any[],
+  framework: string,
+  scaffold: ComponentScaffold,
+  subScaffolds: ComponentScaffold[]
+): any {
   let files = [];
-  
+
   switch (framework) {
     case 'react':
       // Archivo principal
       files.push({
         path: `${mainComponentName}/${mainComponentName}.tsx`,
         description: `Main component file`,
-        language: 'tsx'
+        language: 'tsx',
+        content: generateReactComponent(scaffold, './components/', true)
       });
-      
+
       // Estilos
       files.push({
         path: `${mainComponentName}/${mainComponentName}.module.css`,
         description: `Component styles`,
-        language: 'css'
+        language: 'css',
+        content: generateStylesheet(scaffold, className => `.${camelIdentifier(className)}`)
       });
-      
+
       // Tipos
       files.push({
         path: `${mainComponentName}/${mainComponentName}.types.ts`,
         description: `TypeScript interfaces and types`,
-        language: 'typescript'
+        language: 'typescript',
+        content: generatePropsInterface(scaffold, true)
       });
-      
+
       // Índice de exportación
       files.push({
         path: `${mainComponentName}/index.ts`,
         description: `Export file`,
-        language: 'typescript'
+        language: 'typescript',
+        content: `export { ${mainComponentName} } from './${mainComponentName}';\n` +
+          `export type { ${mainComponentName}Props } from './${mainComponentName}.types';\n`
       });
-      
-      // Subcomponentes (para componentes complejos)
-      subComponents.slice(0, 3).forEach(comp => { // Limitar a los 3 más complejos
-        if (comp.complexity > 10) { // Solo para componentes realmente complejos
-          files.push({
-            path: `${mainComponentName}/components/${comp.name}.tsx`,
-            description: `Subcomponent for ${comp.name}`,
-            language: 'tsx'
-          });
-        }
+
+      // Subcomponentes extraídos (los 3 más complejos, ver suggestComponentStructure)
+      subScaffolds.forEach(sub => {
+        files.push({
+          path: `${mainComponentName}/components/${sub.name}.tsx`,
+          description: `Subcomponent for ${sub.name}`,
+          language: 'tsx',
+          content: generateReactComponent(sub, './', false)
+        });
+        files.push({
+          path: `${mainComponentName}/components/${sub.name}.module.css`,
+          description: `Styles for ${sub.name}`,
+          language: 'css',
+          content: generateStylesheet(sub, className => `.${camelIdentifier(className)}`)
+        });
       });
-      
+
       // Pruebas
       files.push({
         path: `${mainComponentName}/${mainComponentName}.test.tsx`,
         description: `Component tests`,
-        language: 'tsx'
+        language: 'tsx',
+        content: generateReactTest(scaffold)
       });
-      
+
       break;
-      
+
     case 'vue':
       files.push({
         path: `${mainComponentName}/${mainComponentName}.vue`,
         description: `Vue single-file component`,
-        language: 'vue'
+        language: 'vue',
+        content: generateVueComponent(scaffold)
       });
-      
-      // Tipos (si hay componentes complejos)
-      if (subComponents.some(c => c.complexity > 10)) {
-        files.push({
-          path: `${mainComponentName}/types.ts`,
-          description: `TypeScript interfaces and types`,
-          language: 'typescript'
-        });
-      }
-      
+
+      // Tipos de las props que importa el componente
+      files.push({
+        path: `${mainComponentName}/types.ts`,
+        description: `TypeScript interfaces and types`,
+        language: 'typescript',
+        content: generatePropsInterface(scaffold, false)
+      });
+
       break;
-      
-    case 'angular':
+
+    case 'angular': {
+      const fileName = kebabCase(mainComponentName);
+      const angular = generateAngularComponent(scaffold, fileName);
+
       files.push({
-        path: `${kebabCase(mainComponentName)}/${kebabCase(mainComponentName)}.component.ts`,
+        path: `${fileName}/${fileName}.component.ts`,
         description: `Component class`,
-        language: 'typescript'
+        language: 'typescript',
+        content: angular.component
       });
-      
+
       files.push({
-        path: `${kebabCase(mainComponentName)}/${kebabCase(mainComponentName)}.component.html`,
+        path: `${fileName}/${fileName}.component.html`,
         description: `Component template`,
-        language: 'html'
+        language: 'html',
+        content: angular.template
       });
-      
+
       files.push({
-        path: `${kebabCase(mainComponentName)}/${kebabCase(mainComponentName)}.component.scss`,
+        path: `${fileName}/${fileName}.component.scss`,
         description: `Component styles`,
-        language: 'scss'
+        language: 'scss',
+        content: generateStylesheet(scaffold, className => `.${className}`)
       });
-      
+
       files.push({
-        path: `${kebabCase(mainComponentName)}/${kebabCase(mainComponentName)}.module.ts`,
+        path: `${fileName}/${fileName}.module.ts`,
         description: `Component module`,
-        language: 'typescript'
+        language: 'typescript',
+        content: angular.module
       });
-      
+
       break;
-      
-    default: // HTML básico
+    }
+
+    default: { // HTML básico
+      const withScript = subComponents.some(c => c.complexity > 5);
+      const rootClass = scaffold.root.className;
+      const bemClass = (className: string) => className === rootClass ? rootClass : `${rootClass}__${className}`;
+
       files.push({
         path: `${mainComponentName}.html`,
         description: `HTML structure`,
-        language: 'html'
+        language: 'html',
+        content: generateHtmlDocument(scaffold, mainComponentName, bemClass, withScript)
       });
-      
+
       files.push({
         path: `${mainComponentName}.css`,
         description: `CSS styles`,
-        language: 'css'
+        language: 'css',
+        content: generateStylesheet(scaffold, className => `.${bemClass(className)}`)
       });
-      
-      if (subComponents.some(c => c.complexity > 5)) {
+
+      if (withScript) {
         files.push({
           path: `${mainComponentName}.js`,
           description: `JavaScript functionality`,
-          language: 'javascript'
+          language: 'javascript',
+          content: generateHtmlScript(scaffold)
         });
       }
+    }
   }
-  
+
   return { files };
 }
 
+/**
+ * Elemento del esqueleto de código generado a partir de un nodo
+ */
+interface ScaffoldElement {
+  nodeId: string;
+  nodeName: string;
+  tag: string;
+  className: string;
+  css: CssDeclarations;
+  attributes: Record<string, string>;
+  textProp?: string;
+  component?: string;
+  children: ScaffoldElement[];
+}
+
+/**
+ * Propiedad de texto del componente generado, con el texto del diseño como valor por defecto
+ */
+interface ScaffoldProp {
+  name: string;
+  nodeId: string;
+  nodeName: string;
+  defaultValue: string;
+}
+
+/**
+ * Esqueleto de un componente: árbol de elementos y propiedades
+ */
+interface ComponentScaffold {
+  name: string;
+  root: ScaffoldElement;
+  props: ScaffoldProp[];
+}
+
+/**
+ * Tipos de nodo que se exportan como iconos o gráficos decorativos
+ */
+const GRAPHIC_NODE_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'POLYGON']);
+
+/**
+ * Convierte un nombre de clase en kebab-case en un identificador camelCase (`card-title` → `cardTitle`)
+ */
+function camelIdentifier(name: string): string {
+  const identifier = name.replace(/-(\w)/g, (_match, letter) => letter.toUpperCase());
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Palabras reservadas de JavaScript/TypeScript, que no pueden ser nombres de propiedad desestructurada
+ */
+const RESERVED_WORDS = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function',
+  'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * Nombre de propiedad de texto para un identificador: las palabras reservadas
+ * llevan el sufijo `Text` (`delete` → `deleteText`)
+ */
+function textPropName(identifier: string): string {
+  return RESERVED_WORDS.has(identifier) ? `${identifier}Text` : identifier;
+}
+
+/**
+ * Devuelve el nombre o, si ya está en uso, el nombre con un sufijo numérico, y lo registra
+ */
+function uniqueName(name: string, used: Set<string>, separator: string): string {
+  let candidate = name;
+  let index = 2;
+  while (used.has(candidate)) {
+    candidate = `${name}${separator}${index++}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * Busca un nodo por su ID dentro del árbol de un nodo
+ */
+function findNodeById(node: any, nodeId: string): any {
+  if (node.id === nodeId) return node;
+  for (const child of node.children || []) {
+    const found = findNodeById(child, nodeId);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Construye el esqueleto de un componente a partir del nodo original. Las etiquetas son las
+ * de `inferSemanticElements`, los estilos salen de `nodeCss` y cada texto se convierte en una
+ * propiedad. Los nodos de `extracted` (salvo la raíz) se sustituyen por su subcomponente
+ */
+function buildComponentScaffold(
+  node: any,
+  name: string,
+  elementTags: Map<string, string>,
+  maxDepth: number,
+  extracted: Record<string, string>
+): ComponentScaffold {
+  const classNames = new Set<string>();
+  const propNames = new Set<string>(['className']);
+  const props: ScaffoldProp[] = [];
+
+  const visit = (current: any, parent: any, depth: number, parentTag: string | null): ScaffoldElement => {
+    const tag = parentTag === 'ul' || parentTag === 'ol' ? 'li' : (elementTags.get(current.id) || 'div');
+    const baseClass = cssClassName(depth === 0 ? name : current.name);
+    const element: ScaffoldElement = {
+      nodeId: current.id,
+      nodeName: current.name,
+      tag,
+      className: uniqueName(baseClass || 'element', classNames, '-'),
+      css: nodeCss(current, parent),
+      attributes: {},
+      children: []
+    };
+
+    if (depth > 0 && extracted[current.id]) {
+      element.component = extracted[current.id];
+      return element;
+    }
+
+    if (tag === 'button') {
+      element.attributes.type = 'button';
+    } else if (tag === 'a') {
+      element.attributes.href = '#';
+    }
+    if (GRAPHIC_NODE_TYPES.has(current.type)) {
+      // El relleno de un icono es su color (para SVG con `currentColor`), no un fondo
+      const { 'background-color': color, ...css } = element.css;
+      element.tag = tag === 'li' ? tag : 'span';
+      element.css = color ? { ...css, color } : css;
+      element.attributes['aria-hidden'] = 'true';
+    }
+
+    if (current.type === 'TEXT') {
+      const words = cssClassName(current.name);
+      const baseProp = words && !/^[0-9]/.test(words) ? textPropName(camelIdentifier(words)) : 'text';
+      element.textProp = uniqueName(baseProp, propNames, '');
+      props.push({
+        name: element.textProp,
+        nodeId: current.id,
+        nodeName: current.name,
+        defaultValue: current.characters || ''
+      });
+    } else if (depth < maxDepth && current.children) {
+      element.children = current.children
+        .filter((child: any) => child.visible !== false)
+        .map((child: any) => visit(child, current, depth + 1, tag));
+    }
+
+    return element;
+  };
+
+  return { name, root: visit(node, null, 0, null), props };
+}
+
+/**
+ * Recorre los elementos de un esqueleto en orden
+ */
+function scaffoldElements(element: ScaffoldElement): ScaffoldElement[] {
+  return [element, ...element.children.flatMap(scaffoldElements)];
+}
+
+/**
+ * Subcomponentes que usa un esqueleto, sin repetir
+ */
+function scaffoldComponents(scaffold: ComponentScaffold): string[] {
+  return Array.from(new Set(
+    scaffoldElements(scaffold.root).filter(element => element.component).map(element => element.component as string)
+  ));
+}
+
+/**
+ * Genera la hoja de estilos con una regla por cada elemento que tiene estilos
+ */
+function generateStylesheet(scaffold: ComponentScaffold, selector: (className: string) => string): string {
+  const rules = scaffoldElements(scaffold.root)
+    .filter(element => !element.component && Object.keys(element.css).length > 0)
+    .map(element => formatCssRule(selector(element.className), element.css));
+  return `/* Estilos de ${scaffold.name} generados desde Figma */\n\n${rules.join('\n')}`;
+}
+
+/**
+ * Genera la interfaz de propiedades del componente
+ */
+function generatePropsInterface(scaffold: ComponentScaffold, withClassName: boolean): string {
+  const members = scaffold.props.map(prop =>
+    `  /** Texto de «${prop.nodeName}» */\n  ${prop.name}?: string;`
+  );
+  if (withClassName) {
+    members.push(`  /** Clase CSS adicional para el elemento raíz */\n  className?: string;`);
+  }
+  return `/**\n * Propiedades de ${scaffold.name}\n */\n` +
+    `export interface ${scaffold.name}Props {\n${members.join('\n')}\n}\n`;
+}
+
+/**
+ * Escribe los atributos de un elemento en la sintaxis de JSX o de las plantillas HTML
+ */
+function formatAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes).map(([name, value]) => ` ${name}="${value}"`).join('');
+}
+
+/**
+ * Genera el JSX de un elemento y sus hijos
+ */
+function renderJsx(element: ScaffoldElement, indent: string, isRoot: boolean): string {
+  if (element.component) {
+    // Dentro de una lista el subcomponente necesita su propio `li`
+    return element.tag === 'li'
+      ? `${indent}<li>\n${indent}  <${element.component} />\n${indent}</li>`
+      : `${indent}<${element.component} />`;
+  }
+
+  const className = isRoot
+    ? `{[styles.${camelIdentifier(element.className)}, className].filter(Boolean).join(' ')}`
+    : `{styles.${camelIdentifier(element.className)}}`;
+  const open = `<${element.tag} className=${className}${formatAttributes(element.attributes)}`;
+
+  if (element.textProp) {
+    return `${indent}${open}>{${element.textProp}}</${element.tag}>`;
+  }
+  if (element.children.length === 0) {
+    return `${indent}${open} />`;
+  }
+  const children = element.children.map(child => renderJsx(child, `${indent}  `, false));
+  return `${indent}${open}>\n${children.join('\n')}\n${indent}</${element.tag}>`;
+}
+
+/**
+ * Genera un componente funcional de React. Los subcomponentes se importan de `componentsPath`
+ * y solo el componente principal tiene un archivo de tipos propio
+ */
+function generateReactComponent(scaffold: ComponentScaffold, componentsPath: string, isMain: boolean): string {
+  const name = scaffold.name;
+  const imports = [
+    `import React from 'react';`,
+    `import styles from './${name}.module.css';`,
+    ...(isMain ? [`import { ${name}Props } from './${name}.types';`] : []),
+    ...scaffoldComponents(scaffold).map(component => `import { ${component} } from '${componentsPath}${component}';`)
+  ];
+
+  const params = [
+    ...scaffold.props.map(prop => `  ${prop.name} = ${JSON.stringify(prop.defaultValue)},`),
+    `  className`
+  ];
+
+  return `${imports.join('\n')}\n\n` +
+    (isMain ? '' : `${generatePropsInterface(scaffold, true)}\n`) +
+    `export const ${name}: React.FC<${name}Props> = ({\n${params.join('\n')}\n}) => {\n` +
+    `  return (\n${renderJsx(scaffold.root, '    ', true)}\n  );\n};\n\n` +
+    `export default ${name};\n`;
+}
+
+/**
+ * Genera las pruebas básicas del componente de React con Testing Library
+ */
+function generateReactTest(scaffold: ComponentScaffold): string {
+  const name = scaffold.name;
+  const tests = [
+    `  it('se renderiza con los valores por defecto', () => {\n` +
+    `    const { container } = render(<${name} />);\n` +
+    `    expect(container.firstChild).toBeInTheDocument();\n` +
+    `  });`
+  ];
+
+  const prop = scaffold.props[0];
+  if (prop) {
+    tests.push(
+      `  it('muestra el texto de ${prop.name}', () => {\n` +
+      `    render(<${name} ${prop.name}="Texto de prueba" />);\n` +
+      `    expect(screen.getByText('Texto de prueba')).toBeInTheDocument();\n` +
+      `  });`
+    );
+  }
+
+  return `import React from 'react';\n` +
+    `import { render, screen } from '@testing-library/react';\n` +
+    `import { ${name} } from './${name}';\n\n` +
+    `describe('${name}', () => {\n${tests.join('\n\n')}\n});\n`;
+}
+
+/**
+ * Genera el marcado de plantilla (Vue, Angular o HTML) de un elemento y sus hijos
+ */
+function renderTemplate(
+  element: ScaffoldElement,
+  indent: string,
+  text: (element: ScaffoldElement) => string,
+  className: (className: string) => string = name => name
+): string {
+  const open = `<${element.tag} class="${className(element.className)}"${formatAttributes(element.attributes)}`;
+
+  if (element.textProp) {
+    return `${indent}${open}>${text(element)}</${element.tag}>`;
+  }
+  if (element.children.length === 0) {
+    return `${indent}${open}></${element.tag}>`;
+  }
+  const children = element.children.map(child => renderTemplate(child, `${indent}  `, text, className));
+  return `${indent}${open}>\n${children.join('\n')}\n${indent}</${element.tag}>`;
+}
+
+/**
+ * Genera un componente de archivo único de Vue 3 con `<script setup>`
+ */
+function generateVueComponent(scaffold: ComponentScaffold): string {
+  const defaults = scaffold.props.map(prop => `  ${prop.name}: ${JSON.stringify(prop.defaultValue)}`);
+  const template = renderTemplate(scaffold.root, '  ', element => `{{ ${element.textProp} }}`);
+  const styles = generateStylesheet(scaffold, className => `.${className}`);
+
+  return `<script setup lang="ts">\n` +
+    `import type { ${scaffold.name}Props } from './types';\n\n` +
+    `withDefaults(defineProps<${scaffold.name}Props>(), {\n${defaults.join(',\n')}\n});\n` +
+    `</script>\n\n` +
+    `<template>\n${template}\n</template>\n\n` +
+    `<style scoped>\n${styles}</style>\n`;
+}
+
+/**
+ * Genera la clase, la plantilla y el módulo de un componente de Angular
+ */
+function generateAngularComponent(
+  scaffold: ComponentScaffold,
+  fileName: string
+): { component: string; template: string; module: string } {
+  const className = `${scaffold.name}Component`;
+  const inputs = scaffold.props.map(prop =>
+    `  /** Texto de «${prop.nodeName}» */\n  @Input() ${prop.name} = ${JSON.stringify(prop.defaultValue)};`
+  );
+
+  const component = `import { Component, Input } from '@angular/core';\n\n` +
+    `@Component({\n` +
+    `  selector: 'app-${fileName}',\n` +
+    `  templateUrl: './${fileName}.component.html',\n` +
+    `  styleUrls: ['./${fileName}.component.scss']\n` +
+    `})\n` +
+    `export class ${className} {\n${inputs.join('\n')}\n}\n`;
+
+  const template = `${renderTemplate(scaffold.root, '', element => `{{ ${element.textProp} }}`)}\n`;
+
+  const module = `import { NgModule } from '@angular/core';\n` +
+    `import { CommonModule } from '@angular/common';\n` +
+    `import { ${className} } from './${fileName}.component';\n\n` +
+    `@NgModule({\n` +
+    `  declarations: [${className}],\n` +
+    `  imports: [CommonModule],\n` +
+    `  exports: [${className}]\n` +
+    `})\n` +
+    `export class ${scaffold.name}Module {}\n`;
+
+  return { component, template, module };
+}
+
+/**
+ * Genera la página HTML con el marcado del componente y sus textos por defecto
+ */
+function generateHtmlDocument(
+  scaffold: ComponentScaffold,
+  fileName: string,
+  className: (className: string) => string,
+  withScript: boolean
+): string {
+  const defaults = new Map(scaffold.props.map(prop => [prop.name, prop.defaultValue]));
+  const markup = renderTemplate(
+    scaffold.root,
+    '    ',
+    element => escapeHtml(defaults.get(element.textProp as string) || ''),
+    className
+  );
+
+  return `<!DOCTYPE html>\n<html lang="es">\n  <head>\n` +
+    `    <meta charset="UTF-8" />\n` +
+    `    <meta name="viewport" content="width=device-width, initial-scale=1.0" />\n` +
+    `    <title>${escapeHtml(scaffold.name)}</title>\n` +
+    `    <link rel="stylesheet" href="${fileName}.css" />\n` +
+    `  </head>\n  <body>\n${markup}\n` +
+    (withScript ? `    <script src="${fileName}.js"></script>\n` : '') +
+    `  </body>\n</html>\n`;
+}
+
+/**
+ * Genera el script de la versión HTML: los botones y enlaces del componente emiten
+ * un evento con su texto para conectar la lógica de la página
+ */
+function generateHtmlScript(scaffold: ComponentScaffold): string {
+  const root = scaffold.root.className;
+  return `// Interacciones de ${scaffold.name} generadas desde Figma\n` +
+    `document.querySelectorAll('.${root}').forEach(component => {\n` +
+    `  component.querySelectorAll('button, a').forEach(control => {\n` +
+    `    control.addEventListener('click', event => {\n` +
+    `      event.preventDefault();\n` +
+    `      component.dispatchEvent(new CustomEvent('${root}:action', {\n` +
+    `        bubbles: true,\n` +
+    `        detail: { label: control.textContent.trim() }\n` +
+    `      }));\n` +
+    `    });\n` +
+    `  });\n` +
+    `});\n`;
+}
+
 /**
  * Convierte un string a kebab-case (para nombres de archivos de Angular)
  */
@@ -4,12 +4,18 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma } from "../core/figma-connection";
+import { FigmaTransport, fetchDocumentPages } from "../core/transport";
+import { logger } from "../core/logger";
+import { parseVariantName } from "../utils/figma-utils";
+import { CssDeclarations, cssClassName, formatCssRule } from "../utils/css-utils";
+import { nodeCss } from "../utils/layout-utils";
+import { getLocalComponentNames } from "./component-api-tool";
+import { ComponentStateInteraction, componentStateInteractions, readNodeInteractions } from "./prototype-tools";
 
 /**
  * Registra la herramienta de análisis de estados de componentes
  */
-export function registerComponentStatesTool(server: McpServer): void {
+export function registerComponentStatesTool(server: McpServer, transport: FigmaTransport): void {
   // Analizador de Estados de Componentes
   server.tool(
     "analyze_component_states",
@@ -26,67 +32,36 @@ export function registerComponentStatesTool(server: McpServer): void {
           text: `Iniciando análisis de estados del componente. ${includeVariants ? 'Incluyendo todas las variantes.' : 'Solo analizando componente principal.'}`
         };
 
-        console.log(`Analizando estados del componente ${componentId}, includeVariants=${includeVariants}`);
+        logger.info(`Analizando estados del componente ${componentId}, includeVariants=${includeVariants}`);
 
         // Obtener información del componente
-        const componentInfo = await sendCommandToFigma("get_node_info", { nodeId: componentId });
+        const componentInfo: any = await transport.sendCommand("get_node_info", { nodeId: componentId });
         
         // Variantes conocidas inicialmente vacías
-        let variantsInfo = [];
+        let variantsInfo: any[] = [];
         
         // Solo intentar obtener variantes si explícitamente se solicita
         if (includeVariants === false) {
-          console.log("Análisis sin variantes solicitado, omitiendo búsqueda de variantes");
+          logger.info("Análisis sin variantes solicitado, omitiendo búsqueda de variantes");
         } else {
           try {
-            console.log("Intentando encontrar variantes usando jerarquía del documento");
-            
-            // Enfoque basado en jerarquía:
-            // 1. Si el componente es parte de un conjunto, obtener sus hermanos
-            // 2. Si el componente es un conjunto, obtener sus hijos
-            
-            if (componentInfo.type === 'COMPONENT_SET') {
-              console.log("El nodo es un COMPONENT_SET, obteniendo sus hijos como variantes");
-              
-              // Si tiene hijos, son las variantes
-              if (componentInfo.children && Array.isArray(componentInfo.children) && componentInfo.children.length > 0) {
-                variantsInfo = componentInfo.children.filter(child => child.type === 'COMPONENT');
-                console.log(`Encontradas ${variantsInfo.length} variantes como hijos del COMPONENT_SET`);
-              }
-            } 
-            else if (componentInfo.parent && typeof componentInfo.parent === 'object') {
-              console.log("El nodo tiene un padre, verificando si es parte de un conjunto de componentes");
-              
-              // Comprobar si el padre es un conjunto de componentes
-              if (componentInfo.parent.type === 'COMPONENT_SET' && componentInfo.parent.id) {
-                console.log(`El nodo es parte de un COMPONENT_SET con ID: ${componentInfo.parent.id}`);
-                
-                // Obtener el conjunto de componentes (el padre)
-                const parentSetInfo = await sendCommandToFigma("get_node_info", { nodeId: componentInfo.parent.id });
-                
-                // Si el padre tiene hijos, filtrar para excluir el componente actual
-                if (parentSetInfo && parentSetInfo.children && Array.isArray(parentSetInfo.children)) {
-                  variantsInfo = parentSetInfo.children.filter(child => 
-                    child.id !== componentId && child.type === 'COMPONENT'
-                  );
-                  console.log(`Encontradas ${variantsInfo.length} variantes como hermanos en el COMPONENT_SET`);
-                }
-              }
-            }
+            const { variants } = await findComponentSetVariants(transport, componentInfo);
+            // Las variantes son los hijos del conjunto o, si el nodo es una variante, sus hermanos
+            variantsInfo = variants.filter(variant => variant.id !== componentId);
             
             // Si no se han encontrado variantes y el componente tiene un nombre que parece ser parte de un sistema
             if (variantsInfo.length === 0 && componentInfo.name.includes('/')) {
-              console.log("No se encontraron variantes en la jerarquía. El componente usa nomenclatura de variante, analizando usando solo el componente principal");
+              logger.info("No se encontraron variantes en la jerarquía. El componente usa nomenclatura de variante, analizando usando solo el componente principal");
             }
             
           } catch (error) {
-            console.error("Error al buscar variantes:", error);
+            logger.error(`Error al buscar variantes: ${error instanceof Error ? error.message : String(error)}`);
             // Si hay un error, continuamos con un análisis básico
             variantsInfo = [];
           }
         }
         
-        console.log(`Análisis final con ${variantsInfo.length} variantes`);
+        logger.info(`Análisis final con ${variantsInfo.length} variantes`);
         
         // Analizar estados del componente
         const statesAnalysis = analyzeComponentStates(componentInfo, variantsInfo);
@@ -101,7 +76,7 @@ export function registerComponentStatesTool(server: McpServer): void {
           ]
         };
       } catch (error) {
-        console.error("Error completo en analyze_component_states:", error);
+        logger.error(`Error completo en analyze_component_states: ${error instanceof Error ? error.message : String(error)}`);
         return {
           content: [
             {
@@ -113,6 +88,614 @@ export function registerComponentStatesTool(server: McpServer): void {
       }
     }
   );
+
+  // Variant Matrix Completeness Tool
+  server.tool(
+    "check_variant_matrix",
+    "Comprobar la matriz de variantes de un conjunto de componentes: combinaciones de valores que faltan, variantes duplicadas y nombres de variante inconsistentes",
+    {
+      componentId: z.string().describe("ID del conjunto de componentes o de una de sus variantes")
+    },
+    async ({ componentId }) => {
+      try {
+        const componentInfo: any = await transport.sendCommand("get_node_info", { nodeId: componentId });
+        const { componentSet, variants } = await findComponentSetVariants(transport, componentInfo);
+
+        if (!componentSet) {
+          throw new Error(`Could not find the component set of node ${componentId}; pass the component set ID`);
+        }
+
+        const report = checkVariantMatrix(componentSet, variants);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Matriz de variantes de "${componentSet.name}": ${report.summary.presentCombinations} de ${report.summary.totalCombinations} combinaciones ` +
+                `(${report.summary.completeness}%). Combinaciones que faltan: ${report.missing.length}; duplicadas: ${report.duplicates.length}; ` +
+                `variantes con nombres inconsistentes: ${report.inconsistentNames.length}.`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(report, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al comprobar la matriz de variantes: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+  // Variant Visual Diff Tool
+  server.tool(
+    "diff_component_variants",
+    "Comparar dos variantes de un componente capa por capa (emparejadas por nombre y ruta): rellenos, color de texto, efectos, tamaño, padding, visibilidad, textos e instancias intercambiadas, con las reglas CSS que aplican la variante destino como estado (:hover, :disabled...) sobre la base",
+    {
+      baseVariantId: z.string().describe("ID de la variante base (p. ej. State=Default)"),
+      targetVariantId: z.string().describe("ID de la variante a comparar (p. ej. State=Hover)"),
+      className: z.string().optional().describe("Clase CSS del componente en los selectores generados (por defecto, derivada del nombre del conjunto)")
+    },
+    async ({ baseVariantId, targetVariantId, className }) => {
+      try {
+        const base: any = await transport.sendCommand("get_node_info", { nodeId: baseVariantId });
+        const target: any = await transport.sendCommand("get_node_info", { nodeId: targetVariantId });
+
+        // Nombres de los componentes para describir las instancias intercambiadas
+        const componentNames = await getLocalComponentNames(transport);
+
+        let rootClass = className;
+        if (!rootClass) {
+          const { componentSet } = await findComponentSetVariants(transport, base).catch(() => ({ componentSet: null }));
+          rootClass = cssClassName(componentSet ? componentSet.name : '') || 'component';
+        }
+
+        const diff = diffVariants(base, target, { rootClass, componentNames });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Diferencias de "${target.name}" respecto a "${base.name}": ${diff.changes.length} capas cambian, ` +
+                `${diff.added.length} solo existen en la variante destino y ${diff.removed.length} solo en la base. Selector del estado: ${diff.state.selector}`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(diff, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al comparar las variantes: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Busca el conjunto de componentes de un nodo y todas sus variantes: si el nodo es un
+ * COMPONENT_SET, sus hijos; si es una variante, los hijos de su conjunto (incluida ella)
+ */
+export async function findComponentSetVariants(
+  transport: FigmaTransport,
+  componentInfo: any
+): Promise<{ componentSet: any | null; variants: any[] }> {
+  logger.info("Intentando encontrar variantes usando jerarquía del documento");
+
+  const variantsOf = (componentSet: any): any[] =>
+    Array.isArray(componentSet.children) ? componentSet.children.filter((child: any) => child.type === 'COMPONENT') : [];
+
+  if (componentInfo.type === 'COMPONENT_SET') {
+    const variants = variantsOf(componentInfo);
+    logger.info(`Encontradas ${variants.length} variantes como hijos del COMPONENT_SET`);
+    return { componentSet: componentInfo, variants };
+  }
+
+  if (componentInfo.type !== 'COMPONENT') {
+    return { componentSet: null, variants: [] };
+  }
+
+  // El plugin puede incluir el padre; los nodos de la API REST y de los fixtures no, y el
+  // conjunto se busca en el árbol del documento
+  const parentSetId = componentInfo.parent && typeof componentInfo.parent === 'object' &&
+    componentInfo.parent.type === 'COMPONENT_SET' && componentInfo.parent.id
+    ? componentInfo.parent.id
+    : await findParentComponentSetId(transport, componentInfo.id);
+
+  if (parentSetId) {
+    logger.info(`El nodo es parte de un COMPONENT_SET con ID: ${parentSetId}`);
+
+    const parentSetInfo: any = await transport.sendCommand("get_node_info", { nodeId: parentSetId });
+    if (parentSetInfo) {
+      const variants = variantsOf(parentSetInfo);
+      logger.info(`Encontradas ${variants.length} variantes en el COMPONENT_SET`);
+      return { componentSet: parentSetInfo, variants };
+    }
+  }
+
+  return { componentSet: null, variants: [] };
+}
+
+/**
+ * Profundidad (contada desde la página) del recorrido que busca el conjunto de una variante:
+ * alcanza conjuntos colocados en la página, en una sección o en un frame dentro de una sección
+ */
+const COMPONENT_SET_SEARCH_DEPTH = 4;
+
+/**
+ * Busca en las páginas del documento el COMPONENT_SET que contiene una variante, recorriendo
+ * las páginas por lotes y solo hasta `COMPONENT_SET_SEARCH_DEPTH` niveles
+ */
+async function findParentComponentSetId(transport: FigmaTransport, nodeId: string): Promise<string | null> {
+  const documentInfo: any = await fetchDocumentPages(transport, { depth: COMPONENT_SET_SEARCH_DEPTH });
+
+  const search = (node: any): string | null => {
+    if (!node || !Array.isArray(node.children)) return null;
+    if (node.type === 'COMPONENT_SET') {
+      return node.children.some((child: any) => child.id === nodeId) ? node.id : null;
+    }
+    for (const child of node.children) {
+      const found = search(child);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  return search(documentInfo);
+}
+
+/**
+ * Normaliza un nombre de propiedad o valor de variante para compararlo sin mayúsculas ni espacios extra
+ */
+function normalizeVariantPart(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Elige la grafía canónica de un grupo de grafías equivalentes: la de las definiciones de
+ * propiedades de Figma si existe y, si no, la más usada (a igualdad, la primera)
+ */
+function canonicalSpelling(spellings: Map<string, number>, defined: string[] = []): string {
+  const fromDefinitions = defined.find(value => spellings.has(value));
+  if (fromDefinitions) return fromDefinitions;
+  return Array.from(spellings.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Calcula el producto cartesiano de los valores de las propiedades de variante de un conjunto
+ * y compara con las variantes existentes: combinaciones que faltan, duplicadas y nombres que no
+ * siguen el formato `Propiedad=Valor` o escriben una propiedad o valor de forma distinta
+ */
+export function checkVariantMatrix(componentSet: any, variants: any[]): any {
+  const definitions: Record<string, any> = componentSet.componentPropertyDefinitions || {};
+  const definedVariantProperties = Object.entries<any>(definitions)
+    .filter(([, definition]) => definition.type === 'VARIANT');
+
+  // Grafías encontradas de cada propiedad y de cada valor (agrupadas por su forma normalizada)
+  const propertySpellings = new Map<string, Map<string, number>>();
+  const valueSpellings = new Map<string, Map<string, Map<string, number>>>();
+  const propertyOrder: string[] = [];
+  const count = (map: Map<string, number>, spelling: string) => map.set(spelling, (map.get(spelling) || 0) + 1);
+
+  definedVariantProperties.forEach(([property, definition]) => {
+    const key = normalizeVariantPart(property);
+    if (!propertySpellings.has(key)) {
+      propertySpellings.set(key, new Map());
+      valueSpellings.set(key, new Map());
+      propertyOrder.push(key);
+    }
+    (definition.variantOptions || []).forEach((option: string) => {
+      const values = valueSpellings.get(key)!;
+      if (!values.has(normalizeVariantPart(option))) values.set(normalizeVariantPart(option), new Map());
+    });
+  });
+
+  const parsed = variants.map(variant => ({ variant, pairs: parseVariantName(variant.name) }));
+  parsed.forEach(({ pairs }) => {
+    (pairs || []).forEach(({ property, value }) => {
+      const key = normalizeVariantPart(property);
+      if (!propertySpellings.has(key)) {
+        propertySpellings.set(key, new Map());
+        valueSpellings.set(key, new Map());
+        propertyOrder.push(key);
+      }
+      count(propertySpellings.get(key)!, property);
+      const values = valueSpellings.get(key)!;
+      if (!values.has(normalizeVariantPart(value))) values.set(normalizeVariantPart(value), new Map());
+      count(values.get(normalizeVariantPart(value))!, value);
+    });
+  });
+
+  const definedNames = definedVariantProperties.map(([property]) => property);
+  const canonicalProperty = new Map<string, string>();
+  const canonicalValues = new Map<string, Map<string, string>>();
+  propertyOrder.forEach(key => {
+    const spellings = propertySpellings.get(key)!;
+    const definedName = definedNames.find(name => normalizeVariantPart(name) === key);
+    canonicalProperty.set(key, definedName || canonicalSpelling(spellings));
+
+    const definedOptions: string[] = (definitions[definedName || ''] || {}).variantOptions || [];
+    const values = new Map<string, string>();
+    valueSpellings.get(key)!.forEach((valueSpelling, valueKey) => {
+      const definedOption = definedOptions.find(option => normalizeVariantPart(option) === valueKey);
+      values.set(valueKey, definedOption || canonicalSpelling(valueSpelling));
+    });
+    canonicalValues.set(key, values);
+  });
+
+  // Nombre canónico de una combinación, con las propiedades en el orden del conjunto
+  const combinationName = (combination: Map<string, string>) => propertyOrder
+    .map(key => `${canonicalProperty.get(key)}=${canonicalValues.get(key)!.get(combination.get(key)!)}`)
+    .join(', ');
+
+  const inconsistentNames: any[] = [];
+  const combinations = new Map<string, any[]>();
+  parsed.forEach(({ variant, pairs }) => {
+    const issues: string[] = [];
+    if (!pairs) {
+      inconsistentNames.push({
+        variantId: variant.id,
+        variantName: variant.name,
+        issues: ['El nombre no sigue el formato "Propiedad=Valor, Propiedad=Valor"']
+      });
+      return;
+    }
+
+    const combination = new Map<string, string>();
+    pairs.forEach(({ property, value }) => {
+      const key = normalizeVariantPart(property);
+      if (combination.has(key)) {
+        issues.push(`La propiedad "${property}" aparece más de una vez`);
+        return;
+      }
+      combination.set(key, normalizeVariantPart(value));
+      if (property !== canonicalProperty.get(key)) {
+        issues.push(`La propiedad "${property}" se escribe "${canonicalProperty.get(key)}" en el resto del conjunto`);
+      }
+      const canonicalValue = canonicalValues.get(key)!.get(normalizeVariantPart(value))!;
+      if (value !== canonicalValue) {
+        issues.push(`El valor "${value}" de ${canonicalProperty.get(key)} se escribe "${canonicalValue}" en el resto del conjunto`);
+      }
+    });
+    const missingProperties = propertyOrder.filter(key => !combination.has(key));
+    if (missingProperties.length > 0) {
+      issues.push(`Falta${missingProperties.length > 1 ? 'n' : ''} la${missingProperties.length > 1 ? 's' : ''} propiedad${missingProperties.length > 1 ? 'es' : ''} ${missingProperties.map(key => canonicalProperty.get(key)).join(', ')}`);
+    }
+
+    if (issues.length > 0) {
+      inconsistentNames.push({
+        variantId: variant.id,
+        variantName: variant.name,
+        issues,
+        ...(missingProperties.length === 0 && { suggestedName: combinationName(combination) })
+      });
+    }
+
+    // Las variantes sin todas las propiedades no ocupan ninguna celda de la matriz
+    if (missingProperties.length === 0) {
+      const name = combinationName(combination);
+      if (!combinations.has(name)) combinations.set(name, []);
+      combinations.get(name)!.push({ id: variant.id, name: variant.name });
+    }
+  });
+
+  const duplicates = Array.from(combinations.entries())
+    .filter(([, matches]) => matches.length > 1)
+    .map(([combination, matches]) => ({ combination, variants: matches }));
+
+  // Producto cartesiano de los valores de todas las propiedades
+  let product: Map<string, string>[] = [new Map()];
+  propertyOrder.forEach(key => {
+    const values = Array.from(canonicalValues.get(key)!.keys());
+    product = product.flatMap(partial => values.map(value => new Map(partial).set(key, value)));
+  });
+  const missing = propertyOrder.length > 0
+    ? product.map(combinationName).filter(name => !combinations.has(name))
+    : [];
+  const totalCombinations = propertyOrder.length > 0 ? product.length : 0;
+
+  return {
+    componentSet: { id: componentSet.id, name: componentSet.name },
+    properties: propertyOrder.map(key => ({
+      name: canonicalProperty.get(key),
+      values: Array.from(canonicalValues.get(key)!.values())
+    })),
+    summary: {
+      variants: variants.length,
+      totalCombinations,
+      presentCombinations: combinations.size,
+      completeness: totalCombinations > 0 ? Math.round(combinations.size / totalCombinations * 1000) / 10 : 100
+    },
+    missing,
+    duplicates,
+    inconsistentNames
+  };
+}
+
+/**
+ * Pseudoclase o atributo CSS que representa cada valor de estado de una variante
+ */
+const STATE_SELECTORS: Record<string, string> = {
+  hover: ':hover',
+  hovered: ':hover',
+  pressed: ':active',
+  active: ':active',
+  focus: ':focus-visible',
+  focused: ':focus-visible',
+  'focus-visible': ':focus-visible',
+  disabled: ':disabled',
+  checked: ':checked',
+  selected: '[aria-selected="true"]',
+  expanded: '[aria-expanded="true"]',
+  open: '[aria-expanded="true"]',
+  error: '[aria-invalid="true"]',
+  invalid: '[aria-invalid="true"]'
+};
+
+/**
+ * Valores que activan una variante booleana (`Disabled=True`)
+ */
+const TRUE_VARIANT_VALUES = new Set(['true', 'yes', 'on']);
+
+/**
+ * Nombres de la propiedad de variante que representa el estado de interacción
+ */
+const STATE_PROPERTY = /^(states?|estados?|status|interactions?|interacción)$/i;
+
+/**
+ * Valor por defecto con el que se anula una propiedad que la variante destino ya no tiene
+ */
+const CSS_RESET_VALUES: Record<string, string> = {
+  'background-color': 'transparent',
+  'background-image': 'none',
+  'box-shadow': 'none',
+  'text-shadow': 'none',
+  filter: 'none',
+  'backdrop-filter': 'none',
+  border: 'none',
+  outline: 'none',
+  'border-radius': '0',
+  opacity: '1',
+  transform: 'none',
+  padding: '0',
+  gap: '0'
+};
+
+/**
+ * Categoría de cada propiedad CSS en el diff de variantes
+ */
+function diffCategory(property: string, node: any): string {
+  if (property === 'color') return node.type === 'TEXT' ? 'textColor' : 'fill';
+  if (property.startsWith('background')) return 'fill';
+  if (/^(box-shadow|text-shadow|filter|backdrop-filter)$/.test(property)) return 'effect';
+  if (/^(border|outline)/.test(property)) return property === 'border-radius' ? 'radius' : 'stroke';
+  if (/^(width|height|min-|max-|flex|align-self|justify-self)/.test(property)) return 'size';
+  if (/^(padding|gap|row-gap|column-gap)$/.test(property)) return 'spacing';
+  if (/^(font|line-height|letter-spacing|text-|-webkit-)/.test(property)) return 'typography';
+  if (/^(opacity|mix-blend-mode)$/.test(property)) return 'opacity';
+  return 'layout';
+}
+
+/**
+ * Capa de una variante con su ruta de nombres y su clase CSS
+ */
+interface VariantLayer {
+  node: any;
+  parent: any;
+  path: string;
+  className: string;
+}
+
+/**
+ * Indexa las capas de una variante por su ruta de nombres (`Content / Label`). Los hermanos con el
+ * mismo nombre se distinguen por su posición (`Icon[2]`). Se incluyen las capas ocultas
+ */
+function indexVariantLayers(root: any, usedClasses: Set<string>, classByPath: Map<string, string>): Map<string, VariantLayer> {
+  const layers = new Map<string, VariantLayer>();
+  const walk = (node: any, parent: any, path: string) => {
+    // La clase de una ruta es la misma en las dos variantes
+    let className = classByPath.get(path);
+    if (!className) {
+      const base = cssClassName(node.name) || 'layer';
+      className = base;
+      let index = 2;
+      while (usedClasses.has(className)) {
+        className = `${base}-${index++}`;
+      }
+      usedClasses.add(className);
+      classByPath.set(path, className);
+    }
+    layers.set(path, { node, parent, path, className });
+
+    const seen = new Map<string, number>();
+    (node.children || []).forEach((child: any) => {
+      const occurrence = (seen.get(child.name) || 0) + 1;
+      seen.set(child.name, occurrence);
+      const childName = occurrence > 1 ? `${child.name}[${occurrence}]` : child.name;
+      walk(child, node, path ? `${path} / ${childName}` : childName);
+    });
+  };
+  walk(root, null, '');
+  return layers;
+}
+
+/**
+ * Selector CSS del estado que representa la variante destino frente a la base: las propiedades de
+ * variante que cambian y son estados conocidos se traducen a pseudoclases o atributos ARIA y el
+ * resto, a clases modificadoras BEM (`.button--size-large`)
+ */
+function variantStateSelector(baseName: string, targetName: string, rootClass: string): { changed: Record<string, string>; selector: string } {
+  const basePairs = new Map((parseVariantName(baseName) || []).map(({ property, value }) => [property.toLowerCase(), value]));
+  const changed: Record<string, string> = {};
+  let modifiers = '';
+  let states = '';
+
+  (parseVariantName(targetName) || []).forEach(({ property, value }) => {
+    if (basePairs.get(property.toLowerCase()) === value) return;
+    changed[property] = value;
+
+    const propertyKey = cssClassName(property);
+    const valueKey = cssClassName(value);
+    if (STATE_SELECTORS[valueKey]) {
+      states += STATE_SELECTORS[valueKey];
+    } else if (STATE_SELECTORS[propertyKey] && TRUE_VARIANT_VALUES.has(valueKey)) {
+      states += STATE_SELECTORS[propertyKey];
+    } else {
+      modifiers += `.${rootClass}--${propertyKey}-${valueKey}`;
+    }
+  });
+
+  return { changed, selector: `.${rootClass}${modifiers}${states}` };
+}
+
+/**
+ * Compara dos variantes capa por capa y genera las reglas CSS que aplican la variante destino
+ * sobre la base. Las capas se emparejan por su ruta de nombres
+ */
+export function diffVariants(
+  base: any,
+  target: any,
+  options: { rootClass?: string; componentNames?: Map<string, string> } = {}
+): any {
+  const rootClass = options.rootClass || 'component';
+  const componentNames = options.componentNames || new Map<string, string>();
+  const usedClasses = new Set<string>([rootClass]);
+  const classByPath = new Map<string, string>([['', rootClass]]);
+  const baseLayers = indexVariantLayers(base, usedClasses, classByPath);
+  const targetLayers = indexVariantLayers(target, usedClasses, classByPath);
+  const state = variantStateSelector(base.name, target.name, rootClass);
+
+  const selectorOf = (layer: VariantLayer) => layer.path ? `${state.selector} .${layer.className}` : state.selector;
+  const isVisible = (layer: VariantLayer) => layer.node.visible !== false;
+  const instanceName = (node: any) => componentNames.get(node.componentId) || node.componentId || null;
+
+  const changes: any[] = [];
+  const rules: string[] = [];
+
+  baseLayers.forEach((baseLayer, path) => {
+    const targetLayer = targetLayers.get(path);
+    if (!targetLayer) return;
+
+    const properties: any[] = [];
+    const overrides: CssDeclarations = {};
+    const baseCss = nodeCss(baseLayer.node, baseLayer.parent);
+    const targetCss = nodeCss(targetLayer.node, targetLayer.parent);
+
+    if (isVisible(baseLayer) !== isVisible(targetLayer)) {
+      properties.push({ property: 'visible', category: 'visibility', from: isVisible(baseLayer), to: isVisible(targetLayer) });
+      overrides.display = isVisible(targetLayer) ? targetCss.display || 'block' : 'none';
+    }
+
+    // Las capas ocultas en la variante destino solo necesitan `display: none`
+    if (isVisible(targetLayer)) {
+      Array.from(new Set([...Object.keys(baseCss), ...Object.keys(targetCss)])).forEach(property => {
+        if (baseCss[property] === targetCss[property]) return;
+        properties.push({
+          property,
+          category: diffCategory(property, targetLayer.node),
+          from: baseCss[property] !== undefined ? baseCss[property] : null,
+          to: targetCss[property] !== undefined ? targetCss[property] : null
+        });
+        if (property === 'display' && overrides.display) return;
+        overrides[property] = targetCss[property] !== undefined ? targetCss[property] : CSS_RESET_VALUES[property] || 'initial';
+      });
+    }
+
+    if (baseLayer.node.type === 'TEXT' && targetLayer.node.type === 'TEXT' &&
+        baseLayer.node.characters !== targetLayer.node.characters) {
+      properties.push({ property: 'characters', category: 'content', from: baseLayer.node.characters, to: targetLayer.node.characters });
+    }
+
+    if (baseLayer.node.type === 'INSTANCE' && targetLayer.node.type === 'INSTANCE' &&
+        baseLayer.node.componentId !== targetLayer.node.componentId) {
+      properties.push({ property: 'mainComponent', category: 'instance', from: instanceName(baseLayer.node), to: instanceName(targetLayer.node) });
+    }
+
+    if (properties.length === 0) return;
+
+    changes.push({
+      path: path || '(raíz)',
+      nodeName: targetLayer.node.name,
+      baseNodeId: baseLayer.node.id,
+      targetNodeId: targetLayer.node.id,
+      properties
+    });
+    if (Object.keys(overrides).length > 0) {
+      rules.push(formatCssRule(selectorOf(targetLayer), overrides));
+    }
+  });
+
+  const removed = Array.from(baseLayers.keys()).filter(path => !targetLayers.has(path));
+  const added = Array.from(targetLayers.keys()).filter(path => !baseLayers.has(path));
+
+  // Las capas que solo existen en una variante se ocultan o se muestran con el estado
+  removed.forEach(path => {
+    const layer = baseLayers.get(path)!;
+    if (isVisible(layer)) {
+      rules.push(formatCssRule(selectorOf(layer), { display: 'none' }));
+    }
+  });
+  added.forEach(path => {
+    const layer = targetLayers.get(path)!;
+    if (isVisible(layer)) {
+      const css = nodeCss(layer.node, layer.parent);
+      rules.push(formatCssRule(selectorOf(layer), { display: css.display || 'block', ...css }));
+    }
+  });
+
+  return {
+    base: { id: base.id, name: base.name },
+    target: { id: target.id, name: target.name },
+    state: { changedProperties: state.changed, selector: state.selector },
+    changes,
+    added,
+    removed,
+    css: rules.join('\n'),
+    notes: [
+      ...(added.length > 0 ? [`Las capas que solo existen en la variante destino (${added.join(', ')}) deben añadirse al marcado con display: none en el estado base`] : []),
+      ...(changes.some(change => change.properties.some((property: any) => property.category === 'content' || property.category === 'instance'))
+        ? ['Los cambios de texto e instancias no se pueden expresar en CSS: cámbialos desde el componente según el estado']
+        : [])
+    ]
+  };
+}
+
+/**
+ * Estados de interacción de un conjunto de variantes: los valores de su propiedad de estado
+ * (`State=Hover` → Hover) y las propiedades booleanas de estado (`Disabled=True` → Disabled).
+ * El resto de propiedades (tamaño, tipo...) no son estados y se ignoran
+ */
+export function variantInteractionStates(variants: any[]): Array<{ name: string; variantId: string }> {
+  const states = new Map<string, { name: string; variantId: string }>();
+
+  variants.forEach(variant => {
+    (parseVariantName(variant.name || '') || []).forEach(({ property, value }) => {
+      let name: string | null = null;
+      if (STATE_PROPERTY.test(property)) {
+        name = value;
+      } else if (STATE_SELECTORS[property.toLowerCase()] && TRUE_VARIANT_VALUES.has(value.toLowerCase())) {
+        name = property;
+      }
+      if (name && !states.has(name.toLowerCase())) {
+        states.set(name.toLowerCase(), { name, variantId: variant.id });
+      }
+    });
+  });
+
+  return Array.from(states.values());
 }
 
 /**
@@ -138,19 +721,32 @@ export function analyzeComponentStates(componentInfo: any, variantsInfo: any[] =
         id: variant.id,
         name: variant.name,
         properties: variantState,
-        stateName: extractStateName(variant.name, componentInfo.name)
+        stateName: variantStateName(variant, componentInfo.name)
       });
     }
   }
   
   // Intentar detectar propiedades de estado dinámicas
-  const stateProperties = detectStateProperties(componentInfo, variants);
+  const stateProperties = detectStateProperties(componentInfo, variantsInfo);
   
-  // Identificar posibles estados y transiciones
-  const possibleStates = identifyPossibleStates(componentInfo, variants);
+  // Los estados salen de la propiedad de estado de las variantes y de las interacciones del
+  // prototipo (Change to); solo sin ninguna de las dos se deducen del nombre de cada variante
+  const componentVariants = [componentInfo, ...variantsInfo].filter(node => node && node.type === 'COMPONENT');
+  const interactions = componentStateInteractions(componentVariants);
+  const possibleStates = identifyPossibleStates(
+    componentInfo,
+    variants,
+    variantInteractionStates(componentVariants),
+    interactions.length > 0
+  );
+  applyInteractionStates(possibleStates, interactions);
   
   // Generar sugerencias para implementación
   const suggestedImplementation = suggestStateImplementation(possibleStates, mainState, variants.length);
+  const transitions = Array.from(new Set(interactions.map(interaction => interaction.css).filter(Boolean)));
+  if (transitions.length > 0) {
+    suggestedImplementation.css.transitions = transitions;
+  }
   
   return {
     component: componentBase,
@@ -158,6 +754,7 @@ export function analyzeComponentStates(componentInfo: any, variantsInfo: any[] =
     variants: variants,
     stateProperties,
     possibleStates,
+    interactions,
     implementation: suggestedImplementation
   };
 }
@@ -179,7 +776,7 @@ function extractStateProperties(component: any): any {
       constraints: component.constraints || {}
     },
     interactive: {
-      isClickable: component.isClickable || false,
+      isClickable: isInteractiveComponent(component),
       actions: component.actions || []
     },
     text: null as any
@@ -201,6 +798,23 @@ function extractStateProperties(component: any): any {
   return stateProperties;
 }
 
+/**
+ * Indica si un componente responde a la interacción: marcado como clicable o con reacciones de prototipo
+ */
+function isInteractiveComponent(component: any): boolean {
+  return Boolean(component.isClickable) || readNodeInteractions(component).length > 0;
+}
+
+/**
+ * Nombre del estado de una variante: el valor de su propiedad de estado (`State=Hover` → Hover) o,
+ * si se nombra con propiedades pero ninguna es de estado (`Size=Large`), el estado por defecto
+ */
+function variantStateName(variant: any, baseName: string): string {
+  const [state] = variantInteractionStates([variant]);
+  if (state) return state.name;
+  return parseVariantName(variant.name || '') ? 'Default' : extractStateName(variant.name, baseName);
+}
+
 /**
  * Extrae el nombre del estado de una variante basado en la convención de nomenclatura
  */
@@ -238,7 +852,8 @@ function extractStateName(variantName: string, baseName: string): string {
 }
 
 /**
- * Detecta propiedades que cambian entre estados
+ * Detecta propiedades que cambian entre estados comparando cada variante capa por capa
+ * con la de referencia (el propio componente o, en un conjunto, su primera variante)
  */
 function detectStateProperties(mainComponent: any, variants: any[]): any {
   const stateProperties = {
@@ -255,49 +870,34 @@ function detectStateProperties(mainComponent: any, variants: any[]): any {
     return stateProperties;
   }
   
-  // Extraer propiedades principales para comparación
-  const mainFill = getMainFill(mainComponent);
-  const mainSize = { width: mainComponent.width, height: mainComponent.height };
-  const mainText = mainComponent.type === 'TEXT' ? mainComponent.characters : null;
+  const reference = mainComponent.type === 'COMPONENT_SET' ? variants[0] : mainComponent;
+  const categories: Record<string, keyof typeof stateProperties> = {
+    fill: 'color',
+    textColor: 'color',
+    stroke: 'color',
+    effect: 'color',
+    size: 'size',
+    content: 'text',
+    typography: 'text',
+    visibility: 'visibility',
+    opacity: 'visibility',
+    spacing: 'layout',
+    layout: 'layout'
+  };
   
-  // Comparar con cada variante
   for (const variant of variants) {
-    const variantData = variant.properties || {};
-    
-    // Comparar colores (fills)
-    const variantFill = getMainFill(variant);
-    if (variantFill && mainFill && !areColorsSimilar(variantFill, mainFill)) {
-      stateProperties.color = true;
-    }
+    if (variant === reference) continue;
     
-    // Comparar tamaños
-    if (variant.width !== mainComponent.width || variant.height !== mainComponent.height) {
-      stateProperties.size = true;
-    }
-    
-    // Comparar texto
-    if (mainComponent.type === 'TEXT' && variant.type === 'TEXT' && 
-        variant.characters !== mainComponent.characters) {
-      stateProperties.text = true;
-    }
-    
-    // Comparar visibilidad
-    if ((variant.opacity !== undefined && mainComponent.opacity !== undefined) &&
-        (variant.opacity < 0.1 || mainComponent.opacity < 0.1)) {
+    const diff = diffVariants(reference, variant);
+    diff.changes.forEach((change: any) => change.properties.forEach((property: any) => {
+      if (categories[property.category]) stateProperties[categories[property.category]] = true;
+    }));
+    if (diff.added.length > 0 || diff.removed.length > 0) {
       stateProperties.visibility = true;
     }
     
-    // Comparar layout
-    if (variant.layoutMode !== mainComponent.layoutMode ||
-        variant.paddingLeft !== mainComponent.paddingLeft ||
-        variant.paddingRight !== mainComponent.paddingRight ||
-        variant.paddingTop !== mainComponent.paddingTop ||
-        variant.paddingBottom !== mainComponent.paddingBottom) {
-      stateProperties.layout = true;
-    }
-    
     // Comparar interactividad
-    if (variant.isClickable !== mainComponent.isClickable) {
+    if (isInteractiveComponent(variant) !== isInteractiveComponent(reference)) {
       stateProperties.interactive = true;
     }
   }
@@ -306,36 +906,17 @@ function detectStateProperties(mainComponent: any, variants: any[]): any {
 }
 
 /**
- * Obtiene el relleno principal de un componente
- */
-function getMainFill(component: any): any {
-  const fills = component.fills || [];
-  return fills.length > 0 ? fills[0] : null;
-}
-
-/**
- * Compara si dos colores son similares
- */
-function areColorsSimilar(color1: any, color2: any): boolean {
-  if (!color1 || !color2 || !color1.color || !color2.color) {
-    return false;
-  }
-  
-  const c1 = color1.color;
-  const c2 = color2.color;
-  
-  // Comparar componentes RGB con un margen de tolerancia
-  const tolerance = 0.1;
-  return Math.abs(c1.r - c2.r) < tolerance &&
-         Math.abs(c1.g - c2.g) < tolerance &&
-         Math.abs(c1.b - c2.b) < tolerance;
-}
-
-/**
- * Identifica posibles estados basándose en el análisis de variantes
+ * Identifica posibles estados basándose en el análisis de variantes. Con estados de variante
+ * (propiedad de estado o booleanas como `Disabled=True`) o interacciones del prototipo, solo cuentan
+ * esos: el resto de propiedades (tamaño, tipo...) no son estados
  */
-function identifyPossibleStates(component: any, variants: any[]): any[] {
-  const possibleStates = [
+function identifyPossibleStates(
+  component: any,
+  variants: any[],
+  variantStates: Array<{ name: string; variantId: string }> = [],
+  hasInteractions = false
+): any[] {
+  const possibleStates: any[] = [
     { name: 'Default', description: 'Estado normal o predeterminado del componente' }
   ];
   
@@ -355,6 +936,31 @@ function identifyPossibleStates(component: any, variants: any[]): any[] {
     'collapsed': 'Estado cuando el componente está colapsado'
   };
   
+  const describeState = (stateName: string): string => {
+    const normalizedStateName = stateName.toLowerCase();
+    for (const [commonState, commonDescription] of Object.entries(commonStates)) {
+      if (normalizedStateName.includes(commonState)) return commonDescription;
+    }
+    return `Estado "${stateName}" del componente`;
+  };
+  
+  if (variantStates.length > 0 || hasInteractions) {
+    variantStates.forEach(state => {
+      if (state.name.toLowerCase() === 'default') {
+        possibleStates[0].variantId = state.variantId;
+        return;
+      }
+      const pseudoClass = STATE_SELECTORS[state.name.toLowerCase()];
+      possibleStates.push({
+        name: state.name,
+        description: describeState(state.name),
+        variantId: state.variantId,
+        ...(pseudoClass && { pseudoClass })
+      });
+    });
+    return possibleStates;
+  }
+  
   // No hay variantes para analizar
   if (!Array.isArray(variants) || variants.length === 0) {
     // Inferir estados posibles basados en el tipo de componente
@@ -392,23 +998,9 @@ function identifyPossibleStates(component: any, variants: any[]): any[] {
       // Registrar el estado
       stateNames.add(normalizedStateName);
       
-      // Buscar coincidencia en estados comunes
-      let description = '';
-      for (const [commonState, commonDescription] of Object.entries(commonStates)) {
-        if (normalizedStateName.includes(commonState)) {
-          description = commonDescription;
-          break;
-        }
-      }
-      
-      // Si no hay descripción, generar una genérica
-      if (!description) {
-        description = `Estado "${variant.stateName}" del componente`;
-      }
-      
       possibleStates.push({
         name: variant.stateName,
-        description: description,
+        description: describeState(variant.stateName),
         variantId: variant.id
       });
     }
@@ -417,6 +1009,38 @@ function identifyPossibleStates(component: any, variants: any[]): any[] {
   return possibleStates;
 }
 
+/**
+ * Completa los estados posibles con los que definen las interacciones del prototipo: el estado de
+ * la variante destino guarda el disparador (Hover, Pressed...), su pseudoclase y su transición.
+ * Si la variante ya tiene nombre de estado (`State=Highlighted`) lo conserva; la variante por
+ * defecto a la que vuelve un hover no se convierte en ese estado
+ */
+function applyInteractionStates(possibleStates: any[], interactions: ComponentStateInteraction[]): void {
+  interactions.forEach(interaction => {
+    const fromPrototype = (name: string) => ({
+      name,
+      description: `Estado "${name}" definido en el prototipo (${interaction.trigger.type} → ${interaction.toVariantName})`,
+      variantId: interaction.toVariantId,
+      source: 'prototype',
+      trigger: interaction.trigger.type,
+      ...(interaction.pseudoClass && { pseudoClass: interaction.pseudoClass }),
+      ...(interaction.transition && { transition: interaction.transition })
+    });
+    const sameName = possibleStates.find(state => state.name.toLowerCase() === interaction.state.toLowerCase());
+    const existing = possibleStates.find(state => state.variantId === interaction.toVariantId);
+
+    if (existing) {
+      if (existing !== possibleStates[0] && existing.source !== 'prototype' && !(existing.pseudoClass && existing !== sameName)) {
+        Object.assign(existing, fromPrototype(existing.name));
+      }
+    } else if (sameName) {
+      if (!sameName.variantId) Object.assign(sameName, fromPrototype(sameName.name));
+    } else {
+      possibleStates.push(fromPrototype(interaction.state));
+    }
+  });
+}
+
 /**
  * Sugiere una implementación para manejar los estados del componente
  */
@@ -441,7 +1065,7 @@ function suggestStateImplementation(states: any[], mainState: any, variantCount:
       classBinding: `:class="{ 'hover': state === 'hover', ... }"`
     },
     css: {
-      stateSelectors: states.map(s => `.component.${s.name.toLowerCase()} { /* Estilos para estado ${s.name} */ }`)
+      stateSelectors: states.map(s => `.component${s.pseudoClass || `.${cssClassName(s.name) || 'default'}`} { /* Estilos para estado ${s.name} */ }`)
     },
     storybook: {
       suggestion: `Crear historias para cada estado: ${states.map(s => s.name).join(', ')}`
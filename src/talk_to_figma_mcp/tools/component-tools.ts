@@ -3,20 +3,25 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FigmaTransport } from "../core/transport";
 import { registerComponentHierarchyTool } from "./component-hierarchy-tool";
 import { registerUIPatternsDetectionTool } from "./ui-patterns-tool";
 import { registerComponentStatesTool } from "./component-states-tool";
+import { registerComponentApiTool } from "./component-api-tool";
 
 /**
  * Registra las herramientas de análisis de componentes en el servidor MCP
  */
-export function registerComponentTools(server: McpServer): void {
+export function registerComponentTools(server: McpServer, transport: FigmaTransport): void {
   // Registrar herramienta de análisis de jerarquía de componentes
-  registerComponentHierarchyTool(server);
+  registerComponentHierarchyTool(server, transport);
   
   // Registrar herramienta de detección de patrones de UI
-  registerUIPatternsDetectionTool(server);
+  registerUIPatternsDetectionTool(server, transport);
   
   // Registrar herramienta de análisis de estados de componentes
-  registerComponentStatesTool(server);
+  registerComponentStatesTool(server, transport);
+  
+  // Registrar herramienta de inferencia de la API de componentes
+  registerComponentApiTool(server, transport);
 }
\ No newline at end of file
@@ -0,0 +1,476 @@
+/**
+ * Herramientas para leer las interacciones y los flujos de prototipo de Figma
+ */
+
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { FigmaTransport } from "../core/transport";
+import { parseVariantName } from "../utils/figma-utils";
+
+/**
+ * Disparador de una interacción de prototipo
+ */
+export interface PrototypeTrigger {
+  type: string;
+  delayMs?: number;
+  keyCodes?: number[];
+}
+
+/**
+ * Transición animada de una interacción
+ */
+export interface PrototypeTransition {
+  type: string;
+  durationMs: number;
+  easing: string;
+  // Equivalente en CSS; null para las curvas de muelle, que CSS no puede expresar con una función cúbica
+  cssTimingFunction: string | null;
+  spring?: { mass: number; stiffness: number; damping: number };
+  direction?: string;
+}
+
+/**
+ * Interacción de prototipo de una capa: disparador, acción y transición
+ */
+export interface PrototypeInteraction {
+  sourceId: string;
+  sourceName: string;
+  screenId: string | null;
+  screenName: string | null;
+  trigger: PrototypeTrigger;
+  action: string;
+  navigation?: string;
+  destinationId?: string;
+  destinationName?: string | null;
+  url?: string;
+  transition?: PrototypeTransition;
+}
+
+/**
+ * Estado de un componente definido por una interacción entre sus variantes (`Change to`)
+ */
+export interface ComponentStateInteraction {
+  state: string;
+  pseudoClass: string | null;
+  trigger: PrototypeTrigger;
+  fromVariantId: string;
+  fromVariantName: string;
+  toVariantId: string;
+  toVariantName: string;
+  transition?: PrototypeTransition;
+  css?: string;
+}
+
+/**
+ * Curvas de Figma con su equivalente `transition-timing-function`
+ */
+const CSS_EASINGS: Record<string, string> = {
+  LINEAR: 'linear',
+  EASE_IN: 'ease-in',
+  EASE_OUT: 'ease-out',
+  EASE_IN_AND_OUT: 'ease-in-out',
+  EASE_IN_BACK: 'cubic-bezier(0.3, -0.05, 0.7, -0.5)',
+  EASE_OUT_BACK: 'cubic-bezier(0.45, 1.45, 0.8, 1)',
+  EASE_IN_AND_OUT_BACK: 'cubic-bezier(0.7, -0.4, 0.4, 1.4)'
+};
+
+/**
+ * Parámetros de las curvas de muelle predefinidas de Figma
+ */
+const SPRING_PRESETS: Record<string, { mass: number; stiffness: number; damping: number }> = {
+  GENTLE: { mass: 1, stiffness: 100, damping: 15 },
+  QUICK: { mass: 1, stiffness: 300, damping: 20 },
+  BOUNCY: { mass: 1, stiffness: 600, damping: 15 },
+  SLOW: { mass: 1, stiffness: 80, damping: 20 }
+};
+
+/**
+ * Estado de componente al que corresponde cada disparador "mientras" (hover y pulsación)
+ */
+const TRIGGER_STATES: Record<string, { state: string; pseudoClass: string }> = {
+  ON_HOVER: { state: 'Hover', pseudoClass: ':hover' },
+  MOUSE_ENTER: { state: 'Hover', pseudoClass: ':hover' },
+  ON_PRESS: { state: 'Pressed', pseudoClass: ':active' },
+  MOUSE_DOWN: { state: 'Pressed', pseudoClass: ':active' }
+};
+
+/**
+ * Tipos de nodo que se consideran pantallas cuando cuelgan directamente de una página o sección
+ */
+const SCREEN_NODE_TYPES = new Set(['FRAME', 'COMPONENT', 'INSTANCE']);
+
+/**
+ * Navegaciones que llevan a otra pantalla u overlay y, por tanto, forman parte de un flujo
+ */
+const FLOW_NAVIGATIONS = ['NAVIGATE', 'SCROLL_TO', 'OVERLAY', 'SWAP'];
+
+/**
+ * Normaliza el disparador de una reacción (los retardos y tiempos de espera de Figma están en segundos)
+ */
+function readTrigger(trigger: any): PrototypeTrigger {
+  const result: PrototypeTrigger = { type: trigger && trigger.type ? trigger.type : 'ON_CLICK' };
+  if (trigger && typeof trigger.timeout === 'number') result.delayMs = Math.round(trigger.timeout * 1000);
+  if (trigger && typeof trigger.delay === 'number' && trigger.delay > 0) result.delayMs = Math.round(trigger.delay * 1000);
+  if (trigger && Array.isArray(trigger.keyCodes)) result.keyCodes = trigger.keyCodes;
+  return result;
+}
+
+/**
+ * Normaliza la transición de una acción (duración en segundos en `reactions`)
+ */
+function readTransition(transition: any): PrototypeTransition | undefined {
+  if (!transition || !transition.type) return undefined;
+
+  const easing = transition.easing || { type: 'LINEAR' };
+  const result: PrototypeTransition = {
+    type: transition.type,
+    durationMs: Math.round((transition.duration || 0) * 1000),
+    easing: easing.type,
+    cssTimingFunction: CSS_EASINGS[easing.type] || null
+  };
+
+  if (easing.type === 'CUSTOM_CUBIC_BEZIER' && easing.easingFunctionCubicBezier) {
+    const { x1, y1, x2, y2 } = easing.easingFunctionCubicBezier;
+    result.cssTimingFunction = `cubic-bezier(${x1}, ${y1}, ${x2}, ${y2})`;
+  } else if (easing.type === 'CUSTOM_SPRING' && easing.easingFunctionSpring) {
+    const { mass, stiffness, damping } = easing.easingFunctionSpring;
+    result.spring = { mass, stiffness, damping };
+  } else if (SPRING_PRESETS[easing.type]) {
+    result.spring = SPRING_PRESETS[easing.type];
+  }
+  if (transition.direction) result.direction = transition.direction;
+
+  return result;
+}
+
+/**
+ * Lee las interacciones de un nodo. Admite `reactions` con `actions` o con la antigua `action`
+ * y las propiedades heredadas `transitionNodeID`/`transitionDuration`/`transitionEasing`
+ */
+export function readNodeInteractions(node: any): Array<Omit<PrototypeInteraction, 'screenId' | 'screenName' | 'destinationName'>> {
+  const interactions: Array<Omit<PrototypeInteraction, 'screenId' | 'screenName' | 'destinationName'>> = [];
+
+  (Array.isArray(node.reactions) ? node.reactions : []).forEach((reaction: any) => {
+    const actions = Array.isArray(reaction.actions) ? reaction.actions : reaction.action ? [reaction.action] : [];
+    actions.filter(Boolean).forEach((action: any) => {
+      const interaction: Omit<PrototypeInteraction, 'screenId' | 'screenName' | 'destinationName'> = {
+        sourceId: node.id,
+        sourceName: node.name,
+        trigger: readTrigger(reaction.trigger),
+        action: action.type
+      };
+      if (action.type === 'NODE') {
+        interaction.navigation = action.navigation || 'NAVIGATE';
+        if (action.destinationId) interaction.destinationId = action.destinationId;
+        const transition = readTransition(action.transition);
+        if (transition) interaction.transition = transition;
+      } else if (action.type === 'URL') {
+        interaction.url = action.url;
+      }
+      interactions.push(interaction);
+    });
+  });
+
+  if (interactions.length === 0 && node.transitionNodeID) {
+    interactions.push({
+      sourceId: node.id,
+      sourceName: node.name,
+      trigger: { type: 'ON_CLICK' },
+      action: 'NODE',
+      navigation: 'NAVIGATE',
+      destinationId: node.transitionNodeID,
+      ...(node.transitionDuration !== undefined && {
+        transition: {
+          type: 'DISSOLVE',
+          durationMs: node.transitionDuration,
+          easing: node.transitionEasing || 'LINEAR',
+          cssTimingFunction: CSS_EASINGS[node.transitionEasing || 'LINEAR'] || null
+        }
+      })
+    });
+  }
+
+  return interactions;
+}
+
+/**
+ * Declaración `transition` de CSS equivalente a una transición de prototipo
+ */
+function transitionCss(transition: PrototypeTransition | undefined): string | undefined {
+  if (!transition || transition.durationMs === 0) return undefined;
+  return `transition: all ${transition.durationMs}ms ${transition.cssTimingFunction || 'ease-out'};`;
+}
+
+/**
+ * Extrae los estados de un componente que definen sus variantes mediante interacciones
+ * `Change to`: el disparador indica el estado (hover, pulsación...) y la transición su animación
+ */
+export function componentStateInteractions(variants: any[]): ComponentStateInteraction[] {
+  const variantsById = new Map(variants.map(variant => [variant.id, variant]));
+  const states: ComponentStateInteraction[] = [];
+
+  const visit = (node: any, variant: any) => {
+    readNodeInteractions(node)
+      .filter(interaction => interaction.navigation === 'CHANGE_TO' && interaction.destinationId && variantsById.has(interaction.destinationId))
+      .forEach(interaction => {
+        const destination = variantsById.get(interaction.destinationId!);
+        const triggerState = TRIGGER_STATES[interaction.trigger.type];
+
+        // Sin un disparador de estado, el nombre es el valor de la propiedad de variante que cambia
+        let state = triggerState ? triggerState.state : '';
+        if (!state) {
+          const fromPairs = new Map((parseVariantName(variant.name) || []).map(({ property, value }) => [property, value]));
+          const changed = (parseVariantName(destination.name) || []).filter(({ property, value }) => fromPairs.get(property) !== value);
+          state = changed.map(({ value }) => value).join(' ') || destination.name;
+        }
+
+        const css = transitionCss(interaction.transition);
+        states.push({
+          state,
+          pseudoClass: triggerState ? triggerState.pseudoClass : null,
+          trigger: interaction.trigger,
+          fromVariantId: variant.id,
+          fromVariantName: variant.name,
+          toVariantId: destination.id,
+          toVariantName: destination.name,
+          ...(interaction.transition && { transition: interaction.transition }),
+          ...(css && { css })
+        });
+      });
+    (node.children || []).forEach((child: any) => visit(child, variant));
+  };
+
+  variants.forEach(variant => visit(variant, variant));
+  return states;
+}
+
+/**
+ * Datos de overlay de un frame (posición, fondo y cierre al pulsar fuera)
+ */
+function overlaySettings(node: any): any {
+  return {
+    position: node.overlayPositionType || 'CENTER',
+    ...(node.overlayBackground && node.overlayBackground.type !== 'NONE' && { background: node.overlayBackground }),
+    closeOnClickOutside: node.overlayBackgroundInteraction === 'CLOSE_ON_CLICK_OUTSIDE'
+  };
+}
+
+/**
+ * Extrae el grafo de pantallas de un prototipo: navegación entre frames según su disparador,
+ * overlays y modales con la pantalla que los abre, y la animación de cada interacción
+ */
+export function extractPrototypeFlows(root: any): any {
+  const nodesById = new Map<string, any>();
+  const screens: any[] = [];
+  const componentSets: any[] = [];
+  const interactions: PrototypeInteraction[] = [];
+
+  const walk = (node: any, screen: any, screenLevel: boolean) => {
+    nodesById.set(node.id, node);
+    let currentScreen = screen;
+    if (screenLevel && SCREEN_NODE_TYPES.has(node.type)) {
+      currentScreen = node;
+      screens.push(node);
+    }
+    if (node.type === 'COMPONENT_SET') {
+      componentSets.push(node);
+    }
+
+    readNodeInteractions(node).forEach(interaction => interactions.push({
+      ...interaction,
+      screenId: currentScreen ? currentScreen.id : null,
+      screenName: currentScreen ? currentScreen.name : null
+    }));
+
+    // Las pantallas son los hijos directos de la página y de sus secciones
+    const childrenAreScreens = node.type === 'CANVAS' || (node.type === 'SECTION' && (screenLevel || node === root));
+    (node.children || []).forEach((child: any) => walk(child, currentScreen, childrenAreScreens));
+  };
+  walk(root, null, root.type !== 'CANVAS' && root.type !== 'SECTION');
+
+  interactions.forEach(interaction => {
+    if (interaction.destinationId) {
+      const destination = nodesById.get(interaction.destinationId);
+      interaction.destinationName = destination ? destination.name : null;
+    }
+  });
+
+  const navigations = interactions.filter(interaction => interaction.action === 'NODE' && interaction.destinationId);
+
+  // Aristas del grafo: una por pareja de pantallas con todos sus disparadores
+  const edges = new Map<string, any>();
+  navigations
+    .filter(interaction => interaction.navigation === 'NAVIGATE' || interaction.navigation === 'SCROLL_TO')
+    .forEach(interaction => {
+      const key = `${interaction.screenId}->${interaction.destinationId}`;
+      if (!edges.has(key)) {
+        edges.set(key, {
+          from: interaction.screenId,
+          fromName: interaction.screenName,
+          to: interaction.destinationId,
+          toName: interaction.destinationName,
+          navigation: interaction.navigation,
+          triggers: []
+        });
+      }
+      edges.get(key).triggers.push({
+        sourceId: interaction.sourceId,
+        sourceName: interaction.sourceName,
+        trigger: interaction.trigger,
+        ...(interaction.transition && { transition: interaction.transition })
+      });
+    });
+
+  // Overlays: destinos de acciones "Open overlay"/"Swap overlay" y frames configurados como overlay
+  const overlays = new Map<string, any>();
+  const addOverlay = (id: string) => {
+    if (!overlays.has(id)) {
+      const node = nodesById.get(id);
+      overlays.set(id, {
+        overlayId: id,
+        overlayName: node ? node.name : null,
+        ...(node && overlaySettings(node)),
+        openedFrom: []
+      });
+    }
+    return overlays.get(id);
+  };
+  navigations
+    .filter(interaction => interaction.navigation === 'OVERLAY' || interaction.navigation === 'SWAP')
+    .forEach(interaction => {
+      addOverlay(interaction.destinationId!).openedFrom.push({
+        screenId: interaction.screenId,
+        screenName: interaction.screenName,
+        sourceId: interaction.sourceId,
+        sourceName: interaction.sourceName,
+        navigation: interaction.navigation,
+        trigger: interaction.trigger,
+        ...(interaction.transition && { transition: interaction.transition })
+      });
+    });
+  screens.filter(screen => screen.overlayPositionType).forEach(screen => addOverlay(screen.id));
+  overlays.forEach(overlay => {
+    // Un overlay centrado con fondo que bloquea la pantalla se comporta como un modal
+    overlay.modal = overlay.position === 'CENTER' && Boolean(overlay.background);
+  });
+
+  // Flujos: pantallas alcanzables desde cada punto de inicio del prototipo
+  const startingPoints: any[] = Array.isArray(root.flowStartingPoints) && root.flowStartingPoints.length > 0
+    ? root.flowStartingPoints
+    : root.prototypeStartNodeID ? [{ nodeId: root.prototypeStartNodeID, name: 'Inicio' }] : [];
+  // Solo cuentan las navegaciones entre pantallas y overlays: un CHANGE_TO cambia la variante
+  // de una instancia (hover, pulsado...) y se queda como interacción, no como pantalla del flujo
+  const adjacency = new Map<string, string[]>();
+  navigations.forEach(interaction => {
+    if (!interaction.screenId || !FLOW_NAVIGATIONS.includes(interaction.navigation || '')) return;
+    if (!adjacency.has(interaction.screenId)) adjacency.set(interaction.screenId, []);
+    adjacency.get(interaction.screenId)!.push(interaction.destinationId!);
+  });
+  const reached = new Set<string>();
+  const flows = startingPoints.map(start => {
+    const order: string[] = [];
+    const queue = [start.nodeId];
+    const seen = new Set<string>(queue);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      reached.add(id);
+      (adjacency.get(id) || []).forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      });
+    }
+    return {
+      name: start.name,
+      startNodeId: start.nodeId,
+      screens: order.map(id => ({ id, name: nodesById.has(id) ? nodesById.get(id).name : null }))
+    };
+  });
+
+  const componentStates = componentSets
+    .map(componentSet => ({
+      componentSetId: componentSet.id,
+      componentSetName: componentSet.name,
+      states: componentStateInteractions((componentSet.children || []).filter((child: any) => child.type === 'COMPONENT'))
+    }))
+    .filter(entry => entry.states.length > 0);
+
+  return {
+    scope: { id: root.id, name: root.name, type: root.type },
+    startingPoints: startingPoints.map(start => ({ nodeId: start.nodeId, name: start.name })),
+    screens: screens.map(screen => ({
+      id: screen.id,
+      name: screen.name,
+      type: screen.type,
+      isOverlay: overlays.has(screen.id)
+    })),
+    graph: { edges: Array.from(edges.values()) },
+    overlays: Array.from(overlays.values()),
+    flows,
+    ...(startingPoints.length > 0 && {
+      unreachableScreens: screens
+        .filter(screen => !reached.has(screen.id) && !overlays.has(screen.id))
+        .map(screen => ({ id: screen.id, name: screen.name }))
+    }),
+    componentStates,
+    interactions,
+    summary: {
+      screens: screens.length,
+      interactions: interactions.length,
+      navigations: edges.size,
+      overlays: overlays.size,
+      animated: interactions.filter(interaction => interaction.transition && interaction.transition.durationMs > 0).length
+    }
+  };
+}
+
+/**
+ * Registra las herramientas de prototipos en el servidor MCP
+ */
+export function registerPrototypeTools(server: McpServer, transport: FigmaTransport): void {
+  // Prototype Flows Tool
+  server.tool(
+    "get_prototype_flows",
+    "Extraer las interacciones del prototipo: grafo de pantallas (frame → frame según el disparador), overlays y modales con las pantallas que los abren, puntos de inicio de cada flujo, estados de componentes definidos con 'Change to' y la duración y curva de cada animación con su equivalente CSS",
+    {
+      nodeId: z.string().optional().describe("ID de la página, sección o frame a analizar (por defecto, la página actual)")
+    },
+    async ({ nodeId }) => {
+      try {
+        let scopeId = nodeId;
+        if (!scopeId) {
+          const documentInfo: any = await transport.sendCommand("get_document_info");
+          scopeId = documentInfo.currentPage ? documentInfo.currentPage.id : documentInfo.id;
+        }
+
+        const root: any = await transport.sendCommand("get_node_info", { nodeId: scopeId });
+        const flows = extractPrototypeFlows(root);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Prototipo de "${root.name}": ${flows.summary.screens} pantallas, ${flows.summary.interactions} interacciones ` +
+                `(${flows.summary.navigations} navegaciones entre pantallas, ${flows.summary.overlays} overlays, ${flows.summary.animated} animadas).`
+            },
+            {
+              type: "text" as const,
+              text: JSON.stringify(flows, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error al extraer los flujos del prototipo: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        };
+      }
+    }
+  );
+}
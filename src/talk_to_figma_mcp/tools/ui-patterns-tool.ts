@@ -4,12 +4,82 @@
 
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { sendCommandToFigma } from "../core/figma-connection";
+import { FigmaTransport } from "../core/transport";
+import { parseVariantName, escapeHtml } from "../utils/figma-utils";
+import { cssClassName, cssColor, firstSolidPaint } from "../utils/css-utils";
+import { relativeLuminance } from "../utils/color-utils";
+import { readNodeInteractions } from "./prototype-tools";
+
+/**
+ * Semántica recomendada para un patrón: elemento HTML, rol y atributos ARIA de su raíz y un
+ * esqueleto de marcado con las piezas que lo forman
+ */
+interface PatternSemantics {
+  element: string;
+  role?: string;
+  attributes: Record<string, string>;
+  markup: string;
+  notes: string[];
+}
+
+/**
+ * Confianza acumulada de un patrón y las señales que la justifican
+ */
+interface PatternEvidence {
+  score: number;
+  signals: string[];
+}
+
+/**
+ * Confianza mínima (0-1) para informar de un patrón estructural
+ */
+const MIN_PATTERN_CONFIDENCE = 0.5;
+
+/**
+ * Tipos de nodo que pueden agrupar las piezas de un patrón
+ */
+const PATTERN_CONTAINER_TYPES = new Set(['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE']);
+
+/**
+ * Tipos de nodo cuyos frames hijos son pantallas (frames de primer nivel de una página o sección)
+ */
+const SCREEN_PARENT_TYPES = new Set(['CANVAS', 'SECTION']);
+
+/**
+ * Tipos de nodo con los que se dibujan los iconos
+ */
+const ICON_NODE_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON']);
+
+const BUTTON_NAME = /button|botón|boton|btn|\bcta\b/i;
+const NOT_BUTTON_NAME = /badge|tag|chip|pill|insignia|input|field|campo|textarea/i;
+const ICON_NAME = /icon|icono|chevron|arrow|flecha|caret|close|cerrar|plus|minus|toggle|expand|collapse/i;
+const DISCLOSURE_ICON_NAME = /chevron|arrow|flecha|caret|expand|collapse|plus|minus|toggle/i;
+const DISCLOSURE_GLYPHS = /^[+−\-▾▸▴▼▶▲›⌄⌃˅˄]$/;
+const CARD_NAME = /card|tarjeta|tile/i;
+const MEDIA_NAME = /image|imagen|img|photo|foto|picture|thumbnail|miniatura|cover|portada|avatar/i;
+const TABLE_NAME = /table|tabla|data ?grid/i;
+const TABLE_HEADER_NAME = /header|head|cabecera|encabezado/i;
+const TABLE_CONTROL_NAME = /checkbox|switch|toggle|menu|action|acción|accion/i;
+const MODAL_NAME = /modal|dialog|diálogo|dialogo|popup|pop-up|lightbox/i;
+const SCRIM_NAME = /overlay|scrim|backdrop|velo/i;
+const ALERT_NAME = /alert|alerta|confirm|warning|aviso|delete|eliminar|borrar/i;
+const CLOSE_NAME = /close|cerrar|dismiss/i;
+const CLOSE_GLYPHS = /^[×✕✖xX]$/;
+const TAB_NAME = /(^|[^a-z])tabs?([^a-z]|$)|tabbar|pestaña|segmented/i;
+const NAVIGATION_NAME = /nav|menu|header|breadcrumb/i;
+const SELECTION_PROPERTY = /state|estado|selected|active|current/i;
+const SELECTED_NAME = /selected|seleccionad|active|activ[oa]|current|actual/i;
+const UNSELECTED_NAME = /unselected|inactive|inactiv[oa]|no seleccionad/i;
+const ACCORDION_NAME = /accordion|acordeón|acordeon|collaps|disclosure|expandable|desplegable|faq/i;
+const EXPANSION_PROPERTY = /state|estado|expanded|open|abierto/i;
+const EXPANDED_NAME = /expanded|open|abierto|desplegado/i;
+const COLLAPSED_NAME = /collapsed|closed|cerrado|plegado/i;
+const FORM_CONTROL_NAME = /select|dropdown|input|field|campo|combo/i;
 
 /**
  * Registra la herramienta de detección de patrones de UI
  */
-export function registerUIPatternsDetectionTool(server: McpServer): void {
+export function registerUIPatternsDetectionTool(server: McpServer, transport: FigmaTransport): void {
   // Detector UI Patterns Tool
   server.tool(
     "detect_ui_patterns",
@@ -31,7 +101,7 @@ export function registerUIPatternsDetectionTool(server: McpServer): void {
         console.log(`Analizando patrones de UI para el nodo ${nodeId}, buscando: ${patternTypes.join(", ")}`);
 
         // Obtener información del nodo
-        const nodeInfo = await sendCommandToFigma("get_node_info", { nodeId });
+        const nodeInfo = await transport.sendCommand("get_node_info", { nodeId });
         
         // Para evitar timeouts en documentos grandes, implementar un procesamiento progresivo
         console.log(`Detectando patrones de forma progresiva para evitar timeouts...`);
@@ -532,7 +602,7 @@ function isNavigationLike(node: any): boolean {
 /**
  * Función auxiliar para verificar si un nodo parece un ítem de navegación
  */
-function isNavigationItem(node: any): boolean {
+export function isNavigationItem(node: any): boolean {
   // Si es texto, probablemente es un ítem de navegación
   if (node.type === 'TEXT') {
     return true;
@@ -584,7 +654,7 @@ function findNavigationItemsRecursively(node: any, items: any[], currentDepth: n
 /**
  * Verifica si un nodo parece un botón
  */
-function isButton(node: any): boolean {
+export function isButton(node: any): boolean {
   // Si el nombre contiene "botón" o "button", probablemente es un botón
   if (node.name.toLowerCase().includes('button') || 
       node.name.toLowerCase().includes('botón') || 
@@ -699,49 +769,1060 @@ function isListLike(node: any): boolean {
 }
 
 /**
- * Detecta patrones de tarjetas en un nodo de Figma
+ * Suma una señal a la evidencia de un patrón
+ */
+function addEvidence(evidence: PatternEvidence, weight: number, signal: string): void {
+  evidence.score += weight;
+  evidence.signals.push(signal);
+}
+
+/**
+ * Confianza de un patrón limitada a 0-1 y redondeada a dos decimales
+ */
+function confidenceOf(evidence: PatternEvidence): number {
+  return Math.round(Math.max(0, Math.min(1, evidence.score)) * 100) / 100;
+}
+
+/**
+ * Recorre el árbol hasta `maxDepth` llamando a `visit` con cada nodo visible, su padre y su ruta.
+ * Si `visit` devuelve true el nodo ya forma un patrón y no se buscan otros dentro de él
+ */
+function walkPatternCandidates(
+  root: any,
+  maxDepth: number,
+  visit: (node: any, parent: any, path: string) => boolean
+): void {
+  const walk = (node: any, parent: any, currentDepth: number, path: string): void => {
+    if (currentDepth > maxDepth || node.visible === false) return;
+
+    const nodePath = path ? `${path} > ${node.name}` : node.name;
+    if (visit(node, parent, nodePath)) return;
+
+    if (node.children && currentDepth < maxDepth) {
+      for (const child of node.children) {
+        walk(child, node, currentDepth + 1, nodePath);
+      }
+    }
+  };
+
+  walk(root, null, 0, '');
+}
+
+/**
+ * Hijos visibles de un nodo
+ */
+function visibleChildren(node: any): any[] {
+  return (node.children || []).filter((child: any) => child.visible !== false);
+}
+
+/**
+ * Descendientes visibles que cumplen `predicate`, sin entrar en los que ya lo cumplen.
+ * `maxDepth` limita los niveles que se bajan (1 = solo los hijos)
+ */
+function findNodes(root: any, predicate: (node: any) => boolean, maxDepth: number = Infinity): any[] {
+  const found: any[] = [];
+  const walk = (node: any, depth: number): void => {
+    for (const child of visibleChildren(node)) {
+      if (predicate(child)) {
+        found.push(child);
+      } else if (depth < maxDepth) {
+        walk(child, depth + 1);
+      }
+    }
+  };
+  walk(root, 1);
+  return found;
+}
+
+/**
+ * Caja del nodo en coordenadas absolutas (`absoluteBoundingBox` o, en los nodos del plugin, x/y/width/height)
+ */
+function patternBox(node: any): { x: number; y: number; width: number; height: number } | null {
+  if (node.absoluteBoundingBox) return node.absoluteBoundingBox;
+  if ([node.x, node.y, node.width, node.height].every(value => typeof value === 'number')) {
+    return { x: node.x, y: node.y, width: node.width, height: node.height };
+  }
+  return null;
+}
+
+/**
+ * Nodos de texto visibles de un nodo y sus descendientes, en el orden del árbol
+ */
+function nodeTexts(node: any): any[] {
+  if (node.visible === false) return [];
+  if (node.type === 'TEXT') return [node];
+  return visibleChildren(node).flatMap(nodeTexts);
+}
+
+/**
+ * Contenido de un nodo de texto sin espacios sobrantes (su nombre si no trae `characters`)
+ */
+function textContent(node: any): string {
+  return String(node.characters ?? node.name ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Texto más destacado de un nodo: el de mayor tamaño de fuente y, a igualdad, el más grueso
+ */
+function headingText(node: any): any {
+  return nodeTexts(node)
+    .filter(text => !DISCLOSURE_GLYPHS.test(textContent(text)))
+    .reduce((best: any, text: any) => {
+      if (!best) return text;
+      const size = text.style?.fontSize || 0;
+      const bestSize = best.style?.fontSize || 0;
+      if (size !== bestSize) return size > bestSize ? text : best;
+      return (text.style?.fontWeight || 400) > (best.style?.fontWeight || 400) ? text : best;
+    }, null);
+}
+
+/**
+ * Nombre legible de un nodo: el último segmento de `Icon/Close` o el valor de `Type=Close`
+ */
+function readableName(name: string): string {
+  const segment = String(name || '').split('/').pop()!.split(',')[0];
+  return segment.replace(/^[^=]*=/, '').replace(/[-_]+/g, ' ').trim();
+}
+
+/**
+ * Indica si un nodo tiene una sombra paralela visible
+ */
+function hasShadow(node: any): boolean {
+  return Array.isArray(node.effects) &&
+    node.effects.some((effect: any) => effect.visible !== false && effect.type === 'DROP_SHADOW');
+}
+
+/**
+ * Indica si un nodo dibuja una superficie: relleno, borde o sombra visibles
+ */
+function hasSurface(node: any): boolean {
+  const visiblePaint = (paints: any) => Array.isArray(paints) &&
+    paints.some((paint: any) => paint.visible !== false && paint.opacity !== 0);
+  return visiblePaint(node.fills) || visiblePaint(node.strokes) || hasShadow(node);
+}
+
+/**
+ * Indica si un nodo tiene alguna esquina redondeada
+ */
+function hasRoundedCorners(node: any): boolean {
+  return (node.cornerRadius || 0) > 0 ||
+    (Array.isArray(node.rectangleCornerRadii) && node.rectangleCornerRadii.some((radius: number) => radius > 0));
+}
+
+/**
+ * Firma estructural de un nodo (su tipo y los tipos de sus hijos) para reconocer elementos repetidos
+ */
+function structureSignature(node: any): string {
+  return `${node.type}(${visibleChildren(node).map((child: any) => child.type).join(',')})`;
+}
+
+/**
+ * Color CSS de la primera pintura sólida de una lista, o `none`
+ */
+function paintKey(paints: any): string {
+  const paint = firstSolidPaint(paints);
+  return paint ? cssColor(paint.color, paint.opacity ?? 1) : 'none';
+}
+
+/**
+ * Clave del aspecto de un nodo: relleno, borde y color y peso de su primer texto. Dos hermanos
+ * con distinta clave se ven distintos (uno seleccionado y otro no, por ejemplo)
+ */
+function visualStateKey(node: any): string {
+  const text = nodeTexts(node)[0];
+  return [
+    paintKey(node.fills),
+    paintKey(node.strokes),
+    text ? paintKey(text.fills) : 'none',
+    text?.style?.fontWeight || ''
+  ].join('|');
+}
+
+/**
+ * Estado binario que indica el nombre de un nodo o su propiedad de variante (`State=Selected`,
+ * `Open=true`...): true, false o undefined si el nombre no dice nada
+ */
+function namedState(node: any, property: RegExp, on: RegExp, off: RegExp): boolean | undefined {
+  const name = node.name || '';
+  const entry = parseVariantName(name)?.find(pair => property.test(pair.property));
+  if (entry) {
+    if (/^(true|yes|on|sí|si)$/i.test(entry.value)) return true;
+    if (/^(false|no|off)$/i.test(entry.value)) return false;
+    return on.test(entry.value) && !off.test(entry.value);
+  }
+  if (off.test(name)) return false;
+  if (on.test(name)) return true;
+  return undefined;
+}
+
+/**
+ * Indica si un nodo es un icono: un vector, un nodo con nombre de icono o una instancia pequeña sin texto
+ */
+function isIconNode(node: any): boolean {
+  if (ICON_NODE_TYPES.has(node.type)) return true;
+  if (node.type === 'TEXT') return false;
+  if (ICON_NAME.test(node.name || '') && nodeTexts(node).length === 0) return true;
+  const box = patternBox(node);
+  return Boolean(box && box.width <= 32 && box.height <= 32 && nodeTexts(node).length === 0);
+}
+
+/**
+ * Etiqueta abierta de HTML con sus atributos (los vacíos se escriben como atributos booleanos)
+ */
+function htmlTag(element: string, attributes: Record<string, string>): string {
+  const rendered = Object.entries(attributes)
+    .map(([name, value]) => value === '' ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`)
+    .join('');
+  return `<${element}${rendered}>`;
+}
+
+/**
+ * Evidencia de que un nodo es un botón: nombre, etiqueta corta o solo icono, superficie, forma,
+ * tamaño e interacciones del prototipo. Devuelve null si el nodo no puede ser un botón
+ */
+function buttonEvidence(node: any): (PatternEvidence & { label: string; iconOnly: boolean }) | null {
+  if (!PATTERN_CONTAINER_TYPES.has(node.type)) return null;
+
+  const namedButton = BUTTON_NAME.test(node.name || '');
+  const texts = nodeTexts(node);
+  const label = texts.map(textContent).join(' ').trim();
+  const children = visibleChildren(node);
+  const iconOnly = texts.length === 0 && children.length > 0 && children.every(isIconNode);
+  if (!namedButton && (texts.length > 2 || (!label && !iconOnly))) return null;
+
+  const evidence = { score: 0, signals: [] as string[], label, iconOnly };
+  const box = patternBox(node);
+
+  if (namedButton) addEvidence(evidence, 0.45, 'nombre de botón');
+  if (label && label.length <= 40 && label.split(' ').length <= 5) addEvidence(evidence, 0.2, 'etiqueta corta');
+  if (iconOnly) addEvidence(evidence, 0.15, 'solo contiene un icono');
+  if (hasSurface(node)) addEvidence(evidence, 0.15, 'fondo o borde propios');
+  if (hasRoundedCorners(node)) addEvidence(evidence, 0.1, 'esquinas redondeadas');
+  if (box && box.height >= 20 && box.height <= 72) addEvidence(evidence, 0.1, 'altura de control');
+  if (box && box.height > 96) addEvidence(evidence, -0.3, 'demasiado alto para un botón');
+  if (readNodeInteractions(node).length > 0) addEvidence(evidence, 0.2, 'interacciones en el prototipo');
+  if (NOT_BUTTON_NAME.test(node.name || '')) addEvidence(evidence, -0.4, 'nombre de etiqueta o campo');
+
+  return evidence;
+}
+
+/**
+ * Indica si un nodo es un botón con la confianza mínima
+ */
+function isButtonLike(node: any): boolean {
+  const evidence = buttonEvidence(node);
+  return evidence !== null && confidenceOf(evidence) >= MIN_PATTERN_CONFIDENCE;
+}
+
+/**
+ * Etiqueta de un botón: su texto o, si solo tiene un icono, el nombre legible del icono (o del
+ * propio nodo si se llama simplemente `Button`)
+ */
+function buttonLabel(node: any): string {
+  const text = nodeTexts(node).map(textContent).join(' ').trim();
+  if (text) return text;
+  const icon = visibleChildren(node)[0];
+  return icon && BUTTON_NAME.test(node.name || '') ? readableName(icon.name) : readableName(node.name);
+}
+
+/**
+ * Detecta patrones de tarjetas en un nodo de Figma: superficies con título, texto de apoyo,
+ * imagen o acciones, que a menudo se repiten entre hermanos
  */
 function detectCardPatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
+  const cardPatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, parent, path) => {
+    if (!PATTERN_CONTAINER_TYPES.has(current.type)) return false;
+
+    const children = visibleChildren(current);
+    const texts = nodeTexts(current);
+    if (children.length < 2 || texts.length === 0 || isButtonLike(current)) return false;
+
+    // La superficie de un modal (sobre un velo o con nombre de diálogo) no es una tarjeta
+    const overScrim = parent && (isScrim(parent) ||
+      visibleChildren(parent).some(sibling => sibling !== current && isScrimOver(sibling, parent)));
+    if (overScrim || MODAL_NAME.test(current.name || '')) return false;
+
+    // Una rejilla de superficies iguales es la colección, no una tarjeta
+    const surfaceSignatures = children
+      .filter(child => PATTERN_CONTAINER_TYPES.has(child.type) && hasSurface(child))
+      .map(structureSignature);
+    if (surfaceSignatures.some((signature, index) => surfaceSignatures.indexOf(signature) !== index)) return false;
+
+    const evidence: PatternEvidence = { score: 0, signals: [] };
+    const box = patternBox(current);
+    // El título tiene que destacar sobre el resto de textos (una fila con textos iguales no lo tiene)
+    const candidate = headingText(current);
+    const heading = candidate && texts.some(text => text !== candidate &&
+      ((text.style?.fontSize || 0) < (candidate.style?.fontSize || 0) ||
+       (text.style?.fontWeight || 400) < (candidate.style?.fontWeight || 400))) ? candidate : null;
+    const media = findNodes(current, child => child.type !== 'TEXT' &&
+      ((child.fills || []).some((fill: any) => fill.type === 'IMAGE') || MEDIA_NAME.test(child.name || '')));
+    const actions = findNodes(current, isButtonLike);
+    const signature = structureSignature(current);
+    const siblings = parent
+      ? visibleChildren(parent).filter(sibling => sibling !== current && structureSignature(sibling) === signature)
+      : [];
+
+    if (CARD_NAME.test(current.name || '')) addEvidence(evidence, 0.4, 'nombre de tarjeta');
+    if (hasSurface(current)) addEvidence(evidence, 0.2, 'superficie con fondo, borde o sombra');
+    if (hasRoundedCorners(current)) addEvidence(evidence, 0.1, 'esquinas redondeadas');
+    if (heading) addEvidence(evidence, 0.15, 'título y texto de apoyo');
+    if (media.length > 0) addEvidence(evidence, 0.15, 'imagen o medio');
+    if (actions.length > 0) addEvidence(evidence, 0.1, 'acciones propias');
+    if (siblings.length > 0 && hasSurface(current)) {
+      addEvidence(evidence, 0.2, `se repite en ${siblings.length + 1} elementos hermanos`);
+    }
+    if (box && box.width > 960 && box.height > 720) addEvidence(evidence, -0.4, 'tamaño de pantalla completa');
+    if (current.type === 'FRAME' && parent && SCREEN_PARENT_TYPES.has(parent.type)) {
+      addEvidence(evidence, -0.4, 'frame de primer nivel (pantalla)');
+    }
+    if (texts.length > 15) addEvidence(evidence, -0.2, 'demasiado contenido para una tarjeta');
+
+    if (confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const title = heading ? textContent(heading) : null;
+    const titleId = `${cssClassName(current.name)}-title`;
+    const actionLabels = actions.map(buttonLabel);
+    const attributes: Record<string, string> = title ? { 'aria-labelledby': titleId } : {};
+    const markup = [
+      htmlTag('article', attributes),
+      ...(media.length > 0 ? ['  <img src="…" alt="…" />'] : []),
+      ...(title ? [`  <h3 id="${titleId}">${escapeHtml(title)}</h3>`] : []),
+      ...(texts.length > actionLabels.length + (title ? 1 : 0) ? ['  <p>…</p>'] : []),
+      ...actionLabels.map(label => `  <button type="button">${escapeHtml(label)}</button>`),
+      '</article>'
+    ];
+    const notes: string[] = [];
+    if (siblings.length > 0) {
+      notes.push(`Forma parte de una colección de ${siblings.length + 1} tarjetas: agrúpalas en <ul>/<li> para que se anuncie el número de elementos`);
+    }
+    if (!title) {
+      notes.push('Sin un texto destacado que sirva de título: añade un encabezado para poder navegar entre tarjetas');
+    }
+    if (media.length > 0) {
+      notes.push('Deja alt="" si la imagen es decorativa; si aporta información, descríbela');
+    }
+    if (readNodeInteractions(current).length > 0) {
+      notes.push('Toda la tarjeta es clicable: enlaza el título y amplía su área con un pseudo-elemento en lugar de envolver la tarjeta en <a>');
+    }
+
+    cardPatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      title,
+      hasMedia: media.length > 0,
+      actions: actionLabels,
+      repeatedSiblings: siblings.length,
+      semantics: { element: 'article', attributes, markup: markup.join('\n'), notes } as PatternSemantics
+    });
+    return true;
+  });
+
+  return cardPatterns;
+}
+
+/**
+ * Fracción de celdas cuyo inicio coincide (±2 px) con el de la misma posición en la primera línea
+ * de la tabla. `axis` es el eje en el que se suceden las celdas de una línea
+ */
+function cellAlignment(lines: any[][], axis: 'x' | 'y'): number {
+  const reference = lines[0].map(cell => patternBox(cell)?.[axis]);
+  let aligned = 0;
+  let measured = 0;
+
+  lines.slice(1).forEach(cells => cells.forEach((cell, index) => {
+    const start = patternBox(cell)?.[axis];
+    const expected = reference[index];
+    if (start === undefined || expected === undefined) return;
+    measured++;
+    if (Math.abs(start - expected) <= 2) aligned++;
+  }));
+
+  return measured > 0 ? aligned / measured : 0;
 }
 
 /**
- * Detecta patrones de tablas en un nodo de Figma
+ * Peso de fuente medio de los textos de un conjunto de nodos
+ */
+function averageFontWeight(nodes: any[]): number {
+  const weights = nodes.flatMap(nodeTexts).map(text => text.style?.fontWeight || 400);
+  return weights.length > 0 ? weights.reduce((sum, weight) => sum + weight, 0) / weights.length : 400;
+}
+
+/**
+ * Detecta patrones de tablas en un nodo de Figma: una rejilla de filas (o columnas) con el mismo
+ * número de celdas alineadas entre sí, normalmente con una cabecera diferenciada
  */
 function detectTablePatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
+  const tablePatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, _parent, path) => {
+    if (!PATTERN_CONTAINER_TYPES.has(current.type)) return false;
+
+    const children = visibleChildren(current);
+    const lines = children.filter(child => PATTERN_CONTAINER_TYPES.has(child.type) && visibleChildren(child).length >= 2);
+    if (lines.length < 2) return false;
+
+    // Estructura más frecuente entre las líneas: las filas de una tabla repiten los mismos tipos de celda
+    const counts = new Map<string, { lines: number; cellCount: number }>();
+    lines.forEach(line => {
+      const signature = structureSignature(line);
+      const entry = counts.get(signature) || { lines: 0, cellCount: visibleChildren(line).length };
+      entry.lines++;
+      counts.set(signature, entry);
+    });
+    const [signature, { cellCount }] = [...counts.entries()]
+      .sort((a, b) => b[1].lines - a[1].lines || b[1].cellCount - a[1].cellCount)[0];
+    const gridLines = lines.filter(line => structureSignature(line) === signature);
+    const matching = gridLines.length;
+    const named = TABLE_NAME.test(current.name || '');
+    if (matching / lines.length < 0.75 || matching < (named ? 2 : 3)) return false;
+
+    const firstBox = patternBox(gridLines[0]);
+    const secondBox = patternBox(gridLines[1]);
+    const orientation: 'rows' | 'columns' = current.layoutMode === 'HORIZONTAL' ||
+      (current.layoutMode !== 'VERTICAL' && firstBox && secondBox &&
+        Math.abs(secondBox.x - firstBox.x) > Math.abs(secondBox.y - firstBox.y))
+      ? 'columns'
+      : 'rows';
+
+    const cells = gridLines.map(visibleChildren);
+    const allCells = cells.flat();
+    const textRatio = allCells.filter(cell => nodeTexts(cell).length > 0).length / allCells.length;
+    if (textRatio < 0.5) return false;
+
+    const alignment = cellAlignment(cells, orientation === 'rows' ? 'x' : 'y');
+    const headerCells = orientation === 'rows' ? cells[0] : cells.map(line => line[0]);
+    const bodyCells = orientation === 'rows' ? cells.slice(1).flat() : cells.flatMap(line => line.slice(1));
+    const headerByName = orientation === 'rows'
+      ? TABLE_HEADER_NAME.test(gridLines[0].name || '')
+      : headerCells.every(cell => TABLE_HEADER_NAME.test(cell.name || ''));
+    const headerByWeight = averageFontWeight(headerCells) > averageFontWeight(bodyCells);
+    const headerByFill = orientation === 'rows' &&
+      gridLines.slice(1).every(line => paintKey(line.fills) !== paintKey(gridLines[0].fills));
+    const hasHeader = headerByName || headerByWeight || headerByFill;
+    const interactive = allCells.some(cell => isButtonLike(cell) ||
+      findNodes(cell, child => isButtonLike(child) || TABLE_CONTROL_NAME.test(child.name || '')).length > 0);
+
+    const rows = orientation === 'rows' ? gridLines.length : cellCount;
+    const columns = orientation === 'rows' ? cellCount : gridLines.length;
+    const evidence: PatternEvidence = { score: 0, signals: [] };
+
+    addEvidence(evidence, 0.35, `${rows} filas × ${columns} columnas con el mismo número de celdas`);
+    if (alignment >= 0.9) addEvidence(evidence, 0.25, 'celdas alineadas en columnas');
+    else if (alignment >= 0.6) addEvidence(evidence, 0.1, 'celdas parcialmente alineadas');
+    if (hasHeader) {
+      const reasons = [headerByName && 'nombre', headerByWeight && 'peso de fuente', headerByFill && 'fondo'].filter(Boolean);
+      addEvidence(evidence, 0.15, `cabecera diferenciada (${reasons.join(', ')})`);
+    }
+    if (named) addEvidence(evidence, 0.3, 'nombre de tabla');
+    if (textRatio >= 0.8) addEvidence(evidence, 0.1, 'celdas con texto');
+    if (gridLines.length >= 4) addEvidence(evidence, 0.05, 'muchas líneas repetidas');
+    if (gridLines.every(line => hasRoundedCorners(line) && hasShadow(line))) {
+      addEvidence(evidence, -0.3, 'las líneas parecen tarjetas');
+    }
+
+    if (confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const headers = hasHeader ? headerCells.map(cell => nodeTexts(cell).map(textContent).join(' ')) : [];
+    const captionNode = children.find(child => child.type === 'TEXT');
+    const caption = captionNode ? textContent(captionNode) : null;
+    const markup = [
+      '<table>',
+      ...(caption ? [`  <caption>${escapeHtml(caption)}</caption>`] : []),
+      ...(hasHeader ? [
+        '  <thead>',
+        `    <tr>${headers.map(header => `<th scope="col">${escapeHtml(header)}</th>`).join('')}</tr>`,
+        '  </thead>'
+      ] : []),
+      '  <tbody>',
+      `    <tr>${'<td>…</td>'.repeat(columns)}</tr>`,
+      '  </tbody>',
+      '</table>'
+    ];
+    const notes: string[] = [
+      'Si se maqueta con CSS grid sobre <div>, recupera la semántica con role="table", "row", "columnheader" y "cell"'
+    ];
+    if (!hasHeader) {
+      notes.push('Sin cabecera reconocible: añade <th scope="col"> para que los lectores de pantalla anuncien cada columna');
+    }
+    if (orientation === 'columns') {
+      notes.push('El diseño agrupa las celdas por columnas; en HTML la tabla se escribe por filas');
+    }
+    if (interactive) {
+      notes.push('Las celdas tienen controles: si la tabla se recorre con las flechas usa role="grid" y gestiona el foco de las celdas');
+    }
+
+    tablePatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      orientation,
+      rows,
+      columns,
+      hasHeader,
+      headers,
+      caption,
+      interactive,
+      semantics: {
+        element: 'table',
+        role: interactive ? 'grid' : 'table',
+        attributes: interactive ? { role: 'grid' } : {},
+        markup: markup.join('\n'),
+        notes
+      } as PatternSemantics
+    });
+    // Se sigue bajando: una tabla puede contener otra (o el nodo ser solo su contenedor)
+    return false;
+  });
+
+  return tablePatterns;
 }
 
 /**
- * Detecta patrones de modales en un nodo de Figma
+ * Indica si un nodo es un velo (scrim): un relleno oscuro translúcido, un desenfoque de fondo o
+ * un relleno con nombre de overlay
+ */
+function isScrim(node: any): boolean {
+  const paint = firstSolidPaint(node.fills);
+  const alpha = paint ? (paint.color.a ?? 1) * (paint.opacity ?? 1) * (node.opacity ?? 1) : 0;
+  const translucentDark = Boolean(paint) && alpha > 0.05 && alpha < 0.95 && relativeLuminance(paint.color) < 0.4;
+  const blurred = Array.isArray(node.effects) &&
+    node.effects.some((effect: any) => effect.visible !== false && effect.type === 'BACKGROUND_BLUR');
+  return translucentDark || blurred || (Boolean(paint) && SCRIM_NAME.test(node.name || ''));
+}
+
+/**
+ * Indica si un nodo es el velo de un contenedor: el propio contenedor o un velo que cubre al menos
+ * el 90% de su área (un separador translúcido no es un velo)
+ */
+function isScrimOver(scrim: any, container: any): boolean {
+  if (!isScrim(scrim)) return false;
+  if (scrim === container) return true;
+  const scrimBox = patternBox(scrim);
+  const containerBox = patternBox(container);
+  return !containerBox || (!!scrimBox && scrimBox.width * scrimBox.height >= 0.9 * containerBox.width * containerBox.height);
+}
+
+/**
+ * Posición de una superficie sobre el velo que la cubre: centrada (diálogo), anclada abajo a todo
+ * el ancho (hoja inferior) o a un lado a toda la altura (panel lateral). Null si no encaja
+ */
+function surfacePlacement(surface: any, scrimBox: { x: number; y: number; width: number; height: number }): string | null {
+  const box = patternBox(surface);
+  if (!box || box.width * box.height > 0.7 * scrimBox.width * scrimBox.height) return null;
+
+  const offsetX = Math.abs(box.x + box.width / 2 - (scrimBox.x + scrimBox.width / 2)) / scrimBox.width;
+  const offsetY = Math.abs(box.y + box.height / 2 - (scrimBox.y + scrimBox.height / 2)) / scrimBox.height;
+  if (offsetX <= 0.1 && offsetY <= 0.15) return 'center';
+
+  const bottomAligned = Math.abs(box.y + box.height - (scrimBox.y + scrimBox.height)) <= 2;
+  if (bottomAligned && box.width >= 0.9 * scrimBox.width) return 'bottom-sheet';
+
+  const sideAligned = Math.abs(box.x - scrimBox.x) <= 2 ||
+    Math.abs(box.x + box.width - (scrimBox.x + scrimBox.width)) <= 2;
+  if (sideAligned && box.height >= 0.9 * scrimBox.height) return 'drawer';
+
+  return null;
+}
+
+/**
+ * Detecta patrones de modales en un nodo de Figma: un velo que cubre la pantalla con una
+ * superficie centrada (o anclada como hoja o panel) encima, o un frame usado como overlay
  */
 function detectModalPatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
+  const modalPatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, _parent, path) => {
+    if (!PATTERN_CONTAINER_TYPES.has(current.type)) return false;
+
+    const children = visibleChildren(current);
+    let scrim: any = null;
+    let surface: any = null;
+    let placement: string | null = null;
+
+    // El velo puede ser un hermano anterior a la superficie, contenerla o ser el propio nodo
+    const candidates = children.map((child, index) => ({
+      scrim: child,
+      surfaces: [...children.slice(index + 1), ...visibleChildren(child)]
+    }));
+    if (isScrim(current)) candidates.push({ scrim: current, surfaces: children });
+
+    for (const candidate of candidates) {
+      const scrimBox = patternBox(candidate.scrim);
+      if (!scrimBox || !isScrimOver(candidate.scrim, current)) continue;
+
+      const match = candidate.surfaces.find(child =>
+        child.type !== 'TEXT' && hasSurface(child) && nodeTexts(child).length > 0 && surfacePlacement(child, scrimBox) !== null);
+      if (match) {
+        scrim = candidate.scrim;
+        surface = match;
+        placement = surfacePlacement(match, scrimBox);
+        break;
+      }
+    }
+
+    const prototypeOverlay = current.overlayPositionType !== undefined ||
+      (current.overlayBackground !== undefined && current.overlayBackground.type !== 'NONE');
+    if (!surface && (MODAL_NAME.test(current.name || '') || prototypeOverlay) &&
+        hasSurface(current) && nodeTexts(current).length > 0) {
+      surface = current;
+      placement = !current.overlayPositionType || current.overlayPositionType === 'CENTER'
+        ? 'center'
+        : current.overlayPositionType === 'BOTTOM_CENTER' ? 'bottom-sheet' : 'anchored';
+    }
+    if (!surface) return false;
+
+    const heading = headingText(surface);
+    const closeControls = findNodes(surface, child =>
+      (child.type !== 'TEXT' && CLOSE_NAME.test(child.name || '')) ||
+      (child.type === 'TEXT' && CLOSE_GLYPHS.test(textContent(child))));
+    const actions = findNodes(surface, isButtonLike)
+      .filter(action => !closeControls.some(control => control === action || findNodes(action, child => child === control).length > 0));
+    const evidence: PatternEvidence = { score: 0, signals: [] };
+
+    if (scrim) addEvidence(evidence, 0.35, 'velo translúcido que cubre la pantalla');
+    if (scrim && placement === 'center') addEvidence(evidence, 0.25, 'superficie centrada sobre el velo');
+    if (scrim && placement === 'bottom-sheet') addEvidence(evidence, 0.2, 'hoja anclada al borde inferior');
+    if (scrim && placement === 'drawer') addEvidence(evidence, 0.2, 'panel lateral a toda la altura');
+    if (MODAL_NAME.test(current.name || '') || MODAL_NAME.test(surface.name || '')) {
+      addEvidence(evidence, 0.25, 'nombre de modal o diálogo');
+    }
+    if (prototypeOverlay) addEvidence(evidence, 0.25, 'configurado como overlay en el prototipo');
+    if (hasShadow(surface)) addEvidence(evidence, 0.1, 'sombra de elevación');
+    if (heading) addEvidence(evidence, 0.05, 'título');
+    if (actions.length > 0) addEvidence(evidence, 0.1, 'acciones en la superficie');
+    if (closeControls.length > 0) addEvidence(evidence, 0.05, 'botón de cierre');
+
+    if (confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const title = heading ? textContent(heading) : null;
+    const modal = Boolean(scrim) || current.overlayBackground?.type === 'SOLID_COLOR';
+    const alert = [current.name, surface.name, title].some(text => ALERT_NAME.test(text || ''));
+    const titleId = `${cssClassName(surface.name)}-title`;
+    const attributes: Record<string, string> = {
+      ...(alert && { role: 'alertdialog' }),
+      ...(title && { 'aria-labelledby': titleId }),
+      ...(modal && { 'aria-modal': 'true' })
+    };
+    const actionLabels = actions.map(buttonLabel);
+    const markup = [
+      htmlTag('dialog', attributes),
+      ...(title ? [`  <h2 id="${titleId}">${escapeHtml(title)}</h2>`] : []),
+      '  <p>…</p>',
+      ...(closeControls.length > 0 ? ['  <button type="button" aria-label="Cerrar">×</button>'] : []),
+      ...actionLabels.map(label => `  <button type="button">${escapeHtml(label)}</button>`),
+      '</dialog>'
+    ];
+    const notes: string[] = [
+      modal
+        ? 'Ábrelo con showModal(): aporta el ::backdrop, atrapa el foco, cierra con Escape y vuelve inerte el resto de la página'
+        : 'Sin velo: si no bloquea la página, ábrelo con show() y quita aria-modal'
+    ];
+    if (closeControls.length === 0) {
+      notes.push('Sin botón de cierre visible: añade uno con aria-label y permite cerrar con Escape');
+    }
+    if (!title) {
+      notes.push('Sin título visible: da nombre al diálogo con aria-label');
+    }
+    if (alert) {
+      notes.push('Es una confirmación o aviso: usa role="alertdialog" y lleva el foco inicial a la acción menos destructiva');
+    }
+    if (placement === 'bottom-sheet' || placement === 'drawer') {
+      notes.push('Se presenta como hoja o panel lateral pero sigue siendo un diálogo: anima la entrada con transform');
+    }
+
+    modalPatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      placement,
+      modal,
+      scrimId: scrim ? scrim.id : null,
+      surfaceId: surface.id,
+      title,
+      actions: actionLabels,
+      hasCloseButton: closeControls.length > 0,
+      semantics: {
+        element: 'dialog',
+        role: alert ? 'alertdialog' : 'dialog',
+        attributes,
+        markup: markup.join('\n'),
+        notes
+      } as PatternSemantics
+    });
+    return true;
+  });
+
+  return modalPatterns;
+}
+
+/**
+ * Indica si un nodo es una barra indicadora (el subrayado de la pestaña activa)
+ */
+function isIndicatorBar(node: any): boolean {
+  const box = patternBox(node);
+  return ['RECTANGLE', 'LINE', 'FRAME', 'VECTOR'].includes(node.type) && nodeTexts(node).length === 0 &&
+    Boolean(box && box.height <= 4 && box.width >= 16 && box.width >= box.height * 4);
+}
+
+/**
+ * Disposición de un conjunto de hermanos: en fila, en columna o null si no están alineados
+ */
+function siblingsOrientation(container: any, items: any[]): 'horizontal' | 'vertical' | null {
+  if (container.layoutMode === 'HORIZONTAL') return 'horizontal';
+  if (container.layoutMode === 'VERTICAL') return 'vertical';
+
+  const boxes = items.map(patternBox);
+  if (boxes.some(box => !box)) return null;
+  if (boxes.every(box => Math.abs(box!.y - boxes[0]!.y) <= 4)) return 'horizontal';
+  if (boxes.every(box => Math.abs(box!.x - boxes[0]!.x) <= 4)) return 'vertical';
+  return null;
 }
 
 /**
- * Detecta patrones de tabs en un nodo de Figma
+ * Detecta patrones de tabs en un nodo de Figma: un conjunto de hermanos con etiqueta corta en el
+ * que uno se distingue como seleccionado (por nombre o variante, por un indicador o por su aspecto)
  */
 function detectTabPatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
+  const tabPatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, parent, path) => {
+    if (!PATTERN_CONTAINER_TYPES.has(current.type)) return false;
+
+    const children = visibleChildren(current);
+    const items = children.filter(child => {
+      const texts = nodeTexts(child);
+      return texts.length > 0 && texts.length <= 2;
+    });
+    if (items.length < 2 || items.length < children.length * 0.6) return false;
+
+    const labels = items.map(item => nodeTexts(item).map(textContent).join(' '));
+    if (labels.some(label => !label || label.length > 30)) return false;
+
+    const named = TAB_NAME.test(current.name || '') || items.every(item => TAB_NAME.test(item.name || ''));
+    const orientation = siblingsOrientation(current, items);
+    if (!orientation || (orientation === 'vertical' && !named)) return false;
+
+    // Pestaña seleccionada: por nombre o variante, por un indicador que solo tiene una o por ser la única distinta
+    let selectedIndex = -1;
+    let method = '';
+    const byName = items.map(item => namedState(item, SELECTION_PROPERTY, SELECTED_NAME, UNSELECTED_NAME));
+    if (byName.filter(selected => selected === true).length === 1) {
+      selectedIndex = byName.indexOf(true);
+      method = 'nombre o variante';
+    }
+    if (selectedIndex < 0) {
+      const withIndicator = items.map(item => findNodes(item, isIndicatorBar).length > 0);
+      const separateIndicator = children.find(child => !items.includes(child) && isIndicatorBar(child));
+      if (withIndicator.filter(Boolean).length === 1) {
+        selectedIndex = withIndicator.indexOf(true);
+      } else if (separateIndicator) {
+        const indicatorBox = patternBox(separateIndicator)!;
+        const center = orientation === 'horizontal'
+          ? indicatorBox.x + indicatorBox.width / 2
+          : indicatorBox.y + indicatorBox.height / 2;
+        selectedIndex = items.findIndex(item => {
+          const box = patternBox(item);
+          return Boolean(box) && (orientation === 'horizontal'
+            ? center >= box!.x && center <= box!.x + box!.width
+            : center >= box!.y && center <= box!.y + box!.height);
+        });
+      }
+      if (selectedIndex >= 0) method = 'indicador bajo la pestaña';
+    }
+    if (selectedIndex < 0 && items.length >= 3) {
+      const keys = items.map(visualStateKey);
+      const unique = keys.filter(key => keys.indexOf(key) === keys.lastIndexOf(key));
+      if (unique.length === 1 && new Set(keys).size === 2) {
+        selectedIndex = keys.indexOf(unique[0]);
+        method = 'aspecto distinto al resto';
+      }
+    }
+    if (selectedIndex < 0 && !named) return false;
+
+    const siblings = parent ? visibleChildren(parent) : [];
+    const next = siblings[siblings.indexOf(current) + 1];
+    const panel = next && PATTERN_CONTAINER_TYPES.has(next.type) ? next : null;
+    const destinations = new Set(items.flatMap(item => readNodeInteractions(item)
+      .filter(interaction => interaction.action === 'NODE' && interaction.navigation === 'NAVIGATE')
+      .map(interaction => interaction.destinationId)));
+    const evidence: PatternEvidence = { score: 0, signals: [] };
+
+    if (selectedIndex >= 0) addEvidence(evidence, 0.4, `una pestaña seleccionada (${method})`);
+    if (named) addEvidence(evidence, 0.3, 'nombre de pestañas');
+    if (new Set(items.map(item => item.type)).size === 1) addEvidence(evidence, 0.1, 'elementos hermanos del mismo tipo');
+    if (orientation === 'horizontal') addEvidence(evidence, 0.1, 'dispuestas en fila');
+    if (panel) addEvidence(evidence, 0.1, 'panel de contenido a continuación');
+    if (!named && NAVIGATION_NAME.test(current.name || '')) addEvidence(evidence, -0.2, 'parece una barra de navegación');
+
+    if (confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const slug = cssClassName(current.name);
+    const activeIndex = Math.max(selectedIndex, 0);
+    const attributes: Record<string, string> = {
+      role: 'tablist',
+      'aria-label': readableName(current.name),
+      ...(orientation === 'vertical' && { 'aria-orientation': 'vertical' })
+    };
+    const markup = [
+      htmlTag('div', attributes),
+      ...labels.map((label, index) => `  ${htmlTag('button', {
+        role: 'tab',
+        id: `${slug}-tab-${index + 1}`,
+        'aria-selected': String(index === activeIndex),
+        'aria-controls': `${slug}-panel-${index + 1}`,
+        ...(index !== activeIndex && { tabindex: '-1' })
+      })}${escapeHtml(label)}</button>`),
+      '</div>',
+      `${htmlTag('div', { role: 'tabpanel', id: `${slug}-panel-${activeIndex + 1}`, 'aria-labelledby': `${slug}-tab-${activeIndex + 1}` })}…</div>`
+    ];
+    const notes: string[] = [
+      'Solo la pestaña activa está en el orden de tabulación: las flechas mueven el foco entre pestañas e Inicio/Fin saltan a los extremos'
+    ];
+    if (selectedIndex < 0) {
+      notes.push('No se distingue la pestaña seleccionada: diseña un estado seleccionado que no dependa solo del color');
+    } else if (method === 'aspecto distinto al resto') {
+      notes.push('Si la selección solo se distingue por el color, añade un indicador o un cambio de peso (WCAG 1.4.1)');
+    }
+    if (destinations.size > 1) {
+      notes.push('Cada pestaña abre otra pantalla en el prototipo: si cambian la URL, usa <nav> con enlaces y aria-current="page" en lugar de role="tab"');
+    }
+
+    tabPatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      orientation,
+      tabs: items.map((item, index) => ({
+        id: item.id,
+        name: item.name,
+        label: labels[index],
+        selected: index === selectedIndex
+      })),
+      selectedIndex: selectedIndex >= 0 ? selectedIndex : null,
+      panel: panel ? { id: panel.id, name: panel.name } : null,
+      semantics: { element: 'div', role: 'tablist', attributes, markup: markup.join('\n'), notes } as PatternSemantics
+    });
+    return true;
+  });
+
+  return tabPatterns;
+}
+
+/**
+ * Indica si un nodo es el indicador de despliegue de una cabecera (chevron, flecha, +/−)
+ */
+function isDisclosureIcon(node: any): boolean {
+  if (node.type === 'TEXT') return DISCLOSURE_GLYPHS.test(textContent(node));
+  return nodeTexts(node).length === 0 &&
+    (DISCLOSURE_ICON_NAME.test(node.name || '') || (ICON_NODE_TYPES.has(node.type) && isIconNode(node)));
 }
 
 /**
- * Detecta patrones de acordeones en un nodo de Figma
+ * Lee una sección de acordeón: una cabecera con texto e indicador de despliegue y, si está abierta,
+ * el contenido que le sigue. La sección cerrada puede ser la propia cabecera. Null si no tiene esa forma
+ */
+function readAccordionSection(section: any): { header: any; title: string; expanded: boolean; content: any } | null {
+  if (!PATTERN_CONTAINER_TYPES.has(section.type)) return null;
+
+  const children = visibleChildren(section);
+  if (children.length === 0) return null;
+
+  let header: any = null;
+  let content: any = null;
+  const [first, ...rest] = children;
+  if (PATTERN_CONTAINER_TYPES.has(first.type) && nodeTexts(first).length > 0 &&
+      findNodes(first, isDisclosureIcon, 2).length > 0) {
+    header = first;
+    content = rest[0] || null;
+  } else if (nodeTexts(section).length > 0 && nodeTexts(section).length <= 2 &&
+             findNodes(section, isDisclosureIcon, 2).length > 0) {
+    header = section;
+  } else {
+    return null;
+  }
+
+  const named = namedState(section, EXPANSION_PROPERTY, EXPANDED_NAME, COLLAPSED_NAME);
+  const heading = headingText(header);
+  return {
+    header,
+    title: heading ? textContent(heading) : readableName(section.name),
+    expanded: named ?? content !== null,
+    content
+  };
+}
+
+/**
+ * Detecta patrones de acordeones en un nodo de Figma: secciones apiladas con una cabecera con
+ * indicador de despliegue, unas abiertas con su contenido y otras cerradas
  */
 function detectAccordionPatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
+  const accordionPatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, _parent, path) => {
+    if (!PATTERN_CONTAINER_TYPES.has(current.type)) return false;
+
+    const named = ACCORDION_NAME.test(current.name || '');
+    const children = visibleChildren(current);
+    let kind = 'accordion';
+    let sections = children
+      .map(child => ({ node: child, section: readAccordionSection(child) }))
+      .filter(entry => entry.section !== null) as Array<{ node: any; section: NonNullable<ReturnType<typeof readAccordionSection>> }>;
+
+    if (sections.length < 2) {
+      // Un único bloque desplegable con nombre de acordeón es un disclosure
+      const own = named ? readAccordionSection(current) : null;
+      if (!own) return false;
+      sections = [{ node: current, section: own }];
+      kind = 'disclosure';
+    } else if (sections.length < children.length * 0.6 ||
+               siblingsOrientation(current, sections.map(entry => entry.node)) === 'horizontal') {
+      return false;
+    }
+    if (sections.some(entry => FORM_CONTROL_NAME.test(entry.node.name || ''))) return false;
+
+    const expandedCount = sections.filter(entry => entry.section.expanded).length;
+    const headerSignatures = new Set(sections.map(entry => structureSignature(entry.section.header)));
+    const evidence: PatternEvidence = { score: 0, signals: [] };
+
+    addEvidence(evidence, 0.35, `${sections.length} ${sections.length === 1 ? 'sección' : 'secciones'} con cabecera e indicador de despliegue`);
+    if (kind === 'accordion') addEvidence(evidence, 0.1, 'secciones apiladas en vertical');
+    if (expandedCount > 0 && expandedCount < sections.length) addEvidence(evidence, 0.2, 'mezcla secciones abiertas y cerradas');
+    if (named) addEvidence(evidence, 0.3, 'nombre de acordeón');
+    if (kind === 'accordion' && headerSignatures.size === 1) addEvidence(evidence, 0.1, 'cabeceras con la misma estructura');
+
+    if (confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const slug = cssClassName(current.name);
+    // Con muchas secciones, role="region" en cada panel satura los puntos de referencia
+    const regions = sections.length <= 6;
+    const markup = [
+      `<div class="${slug}">`,
+      ...sections.flatMap(({ section }, index) => [
+        '  <h3>',
+        `    ${htmlTag('button', {
+          type: 'button',
+          id: `${slug}-header-${index + 1}`,
+          'aria-expanded': String(section.expanded),
+          'aria-controls': `${slug}-panel-${index + 1}`
+        })}${escapeHtml(section.title)}</button>`,
+        '  </h3>',
+        `  ${htmlTag('div', {
+          id: `${slug}-panel-${index + 1}`,
+          ...(regions && { role: 'region', 'aria-labelledby': `${slug}-header-${index + 1}` }),
+          ...(!section.expanded && { hidden: '' })
+        })}…</div>`
+      ]),
+      '</div>'
+    ];
+    const notes: string[] = [
+      'El botón de cada cabecera alterna aria-expanded y el atributo hidden de su panel; el icono lleva aria-hidden="true"',
+      'Si no hace falta animar ni controlar las secciones desde JavaScript, <details>/<summary> ofrece el mismo comportamiento de forma nativa'
+    ];
+    if (!regions) {
+      notes.push('Más de seis secciones: los paneles no llevan role="region" para no saturar los puntos de referencia');
+    }
+
+    accordionPatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      kind,
+      items: sections.map(({ node: sectionNode, section }) => ({
+        id: sectionNode.id,
+        headerId: section.header.id,
+        title: section.title,
+        expanded: section.expanded,
+        contentId: section.content ? section.content.id : null
+      })),
+      expandedCount,
+      semantics: { element: 'div', attributes: {}, markup: markup.join('\n'), notes } as PatternSemantics
+    });
+    return true;
+  });
+
+  return accordionPatterns;
 }
 
 /**
- * Detecta patrones de botones en un nodo de Figma
+ * Detecta patrones de botones en un nodo de Figma: contenedores con etiqueta corta o un icono,
+ * superficie propia y tamaño de control, o con nombre de botón
  */
 function detectButtonPatterns(node: any, maxDepth: number): any[] {
-  // Implementación simplificada para evitar timeouts
-  return [];
-}
\ No newline at end of file
+  const buttonPatterns: any[] = [];
+
+  walkPatternCandidates(node, maxDepth, (current, _parent, path) => {
+    const evidence = buttonEvidence(current);
+    if (!evidence || confidenceOf(evidence) < MIN_PATTERN_CONFIDENCE) return false;
+
+    const box = patternBox(current);
+    const interactions = readNodeInteractions(current);
+    const url = interactions.find(interaction => interaction.action === 'URL')?.url;
+    const navigates = interactions.some(interaction => interaction.action === 'NODE' && interaction.navigation === 'NAVIGATE');
+    const disabled = /disabled|deshabilitad|inactive/i.test(current.name || '') ||
+      (current.opacity !== undefined && current.opacity < 0.6);
+    const variantMatch = (current.name || '').match(/primary|secondary|tertiary|ghost|outline|destructive|danger|link/i);
+    const variant = variantMatch
+      ? variantMatch[0].toLowerCase()
+      : firstSolidPaint(current.fills) ? 'filled' : firstSolidPaint(current.strokes) ? 'outline' : 'text';
+    const accessibleName = buttonLabel(current);
+
+    const attributes: Record<string, string> = {
+      ...(url ? { href: url } : { type: 'button' }),
+      ...(evidence.iconOnly && { 'aria-label': accessibleName }),
+      ...(!url && disabled && { disabled: '' })
+    };
+    const element = url ? 'a' : 'button';
+    const content = evidence.iconOnly ? '<svg aria-hidden="true">…</svg>' : escapeHtml(accessibleName);
+    const notes: string[] = [];
+    if (evidence.iconOnly) {
+      notes.push('Solo contiene un icono: el aria-label es su único nombre accesible');
+    }
+    if (box && (box.width < 24 || box.height < 24)) {
+      notes.push('Área táctil menor de 24×24 px (WCAG 2.5.8): amplíala con padding o un pseudo-elemento');
+    }
+    if (!url && navigates) {
+      notes.push('Navega a otra pantalla en el prototipo: si en la aplicación cambia la URL, usa un enlace <a>');
+    }
+    if (disabled) {
+      notes.push('Deshabilitado: usa el atributo disabled, o aria-disabled="true" si debe seguir recibiendo el foco');
+    }
+
+    buttonPatterns.push({
+      id: current.id,
+      name: current.name,
+      path,
+      confidence: confidenceOf(evidence),
+      signals: evidence.signals,
+      label: evidence.label || null,
+      variant,
+      iconOnly: evidence.iconOnly,
+      disabled,
+      size: box ? { width: box.width, height: box.height } : null,
+      semantics: {
+        element,
+        ...(url ? { role: 'link' } : { role: 'button' }),
+        attributes,
+        markup: `${htmlTag(element, attributes)}${content}</${element}>`,
+        notes
+      } as PatternSemantics
+    });
+    return true;
+  });
+
+  return buttonPatterns;
+}
@@ -0,0 +1,109 @@
+/**
+ * Esquemas zod con los que se valida la respuesta de `get_styles`
+ */
+
+import { z } from "zod";
+import {
+  EffectStyle,
+  FigmaStyles,
+  GridStyle,
+  PaintStyle,
+  TextStyle
+} from "./figma-types";
+
+const colorSchema = z.object({
+  r: z.number(),
+  g: z.number(),
+  b: z.number(),
+  a: z.number().optional()
+});
+
+const paintSchema = z.object({
+  type: z.string(),
+  visible: z.boolean().optional(),
+  opacity: z.number().optional(),
+  blendMode: z.string().optional(),
+  color: colorSchema.optional(),
+  gradientStops: z.array(z.object({ position: z.number(), color: colorSchema })).optional()
+}).passthrough();
+
+const styleBaseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  key: z.string().optional(),
+  description: z.string().optional()
+});
+
+export const paintStyleSchema: z.ZodType<PaintStyle, z.ZodTypeDef, unknown> = styleBaseSchema.extend({
+  paints: z.array(paintSchema)
+});
+
+export const textStyleSchema: z.ZodType<TextStyle, z.ZodTypeDef, unknown> = styleBaseSchema.extend({
+  style: z.object({
+    fontFamily: z.string(),
+    fontStyle: z.string().optional(),
+    fontWeight: z.number().optional(),
+    fontSize: z.number(),
+    lineHeight: z.object({
+      unit: z.enum(['PIXELS', 'PERCENT', 'AUTO']),
+      value: z.number().optional()
+    }).optional(),
+    letterSpacing: z.object({
+      unit: z.enum(['PIXELS', 'PERCENT']),
+      value: z.number()
+    }).optional(),
+    paragraphSpacing: z.number().optional(),
+    paragraphIndent: z.number().optional(),
+    textCase: z.string().optional(),
+    textDecoration: z.string().optional()
+  })
+});
+
+export const effectStyleSchema: z.ZodType<EffectStyle, z.ZodTypeDef, unknown> = styleBaseSchema.extend({
+  effects: z.array(z.object({
+    type: z.string(),
+    visible: z.boolean().optional(),
+    radius: z.number().optional(),
+    color: colorSchema.optional(),
+    offset: z.object({ x: z.number(), y: z.number() }).optional(),
+    spread: z.number().optional(),
+    blendMode: z.string().optional()
+  }).passthrough())
+});
+
+export const gridStyleSchema: z.ZodType<GridStyle, z.ZodTypeDef, unknown> = styleBaseSchema.extend({
+  layoutGrids: z.array(z.object({
+    pattern: z.enum(['COLUMNS', 'ROWS', 'GRID']),
+    sectionSize: z.number().optional(),
+    visible: z.boolean().optional(),
+    color: colorSchema.optional(),
+    alignment: z.enum(['MIN', 'MAX', 'STRETCH', 'CENTER']).optional(),
+    gutterSize: z.number().optional(),
+    offset: z.number().optional(),
+    count: z.number().optional()
+  }))
+});
+
+export const figmaStylesSchema: z.ZodType<FigmaStyles, z.ZodTypeDef, unknown> = z.object({
+  colors: z.array(paintStyleSchema).default([]),
+  texts: z.array(textStyleSchema).default([]),
+  effects: z.array(effectStyleSchema).default([]),
+  grids: z.array(gridStyleSchema).default([])
+});
+
+/**
+ * Valida la respuesta de `get_styles` y la devuelve tipada
+ */
+export function parseFigmaStyles(data: unknown): FigmaStyles {
+  const result = figmaStylesSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid get_styles response from Figma: ${issues}`);
+  }
+
+  return result.data;
+}
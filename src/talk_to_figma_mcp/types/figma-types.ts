@@ -50,6 +50,7 @@ export type FigmaCommand =
   | "get_nodes_info"
   | "export_node_as_image"
   | "get_styles"
+  | "get_variables"
   | "get_local_components"
   | "get_remote_components"
   | "get_styled_text_segments"
@@ -57,4 +58,199 @@ export type FigmaCommand =
   | "join"
   | "analyze_design_system" 
   | "extract_design_tokens"
-  | "analyze_component_hierarchy";
\ No newline at end of file
+  | "analyze_component_hierarchy";
+/**
+ * Color RGB(A) con componentes entre 0 y 1
+ */
+export interface FigmaColor {
+  r: number;
+  g: number;
+  b: number;
+  a?: number;
+}
+
+/**
+ * Relleno de un estilo de color (SOLID, GRADIENT_*, IMAGE...)
+ */
+export interface FigmaPaint {
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  blendMode?: string;
+  color?: FigmaColor;
+  gradientStops?: { position: number; color: FigmaColor }[];
+  [key: string]: unknown;
+}
+
+/**
+ * Interlineado tal y como lo expone la API de plugins
+ */
+export interface FigmaLineHeight {
+  unit: 'PIXELS' | 'PERCENT' | 'AUTO';
+  value?: number;
+}
+
+/**
+ * Espaciado entre letras tal y como lo expone la API de plugins
+ */
+export interface FigmaLetterSpacing {
+  unit: 'PIXELS' | 'PERCENT';
+  value: number;
+}
+
+/**
+ * Capa de efecto: sombras y desenfoques. Figma añade tipos nuevos (`NOISE`, `TEXTURE`, `GLASS`...)
+ * que no tienen radio; se conservan tal cual y las herramientas ignoran los que no conocen
+ */
+export interface FigmaEffect {
+  type: 'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR' | (string & {});
+  visible?: boolean;
+  radius?: number;
+  color?: FigmaColor;
+  offset?: { x: number; y: number };
+  spread?: number;
+  blendMode?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Definición de una retícula (columnas, filas o cuadrícula)
+ */
+export interface FigmaLayoutGrid {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  sectionSize?: number;
+  visible?: boolean;
+  color?: FigmaColor;
+  alignment?: 'MIN' | 'MAX' | 'STRETCH' | 'CENTER';
+  gutterSize?: number;
+  offset?: number;
+  count?: number;
+}
+
+/**
+ * Campos comunes a todos los estilos locales
+ */
+export interface FigmaStyleBase {
+  id: string;
+  name: string;
+  key?: string;
+  description?: string;
+}
+
+/**
+ * Estilo de color
+ */
+export interface PaintStyle extends FigmaStyleBase {
+  paints: FigmaPaint[];
+}
+
+/**
+ * Propiedades tipográficas de un estilo de texto
+ */
+export interface TextStyleProperties {
+  fontFamily: string;
+  fontStyle?: string;
+  fontWeight?: number;
+  fontSize: number;
+  lineHeight?: FigmaLineHeight;
+  letterSpacing?: FigmaLetterSpacing;
+  paragraphSpacing?: number;
+  paragraphIndent?: number;
+  textCase?: string;
+  textDecoration?: string;
+}
+
+/**
+ * Estilo de texto
+ */
+export interface TextStyle extends FigmaStyleBase {
+  style: TextStyleProperties;
+}
+
+/**
+ * Estilo de efecto con todas sus capas
+ */
+export interface EffectStyle extends FigmaStyleBase {
+  effects: FigmaEffect[];
+}
+
+/**
+ * Estilo de retícula
+ */
+export interface GridStyle extends FigmaStyleBase {
+  layoutGrids: FigmaLayoutGrid[];
+}
+
+/**
+ * Respuesta del comando `get_styles`
+ */
+export interface FigmaStyles {
+  colors: PaintStyle[];
+  texts: TextStyle[];
+  effects: EffectStyle[];
+  grids: GridStyle[];
+}
+
+/**
+ * Tipos de valor que puede tener una variable de Figma
+ */
+export type FigmaVariableType = 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+
+/**
+ * Referencia de una variable (o de una propiedad de nodo) a otra variable
+ */
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+/**
+ * Valor de una variable en un modo concreto
+ */
+export type FigmaVariableValue = FigmaColor | number | string | boolean | FigmaVariableAlias;
+
+/**
+ * Modo de una colección de variables (p. ej. Light / Dark)
+ */
+export interface FigmaVariableMode {
+  modeId: string;
+  name: string;
+}
+
+/**
+ * Colección de variables con sus modos
+ */
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  key?: string;
+  modes: FigmaVariableMode[];
+  defaultModeId: string;
+  variableIds: string[];
+  remote?: boolean;
+}
+
+/**
+ * Variable con sus valores por modo
+ */
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key?: string;
+  description?: string;
+  variableCollectionId: string;
+  resolvedType: FigmaVariableType;
+  valuesByMode: Record<string, FigmaVariableValue>;
+  scopes?: string[];
+  codeSyntax?: Record<string, string>;
+  hiddenFromPublishing?: boolean;
+  remote?: boolean;
+}
+
+/**
+ * Respuesta del comando `get_variables`
+ */
+export interface FigmaVariables {
+  collections: FigmaVariableCollection[];
+  variables: FigmaVariable[];
+}
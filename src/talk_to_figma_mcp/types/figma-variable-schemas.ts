@@ -0,0 +1,60 @@
+/**
+ * Esquemas zod con los que se valida la respuesta de `get_variables`
+ */
+
+import { z } from "zod";
+import { FigmaVariable, FigmaVariableCollection, FigmaVariables } from "./figma-types";
+
+const variableValueSchema = z.union([
+  z.object({ type: z.literal('VARIABLE_ALIAS'), id: z.string() }),
+  z.object({ r: z.number(), g: z.number(), b: z.number(), a: z.number().optional() }),
+  z.number(),
+  z.string(),
+  z.boolean()
+]);
+
+export const variableCollectionSchema: z.ZodType<FigmaVariableCollection, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  key: z.string().optional(),
+  modes: z.array(z.object({ modeId: z.string(), name: z.string() })),
+  defaultModeId: z.string(),
+  variableIds: z.array(z.string()).default([]),
+  remote: z.boolean().optional()
+});
+
+export const variableSchema: z.ZodType<FigmaVariable, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  name: z.string(),
+  key: z.string().optional(),
+  description: z.string().optional(),
+  variableCollectionId: z.string(),
+  resolvedType: z.enum(['COLOR', 'FLOAT', 'STRING', 'BOOLEAN']),
+  valuesByMode: z.record(variableValueSchema),
+  scopes: z.array(z.string()).optional(),
+  codeSyntax: z.record(z.string()).optional(),
+  hiddenFromPublishing: z.boolean().optional(),
+  remote: z.boolean().optional()
+});
+
+export const figmaVariablesSchema: z.ZodType<FigmaVariables, z.ZodTypeDef, unknown> = z.object({
+  collections: z.array(variableCollectionSchema).default([]),
+  variables: z.array(variableSchema).default([])
+});
+
+/**
+ * Valida la respuesta de `get_variables` y la devuelve tipada
+ */
+export function parseFigmaVariables(data: unknown): FigmaVariables {
+  const result = figmaVariablesSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid get_variables response from Figma: ${issues}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,483 @@
+/**
+ * Funciones de utilidad para comparar y agrupar colores en espacios perceptuales
+ */
+
+import { FigmaColor } from '../types/figma-types';
+
+/**
+ * Color en OKLab
+ */
+export interface Oklab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Color en CIELAB (iluminante D65)
+ */
+export interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Métrica de diferencia de color: CIEDE2000 o distancia euclídea en OKLab (escalada ×100
+ * para que los umbrales sean comparables con los de ΔE2000)
+ */
+export type ColorMetric = 'ciede2000' | 'oklab';
+
+/**
+ * Función de un color según dónde se usa: texto, fondo de superficie, borde o acción (botones)
+ */
+export type ColorRole = 'text' | 'surface' | 'border' | 'action';
+
+/**
+ * Color encontrado en el documento y los nodos que lo usan
+ */
+export interface ColorSample {
+  hex: string;
+  color: FigmaColor;
+  opacity: number;
+  usages: { nodeId: string; nodeName: string; nodeType: string; property: string; role?: ColorRole }[];
+}
+
+/**
+ * Grupo de colores perceptualmente equivalentes representados por uno de ellos
+ */
+export interface ColorCluster {
+  representative: ColorSample;
+  members: { sample: ColorSample; deltaE: number }[];
+}
+
+/**
+ * Convierte un color de Figma (canales 0-1) a HEX
+ */
+export function colorToHex(color: FigmaColor): string {
+  const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0');
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+}
+
+/**
+ * Convierte un color HEX (#rgb o #rrggbb) a un color de Figma
+ */
+export function hexToColor(hex: string): FigmaColor {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? digits.split('').map(d => d + d).join('') : digits.slice(0, 6);
+  return {
+    r: parseInt(full.slice(0, 2), 16) / 255,
+    g: parseInt(full.slice(2, 4), 16) / 255,
+    b: parseInt(full.slice(4, 6), 16) / 255
+  };
+}
+
+/**
+ * Convierte un canal sRGB (0-1) a luz lineal
+ */
+function srgbToLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convierte un color sRGB a OKLab
+ */
+export function colorToOklab(color: FigmaColor): Oklab {
+  const r = srgbToLinear(color.r);
+  const g = srgbToLinear(color.g);
+  const b = srgbToLinear(color.b);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    L: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+}
+
+/**
+ * Convierte un color sRGB a CIELAB (D65)
+ */
+export function colorToLab(color: FigmaColor): Lab {
+  const r = srgbToLinear(color.r);
+  const g = srgbToLinear(color.g);
+  const b = srgbToLinear(color.b);
+
+  // sRGB lineal → XYZ normalizado por el blanco de referencia D65
+  const x = (0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / 0.95047;
+  const y = 0.2126729 * r + 0.7151522 * g + 0.0721750 * b;
+  const z = (0.0193339 * r + 0.1191920 * g + 0.9503041 * b) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Diferencia de color CIEDE2000 entre dos colores CIELAB
+ */
+export function deltaE2000(lab1: Lab, lab2: Lab): number {
+  const rad = Math.PI / 180;
+  const C1 = Math.hypot(lab1.a, lab1.b);
+  const C2 = Math.hypot(lab2.a, lab2.b);
+  const Cbar = (C1 + C2) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Math.pow(Cbar, 7) / (Math.pow(Cbar, 7) + Math.pow(25, 7))));
+
+  const a1 = (1 + G) * lab1.a;
+  const a2 = (1 + G) * lab2.a;
+  const C1p = Math.hypot(a1, lab1.b);
+  const C2p = Math.hypot(a2, lab2.b);
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(lab1.b, a1);
+  const h2p = hue(lab2.b, a2);
+
+  const dLp = lab2.L - lab1.L;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (lab1.L + lab2.L) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hbarp = (h1p + h2p) / 2;
+    else hbarp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((hbarp - 30) * rad)
+    + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad)
+    - 0.20 * Math.cos((4 * hbarp - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Rc = 2 * Math.sqrt(Math.pow(Cbarp, 7) / (Math.pow(Cbarp, 7) + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) +
+    Math.pow(dCp / Sc, 2) +
+    Math.pow(dHp / Sh, 2) +
+    Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
+
+/**
+ * Diferencia perceptual entre dos colores según la métrica elegida
+ */
+export function colorDifference(color1: FigmaColor, color2: FigmaColor, metric: ColorMetric = 'ciede2000'): number {
+  if (metric === 'oklab') {
+    const a = colorToOklab(color1);
+    const b = colorToOklab(color2);
+    return Math.hypot(a.L - b.L, a.a - b.a, a.b - b.b) * 100;
+  }
+  return deltaE2000(colorToLab(color1), colorToLab(color2));
+}
+
+/**
+ * Agrupa los colores por cercanía perceptual. Los colores más usados fundan los grupos
+ * y cada color se une al primer grupo cuyo representante está por debajo del umbral
+ */
+export function clusterColors(
+  samples: ColorSample[],
+  options: { threshold: number; metric?: ColorMetric }
+): ColorCluster[] {
+  const clusters: ColorCluster[] = [];
+  const sorted = [...samples].sort((a, b) => b.usages.length - a.usages.length);
+
+  for (const sample of sorted) {
+    let bestCluster: ColorCluster | undefined;
+    let bestDelta = Infinity;
+    for (const cluster of clusters) {
+      const delta = colorDifference(cluster.representative.color, sample.color, options.metric);
+      if (delta <= options.threshold && delta < bestDelta) {
+        bestCluster = cluster;
+        bestDelta = delta;
+      }
+    }
+
+    if (bestCluster) {
+      bestCluster.members.push({ sample, deltaE: Math.round(bestDelta * 100) / 100 });
+    } else {
+      clusters.push({ representative: sample, members: [{ sample, deltaE: 0 }] });
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Familias de tono por ángulo de tono en OKLCH (límite superior de cada familia)
+ */
+const HUE_FAMILIES: [number, string][] = [
+  [15, 'pink'],
+  [45, 'red'],
+  [75, 'orange'],
+  [110, 'yellow'],
+  [160, 'green'],
+  [200, 'teal'],
+  [240, 'cyan'],
+  [290, 'blue'],
+  [330, 'purple'],
+  [360, 'pink']
+];
+
+/**
+ * Luminosidad OKLab de referencia de cada escalón de rampa, la misma para todas las familias
+ */
+const RAMP_STEPS: [number, number][] = [
+  [50, 0.97],
+  [100, 0.94],
+  [200, 0.89],
+  [300, 0.82],
+  [400, 0.71],
+  [500, 0.6],
+  [600, 0.5],
+  [700, 0.42],
+  [800, 0.33],
+  [900, 0.24]
+];
+
+/**
+ * Familia de color (gris, blanco, negro o tono) y escalón de rampa (50-900): el escalón
+ * cuya luminosidad de referencia está más cerca de la luminosidad OKLab del color
+ */
+export function colorRampPosition(color: FigmaColor): { family: string; step: number; lightness: number } {
+  const { L, a, b } = colorToOklab(color);
+  const chroma = Math.hypot(a, b);
+  const lightness = Math.round(L * 1000) / 1000;
+
+  if (chroma < 0.03) {
+    if (L > 0.98) return { family: 'white', step: 0, lightness };
+    if (L < 0.1) return { family: 'black', step: 0, lightness };
+  }
+
+  let family = 'gray';
+  if (chroma >= 0.03) {
+    const hue = ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+    family = HUE_FAMILIES.find(([limit]) => hue < limit)?.[1] || 'pink';
+  }
+
+  const [step] = RAMP_STEPS.reduce((nearest, candidate) =>
+    Math.abs(candidate[1] - L) < Math.abs(nearest[1] - L) ? candidate : nearest
+  );
+  return { family, step, lightness };
+}
+
+/**
+ * Asigna nombres de rampa (`blue/500`, `gray/100`...) a una lista de colores. Si dos colores
+ * caen en el mismo escalón se usa el escalón intermedio libre más cercano (`blue/550`)
+ */
+export function assignRampNames(colors: FigmaColor[]): string[] {
+  const taken = new Set<string>();
+  return colors.map(color => {
+    const { family, step } = colorRampPosition(color);
+    if (step === 0) {
+      let name = family;
+      for (let i = 2; taken.has(name); i++) name = `${family}-${i}`;
+      taken.add(name);
+      return name;
+    }
+
+    const candidates = [step];
+    for (let offset = 50; offset <= 900; offset += 50) {
+      candidates.push(step + offset, step - offset);
+    }
+    const freeStep = candidates.find(candidate => candidate >= 50 && candidate <= 950 && !taken.has(`${family}/${candidate}`));
+    const name = freeStep !== undefined ? `${family}/${freeStep}` : `${family}/${step}-${taken.size}`;
+    taken.add(name);
+    return name;
+  });
+}
+
+/**
+ * Área mínima (px²) para considerar el fondo de un frame como superficie
+ */
+const SURFACE_MIN_AREA = 320 * 320;
+
+/**
+ * Tipos de nodo cuyo relleno puede ser el fondo de una superficie o de un botón
+ */
+const CONTAINER_TYPES = ['FRAME', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION'];
+
+/**
+ * Indica si un nodo es un botón por su nombre (`Button`, `btn-primary`, `CTA`...)
+ */
+function isButtonNode(node: any): boolean {
+  return [...CONTAINER_TYPES, 'GROUP'].includes(node.type) && /button|btn|\bcta\b/i.test(node.name || '');
+}
+
+/**
+ * Contexto de un nodo al clasificar sus colores: el botón que lo contiene (si lo hay)
+ * y si es un frame de primer nivel
+ */
+export interface ColorUsageContext {
+  button?: any;
+  topLevel: boolean;
+}
+
+/**
+ * Contexto de un nodo a partir del de su padre: un botón pasa a ser el botón de sus descendientes
+ */
+export function nodeColorContext(node: any, parentContext: ColorUsageContext): ColorUsageContext {
+  return { ...parentContext, button: isButtonNode(node) ? node : parentContext.button };
+}
+
+/**
+ * Indica si un nodo es el fondo de un botón: el propio botón o una capa que lo cubre entero.
+ * Los iconos y demás capas interiores no son el color de la acción
+ */
+function isButtonBackground(node: any, button: any): boolean {
+  if (node === button) return true;
+  const box = node.absoluteBoundingBox;
+  const buttonBox = button.absoluteBoundingBox;
+  return (node.type === 'RECTANGLE' || CONTAINER_TYPES.includes(node.type)) && !!box && !!buttonBox &&
+    Math.abs(box.width - buttonBox.width) <= 1 && Math.abs(box.height - buttonBox.height) <= 1;
+}
+
+/**
+ * Clasifica el uso de un color: los trazos son bordes, los rellenos de texto son texto, el fondo
+ * de un botón es una acción y los rellenos de frames de primer nivel o grandes son superficies
+ */
+export function classifyColorUsage(node: any, property: string, context: ColorUsageContext): ColorRole | undefined {
+  if (property === 'strokes') return 'border';
+  if (node.type === 'TEXT') return 'text';
+  if (context.button) return isButtonBackground(node, context.button) ? 'action' : undefined;
+
+  if (CONTAINER_TYPES.includes(node.type)) {
+    const box = node.absoluteBoundingBox;
+    if (context.topLevel || (box && box.width * box.height >= SURFACE_MIN_AREA)) return 'surface';
+  }
+  return undefined;
+}
+
+/**
+ * Nombre propuesto para un color semántico y el color primitivo al que apunta
+ */
+export interface SemanticColor {
+  name: string;
+  role: ColorRole;
+  primitive: string;
+  usageCount: number;
+}
+
+/**
+ * Niveles de cada rol, del color más usado al menos usado
+ */
+const ROLE_LEVELS = ['primary', 'secondary', 'tertiary'];
+
+/**
+ * Propone la capa semántica (`text/primary`, `surface/secondary`, `border/primary`, `action/primary`...)
+ * a partir de los usos de cada color primitivo. En cada rol, el color más usado recibe el primer nivel
+ */
+export function assignSemanticNames(palette: { primitive: string; usages: { role?: ColorRole }[] }[]): SemanticColor[] {
+  const semanticColors: SemanticColor[] = [];
+  const roles: ColorRole[] = ['text', 'surface', 'border', 'action'];
+
+  for (const role of roles) {
+    palette
+      .map(entry => ({
+        primitive: entry.primitive,
+        usageCount: entry.usages.filter(usage => usage.role === role).length
+      }))
+      .filter(entry => entry.usageCount > 0)
+      .sort((a, b) => b.usageCount - a.usageCount)
+      .forEach((entry, index) => {
+        semanticColors.push({
+          name: `${role}/${ROLE_LEVELS[index] || index + 1}`,
+          role,
+          primitive: entry.primitive,
+          usageCount: entry.usageCount
+        });
+      });
+  }
+
+  return semanticColors;
+}
+
+/**
+ * Compone un color con transparencia sobre un fondo opaco
+ */
+export function compositeColor(foreground: FigmaColor, alpha: number, background: FigmaColor): FigmaColor {
+  return {
+    r: foreground.r * alpha + background.r * (1 - alpha),
+    g: foreground.g * alpha + background.g * (1 - alpha),
+    b: foreground.b * alpha + background.b * (1 - alpha)
+  };
+}
+
+/**
+ * Luminancia relativa de un color según WCAG 2.x
+ */
+export function relativeLuminance(color: FigmaColor): number {
+  return 0.2126 * srgbToLinear(color.r) + 0.7152 * srgbToLinear(color.g) + 0.0722 * srgbToLinear(color.b);
+}
+
+/**
+ * Ratio de contraste WCAG 2.x entre dos colores opacos (de 1 a 21)
+ */
+export function contrastRatio(color1: FigmaColor, color2: FigmaColor): number {
+  const l1 = relativeLuminance(color1);
+  const l2 = relativeLuminance(color2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * Contraste APCA (Lc, versión 0.0.98G) del texto sobre el fondo. Es positivo para texto oscuro
+ * sobre fondo claro y negativo para texto claro sobre fondo oscuro
+ */
+export function apcaContrast(text: FigmaColor, background: FigmaColor): number {
+  const luminance = (color: FigmaColor) => {
+    const y = 0.2126729 * Math.pow(color.r, 2.4) + 0.7151522 * Math.pow(color.g, 2.4) + 0.0721750 * Math.pow(color.b, 2.4);
+    // Compensación de los negros cercanos al umbral
+    return y > 0.022 ? y : y + Math.pow(0.022 - y, 1.414);
+  };
+  const yText = luminance(text);
+  const yBackground = luminance(background);
+  if (Math.abs(yBackground - yText) < 0.0005) return 0;
+
+  let contrast: number;
+  if (yBackground > yText) {
+    const sapc = (Math.pow(yBackground, 0.56) - Math.pow(yText, 0.57)) * 1.14;
+    contrast = sapc < 0.1 ? 0 : sapc - 0.027;
+  } else {
+    const sapc = (Math.pow(yBackground, 0.65) - Math.pow(yText, 0.62)) * 1.14;
+    contrast = sapc > -0.1 ? 0 : sapc + 0.027;
+  }
+  return contrast * 100;
+}
+
+/**
+ * Indica si un texto es "grande" según WCAG: 18pt (24px) o 14pt (18.66px) en negrita
+ */
+export function isLargeText(fontSize: number, fontWeight: number): boolean {
+  return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+}
+
+/**
+ * Contraste APCA mínimo (|Lc|) para un texto según su tamaño y peso: 75 para texto de cuerpo,
+ * 60 para texto de 24px o 16px en negrita y 45 para titulares de 36px o 24px en negrita
+ */
+export function apcaMinimumContrast(fontSize: number, fontWeight: number): number {
+  const bold = fontWeight >= 700;
+  if (fontSize >= 36 || (fontSize >= 24 && bold)) return 45;
+  if (fontSize >= 24 || (fontSize >= 16 && bold)) return 60;
+  return 75;
+}
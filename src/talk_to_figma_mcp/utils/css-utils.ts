@@ -0,0 +1,368 @@
+/**
+ * Funciones de utilidad para traducir el aspecto y la tipografía de los nodos de Figma a CSS
+ * (el layout está en layout-utils)
+ */
+
+import { rgbaToHex } from './figma-utils';
+
+/**
+ * Declaraciones CSS (propiedad → valor) en el orden en que se escriben
+ */
+export type CssDeclarations = Record<string, string>;
+
+/**
+ * Mapeo de `textCase` de Figma a `text-transform` de CSS
+ */
+export const TEXT_TRANSFORMS: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize'
+};
+
+/**
+ * Redondea un valor a dos decimales y le añade la unidad `px`
+ */
+export function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+/**
+ * Color CSS de una pintura sólida: HEX si es opaca y `rgba()` si tiene transparencia
+ */
+export function cssColor(color: any, opacity: number = 1): string {
+  const alpha = (color.a !== undefined ? color.a : 1) * opacity;
+  if (alpha >= 1) {
+    return rgbaToHex({ ...color, a: 1 });
+  }
+  const channel = (value: number) => Math.round(value * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${Math.round(alpha * 100) / 100})`;
+}
+
+/**
+ * Primera pintura sólida visible de una lista de rellenos o trazos
+ */
+export function firstSolidPaint(paints: any): any {
+  return Array.isArray(paints)
+    ? paints.find((paint: any) => paint.type === 'SOLID' && paint.visible !== false && paint.color)
+    : undefined;
+}
+
+/**
+ * Modos de fusión de Figma con equivalente en `mix-blend-mode`/`background-blend-mode`
+ */
+const BLEND_MODES: Record<string, string> = {
+  MULTIPLY: 'multiply',
+  SCREEN: 'screen',
+  OVERLAY: 'overlay',
+  DARKEN: 'darken',
+  LIGHTEN: 'lighten',
+  COLOR_DODGE: 'color-dodge',
+  COLOR_BURN: 'color-burn',
+  HARD_LIGHT: 'hard-light',
+  SOFT_LIGHT: 'soft-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+  LINEAR_DODGE: 'plus-lighter',
+  LINEAR_BURN: 'plus-darker'
+};
+
+/**
+ * Tipos de nodo con forma libre, cuya sombra sigue el contorno (`drop-shadow`) y no la caja
+ */
+const SHAPE_NODE_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'POLYGON']);
+
+/**
+ * Ángulo CSS (0deg hacia arriba, sentido horario) del vector entre dos manejadores de degradado,
+ * corregido por la proporción del nodo porque los manejadores están normalizados
+ */
+function gradientAngle(start: any, end: any, width: number, height: number): number {
+  const angle = Math.atan2((end.x - start.x) * width, -(end.y - start.y) * height) * 180 / Math.PI;
+  return Math.round(((angle + 360) % 360) * 100) / 100;
+}
+
+/**
+ * Traduce una pintura de degradado a `linear-gradient`, `radial-gradient` o `conic-gradient`
+ * (el degradado de diamante se aproxima con uno radial)
+ */
+export function gradientCss(paint: any, size: { width: number; height: number } | null = null): string | undefined {
+  const stops = (paint.gradientStops || [])
+    .map((stop: any) => `${cssColor(stop.color, paint.opacity !== undefined ? paint.opacity : 1)} ${Math.round(stop.position * 10000) / 100}%`)
+    .join(', ');
+  if (!stops) return undefined;
+
+  const [start, end] = paint.gradientHandlePositions || [{ x: 0.5, y: 0 }, { x: 0.5, y: 1 }];
+  const percent = (value: number) => `${Math.round(value * 10000) / 100}%`;
+  const width = size ? size.width : 1;
+  const height = size ? size.height : 1;
+
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR':
+      return `linear-gradient(${gradientAngle(start, end, width, height)}deg, ${stops})`;
+    case 'GRADIENT_RADIAL':
+    case 'GRADIENT_DIAMOND':
+      return `radial-gradient(ellipse at ${percent(start.x)} ${percent(start.y)}, ${stops})`;
+    case 'GRADIENT_ANGULAR':
+      return `conic-gradient(from ${gradientAngle(start, end, width, height)}deg at ${percent(start.x)} ${percent(start.y)}, ${stops})`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Traduce los rellenos a capas de fondo. En Figma el último relleno queda encima y en CSS la
+ * primera capa; un relleno sólido en el fondo de la pila se escribe como `background-color`.
+ * Los rellenos de imagen se omiten porque la API no da su URL
+ */
+export function fillsCss(paints: any, size: { width: number; height: number } | null = null): CssDeclarations {
+  const css: CssDeclarations = {};
+  const layers = (Array.isArray(paints) ? paints : [])
+    .filter((paint: any) => paint.visible !== false && paint.type !== 'IMAGE' && paint.type !== 'VIDEO' && paint.opacity !== 0)
+    .reverse();
+  if (layers.length === 0) return css;
+
+  const bottom = layers[layers.length - 1];
+  if (bottom.type === 'SOLID' && bottom.color) {
+    css['background-color'] = cssColor(bottom.color, bottom.opacity);
+    layers.pop();
+  }
+
+  const images = layers
+    .map((paint: any) => {
+      if (paint.type !== 'SOLID') return { paint, value: gradientCss(paint, size) };
+      const color = cssColor(paint.color, paint.opacity);
+      return { paint, value: `linear-gradient(${color}, ${color})` };
+    })
+    .filter((layer: any) => layer.value);
+  if (images.length > 0) {
+    css['background-image'] = images.map((layer: any) => layer.value).join(', ');
+    if (images.some((layer: any) => BLEND_MODES[layer.paint.blendMode])) {
+      css['background-blend-mode'] = images.map((layer: any) => BLEND_MODES[layer.paint.blendMode] || 'normal').join(', ');
+    }
+  }
+
+  return css;
+}
+
+/**
+ * Traduce los trazos según su alineación: interior como `border`, centrado y exterior como
+ * `outline` (no ocupan espacio en el layout, igual que en Figma). Los pesos por lado se
+ * escriben como bordes por lado y los trazos de texto como `-webkit-text-stroke`
+ */
+export function strokesCss(node: any): CssDeclarations {
+  const css: CssDeclarations = {};
+  const stroke = firstSolidPaint(node.strokes);
+  if (!stroke) return css;
+
+  const color = cssColor(stroke.color, stroke.opacity);
+  const style = Array.isArray(node.strokeDashes) && node.strokeDashes.length > 0 ? 'dashed' : 'solid';
+
+  if (node.type === 'TEXT') {
+    if (node.strokeWeight) {
+      css['-webkit-text-stroke'] = `${px(node.strokeWeight)} ${color}`;
+    }
+    return css;
+  }
+
+  if (node.individualStrokeWeights) {
+    const weights = node.individualStrokeWeights;
+    (['top', 'right', 'bottom', 'left'] as const).forEach(side => {
+      if (weights[side] > 0) {
+        css[`border-${side}`] = `${px(weights[side])} ${style} ${color}`;
+      }
+    });
+    css['box-sizing'] = 'border-box';
+    return css;
+  }
+
+  if (!node.strokeWeight) return css;
+  const line = `${px(node.strokeWeight)} ${style} ${color}`;
+  switch (node.strokeAlign) {
+    case 'OUTSIDE':
+      css.outline = line;
+      break;
+    case 'CENTER':
+      css.outline = line;
+      css['outline-offset'] = px(-node.strokeWeight / 2);
+      break;
+    default:
+      css.border = line;
+      css['box-sizing'] = 'border-box';
+  }
+
+  return css;
+}
+
+/**
+ * Traduce los efectos: sombras a `box-shadow` (o `text-shadow`/`drop-shadow` en textos y formas
+ * libres) y desenfoques a `filter`/`backdrop-filter`. El radio de desenfoque de Figma equivale
+ * al doble de la desviación de `blur()`
+ */
+export function effectsCss(node: any): CssDeclarations {
+  const css: CssDeclarations = {};
+  const effects = (node.effects || []).filter((effect: any) => effect.visible !== false);
+  const filters: string[] = [];
+
+  const shadows = effects.filter((effect: any) => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW');
+  const offsetOf = (effect: any) => effect.offset || { x: 0, y: 0 };
+  if (node.type === 'TEXT') {
+    const textShadows = shadows
+      .filter((effect: any) => effect.type === 'DROP_SHADOW')
+      .map((effect: any) => `${px(offsetOf(effect).x)} ${px(offsetOf(effect).y)} ${px(effect.radius || 0)} ${cssColor(effect.color)}`);
+    if (textShadows.length > 0) {
+      css['text-shadow'] = textShadows.join(', ');
+    }
+  } else if (SHAPE_NODE_TYPES.has(node.type)) {
+    shadows
+      .filter((effect: any) => effect.type === 'DROP_SHADOW')
+      .forEach((effect: any) => {
+        filters.push(`drop-shadow(${px(offsetOf(effect).x)} ${px(offsetOf(effect).y)} ${px((effect.radius || 0) / 2)} ${cssColor(effect.color)})`);
+      });
+  } else if (shadows.length > 0) {
+    css['box-shadow'] = shadows
+      .map((effect: any) => `${effect.type === 'INNER_SHADOW' ? 'inset ' : ''}${px(offsetOf(effect).x)} ${px(offsetOf(effect).y)} ${px(effect.radius || 0)} ${px(effect.spread || 0)} ${cssColor(effect.color)}`)
+      .join(', ');
+  }
+
+  const layerBlur = effects.find((effect: any) => effect.type === 'LAYER_BLUR');
+  if (layerBlur) {
+    filters.push(`blur(${px((layerBlur.radius || 0) / 2)})`);
+  }
+  if (filters.length > 0) {
+    css.filter = filters.join(' ');
+  }
+  const backgroundBlur = effects.find((effect: any) => effect.type === 'BACKGROUND_BLUR');
+  if (backgroundBlur) {
+    css['backdrop-filter'] = `blur(${px((backgroundBlur.radius || 0) / 2)})`;
+  }
+
+  return css;
+}
+
+/**
+ * Traduce el aspecto de un nodo (fondo, trazos, radios, efectos, opacidad y modo de fusión) a CSS
+ */
+export function visualCss(node: any): CssDeclarations {
+  const box = node.absoluteBoundingBox;
+  const size = box ? { width: box.width, height: box.height } : null;
+
+  // En los textos el relleno es el color del texto, no el fondo
+  const css: CssDeclarations = {
+    ...(node.type !== 'TEXT' ? fillsCss(node.fills, size) : {}),
+    ...strokesCss(node)
+  };
+
+  if (Array.isArray(node.rectangleCornerRadii) && node.rectangleCornerRadii.some((radius: number) => radius > 0)) {
+    const radii = node.rectangleCornerRadii;
+    css['border-radius'] = radii.every((radius: number) => radius === radii[0]) ? px(radii[0]) : radii.map(px).join(' ');
+  } else if (node.cornerRadius) {
+    css['border-radius'] = px(node.cornerRadius);
+  } else if (node.type === 'ELLIPSE') {
+    css['border-radius'] = '50%';
+  }
+
+  Object.assign(css, effectsCss(node));
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    css.opacity = String(Math.round(node.opacity * 100) / 100);
+  }
+  if (BLEND_MODES[node.blendMode]) {
+    css['mix-blend-mode'] = BLEND_MODES[node.blendMode];
+  }
+
+  return css;
+}
+
+/**
+ * Traduce el estilo tipográfico de un nodo de texto a CSS
+ */
+export function textCss(node: any): CssDeclarations {
+  if (node.type !== 'TEXT') return {};
+
+  const style = node.style || {};
+  const css: CssDeclarations = {};
+
+  const fill = (node.fills || []).find((paint: any) => paint.visible !== false && paint.type !== 'IMAGE');
+  if (fill && fill.type === 'SOLID') {
+    css.color = cssColor(fill.color, fill.opacity);
+  } else if (fill) {
+    // Texto con degradado: el fondo recortado a la forma del texto
+    const gradient = gradientCss(fill);
+    if (gradient) {
+      css['background-image'] = gradient;
+      css['-webkit-background-clip'] = 'text';
+      css['background-clip'] = 'text';
+      css.color = 'transparent';
+    }
+  }
+  if (style.fontFamily) {
+    css['font-family'] = `'${style.fontFamily}', sans-serif`;
+  }
+  if (style.fontSize) {
+    css['font-size'] = px(style.fontSize);
+  }
+  if (style.fontWeight) {
+    css['font-weight'] = String(style.fontWeight);
+  }
+  if (style.italic) {
+    css['font-style'] = 'italic';
+  }
+  if (style.lineHeightUnit === 'FONT_SIZE_%' && style.lineHeightPercentFontSize) {
+    css['line-height'] = String(Math.round(style.lineHeightPercentFontSize) / 100);
+  } else if (style.lineHeightPx && style.lineHeightUnit !== 'INTRINSIC_%') {
+    css['line-height'] = px(style.lineHeightPx);
+  }
+  if (style.letterSpacing) {
+    css['letter-spacing'] = px(style.letterSpacing);
+  }
+  if (style.textAlignHorizontal && style.textAlignHorizontal !== 'LEFT') {
+    css['text-align'] = style.textAlignHorizontal === 'JUSTIFIED' ? 'justify' : style.textAlignHorizontal.toLowerCase();
+  }
+  if (style.textCase && TEXT_TRANSFORMS[style.textCase]) {
+    css['text-transform'] = TEXT_TRANSFORMS[style.textCase];
+  }
+  if (style.textDecoration && style.textDecoration !== 'NONE') {
+    css['text-decoration'] = style.textDecoration === 'STRIKETHROUGH' ? 'line-through' : 'underline';
+  }
+
+  // Truncado con puntos suspensivos, en una línea o limitado a `maxLines`
+  const maxLines = style.maxLines || node.maxLines;
+  if (style.textTruncation === 'ENDING' || node.textTruncation === 'ENDING') {
+    css.overflow = 'hidden';
+    css['text-overflow'] = 'ellipsis';
+    if (maxLines > 1) {
+      css.display = '-webkit-box';
+      css['-webkit-line-clamp'] = String(maxLines);
+      css['-webkit-box-orient'] = 'vertical';
+    } else {
+      css['white-space'] = 'nowrap';
+    }
+  }
+
+  return css;
+}
+
+/**
+ * Nombre de clase CSS en kebab-case a partir del nombre de un nodo, sin acentos ni caracteres especiales
+ */
+export function cssClassName(name: string): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+    .join('-');
+}
+
+/**
+ * Escribe una regla CSS con un selector y sus declaraciones
+ */
+export function formatCssRule(selector: string, css: CssDeclarations, indent: string = ''): string {
+  const declarations = Object.entries(css).map(([property, value]) => `${indent}  ${property}: ${value};`);
+  return `${indent}${selector} {\n${declarations.join('\n')}\n${indent}}\n`;
+}
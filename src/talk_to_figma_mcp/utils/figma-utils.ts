@@ -2,6 +2,8 @@
  * Funciones de utilidad para el procesamiento de datos de Figma
  */
 
+import { FigmaLineHeight, TextStyleProperties } from '../types/figma-types';
+
 /**
  * Convierte un color RGBA a formato hexadecimal
  */
@@ -33,8 +35,7 @@ export function filterFigmaNode(node: any) {
     filtered.fills = node.fills.map((fill: any) => {
       const processedFill = { ...fill };
 
-      // Remove boundVariables and imageRef
-      delete processedFill.boundVariables;
+      // Remove imageRef (boundVariables se conserva para saber qué variables usa el relleno)
       delete processedFill.imageRef;
 
       // Process gradientStops if present
@@ -45,8 +46,6 @@ export function filterFigmaNode(node: any) {
           if (processedStop.color) {
             processedStop.color = rgbaToHex(processedStop.color);
           }
-          // Remove boundVariables
-          delete processedStop.boundVariables;
           return processedStop;
         });
       }
@@ -63,8 +62,6 @@ export function filterFigmaNode(node: any) {
   if (node.strokes && node.strokes.length > 0) {
     filtered.strokes = node.strokes.map((stroke: any) => {
       const processedStroke = { ...stroke };
-      // Remove boundVariables
-      delete processedStroke.boundVariables;
       // Convert color to hex if present
       if (processedStroke.color) {
         processedStroke.color = rgbaToHex(processedStroke.color);
@@ -77,6 +74,11 @@ export function filterFigmaNode(node: any) {
     filtered.cornerRadius = node.cornerRadius;
   }
 
+  // Variables enlazadas a propiedades del nodo (rellenos, espaciados, radios...)
+  if (node.boundVariables && Object.keys(node.boundVariables).length > 0) {
+    filtered.boundVariables = node.boundVariables;
+  }
+
   if (node.absoluteBoundingBox) {
     filtered.absoluteBoundingBox = node.absoluteBoundingBox;
   }
@@ -157,4 +159,326 @@ export function componentNameFromFigma(name: string): string {
     .split(/\s+/)
     .map(word => word.charAt(0).toUpperCase() + word.slice(1))
     .join('');
-}
\ No newline at end of file
+}
+
+/**
+ * Escapa un texto para insertarlo en HTML, tanto en el contenido como en el valor de un atributo
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Separa el nombre de una variante (`Size=Large, State=Hover`) en sus pares propiedad/valor.
+ * Devuelve null si alguna parte del nombre no tiene el formato `Propiedad=Valor`
+ */
+export function parseVariantName(name: string): Array<{ property: string; value: string }> | null {
+  const pairs = String(name).split(',').map(part => {
+    const separator = part.indexOf('=');
+    return separator > 0
+      ? { property: part.slice(0, separator).trim(), value: part.slice(separator + 1).trim() }
+      : null;
+  });
+  return pairs.every(pair => pair !== null && pair.property && pair.value)
+    ? pairs as Array<{ property: string; value: string }>
+    : null;
+}
+
+/**
+ * Convierte el `style` (TypeStyle) de un nodo JSON_REST_V1 en las propiedades tipográficas
+ * que devuelve `get_styles` en el plugin
+ */
+export function textStyleFromTypeStyle(typeStyle: any): TextStyleProperties {
+  let lineHeight: FigmaLineHeight | undefined;
+  if (typeStyle.lineHeightUnit === 'INTRINSIC_%') {
+    lineHeight = { unit: 'AUTO' };
+  } else if (typeStyle.lineHeightUnit === 'FONT_SIZE_%' && typeStyle.lineHeightPercentFontSize !== undefined) {
+    lineHeight = { unit: 'PERCENT', value: typeStyle.lineHeightPercentFontSize };
+  } else if (typeStyle.lineHeightPx !== undefined) {
+    lineHeight = { unit: 'PIXELS', value: typeStyle.lineHeightPx };
+  }
+
+  return {
+    fontFamily: typeStyle.fontFamily,
+    fontStyle: typeStyle.fontStyle || (typeStyle.italic ? "Italic" : "Regular"),
+    fontWeight: typeStyle.fontWeight,
+    fontSize: typeStyle.fontSize,
+    lineHeight,
+    // La API REST expresa el espaciado entre letras siempre en píxeles
+    letterSpacing: typeStyle.letterSpacing !== undefined
+      ? { unit: 'PIXELS', value: typeStyle.letterSpacing }
+      : undefined,
+    paragraphSpacing: typeStyle.paragraphSpacing ?? 0,
+    paragraphIndent: typeStyle.paragraphIndent ?? 0,
+    textCase: typeStyle.textCase || 'ORIGINAL',
+    textDecoration: typeStyle.textDecoration || 'NONE'
+  };
+}
+
+/**
+ * Construye la respuesta de `get_document_info` a partir de un árbol JSON_REST_V1,
+ * usando la primera página como página actual (igual que el plugin)
+ */
+export function buildDocumentInfo(document: any): any {
+  const pages = document.type === 'DOCUMENT' && Array.isArray(document.children)
+    ? document.children.filter((child: any) => child.type === 'CANVAS')
+    : [document];
+  const page = pages[0] || document;
+  const children = Array.isArray(page.children) ? page.children : [];
+
+  return {
+    name: page.name,
+    id: page.id,
+    type: page.type,
+    children: children.map((node: any) => ({
+      id: node.id,
+      name: node.name,
+      type: node.type,
+    })),
+    currentPage: {
+      id: page.id,
+      name: page.name,
+      childCount: children.length,
+    },
+    pages: pages.map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      childCount: Array.isArray(p.children) ? p.children.length : 0,
+    })),
+  };
+}
+
+/**
+ * Parámetros del recorrido de páginas de `get_document_info`
+ */
+export interface DocumentWalkOptions {
+  pageIds?: string[];
+  allPages?: boolean;
+  offset?: number;
+  limit?: number;
+  depth?: number;
+}
+
+/**
+ * Indica si `get_document_info` debe recorrer páginas en lugar de resumir la página actual
+ */
+export function isDocumentWalk(options: DocumentWalkOptions = {}): boolean {
+  return options.allPages === true || (Array.isArray(options.pageIds) && options.pageIds.length > 0);
+}
+
+/**
+ * Recorta un árbol JSON_REST_V1 a la profundidad indicada (sin límite si no se indica)
+ */
+export function limitNodeDepth(node: any, depth?: number): any {
+  if (depth === undefined || depth === null || !node || !Array.isArray(node.children)) {
+    return node;
+  }
+
+  if (depth <= 0) {
+    const { children, ...rest } = node;
+    return { ...rest, childCount: children.length };
+  }
+
+  return {
+    ...node,
+    children: node.children.map((child: any) => limitNodeDepth(child, depth - 1))
+  };
+}
+
+/**
+ * Resume el contenido de una página recorrida: número de nodos y nodos por tipo
+ */
+export function summarizePage(page: any): any {
+  const nodeTypes: Record<string, number> = {};
+  let nodeCount = 0;
+
+  const countNodes = (node: any): void => {
+    nodeCount++;
+    nodeTypes[node.type] = (nodeTypes[node.type] || 0) + 1;
+    if (Array.isArray(node.children)) {
+      node.children.forEach(countNodes);
+    }
+  };
+
+  const children = Array.isArray(page.children) ? page.children : [];
+  children.forEach(countNodes);
+
+  return {
+    id: page.id,
+    name: page.name,
+    childCount: children.length,
+    nodeCount,
+    nodeTypes
+  };
+}
+
+/**
+ * Recorre por lotes las páginas de un documento JSON_REST_V1, con la misma forma que devuelve el plugin.
+ * `loadPage` permite obtener el árbol completo de cada página y `onPage` recibe el resumen de cada una
+ */
+export async function walkDocumentPages(
+  document: any,
+  options: DocumentWalkOptions,
+  loadPage: (page: any) => Promise<any> = async page => page,
+  onPage?: (summary: any, processed: number, total: number) => void
+): Promise<any> {
+  const { pageIds, offset = 0, limit, depth } = options;
+  const documentPages = Array.isArray(document.children)
+    ? document.children.filter((child: any) => child.type === 'CANVAS')
+    : [];
+
+  let selectedPages = documentPages;
+  if (Array.isArray(pageIds) && pageIds.length > 0) {
+    selectedPages = pageIds.map(pageId => {
+      const page = documentPages.find((p: any) => p.id === pageId);
+      if (!page) {
+        throw new Error(`Page not found with ID: ${pageId}`);
+      }
+      return page;
+    });
+  }
+
+  const end = limit ? Math.min(offset + limit, selectedPages.length) : selectedPages.length;
+  const batch = selectedPages.slice(offset, end);
+
+  const pages: any[] = [];
+  for (const page of batch) {
+    const loadedPage = await loadPage(page);
+    const children = Array.isArray(loadedPage.children) ? loadedPage.children : [];
+    const walkedPage = {
+      id: page.id,
+      name: page.name,
+      type: page.type,
+      children: children.map((child: any) => limitNodeDepth(child, depth))
+    };
+    pages.push(walkedPage);
+    onPage?.(summarizePage(walkedPage), pages.length, batch.length);
+  }
+
+  const currentPage = documentPages[0] || document;
+
+  return {
+    name: document.name,
+    id: document.id,
+    type: document.type,
+    children: pages,
+    currentPage: {
+      id: currentPage.id,
+      name: currentPage.name,
+      childCount: Array.isArray(currentPage.children) ? currentPage.children.length : 0,
+    },
+    pages: documentPages.map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      childCount: Array.isArray(p.children) ? p.children.length : 0,
+    })),
+    pagination: {
+      offset,
+      limit: limit || null,
+      totalPages: selectedPages.length,
+      nextOffset: end < selectedPages.length ? end : null,
+    },
+  };
+}
+
+/**
+ * Recorre un nodo JSON_REST_V1 en busca de nodos de texto visibles, con la misma forma que `scan_text_nodes`
+ */
+export function collectTextNodes(root: any): { message: string; count: number; textNodes: any[] } {
+  const textNodes: any[] = [];
+
+  const findTextNodes = (node: any, parentPath: string[], depth: number): void => {
+    if (node.visible === false) return;
+
+    const nodePath = [...parentPath, node.name || `Unnamed ${node.type}`];
+
+    if (node.type === 'TEXT') {
+      const box = node.absoluteBoundingBox || {};
+      textNodes.push({
+        id: node.id,
+        name: node.name || "Text",
+        type: node.type,
+        characters: node.characters,
+        fontSize: node.style?.fontSize || 0,
+        fontFamily: node.style?.fontFamily || "",
+        fontStyle: node.style?.fontStyle || "",
+        x: box.x || 0,
+        y: box.y || 0,
+        width: box.width || 0,
+        height: box.height || 0,
+        path: nodePath.join(" > "),
+        depth,
+      });
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach((child: any) => findTextNodes(child, nodePath, depth + 1));
+    }
+  };
+
+  findTextNodes(root, [], 0);
+
+  return {
+    message: `Scanned ${textNodes.length} text nodes.`,
+    count: textNodes.length,
+    textNodes
+  };
+}
+
+/**
+ * Reconstruye los segmentos de texto de un nodo JSON_REST_V1 a partir de
+ * `characterStyleOverrides` y `styleOverrideTable`
+ */
+export function buildStyledTextSegments(node: any, property: string): any {
+  if (node.type !== 'TEXT') {
+    throw new Error(`Node is not a text node: ${node.id}`);
+  }
+
+  const characters: string = node.characters || '';
+  const overrides: number[] = node.characterStyleOverrides || [];
+  const overrideTable = node.styleOverrideTable || {};
+
+  const segmentValue = (overrideId: number): any => {
+    const style = { ...(node.style || {}), ...(overrideTable[overrideId] || {}) };
+
+    switch (property) {
+      case 'fontName':
+        return { family: style.fontFamily || "", style: style.fontStyle || (style.italic ? "Italic" : "Regular") };
+      case 'letterSpacing':
+        return { value: style.letterSpacing || 0, unit: "PIXELS" };
+      case 'lineHeight':
+        return style.lineHeightUnit === 'FONT_SIZE_%'
+          ? { value: style.lineHeightPercentFontSize || 0, unit: "PERCENT" }
+          : { value: style.lineHeightPx || 0, unit: "PIXELS" };
+      case 'fills':
+        return style.fills || node.fills || [];
+      case 'fillStyleId':
+        return node.styles?.fill || "";
+      case 'textStyleId':
+        return node.styles?.text || "";
+      default:
+        return style[property];
+    }
+  };
+
+  // Agrupar caracteres consecutivos con el mismo valor de la propiedad
+  const segments: any[] = [];
+  for (let i = 0; i < characters.length; i++) {
+    const value = segmentValue(overrides[i] || 0);
+    const last = segments[segments.length - 1];
+
+    if (last && JSON.stringify(last[property]) === JSON.stringify(value)) {
+      last.characters += characters[i];
+      last.end = i + 1;
+    } else {
+      segments.push({ characters: characters[i], start: i, end: i + 1, [property]: value });
+    }
+  }
+
+  return {
+    id: node.id,
+    name: node.name,
+    property,
+    segments
+  };
+}
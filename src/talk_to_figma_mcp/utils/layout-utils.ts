@@ -0,0 +1,327 @@
+/**
+ * Funciones de utilidad para traducir el autolayout, el tamaño y las restricciones de Figma a CSS
+ * (flexbox, grid y posicionamiento absoluto)
+ */
+
+import { CssDeclarations, px, textCss, visualCss } from './css-utils';
+
+/**
+ * Modo de tamaño de un nodo en un eje: fijo, ajustado al contenido o que ocupa el espacio libre
+ */
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * Alineación del eje principal del autolayout como `justify-content`
+ */
+const JUSTIFY_CONTENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between'
+};
+
+/**
+ * Alineación del eje secundario del autolayout como `align-items`
+ */
+const ALIGN_ITEMS: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline'
+};
+
+/**
+ * Alineación propia de un hijo (`layoutAlign` y alineación en celdas de grid) como `align-self`/`justify-self`
+ */
+const SELF_ALIGNMENT: Record<string, string> = {
+  MIN: 'start',
+  CENTER: 'center',
+  MAX: 'end',
+  STRETCH: 'stretch'
+};
+
+/**
+ * Tipos de nodo cuyos hijos se posicionan con coordenadas cuando no tienen autolayout
+ */
+const POSITIONING_CONTAINERS = new Set(['FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION']);
+
+/**
+ * Indica si el nodo tiene autolayout de flexbox (horizontal o vertical)
+ */
+export function hasFlexLayout(node: any): boolean {
+  return node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL';
+}
+
+/**
+ * Indica si el nodo tiene autolayout de grid
+ */
+export function hasGridLayout(node: any): boolean {
+  return node.layoutMode === 'GRID';
+}
+
+/**
+ * Indica si el nodo se posiciona de forma absoluta dentro de su padre: porque lo ignora el
+ * autolayout (`layoutPositioning: ABSOLUTE`) o porque el padre no tiene autolayout
+ */
+export function isAbsolutelyPositioned(node: any, parent: any): boolean {
+  if (!parent) return false;
+  if (node.layoutPositioning === 'ABSOLUTE') return true;
+  return !hasFlexLayout(parent) && !hasGridLayout(parent) && POSITIONING_CONTAINERS.has(parent.type);
+}
+
+/**
+ * Ancho y alto del nodo (`size` si está disponible; si no, su caja absoluta)
+ */
+function nodeSize(node: any): { width: number; height: number } | null {
+  if (node.size) return { width: node.size.x, height: node.size.y };
+  if (node.absoluteBoundingBox) return { width: node.absoluteBoundingBox.width, height: node.absoluteBoundingBox.height };
+  return null;
+}
+
+/**
+ * Modo de tamaño de un nodo en un eje. Usa `layoutSizingHorizontal`/`layoutSizingVertical` y,
+ * en los archivos que no los tienen, las propiedades anteriores (`layoutGrow`, `layoutAlign`,
+ * los modos de tamaño del autolayout y el ajuste automático de los textos)
+ */
+export function layoutSizing(node: any, parent: any, axis: 'horizontal' | 'vertical'): LayoutSizing {
+  const explicit = axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  if (explicit) return explicit;
+
+  if (parent && hasFlexLayout(parent) && !isAbsolutelyPositioned(node, parent)) {
+    const primaryAxis = (parent.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    if (primaryAxis && node.layoutGrow === 1) return 'FILL';
+    if (!primaryAxis && node.layoutAlign === 'STRETCH') return 'FILL';
+  }
+
+  if (node.type === 'TEXT') {
+    const autoResize = node.style?.textAutoResize;
+    if (autoResize === 'WIDTH_AND_HEIGHT') return 'HUG';
+    if (autoResize === 'HEIGHT' && axis === 'vertical') return 'HUG';
+    return 'FIXED';
+  }
+
+  if (hasFlexLayout(node)) {
+    const primaryAxis = (node.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    const sizingMode = primaryAxis ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    // En la API REST el modo por defecto es AUTO (ajustado al contenido)
+    return sizingMode === 'FIXED' ? 'FIXED' : 'HUG';
+  }
+
+  return 'FIXED';
+}
+
+/**
+ * Traduce el autolayout de un contenedor a flexbox o grid
+ */
+export function containerLayoutCss(node: any): CssDeclarations {
+  const css: CssDeclarations = {};
+
+  if (hasFlexLayout(node)) {
+    const horizontal = node.layoutMode === 'HORIZONTAL';
+    css.display = 'flex';
+    css['flex-direction'] = horizontal ? 'row' : 'column';
+    if (node.layoutWrap === 'WRAP') {
+      css['flex-wrap'] = 'wrap';
+    }
+
+    const justify = JUSTIFY_CONTENT[node.primaryAxisAlignItems || 'MIN'];
+    if (justify && justify !== 'flex-start') {
+      css['justify-content'] = justify;
+    }
+    // Figma no estira los hijos salvo que lo pidan, al contrario que el `stretch` por defecto de CSS
+    css['align-items'] = ALIGN_ITEMS[node.counterAxisAlignItems || 'MIN'] || 'flex-start';
+    if (node.layoutWrap === 'WRAP' && node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+      css['align-content'] = 'space-between';
+    }
+
+    // Con `space-between` Figma ignora el espaciado entre elementos; CSS no admite espaciados negativos
+    const itemSpacing = node.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : Math.max(node.itemSpacing || 0, 0);
+    if (node.layoutWrap === 'WRAP' && node.counterAxisSpacing) {
+      css[horizontal ? 'row-gap' : 'column-gap'] = px(node.counterAxisSpacing);
+      if (itemSpacing) {
+        css[horizontal ? 'column-gap' : 'row-gap'] = px(itemSpacing);
+      }
+    } else if (itemSpacing) {
+      css.gap = px(itemSpacing);
+    }
+  } else if (hasGridLayout(node)) {
+    css.display = 'grid';
+    css['grid-template-columns'] = typeof node.gridColumnsSizing === 'string' && node.gridColumnsSizing
+      ? node.gridColumnsSizing
+      : `repeat(${node.gridColumnCount || 1}, minmax(0, 1fr))`;
+    css['grid-template-rows'] = typeof node.gridRowsSizing === 'string' && node.gridRowsSizing
+      ? node.gridRowsSizing
+      : `repeat(${node.gridRowCount || 1}, auto)`;
+    const rowGap = node.gridRowGap || 0;
+    const columnGap = node.gridColumnGap || 0;
+    if (rowGap || columnGap) {
+      css.gap = rowGap === columnGap ? px(rowGap) : `${px(rowGap)} ${px(columnGap)}`;
+    }
+  } else {
+    return css;
+  }
+
+  const padding = [node.paddingTop, node.paddingRight, node.paddingBottom, node.paddingLeft].map(value => value || 0);
+  if (padding.some(value => value > 0)) {
+    css.padding = padding[0] === padding[2] && padding[1] === padding[3]
+      ? (padding[0] === padding[1] ? px(padding[0]) : `${px(padding[0])} ${px(padding[1])}`)
+      : padding.map(px).join(' ');
+    // En Figma el relleno interior forma parte del tamaño del marco
+    css['box-sizing'] = 'border-box';
+  }
+
+  return css;
+}
+
+/**
+ * Posición absoluta de un hijo según sus restricciones respecto al padre
+ */
+function absolutePositionCss(node: any, parent: any): CssDeclarations {
+  const css: CssDeclarations = { position: 'absolute' };
+  const box = node.absoluteBoundingBox;
+  const parentBox = parent.absoluteBoundingBox;
+  if (!box || !parentBox) return css;
+
+  const constraints = node.constraints || {};
+  const transforms: string[] = [];
+  const axes: [string, number, number, number, string, string, string][] = [
+    [constraints.horizontal || 'LEFT', box.x - parentBox.x, box.width, parentBox.width, 'left', 'right', 'X'],
+    [constraints.vertical || 'TOP', box.y - parentBox.y, box.height, parentBox.height, 'top', 'bottom', 'Y']
+  ];
+
+  axes.forEach(([constraint, offset, size, parentSize, start, end, axis]) => {
+    switch (constraint) {
+      case 'RIGHT':
+      case 'BOTTOM':
+        css[end] = px(parentSize - offset - size);
+        break;
+      case 'CENTER': {
+        // Desplazamiento del centro del hijo respecto al centro del padre
+        const delta = Math.round((offset + size / 2 - parentSize / 2) * 100) / 100;
+        css[start] = delta === 0 ? '50%' : `calc(50% ${delta < 0 ? '-' : '+'} ${px(Math.abs(delta))})`;
+        transforms.push(`translate${axis}(-50%)`);
+        break;
+      }
+      case 'LEFT_RIGHT':
+      case 'TOP_BOTTOM':
+        css[start] = px(offset);
+        css[end] = px(parentSize - offset - size);
+        break;
+      case 'SCALE':
+        if (parentSize > 0) {
+          const percent = (value: number) => `${Math.round((value / parentSize) * 10000) / 100}%`;
+          css[start] = percent(offset);
+          css[end] = percent(parentSize - offset - size);
+        }
+        break;
+      default:
+        css[start] = px(offset);
+    }
+  });
+
+  if (transforms.length > 0) {
+    css.transform = transforms.join(' ');
+  }
+
+  return css;
+}
+
+/**
+ * Traduce cómo se coloca y dimensiona un nodo dentro de su padre: posición absoluta, tamaño
+ * fijo/ajustado/de relleno (`width`, `fit-content`, `flex: 1`), celdas de grid y límites mínimo/máximo
+ */
+export function childLayoutCss(node: any, parent: any): CssDeclarations {
+  const absolute = isAbsolutelyPositioned(node, parent);
+  const css: CssDeclarations = absolute ? absolutePositionCss(node, parent) : {};
+  const constraints = node.constraints || {};
+  const size = nodeSize(node);
+  const flexParent = parent && hasFlexLayout(parent) && !absolute;
+  const gridParent = parent && hasGridLayout(parent) && !absolute;
+
+  (['horizontal', 'vertical'] as const).forEach(axis => {
+    const dimension = axis === 'horizontal' ? 'width' : 'height';
+    // Con restricciones de estirar o escalar el tamaño lo fijan los desplazamientos
+    if (absolute && ['LEFT_RIGHT', 'TOP_BOTTOM', 'SCALE'].includes(constraints[axis])) return;
+
+    const primaryAxis = flexParent && (parent.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    const sizing = layoutSizing(node, parent, axis);
+
+    if (sizing === 'FILL') {
+      if (primaryAxis) {
+        css.flex = '1';
+        // Figma permite que un hijo de relleno se encoja por debajo de su contenido
+        css[`min-${dimension}`] = '0';
+      } else if (flexParent) {
+        css['align-self'] = 'stretch';
+      } else if (gridParent) {
+        css[axis === 'horizontal' ? 'justify-self' : 'align-self'] = 'stretch';
+      } else {
+        css[dimension] = '100%';
+      }
+    } else if (sizing === 'HUG') {
+      if (axis === 'horizontal') {
+        css.width = 'fit-content';
+        if (node.type === 'TEXT') {
+          css['white-space'] = 'nowrap';
+        }
+      }
+    } else if (size) {
+      css[dimension] = px(axis === 'horizontal' ? size.width : size.height);
+      if (primaryAxis) {
+        css['flex-shrink'] = '0';
+      }
+    }
+  });
+
+  // Alineación propia (propiedad anterior a layoutSizing) y celdas de grid
+  if (flexParent && node.layoutAlign && ['MIN', 'CENTER', 'MAX'].includes(node.layoutAlign)) {
+    css['align-self'] = SELF_ALIGNMENT[node.layoutAlign];
+  }
+  if (gridParent) {
+    if (node.gridColumnAnchorIndex !== undefined) {
+      css['grid-column'] = `${node.gridColumnAnchorIndex + 1} / span ${node.gridColumnSpan || 1}`;
+    }
+    if (node.gridRowAnchorIndex !== undefined) {
+      css['grid-row'] = `${node.gridRowAnchorIndex + 1} / span ${node.gridRowSpan || 1}`;
+    }
+    if (SELF_ALIGNMENT[node.gridChildHorizontalAlign]) {
+      css['justify-self'] = SELF_ALIGNMENT[node.gridChildHorizontalAlign];
+    }
+    if (SELF_ALIGNMENT[node.gridChildVerticalAlign]) {
+      css['align-self'] = SELF_ALIGNMENT[node.gridChildVerticalAlign];
+    }
+  }
+
+  if (node.minWidth) css['min-width'] = px(node.minWidth);
+  if (node.maxWidth) css['max-width'] = px(node.maxWidth);
+  if (node.minHeight) css['min-height'] = px(node.minHeight);
+  if (node.maxHeight) css['max-height'] = px(node.maxHeight);
+
+  return css;
+}
+
+/**
+ * Traduce el layout completo de un nodo: su colocación en el padre y la disposición de sus hijos.
+ * Sin padre (nodo raíz) solo se aplican el tamaño y el autolayout propio
+ */
+export function layoutCss(node: any, parent: any = null): CssDeclarations {
+  const css: CssDeclarations = { ...childLayoutCss(node, parent), ...containerLayoutCss(node) };
+  const children = (node.children || []).filter((child: any) => child.visible !== false);
+
+  // Los hijos absolutos se posicionan respecto a este nodo
+  if (!css.position && children.some((child: any) => isAbsolutelyPositioned(child, node))) {
+    css.position = 'relative';
+  }
+  if (node.clipsContent && children.length > 0) {
+    css.overflow = 'hidden';
+  }
+
+  return css;
+}
+
+/**
+ * Declaraciones CSS completas de un nodo: layout, aspecto y tipografía
+ */
+export function nodeCss(node: any, parent: any = null): CssDeclarations {
+  return { ...layoutCss(node, parent), ...visualCss(node), ...textCss(node) };
+}
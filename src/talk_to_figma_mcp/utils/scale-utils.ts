@@ -0,0 +1,279 @@
+/**
+ * Funciones de utilidad para detectar las escalas de espaciado y tipografía de un documento
+ */
+
+import { textStyleFromTypeStyle } from './figma-utils';
+
+/**
+ * Valor encontrado en el documento y los nodos que lo usan
+ */
+export interface ScaleValue {
+  value: number;
+  nodeIds: string[];
+}
+
+/**
+ * Valor que pertenece a la escala, con el paso que ocupa y su nombre
+ */
+export interface ScaleStep {
+  value: number;
+  step: number;
+  name: string;
+  nodeIds: string[];
+}
+
+/**
+ * Valor fuera de la escala con el valor de la escala más cercano
+ */
+export interface OffScaleValue {
+  value: number;
+  suggestion: number;
+  suggestedStep: string;
+  nodeIds: string[];
+}
+
+/**
+ * Retícula de espaciado (4pt, 8pt...) detectada
+ */
+export interface SpacingScale {
+  base: number;
+  coverage: number;
+  steps: ScaleStep[];
+  offScale: OffScaleValue[];
+}
+
+/**
+ * Escala tipográfica modular (tamaño base × razón^paso) detectada
+ */
+export interface TypeScale {
+  base: number;
+  ratio: number;
+  ratioName: string;
+  coverage: number;
+  steps: ScaleStep[];
+  offScale: OffScaleValue[];
+}
+
+/**
+ * Bases de retícula candidatas, de la más restrictiva a la menos
+ */
+const GRID_BASES = [8, 6, 5, 4, 3, 2];
+
+/**
+ * Razones de escala tipográfica habituales
+ */
+const TYPE_RATIOS: [number, string][] = [
+  [1.067, 'minor-second'],
+  [1.125, 'major-second'],
+  [1.2, 'minor-third'],
+  [1.25, 'major-third'],
+  [1.333, 'perfect-fourth'],
+  [1.414, 'augmented-fourth'],
+  [1.5, 'perfect-fifth'],
+  [1.618, 'golden-ratio']
+];
+
+/**
+ * Proporción de usos (nodos) cuyos valores cumplen la condición
+ */
+function usageCoverage(values: ScaleValue[], fits: (value: number) => boolean): number {
+  const total = values.reduce((sum, entry) => sum + entry.nodeIds.length, 0);
+  if (total === 0) return 0;
+  const covered = values.filter(entry => fits(entry.value)).reduce((sum, entry) => sum + entry.nodeIds.length, 0);
+  return Math.round((covered / total) * 100) / 100;
+}
+
+/**
+ * Nombre del paso de una retícula: el múltiplo de la base (`0-5` para medio paso)
+ */
+function gridStepName(step: number): string {
+  return String(step).replace('.', '-');
+}
+
+/**
+ * Detecta la retícula de espaciado: la base que mejor cubre los usos y, a igual cobertura, la mayor
+ * (4/8/12/16/24 es una retícula de 4 aunque la de 8 cubra casi todo). Los valores son múltiplos de
+ * la base o medio paso
+ */
+export function detectSpacingScale(values: ScaleValue[]): SpacingScale | null {
+  const nonZero = values.filter(entry => entry.value > 0);
+  if (nonZero.length === 0) return null;
+
+  const fitsGrid = (base: number) => (value: number) => value % base === 0 || value === base / 2;
+  let base = GRID_BASES[0];
+  let coverage = -1;
+  for (const candidate of GRID_BASES) {
+    const candidateCoverage = usageCoverage(nonZero, fitsGrid(candidate));
+    if (candidateCoverage > coverage) {
+      base = candidate;
+      coverage = candidateCoverage;
+    }
+  }
+
+  const steps: ScaleStep[] = [];
+  const offScale: OffScaleValue[] = [];
+  [...values].sort((a, b) => a.value - b.value).forEach(entry => {
+    if (entry.value === 0 || fitsGrid(base)(entry.value)) {
+      const step = entry.value / base;
+      steps.push({ value: entry.value, step, name: gridStepName(step), nodeIds: entry.nodeIds });
+      return;
+    }
+
+    // Múltiplo de la base más cercano; por debajo de la base, el medio paso
+    const suggestion = [Math.round(entry.value / base) * base, base / 2]
+      .filter(candidate => candidate > 0)
+      .sort((a, b) => Math.abs(a - entry.value) - Math.abs(b - entry.value) || b - a)[0];
+    offScale.push({
+      value: entry.value,
+      suggestion,
+      suggestedStep: gridStepName(suggestion / base),
+      nodeIds: entry.nodeIds
+    });
+  });
+
+  return { base, coverage, steps, offScale };
+}
+
+/**
+ * Nombre de un paso de la escala tipográfica relativo al tamaño base
+ * (`base`, `lg`, `xl`, `2xl`... hacia arriba y `sm`, `xs`, `2xs`... hacia abajo)
+ */
+export function typeScaleStepName(step: number): string {
+  if (step === 0) return 'base';
+  if (step === 1) return 'lg';
+  if (step === -1) return 'sm';
+  if (step > 0) return step === 2 ? 'xl' : `${step - 1}xl`;
+  return step === -2 ? 'xs' : `${-step - 1}xs`;
+}
+
+/**
+ * Paso de la escala más cercano a un tamaño y si el tamaño está dentro de la tolerancia
+ * (1px o el 3% del tamaño esperado, ya que los diseños redondean los tamaños a píxeles enteros).
+ * `error` es la distancia al paso en fracciones de paso, comparable entre razones
+ */
+function nearestTypeStep(size: number, base: number, ratio: number): { step: number; expected: number; fits: boolean; error: number } {
+  const exactStep = Math.log(size / base) / Math.log(ratio);
+  const step = Math.round(exactStep);
+  const expected = base * Math.pow(ratio, step);
+  return {
+    step,
+    expected,
+    fits: Math.abs(size - expected) <= Math.max(1, expected * 0.03),
+    error: Math.abs(exactStep - step)
+  };
+}
+
+/**
+ * Detecta la escala tipográfica modular. El tamaño base es el más usado entre 14 y 18px
+ * (el texto de cuerpo) y la razón, la de las habituales con menor error medio entre los tamaños
+ * distintos (sin ponderar por usos: el texto de cuerpo no decide la razón). Cada paso lleva un
+ * único tamaño, el más cercano al teórico; los demás tamaños del mismo paso quedan fuera de escala
+ */
+export function detectTypeScale(values: ScaleValue[]): TypeScale | null {
+  const sizes = values.filter(entry => entry.value > 0);
+  if (sizes.length < 3) return null;
+
+  const byUsage = [...sizes].sort((a, b) => b.nodeIds.length - a.nodeIds.length);
+  const base = (byUsage.find(entry => entry.value >= 14 && entry.value <= 18) || byUsage[0]).value;
+
+  const fitError = (ratio: number) =>
+    sizes.reduce((sum, entry) => sum + nearestTypeStep(entry.value, base, ratio).error, 0) / sizes.length;
+  const ratio = TYPE_RATIOS.reduce((best, candidate) => fitError(candidate[0]) < fitError(best[0]) ? candidate : best);
+
+  // Un tamaño por paso: el más cercano al tamaño teórico y, a igual distancia, el más usado
+  const nearest = sizes.map(entry => ({ entry, ...nearestTypeStep(entry.value, base, ratio[0]) }));
+  const stepOwners = new Map<number, ScaleValue>();
+  nearest
+    .filter(candidate => candidate.fits)
+    .sort((a, b) => Math.abs(a.entry.value - a.expected) - Math.abs(b.entry.value - b.expected) ||
+      b.entry.nodeIds.length - a.entry.nodeIds.length)
+    .forEach(candidate => {
+      if (!stepOwners.has(candidate.step)) stepOwners.set(candidate.step, candidate.entry);
+    });
+
+  const steps: ScaleStep[] = [];
+  const offScale: { entry: ScaleValue; step: number; expected: number }[] = [];
+  nearest.sort((a, b) => a.entry.value - b.entry.value).forEach(({ entry, step, expected }) => {
+    if (stepOwners.get(step) === entry) {
+      steps.push({ value: entry.value, step, name: typeScaleStepName(step), nodeIds: entry.nodeIds });
+    } else {
+      offScale.push({ entry, step, expected });
+    }
+  });
+  const coverage = usageCoverage(sizes, size => steps.some(step => step.value === size));
+
+  // Se sugiere el tamaño que ya ocupa ese paso de la escala o, si no hay ninguno, el teórico
+  const suggestions = offScale.map(({ entry, step, expected }) => {
+    const used = stepOwners.get(step);
+    return {
+      value: entry.value,
+      suggestion: used ? used.value : Math.round(expected),
+      suggestedStep: typeScaleStepName(step),
+      nodeIds: entry.nodeIds
+    };
+  });
+
+  return { base, ratio: ratio[0], ratioName: ratio[1], coverage, steps, offScale: suggestions };
+}
+
+/**
+ * Infiere los estilos de texto de un árbol de nodos (uno por familia, peso y tamaño) y los nombra
+ * por su paso en la escala tipográfica detectada (`2xl/700`, `base/400`...)
+ */
+export function inferTextStyles(root: any): { texts: any[]; typeScale: TypeScale | null } {
+  const texts = new Map<string, any>();
+  const fontSizes = new Map<number, string[]>();
+
+  const collect = (node: any) => {
+    if (!node) return;
+
+    if (node.type === 'TEXT' && node.style) {
+      const { fontFamily, fontWeight, fontSize } = node.style;
+      if (fontFamily && fontSize) {
+        const textKey = `${fontFamily}-${fontWeight}-${fontSize}`;
+        if (!texts.has(textKey)) {
+          texts.set(textKey, {
+            id: `inferred-${textKey}`,
+            type: 'TEXT',
+            style: textStyleFromTypeStyle(node.style),
+            description: 'Estilo de texto inferido'
+          });
+        }
+        if (!fontSizes.has(fontSize)) {
+          fontSizes.set(fontSize, []);
+        }
+        fontSizes.get(fontSize)!.push(node.id);
+      }
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(collect);
+    }
+  };
+  collect(root);
+
+  const typeScale = detectTypeScale(Array.from(fontSizes, ([value, nodeIds]) => ({ value, nodeIds })));
+  const textNames = new Set<string>();
+  texts.forEach(text => {
+    const { fontSize, fontWeight } = text.style;
+    const scaleStep = typeScale && typeScale.steps.find(step => step.value === fontSize);
+    const offScale = typeScale && typeScale.offScale.find(entry => entry.value === fontSize);
+    const stepName = scaleStep ? scaleStep.name : `${fontSize}px`;
+
+    let name = `${stepName}/${fontWeight || 'regular'}`;
+    if (textNames.has(name)) {
+      name = `${name}-${fontSize}px`;
+    }
+    textNames.add(name);
+
+    text.key = name.replace(/\//g, '-');
+    text.name = name;
+    if (scaleStep) {
+      text.description = `Estilo de texto inferido (paso ${scaleStep.name} de la escala ${typeScale!.ratioName} de ${typeScale!.base}px)`;
+    } else if (offScale) {
+      text.description = `Estilo de texto inferido fuera de escala (paso más cercano: ${offScale.suggestedStep}, ${offScale.suggestion}px)`;
+    }
+  });
+
+  return { texts: Array.from(texts.values()), typeScale };
+}
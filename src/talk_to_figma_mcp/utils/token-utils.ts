@@ -0,0 +1,958 @@
+/**
+ * Funciones de utilidad para comparar conjuntos de tokens de diseño entre sí y con el código
+ */
+
+import { TEXT_TRANSFORMS } from './css-utils';
+import { hexToRgb, kebabCase } from './figma-utils';
+
+/**
+ * Conjunto de tokens agrupados por tipo, tal como los devuelve `extract_design_tokens`
+ */
+export type TokenSet = Record<string, any[]>;
+
+/**
+ * Token identificado por su variable CSS
+ */
+export interface TokenEntry {
+  cssVariable: string;
+  tokenType: string;
+  type: string;
+  value: any;
+  opacity?: number;
+  modes?: Record<string, any>;
+}
+
+/**
+ * Diferencias entre dos conjuntos de tokens
+ */
+export interface TokenDiff {
+  added: TokenEntry[];
+  removed: TokenEntry[];
+  renamed: { from: string; to: string; type: string; value: any }[];
+  changed: { cssVariable: string; type: string; oldValue: any; newValue: any; oldModes?: Record<string, any>; newModes?: Record<string, any> }[];
+  unchangedCount: number;
+  breakingCssVariables: string[];
+}
+
+/**
+ * Nombre de la variable CSS de un token (el mismo que escribe la salida `css`)
+ */
+export function tokenCssVariable(token: any): string {
+  return `--${token.category ? `${token.category}-` : ''}${token.name}`;
+}
+
+/**
+ * Formatea las capas de sombra de un token como valor de `box-shadow`
+ */
+export function formatBoxShadow(layers: any[]): string | undefined {
+  const shadows = layers
+    .filter(layer => layer.type === 'dropShadow' || layer.type === 'innerShadow')
+    .map(layer => {
+      const color = layer.alpha !== undefined && layer.alpha < 1
+        ? `rgba(${hexToRgb(layer.color)}, ${Math.round(layer.alpha * 100) / 100})`
+        : layer.color;
+      return `${layer.type === 'innerShadow' ? 'inset ' : ''}${layer.x} ${layer.y} ${layer.blur} ${layer.spread} ${color}`;
+    });
+  return shadows.length > 0 ? shadows.join(', ') : undefined;
+}
+
+/**
+ * Variables CSS de un token como pares (sufijo del nombre, valor), tal como las escribe la salida `css`:
+ * una por propiedad de tipografía, el `box-shadow` con los desenfoques aparte y una por medida de
+ * cada retícula. Los demás tipos son una única variable sin sufijo
+ */
+export function tokenCssDeclarations(type: string, value: any, opacity?: number): Array<[string, string]> {
+  const declarations: Array<[string, string]> = [];
+  const add = (suffix: string, declarationValue: any) => {
+    if (declarationValue) declarations.push([suffix, String(declarationValue)]);
+  };
+
+  switch (type) {
+    case 'color':
+      add('', opacity !== undefined ? `rgba(${hexToRgb(value)}, ${opacity})` : value);
+      break;
+    case 'typography':
+      add('-font-family', value.fontFamily);
+      add('-font-size', value.fontSize);
+      add('-font-weight', value.fontWeight);
+      add('-line-height', value.lineHeight);
+      add('-letter-spacing', value.letterSpacing);
+      add('-font-style', value.fontStyle);
+      add('-paragraph-spacing', value.paragraphSpacing);
+      add('-text-transform', TEXT_TRANSFORMS[value.textCase]);
+      if (value.textDecoration) {
+        add('-text-decoration', String(value.textDecoration).toLowerCase().replace('strikethrough', 'line-through'));
+      }
+      break;
+    case 'shadow': {
+      const layers = value.layers || [];
+      const layerBlur = layers.find((layer: any) => layer.type === 'layerBlur');
+      const backgroundBlur = layers.find((layer: any) => layer.type === 'backgroundBlur');
+      if (layerBlur) add('-filter', `blur(${layerBlur.blur})`);
+      if (backgroundBlur) add('-backdrop-filter', `blur(${backgroundBlur.blur})`);
+      add('', formatBoxShadow(layers));
+      break;
+    }
+    case 'grid':
+      (value.grids || []).forEach((grid: any) => {
+        for (const property of ['count', 'size', 'gutter', 'margin']) {
+          if (grid[property] !== undefined) declarations.push([`-${grid.pattern}-${property}`, String(grid[property])]);
+        }
+      });
+      break;
+    default:
+      declarations.push(['', String(value)]);
+  }
+
+  return declarations;
+}
+
+/**
+ * Indexa un conjunto de tokens por el nombre de su variable CSS
+ */
+function indexTokenSet(tokens: TokenSet): Map<string, TokenEntry> {
+  const entries = new Map<string, TokenEntry>();
+  for (const tokenType in tokens) {
+    if (!Array.isArray(tokens[tokenType])) continue;
+    tokens[tokenType].forEach(token => {
+      entries.set(tokenCssVariable(token), {
+        cssVariable: tokenCssVariable(token),
+        tokenType,
+        type: token.type,
+        value: token.value,
+        ...(token.opacity !== undefined && { opacity: token.opacity }),
+        ...(token.modes && { modes: token.modes })
+      });
+    });
+  }
+  return entries;
+}
+
+/**
+ * Firma del valor de un token: dos tokens con la misma firma son intercambiables
+ */
+function valueSignature(entry: TokenEntry): string {
+  return JSON.stringify([entry.type, entry.value, entry.opacity ?? null, entry.modes ?? null]);
+}
+
+/**
+ * Compara dos conjuntos de tokens. Un token que desaparece y otro nuevo con el mismo
+ * tipo y valor se consideran un renombrado
+ */
+export function diffTokenSets(base: TokenSet, head: TokenSet): TokenDiff {
+  const baseEntries = indexTokenSet(base);
+  const headEntries = indexTokenSet(head);
+
+  const diff: TokenDiff = {
+    added: [],
+    removed: [],
+    renamed: [],
+    changed: [],
+    unchangedCount: 0,
+    breakingCssVariables: []
+  };
+
+  const removedCandidates: TokenEntry[] = [];
+  baseEntries.forEach((entry, cssVariable) => {
+    const headEntry = headEntries.get(cssVariable);
+    if (!headEntry) {
+      removedCandidates.push(entry);
+    } else if (valueSignature(entry) !== valueSignature(headEntry)) {
+      diff.changed.push({
+        cssVariable,
+        type: headEntry.type,
+        oldValue: entry.opacity !== undefined ? { value: entry.value, opacity: entry.opacity } : entry.value,
+        newValue: headEntry.opacity !== undefined ? { value: headEntry.value, opacity: headEntry.opacity } : headEntry.value,
+        ...((entry.modes || headEntry.modes) && { oldModes: entry.modes, newModes: headEntry.modes })
+      });
+    } else {
+      diff.unchangedCount++;
+    }
+  });
+
+  const addedCandidates = Array.from(headEntries.values()).filter(entry => !baseEntries.has(entry.cssVariable));
+
+  // Emparejar eliminados y añadidos con el mismo valor como renombrados
+  removedCandidates.forEach(entry => {
+    const matchIndex = addedCandidates.findIndex(candidate => valueSignature(candidate) === valueSignature(entry));
+    if (matchIndex >= 0) {
+      const [match] = addedCandidates.splice(matchIndex, 1);
+      diff.renamed.push({ from: entry.cssVariable, to: match.cssVariable, type: entry.type, value: entry.value });
+    } else {
+      diff.removed.push(entry);
+    }
+  });
+  diff.added = addedCandidates;
+
+  // Las variables CSS que dejan de existir rompen el código que las usa
+  diff.breakingCssVariables = [
+    ...diff.removed.map(entry => entry.cssVariable),
+    ...diff.renamed.map(entry => entry.from)
+  ].sort();
+
+  return diff;
+}
+
+/**
+ * Formatea un valor de token para mostrarlo en Markdown
+ */
+function formatDiffValue(value: any): string {
+  return `\`${typeof value === 'string' ? value : JSON.stringify(value)}\``;
+}
+
+/**
+ * Genera el resumen en Markdown de las diferencias entre dos conjuntos de tokens
+ */
+export function formatTokenDiffMarkdown(diff: TokenDiff, baseLabel: string, headLabel: string): string {
+  const lines: string[] = [`## Cambios en los tokens de diseño: ${baseLabel} → ${headLabel}`, ''];
+
+  lines.push(
+    `${diff.added.length} añadidos, ${diff.removed.length} eliminados, ${diff.renamed.length} renombrados, ` +
+    `${diff.changed.length} modificados, ${diff.unchangedCount} sin cambios.`
+  );
+
+  if (diff.breakingCssVariables.length > 0) {
+    lines.push('', '### ⚠️ Cambios incompatibles: variables CSS que dejan de existir', '');
+    diff.breakingCssVariables.forEach(cssVariable => lines.push(`- \`${cssVariable}\``));
+  }
+
+  if (diff.renamed.length > 0) {
+    lines.push('', '### Renombrados', '', '| Antes | Después | Valor |', '| --- | --- | --- |');
+    diff.renamed.forEach(entry => lines.push(`| \`${entry.from}\` | \`${entry.to}\` | ${formatDiffValue(entry.value)} |`));
+  }
+
+  if (diff.removed.length > 0) {
+    lines.push('', '### Eliminados', '', '| Token | Valor |', '| --- | --- |');
+    diff.removed.forEach(entry => lines.push(`| \`${entry.cssVariable}\` | ${formatDiffValue(entry.value)} |`));
+  }
+
+  if (diff.changed.length > 0) {
+    lines.push('', '### Modificados', '', '| Token | Valor anterior | Valor nuevo |', '| --- | --- | --- |');
+    diff.changed.forEach(entry =>
+      lines.push(`| \`${entry.cssVariable}\` | ${formatDiffValue(entry.oldValue)} | ${formatDiffValue(entry.newValue)} |`)
+    );
+  }
+
+  if (diff.added.length > 0) {
+    lines.push('', '### Añadidos', '', '| Token | Valor |', '| --- | --- |');
+    diff.added.forEach(entry => lines.push(`| \`${entry.cssVariable}\` | ${formatDiffValue(entry.value)} |`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Token leído de un fichero de código: nombre de variable CSS equivalente, valor y tema
+ */
+export interface CodeToken {
+  name: string;
+  value: string;
+  theme?: string;
+}
+
+/**
+ * Entrada de un fichero de tokens que no se ha podido leer como token, con el motivo
+ */
+export interface SkippedCodeToken {
+  name: string;
+  value: string;
+  reason: string;
+}
+
+/**
+ * Tokens leídos de un fichero y entradas que se han descartado al leerlo
+ */
+export interface ParsedTokenFile {
+  tokens: CodeToken[];
+  skipped: SkippedCodeToken[];
+}
+
+/**
+ * Formatos de fichero de tokens que entiende `parseTokenFile`
+ */
+export type TokenFileFormat = 'css' | 'scss' | 'json' | 'js' | 'ts';
+
+/**
+ * Grupos raíz que no forman parte del nombre del token (tipos de token de `extract_design_tokens`
+ * y claves de los temas CSS-in-JS)
+ */
+const TOKEN_GROUP_KEYS = new Set([
+  'colors', 'typography', 'spacing', 'shadows', 'radii', 'grids', 'variables', 'space'
+]);
+
+/**
+ * Deduce el formato de un fichero de tokens por su extensión
+ */
+export function detectTokenFileFormat(filePath: string): TokenFileFormat {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'css':
+    case 'scss':
+    case 'json':
+    case 'ts':
+      return extension;
+    case 'js':
+    case 'mjs':
+    case 'cjs':
+      return 'js';
+    default:
+      throw new Error(`Cannot detect the token format of ${filePath}; pass it explicitly`);
+  }
+}
+
+/**
+ * Convierte una ruta de grupos en nombre de variable CSS, sin el grupo de tipo de token. En DTCG
+ * la ruta es la del token en Figma (`spacing/1`), que no empieza por el tipo (`withTypeGroup: false`)
+ */
+function pathToCssVariable(path: string[], withTypeGroup = true): string {
+  const segments = withTypeGroup && path.length > 1 && TOKEN_GROUP_KEYS.has(path[0]) ? path.slice(1) : path;
+  return `--${segments.map(segment => kebabCase(segment)).join('-')}`;
+}
+
+/**
+ * Lee las variables CSS de un fichero; las de bloques `[data-theme="..."]` llevan su tema
+ */
+export function parseCssTokens(content: string): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const source = content.replace(/\/\*[\s\S]*?\*\//g, '');
+  const blockPattern = /([^{}]+)\{([^{}]*)\}/g;
+  let block: RegExpExecArray | null;
+  while ((block = blockPattern.exec(source)) !== null) {
+    const themeMatch = block[1].match(/data-theme\s*=\s*["']?([^"'\]]+)/);
+    // La última declaración de un bloque puede no llevar `;` antes de la llave de cierre
+    const declarationPattern = /(--[\w-]+)\s*:\s*([^;]+)(?:;|$)/g;
+    let declaration: RegExpExecArray | null;
+    while ((declaration = declarationPattern.exec(block[2])) !== null) {
+      tokens.push({
+        name: declaration[1],
+        value: declaration[2].trim(),
+        ...(themeMatch && { theme: themeMatch[1] })
+      });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Indica si el paréntesis en `start` abre un mapa de Sass (`(clave: ...` o el mapa vacío `()`)
+ * y no una lista
+ */
+function isScssMapStart(source: string, start: number): boolean {
+  const mapStart = /\(\s*(?:\)|(?:'[^']*'|"[^"]*"|[\w-]+)\s*:)/y;
+  mapStart.lastIndex = start;
+  return mapStart.test(source);
+}
+
+/**
+ * Lee un valor de Sass desde `start` hasta la coma, el paréntesis de cierre o el `;` de su
+ * mismo nivel (los paréntesis y comillas interiores forman parte del valor)
+ */
+function readScssValue(source: string, start: number): { value: string; end: number } {
+  let depth = 0;
+  let quote: string | null = null;
+  let i = start;
+  for (; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      if (depth === 0) break;
+      depth--;
+    } else if ((char === ',' || char === ';') && depth === 0) {
+      break;
+    }
+  }
+  return { value: source.slice(start, i).trim(), end: i };
+}
+
+/**
+ * Analiza un mapa de Sass `( 'clave': valor, ... )` empezando en `start` (el paréntesis de apertura).
+ * Los valores entre paréntesis que no son mapas (listas) se devuelven como texto
+ */
+function parseScssMap(source: string, start: number): { value: Record<string, any>; end: number } {
+  const map: Record<string, any> = {};
+  let i = start + 1;
+
+  const skipSeparators = () => {
+    while (i < source.length && /[\s,]/.test(source[i])) i++;
+  };
+
+  while (i < source.length) {
+    skipSeparators();
+    if (source[i] === ')') {
+      return { value: map, end: i + 1 };
+    }
+
+    // Clave, entre comillas o sin ellas
+    let key = '';
+    if (source[i] === "'" || source[i] === '"') {
+      const close = source.indexOf(source[i], i + 1);
+      if (close === -1) break;
+      key = source.slice(i + 1, close);
+      i = close + 1;
+    } else {
+      while (i < source.length && !/[:,;()]/.test(source[i])) key += source[i++];
+      key = key.trim();
+    }
+    while (/\s/.test(source[i])) i++;
+    if (source[i] !== ':') {
+      throw new Error(`Expected ":" after Sass map key "${key}"`);
+    }
+    i++;
+    while (/\s/.test(source[i])) i++;
+
+    if (source[i] === '(' && isScssMapStart(source, i)) {
+      const nested = parseScssMap(source, i);
+      map[key] = nested.value;
+      i = nested.end;
+    } else {
+      // Valor simple (o lista) hasta la siguiente coma o paréntesis de cierre del mismo nivel
+      const simple = readScssValue(source, i);
+      if (source[simple.end] === ';') break;
+      map[key] = simple.value;
+      i = simple.end;
+    }
+  }
+
+  throw new Error('Unterminated Sass map');
+}
+
+/**
+ * Posición del `;` que cierra la declaración de Sass que empieza en `start` (o el final del texto)
+ */
+function scssStatementEnd(source: string, start: number): number {
+  let i = start;
+  while (i < source.length) {
+    const { end } = readScssValue(source, i);
+    if (end >= source.length || source[end] === ';') return end;
+    i = end + 1;
+  }
+  return source.length;
+}
+
+/**
+ * Lee los tokens de un fichero SCSS: variables simples y mapas anidados. El mapa `$themes`
+ * (tema → tipo → categoría → token) aporta los valores de cada tema. Las listas y los mapas
+ * que no se pueden analizar se descartan y se devuelven en `skipped`
+ */
+export function parseScssTokens(content: string): ParsedTokenFile {
+  const source = content.replace(/\/\/[^\n]*/g, '').replace(/\/\*[\s\S]*?\*\//g, '');
+  const tokens: CodeToken[] = [];
+  const skipped: SkippedCodeToken[] = [];
+
+  const push = (name: string, value: string, theme?: string) => {
+    if (value.startsWith('(')) {
+      skipped.push({ name, value, reason: 'Lista de Sass: no corresponde a un único valor de token' });
+    } else {
+      tokens.push({ name, value, ...(theme && { theme }) });
+    }
+  };
+
+  const collect = (value: any, path: string[], theme?: string) => {
+    if (typeof value === 'object') {
+      for (const key in value) collect(value[key], [...path, key], theme);
+    } else {
+      push(pathToCssVariable(path), value, theme);
+    }
+  };
+
+  const variablePattern = /\$([\w-]+)\s*:\s*/g;
+  let variable: RegExpExecArray | null;
+  while ((variable = variablePattern.exec(source)) !== null) {
+    const valueStart = variablePattern.lastIndex;
+    const end = scssStatementEnd(source, valueStart);
+    variablePattern.lastIndex = end;
+
+    if (source[valueStart] === '(' && isScssMapStart(source, valueStart)) {
+      let parsed: { value: Record<string, any>; end: number };
+      try {
+        parsed = parseScssMap(source, valueStart);
+      } catch (error) {
+        skipped.push({
+          name: `--${variable[1]}`,
+          value: source.slice(valueStart, end).trim(),
+          reason: `Mapa de Sass no válido: ${error instanceof Error ? error.message : String(error)}`
+        });
+        continue;
+      }
+      if (variable[1] === 'themes') {
+        for (const theme in parsed.value) collect(parsed.value[theme], [], theme);
+      } else {
+        collect(parsed.value, [variable[1]]);
+      }
+    } else {
+      push(`--${variable[1]}`, source.slice(valueStart, end).trim());
+    }
+  }
+
+  return { tokens, skipped };
+}
+
+/**
+ * Variables CSS del valor de un token de un objeto (JSON propio o DTCG). Los valores compuestos se
+ * escriben como en la salida CSS: las sombras (`{ layers }` o las sombras DTCG) como `box-shadow`,
+ * las retículas por medida y la tipografía y el resto de objetos con una variable por propiedad
+ */
+function objectTokenDeclarations(type: string | undefined, value: any, opacity: number | undefined, dtcg: boolean): Array<[string, string]> {
+  if (value === null || value === undefined) return [];
+
+  if (typeof value !== 'object') {
+    return [['', opacity !== undefined ? `${value}/${opacity}` : String(value)]];
+  }
+
+  if (dtcg && type === 'shadow') {
+    const layers = (Array.isArray(value) ? value : [value]).map((shadow: any) => ({
+      type: shadow.inset ? 'innerShadow' : 'dropShadow',
+      color: shadow.color,
+      x: shadow.offsetX,
+      y: shadow.offsetY,
+      blur: shadow.blur,
+      spread: shadow.spread
+    }));
+    return tokenCssDeclarations('shadow', { layers });
+  }
+  if (Array.isArray(value)) return [];
+  if (Array.isArray(value.layers)) return tokenCssDeclarations('shadow', value);
+  if (Array.isArray(value.grids)) return tokenCssDeclarations('grid', value);
+  if (type === 'typography') {
+    // El DTCG siempre escribe letterSpacing (0 por defecto); el diseño no emite el espaciado nulo
+    const { letterSpacing, ...typography } = value;
+    const emptySpacing = dtcg && parseFloat(String(letterSpacing)) === 0;
+    return tokenCssDeclarations('typography', emptySpacing ? typography : value);
+  }
+
+  return Object.entries<any>(value)
+    .filter(([, propertyValue]) => propertyValue !== null && typeof propertyValue !== 'object')
+    .map(([property, propertyValue]) => [`-${kebabCase(property)}`, String(propertyValue)] as [string, string]);
+}
+
+/**
+ * Recorre un objeto de tokens (JSON propio, DTCG, Style Dictionary o tema CSS-in-JS):
+ * un objeto con `value`/`$value` es un token y los valores simples son tokens de su ruta.
+ * Los valores por modo (`modes` o `$extensions.com.figma.modes`) son tokens de ese tema,
+ * salvo con `modes: false` (cuando el fichero ya trae un tema completo por modo)
+ */
+function collectObjectTokens(data: any, options: { theme?: string; modes?: boolean } = {}): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  const push = (name: string, value: string, theme = options.theme) => {
+    tokens.push({ name, value, ...(theme && { theme }) });
+  };
+
+  const visit = (node: any, path: string[]): void => {
+    if (node === null || node === undefined) return;
+
+    if (typeof node !== 'object') {
+      if (path.length > 0) push(pathToCssVariable(path), String(node));
+      return;
+    }
+
+    if (Array.isArray(node)) return;
+
+    const dtcg = '$value' in node;
+    const tokenValue = dtcg ? node.$value : 'value' in node ? node.value : undefined;
+    if (tokenValue === undefined) {
+      for (const key in node) {
+        if (!key.startsWith('$')) visit(node[key], [...path, key]);
+      }
+      return;
+    }
+
+    // En DTCG solo los tokens inferidos (sin estilo ni variable de Figma) y sin ruta propia se
+    // agrupan como tipo/categoría/nombre
+    const figmaData = dtcg ? node.$extensions?.['com.figma'] : undefined;
+    const inferred = !figmaData || (!figmaData.styleId && !figmaData.variableId);
+    const name = pathToCssVariable(path, !dtcg || (inferred && path.length > 2));
+    const type = dtcg ? node.$type : node.type;
+    const opacity = typeof node.opacity === 'number' ? node.opacity : undefined;
+    objectTokenDeclarations(type, tokenValue, opacity, dtcg)
+      .forEach(([suffix, value]) => push(`${name}${suffix}`, value));
+
+    const modes = dtcg ? figmaData?.modes : node.modes;
+    if (options.modes === false || !modes || typeof modes !== 'object') return;
+    for (const mode in modes) {
+      // En DTCG el modo trae directamente el valor; en el JSON propio, `{ value, opacity }`
+      const modeValue = dtcg ? modes[mode] : modes[mode]?.value;
+      const modeOpacity = !dtcg && typeof modes[mode]?.opacity === 'number' ? modes[mode].opacity : undefined;
+      objectTokenDeclarations(type, modeValue, modeOpacity, dtcg)
+        .forEach(([suffix, value]) => push(`${name}${suffix}`, value, mode));
+    }
+  };
+
+  visit(data, []);
+  return tokens;
+}
+
+/**
+ * Extrae los objetos literales asignados a constantes de un fichero JS/TS
+ * (`const designTokens = {...}`, `export const themes: Record<ThemeName, Theme> = {...}`)
+ */
+function extractObjectLiterals(content: string): Array<{ name: string; value: any }> {
+  const assignmentPattern = /(?:const|let|var)\s+(\w+)(?:\s*:\s*[^=]+)?\s*=\s*\{/g;
+  const literals: Array<{ name: string; value: any }> = [];
+  let parseError: unknown = null;
+
+  let assignment: RegExpExecArray | null;
+  while ((assignment = assignmentPattern.exec(content)) !== null) {
+    const start = assignment.index + assignment[0].length - 1;
+    let depth = 0;
+    let quote: string | null = null;
+    let end = start;
+    for (; end < content.length; end++) {
+      const char = content[end];
+      if (quote) {
+        if (char === '\\') end++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        break;
+      }
+    }
+
+    // Los objetos que no son datos (con funciones, expresiones...) no contienen tokens
+    try {
+      literals.push({ name: assignment[1], value: parseObjectLiteral(content.slice(start, end + 1)) });
+    } catch (error) {
+      parseError = parseError || error;
+    }
+    assignmentPattern.lastIndex = end + 1;
+  }
+
+  if (literals.length === 0) {
+    throw parseError || new Error('No object literal assigned to a constant was found');
+  }
+  return literals;
+}
+
+/**
+ * Convierte un objeto literal en JSON; admite los escritos a mano con claves sin comillas,
+ * comillas simples y comas finales
+ */
+function parseObjectLiteral(literal: string): any {
+  try {
+    return JSON.parse(literal);
+  } catch {
+    const relaxed = literal
+      .replace(/\/\/[^\n]*/g, '')
+      .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+      .replace(/'([^'\\]*)'/g, '"$1"')
+      .replace(/,(\s*[}\]])/g, '$1');
+    return JSON.parse(relaxed);
+  }
+}
+
+/**
+ * Lee los tokens de los objetos de un fichero JS/TS. El registro `themes` (tema → tokens completos)
+ * aporta los valores de cada tema; si existe, los `modes` de los tokens no se leen para no duplicarlos
+ */
+function collectScriptTokens(content: string): CodeToken[] {
+  const literals = extractObjectLiterals(content);
+  const themes = literals.find(literal => literal.name === 'themes');
+  return literals.flatMap(literal => literal === themes
+    ? Object.keys(literal.value).flatMap(theme => collectObjectTokens(literal.value[theme], { theme }))
+    : collectObjectTokens(literal.value, { modes: !themes }));
+}
+
+/**
+ * Sustituye las referencias `var(--x)` y `{grupo.token}` por el valor del token referenciado.
+ * En un tema se usa el valor del token en ese mismo tema si lo tiene
+ */
+function resolveTokenReferences(tokens: CodeToken[]): CodeToken[] {
+  const byName = new Map(tokens.map(token => [`${token.theme || ''}|${token.name}`, token.value]));
+  const lookup = (name: string, theme?: string): string | undefined =>
+    (theme ? byName.get(`${theme}|${name}`) : undefined) ?? byName.get(`|${name}`);
+
+  const resolve = (value: string, theme?: string, depth = 0): string => {
+    if (depth > 10) return value;
+    const cssReference = value.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/);
+    if (cssReference) {
+      const target = lookup(cssReference[1], theme);
+      return target !== undefined ? resolve(target, theme, depth + 1) : cssReference[2] || value;
+    }
+    const groupReference = value.match(/^\{([^}]+)\}$/);
+    if (groupReference) {
+      const segments = groupReference[1].replace(/\.value$/, '').split('.');
+      const target = lookup(pathToCssVariable(segments, false), theme) ?? lookup(pathToCssVariable(segments), theme);
+      return target !== undefined ? resolve(target, theme, depth + 1) : value;
+    }
+    return value;
+  };
+
+  return tokens.map(token => ({ ...token, value: resolve(token.value, token.theme) }));
+}
+
+/**
+ * Lee los tokens de un fichero en cualquiera de los formatos que escribe `extract_design_tokens`;
+ * las entradas que no se pueden leer como token se devuelven en `skipped`
+ */
+export function parseTokenFile(content: string, format: TokenFileFormat): ParsedTokenFile {
+  let tokens: CodeToken[];
+  let skipped: SkippedCodeToken[] = [];
+  switch (format) {
+    case 'css':
+      tokens = parseCssTokens(content);
+      break;
+    case 'scss':
+      ({ tokens, skipped } = parseScssTokens(content));
+      break;
+    case 'json':
+      tokens = collectObjectTokens(JSON.parse(content));
+      break;
+    case 'js':
+    case 'ts':
+      tokens = collectScriptTokens(content);
+      break;
+  }
+  return { tokens: resolveTokenReferences(tokens), skipped };
+}
+
+/**
+ * Valor de token normalizado para poder compararlo entre formatos
+ */
+type NormalizedValue =
+  | { kind: 'color'; key: string; rgba: [number, number, number, number] }
+  | { kind: 'dimension'; key: string; amount: number; unit: string }
+  | { kind: 'other'; key: string };
+
+/**
+ * Normaliza un valor: colores a HEX (con alfa), dimensiones a píxeles (`rem` = 16px) y el resto a texto
+ */
+function normalizeTokenValue(rawValue: string): NormalizedValue {
+  let value = rawValue.trim().replace(/^["']|["']$/g, '');
+
+  // Opacidad separada del color en el JSON propio (`#rrggbb/0.8`)
+  let opacity: number | undefined;
+  const opacityMatch = value.match(/^(#[0-9a-f]{6})\/([\d.]+)$/i);
+  if (opacityMatch) {
+    value = opacityMatch[1];
+    opacity = parseFloat(opacityMatch[2]);
+  }
+
+  let rgba: [number, number, number, number] | undefined;
+  const hex = value.match(/^#([0-9a-f]{3,8})$/i);
+  if (hex && [3, 4, 6, 8].includes(hex[1].length)) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    rgba = [
+      parseInt(digits.slice(0, 2), 16),
+      parseInt(digits.slice(2, 4), 16),
+      parseInt(digits.slice(4, 6), 16),
+      digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : opacity ?? 1
+    ];
+  }
+  const rgb = value.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    rgba = [Math.round(+rgb[1]), Math.round(+rgb[2]), Math.round(+rgb[3]), alpha];
+  }
+  if (rgba) {
+    const toHex = (channel: number) => channel.toString(16).padStart(2, '0');
+    const alpha = Math.round(rgba[3] * 100) / 100;
+    return {
+      kind: 'color',
+      key: `#${toHex(rgba[0])}${toHex(rgba[1])}${toHex(rgba[2])}${alpha < 1 ? `/${alpha}` : ''}`,
+      rgba: [rgba[0], rgba[1], rgba[2], alpha]
+    };
+  }
+
+  const dimension = value.match(/^(-?\d*\.?\d+)(px|rem|em|%)?$/i);
+  if (dimension) {
+    const unit = (dimension[2] || '').toLowerCase();
+    const amount = unit === 'rem' ? parseFloat(dimension[1]) * 16 : parseFloat(dimension[1]);
+    const normalizedUnit = unit === 'rem' ? 'px' : unit;
+    return { kind: 'dimension', key: `${Math.round(amount * 100) / 100}${normalizedUnit}`, amount, unit: normalizedUnit };
+  }
+
+  // Valores compuestos (sombras...): cada color se normaliza por separado
+  const key = value.replace(/#[0-9a-f]{3,8}\b|rgba?\([^)]*\)/gi, color => {
+    const normalized = normalizeTokenValue(color);
+    return normalized.kind === 'color' ? normalized.key : color;
+  });
+  return { kind: 'other', key: key.replace(/\s+/g, ' ').toLowerCase() };
+}
+
+/**
+ * Devuelve una función que expresa en píxeles el interlineado (multiplicador, % o em) y el espaciado
+ * entre letras (em o %) de un token de tipografía, con el tamaño de fuente del mismo token:
+ * para 32px, `1.25` y `40px` son el mismo interlineado y `-0.02em` y `-0.64px` el mismo espaciado
+ */
+function typographyInPixels(tokens: CodeToken[]): (token: CodeToken) => string {
+  const fontSizes = new Map<string, number>();
+  tokens.forEach(token => {
+    if (!token.name.endsWith('-font-size')) return;
+    const size = normalizeTokenValue(token.value);
+    if (size.kind === 'dimension' && size.unit === 'px') {
+      fontSizes.set(`${token.theme || ''}|${token.name.slice(0, -'-font-size'.length)}`, size.amount);
+    }
+  });
+
+  return token => {
+    const property = token.name.match(/-(line-height|letter-spacing)$/);
+    if (!property) return token.value;
+    const base = token.name.slice(0, -property[0].length);
+    const fontSize = fontSizes.get(`${token.theme || ''}|${base}`) ?? fontSizes.get(`|${base}`);
+    const amount = token.value.trim().replace(/^["']|["']$/g, '').match(/^(-?\d*\.?\d+)(em|%)?$/i);
+    if (fontSize === undefined || !amount) return token.value;
+
+    const unit = (amount[2] || '').toLowerCase();
+    if (!unit && property[1] === 'letter-spacing') return token.value;
+    const pixels = parseFloat(amount[1]) * fontSize / (unit === '%' ? 100 : 1);
+    return `${Math.round(pixels * 100) / 100}px`;
+  };
+}
+
+/**
+ * Diferencia entre dos valores del mismo tipo o `null` si no son comparables.
+ * En colores es la mayor diferencia por canal (0-255); en dimensiones, la diferencia absoluta
+ */
+function valueDistance(a: NormalizedValue, b: NormalizedValue): number | null {
+  if (a.kind === 'color' && b.kind === 'color') {
+    if (Math.abs(a.rgba[3] - b.rgba[3]) > 0.02) return null;
+    return Math.max(...[0, 1, 2].map(i => Math.abs(a.rgba[i] - b.rgba[i])));
+  }
+  if (a.kind === 'dimension' && b.kind === 'dimension' && a.unit === b.unit) {
+    return Math.abs(a.amount - b.amount);
+  }
+  return null;
+}
+
+/**
+ * Resultado de comparar los tokens del diseño con los de un fichero de código
+ */
+export interface TokenDriftReport {
+  summary: {
+    designTokens: number;
+    codeTokens: number;
+    inSync: number;
+    missingInCode: number;
+    unusedInCode: number;
+    nearMisses: number;
+    valueMismatches: number;
+    renamed: number;
+  };
+  missingInCode: CodeToken[];
+  unusedInCode: CodeToken[];
+  renamed: { designToken: string; codeToken: string; value: string; theme?: string }[];
+  nearMisses: { designToken: string; designValue: string; codeToken: string; codeValue: string; difference: number; theme?: string }[];
+  valueMismatches: { name: string; designValue: string; codeValue: string; theme?: string }[];
+}
+
+/**
+ * Compara los tokens del diseño con los del código: primero por nombre y, sin contrapartida por
+ * nombre, por valor. Un token del código con el mismo valor y otro nombre que no corresponde a
+ * ningún token del diseño es un renombrado; los valores casi iguales (dentro de la tolerancia)
+ * se señalan como `nearMisses` en lugar de como ausentes
+ */
+export function checkTokenDrift(
+  designTokens: CodeToken[],
+  codeTokens: CodeToken[],
+  options: { colorTolerance: number; dimensionTolerance: number }
+): TokenDriftReport {
+  const designValue = typographyInPixels(designTokens);
+  const codeValue = typographyInPixels(codeTokens);
+  const design = designTokens.map(token => ({ token, normalized: normalizeTokenValue(designValue(token)) }));
+  const code = codeTokens.map(token => ({ token, normalized: normalizeTokenValue(codeValue(token)) }));
+  const codeValues = new Set(code.map(entry => entry.normalized.key));
+  const designValues = new Set(design.map(entry => entry.normalized.key));
+
+  const report: TokenDriftReport = {
+    summary: { designTokens: design.length, codeTokens: code.length, inSync: 0, missingInCode: 0, unusedInCode: 0, nearMisses: 0, valueMismatches: 0, renamed: 0 },
+    missingInCode: [],
+    unusedInCode: [],
+    renamed: [],
+    nearMisses: [],
+    valueMismatches: []
+  };
+  const matchedCodeTokens = new Set<CodeToken>();
+  // Tokens del código que ya tienen contrapartida por nombre: no pueden ser el renombrado de otro
+  const designNames = new Set(design.map(({ token }) => `${token.theme || ''}|${token.name}`));
+  const namedInDesign = (entry: typeof code[number]) => designNames.has(`${entry.token.theme || ''}|${entry.token.name}`);
+
+  design.forEach(({ token, normalized }) => {
+    const tolerance = normalized.kind === 'color' ? options.colorTolerance : options.dimensionTolerance;
+    const nearMiss = (entry: typeof code[number], distance: number) => ({
+      designToken: token.name,
+      designValue: token.value,
+      codeToken: entry.token.name,
+      codeValue: entry.token.value,
+      difference: Math.round(distance * 100) / 100,
+      ...(token.theme && { theme: token.theme })
+    });
+
+    // El token del código con el mismo nombre (y tema) es su contrapartida directa
+    const sameName = code.find(entry => entry.token.name === token.name && entry.token.theme === token.theme);
+    if (sameName) {
+      matchedCodeTokens.add(sameName.token);
+      const distance = valueDistance(normalized, sameName.normalized);
+      if (sameName.normalized.key === normalized.key) {
+        report.summary.inSync++;
+      } else if (distance !== null && distance <= tolerance) {
+        report.nearMisses.push(nearMiss(sameName, distance));
+      } else {
+        report.valueMismatches.push({
+          name: token.name,
+          designValue: token.value,
+          codeValue: sameName.token.value,
+          ...(token.theme && { theme: token.theme })
+        });
+      }
+      return;
+    }
+
+    // Sin contrapartida por nombre, un token del código sin pareja con el mismo valor es un renombrado
+    const renamed = code.find(entry => entry.normalized.key === normalized.key && entry.token.theme === token.theme &&
+      !namedInDesign(entry) && !matchedCodeTokens.has(entry.token));
+    if (renamed) {
+      matchedCodeTokens.add(renamed.token);
+      report.renamed.push({
+        designToken: token.name,
+        codeToken: renamed.token.name,
+        value: token.value,
+        ...(token.theme && { theme: token.theme })
+      });
+      return;
+    }
+
+    // Si no, basta con que el valor exista en el código (bajo otro token que ya se usa)
+    if (codeValues.has(normalized.key)) {
+      report.summary.inSync++;
+      return;
+    }
+
+    // Valor casi igual al de algún token del código: se señala el más cercano
+    let nearest: typeof code[number] | undefined;
+    let nearestDistance = Infinity;
+    for (const entry of code) {
+      const distance = valueDistance(normalized, entry.normalized);
+      if (distance !== null && distance > 0 && distance <= tolerance && distance < nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    }
+
+    if (nearest) {
+      matchedCodeTokens.add(nearest.token);
+      report.nearMisses.push(nearMiss(nearest, nearestDistance));
+      return;
+    }
+
+    report.missingInCode.push(token);
+  });
+
+  report.unusedInCode = code
+    .filter(entry => !designValues.has(entry.normalized.key) && !matchedCodeTokens.has(entry.token))
+    .map(entry => entry.token);
+
+  report.summary.missingInCode = report.missingInCode.length;
+  report.summary.unusedInCode = report.unusedInCode.length;
+  report.summary.nearMisses = report.nearMisses.length;
+  report.summary.valueMismatches = report.valueMismatches.length;
+  report.summary.renamed = report.renamed.length;
+
+  return report;
+}
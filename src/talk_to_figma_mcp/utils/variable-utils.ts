@@ -0,0 +1,242 @@
+/**
+ * Funciones de utilidad para trabajar con variables de Figma
+ */
+
+import {
+  FigmaColor,
+  FigmaVariable,
+  FigmaVariableAlias,
+  FigmaVariableCollection,
+  FigmaVariables,
+  FigmaVariableValue
+} from '../types/figma-types';
+
+/**
+ * Variables y colecciones indexadas por ID
+ */
+export interface VariableIndex {
+  variables: Map<string, FigmaVariable>;
+  collections: Map<string, FigmaVariableCollection>;
+}
+
+/**
+ * Resultado de resolver el valor de una variable siguiendo sus alias
+ */
+export interface ResolvedVariableValue {
+  value: Exclude<FigmaVariableValue, FigmaVariableAlias> | null;
+  aliasChain: string[];
+  resolved: boolean;
+}
+
+/**
+ * Uso de una variable por una propiedad de un nodo
+ */
+export interface VariableUsage {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  property: string;
+}
+
+/**
+ * Indica si un valor de variable es una referencia a otra variable
+ */
+export function isVariableAlias(value: unknown): value is FigmaVariableAlias {
+  return typeof value === 'object' && value !== null && 'type' in value && value.type === 'VARIABLE_ALIAS';
+}
+
+/**
+ * Indica si un valor de variable es un color
+ */
+export function isVariableColor(value: unknown): value is FigmaColor {
+  return typeof value === 'object' && value !== null && 'r' in value && 'g' in value && 'b' in value;
+}
+
+/**
+ * Indexa por ID las variables y colecciones de una respuesta de `get_variables`
+ */
+export function indexVariables(data: FigmaVariables): VariableIndex {
+  return {
+    variables: new Map(data.variables.map(variable => [variable.id, variable])),
+    collections: new Map(data.collections.map(collection => [collection.id, collection]))
+  };
+}
+
+/**
+ * Resuelve el valor de una variable en un modo, siguiendo la cadena de alias.
+ * Si el alias apunta a otra colección se usa el modo por defecto de esa colección
+ */
+export function resolveVariableValue(index: VariableIndex, variableId: string, modeId: string): ResolvedVariableValue {
+  const aliasChain: string[] = [];
+  const visited = new Set<string>();
+
+  let variable = index.variables.get(variableId);
+  let currentModeId = modeId;
+
+  while (variable) {
+    if (visited.has(variable.id)) {
+      // Referencia circular: no hay valor final
+      return { value: null, aliasChain, resolved: false };
+    }
+    visited.add(variable.id);
+
+    const value = variable.valuesByMode[currentModeId];
+    if (!isVariableAlias(value)) {
+      return { value: value === undefined ? null : value, aliasChain, resolved: value !== undefined };
+    }
+
+    const target = index.variables.get(value.id);
+    aliasChain.push(target ? target.name : value.id);
+
+    if (target && target.variableCollectionId !== variable.variableCollectionId) {
+      const targetCollection = index.collections.get(target.variableCollectionId);
+      currentModeId = targetCollection ? targetCollection.defaultModeId : currentModeId;
+    }
+    variable = target;
+  }
+
+  // El alias apunta a una variable que no está disponible (p. ej. de una librería no cargada)
+  return { value: null, aliasChain, resolved: false };
+}
+
+/**
+ * Busca referencias a variables dentro de un valor de `boundVariables`
+ */
+function findAliases(value: unknown, path: string, found: (property: string, alias: FigmaVariableAlias) => void): void {
+  if (isVariableAlias(value)) {
+    found(path, value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => findAliases(item, `${path}[${i}]`, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      findAliases(item, path ? `${path}.${key}` : key, found);
+    }
+  }
+}
+
+/**
+ * Recorre un árbol JSON_REST_V1 y devuelve, por ID de variable, las propiedades de nodos que la usan
+ */
+export function collectVariableUsage(root: any): Map<string, VariableUsage[]> {
+  const usage = new Map<string, VariableUsage[]>();
+
+  const visit = (node: any): void => {
+    if (!node || typeof node !== 'object') return;
+
+    const record = (property: string, alias: FigmaVariableAlias): void => {
+      if (!usage.has(alias.id)) {
+        usage.set(alias.id, []);
+      }
+      usage.get(alias.id)!.push({ nodeId: node.id, nodeName: node.name, nodeType: node.type, property });
+    };
+
+    const boundVariables = node.boundVariables || {};
+    findAliases(boundVariables, '', record);
+
+    // Los rellenos, trazos y efectos también llevan sus propias variables enlazadas
+    for (const key of ['fills', 'strokes', 'effects', 'layoutGrids']) {
+      if (boundVariables[key] || !Array.isArray(node[key])) continue;
+      node[key].forEach((entry: any, i: number) => {
+        if (entry && entry.boundVariables) {
+          findAliases(entry.boundVariables, `${key}[${i}]`, record);
+        }
+      });
+    }
+
+    if (Array.isArray(node.children)) {
+      node.children.forEach(visit);
+    }
+  };
+
+  visit(root);
+  return usage;
+}
+
+/**
+ * Convierte un valor resuelto de variable en un valor legible (colores en HEX)
+ */
+export function formatVariableValue(value: ResolvedVariableValue['value']): string | number | boolean | null {
+  if (isVariableColor(value)) {
+    const toHex = (channel: number) => Math.round(channel * 255).toString(16).padStart(2, '0');
+    const alpha = value.a !== undefined && value.a < 1 ? toHex(value.a) : '';
+    return `#${toHex(value.r)}${toHex(value.g)}${toHex(value.b)}${alpha}`;
+  }
+  return value;
+}
+
+/**
+ * Construye la descripción de las variables que devuelve la herramienta `get_variables`:
+ * valores por nombre de modo, cadenas de alias resueltas y, opcionalmente, su uso en nodos
+ */
+export function describeVariables(
+  data: FigmaVariables,
+  options: { collectionId?: string; usage?: Map<string, VariableUsage[]> } = {}
+): any {
+  const index = indexVariables(data);
+  const collections = data.collections.filter(
+    collection => !options.collectionId || collection.id === options.collectionId
+  );
+  const collectionIds = new Set(collections.map(collection => collection.id));
+
+  const variables = data.variables
+    .filter(variable => collectionIds.has(variable.variableCollectionId))
+    .map(variable => {
+      const collection = index.collections.get(variable.variableCollectionId)!;
+
+      const values: Record<string, any> = {};
+      for (const mode of collection.modes) {
+        const rawValue = variable.valuesByMode[mode.modeId];
+        const resolved = resolveVariableValue(index, variable.id, mode.modeId);
+        values[mode.name] = {
+          value: formatVariableValue(resolved.value),
+          ...(isVariableAlias(rawValue) && {
+            aliasOf: index.variables.get(rawValue.id)?.name || rawValue.id,
+            aliasChain: resolved.aliasChain
+          }),
+          ...(!resolved.resolved && { unresolved: true })
+        };
+      }
+
+      return {
+        id: variable.id,
+        name: variable.name,
+        collectionId: collection.id,
+        collection: collection.name,
+        resolvedType: variable.resolvedType,
+        description: variable.description || undefined,
+        scopes: variable.scopes,
+        codeSyntax: variable.codeSyntax && Object.keys(variable.codeSyntax).length > 0 ? variable.codeSyntax : undefined,
+        remote: variable.remote || undefined,
+        valuesByMode: values,
+        ...(options.usage && { usage: options.usage.get(variable.id) || [] })
+      };
+    });
+
+  const countByType: Record<string, number> = {};
+  variables.forEach(variable => {
+    countByType[variable.resolvedType] = (countByType[variable.resolvedType] || 0) + 1;
+  });
+
+  return {
+    collections: collections.map(collection => ({
+      id: collection.id,
+      name: collection.name,
+      modes: collection.modes,
+      defaultMode: collection.modes.find(mode => mode.modeId === collection.defaultModeId)?.name,
+      variableCount: variables.filter(variable => variable.collectionId === collection.id).length,
+      remote: collection.remote || undefined
+    })),
+    variables,
+    statistics: {
+      collectionCount: collections.length,
+      variableCount: variables.length,
+      variablesByType: countByType,
+      aliasCount: variables.filter(variable =>
+        Object.values(variable.valuesByMode).some((value: any) => value.aliasOf)
+      ).length,
+      ...(options.usage && {
+        unusedCount: variables.filter(variable => (options.usage!.get(variable.id) || []).length === 0).length
+      })
+    }
+  };
+}